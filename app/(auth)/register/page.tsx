@@ -343,6 +343,17 @@ export default function RegisterPage() {
       return;
     }
 
+    // Record the PA's membership so they can later join more productions with the same account
+    if (role === "PA" && productionId) {
+      const { error: membershipError } = await supabase
+        .from("production_members")
+        .insert({ production_id: productionId, user_id: user.id, role: "PA" });
+
+      if (membershipError) {
+        console.error("Error adding production membership:", membershipError);
+      }
+    }
+
     // 3) Try to sign in automatically
     const { error: signInError } = await supabase.auth.signInWithPassword({
       email,
@@ -0,0 +1,352 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import type { Database } from '@/lib/supabase/types';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    createAvailabilityRuleClient,
+    deleteAvailabilityRuleClient,
+    updateAvailabilityRuleClient,
+} from '@/lib/shifts/api';
+import type { AvailabilityRuleInput } from '@/lib/shifts/availability-rules';
+import { formatISODate, getTodayInTimezone } from '@/lib/utils/dates';
+
+type AvailabilityRule = Database['public']['Tables']['availability_rules']['Row'];
+type RuleStatus = AvailabilityRule['status'];
+
+interface PAAvailabilityRulesProps {
+    rules: AvailabilityRule[];
+    timezone?: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const WEEKENDS = [0, 6];
+
+const STATUS_OPTIONS: Array<{ value: RuleStatus; label: string; className: string }> = [
+    { value: 'unavailable', label: 'Unavailable', className: 'bg-red-300 text-red-900' },
+    { value: 'available', label: 'Available', className: 'bg-green-300 text-green-900' },
+    { value: 'preferred', label: 'Preferred', className: 'bg-green-600 text-white' },
+];
+
+function formatDate(dateStr: string): string {
+    return formatISODate(dateStr, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// "Every Tue, Thu" / "Weekends" / "Every day"
+function describeWeekdays(weekdays: number[]): string {
+    if (weekdays.length === 7) return 'Every day';
+    if (weekdays.length === 2 && WEEKENDS.every((day) => weekdays.includes(day))) return 'Weekends';
+    if (weekdays.length === 5 && !weekdays.some((day) => WEEKENDS.includes(day))) return 'Weekdays';
+    return `Every ${weekdays.map((day) => WEEKDAYS[day]).join(', ')}`;
+}
+
+function toInput(rule: AvailabilityRule): AvailabilityRuleInput {
+    return {
+        status: rule.status,
+        weekdays: rule.weekdays,
+        startDate: rule.start_date,
+        endDate: rule.end_date,
+        exceptions: rule.exceptions,
+    };
+}
+
+export function PAAvailabilityRules({ rules: initialRules, timezone }: PAAvailabilityRulesProps) {
+    const router = useRouter();
+    const [rules, setRules] = useState<AvailabilityRule[]>(initialRules);
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<AvailabilityRuleInput | null>(null);
+    const [newException, setNewException] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    const openEditor = useCallback((rule: AvailabilityRule | null) => {
+        setEditingRuleId(rule?.id ?? null);
+        setDraft(
+            rule
+                ? toInput(rule)
+                : {
+                    status: 'unavailable',
+                    weekdays: [],
+                    startDate: getTodayInTimezone(timezone),
+                    endDate: null,
+                    exceptions: [],
+                }
+        );
+        setNewException('');
+        setDialogOpen(true);
+    }, [timezone]);
+
+    const closeEditor = useCallback(() => {
+        setDialogOpen(false);
+        setEditingRuleId(null);
+        setDraft(null);
+    }, []);
+
+    const toggleWeekday = useCallback((day: number) => {
+        setDraft((prev) => prev && {
+            ...prev,
+            weekdays: prev.weekdays.includes(day)
+                ? prev.weekdays.filter((d) => d !== day)
+                : [...prev.weekdays, day].sort((a, b) => a - b),
+        });
+    }, []);
+
+    const addException = useCallback(() => {
+        if (!newException) return;
+        setDraft((prev) => prev && {
+            ...prev,
+            exceptions: [...new Set([...(prev.exceptions || []), newException])].sort(),
+        });
+        setNewException('');
+    }, [newException]);
+
+    const saveRule = useCallback(async () => {
+        if (!draft) return;
+
+        setIsSaving(true);
+        try {
+            if (editingRuleId) {
+                const rule = await updateAvailabilityRuleClient(editingRuleId, draft);
+                setRules((prev) => prev.map((r) => (r.id === rule.id ? rule : r)));
+            } else {
+                const rule = await createAvailabilityRuleClient(draft);
+                setRules((prev) => [...prev, rule]);
+            }
+            toast.success('Recurring availability saved');
+            closeEditor();
+            router.refresh();
+        } catch (error) {
+            console.error('PA: Failed to save availability rule:', error);
+            toast.error(`Failed to save rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsSaving(false);
+        }
+    }, [draft, editingRuleId, closeEditor, router]);
+
+    const deleteRule = useCallback(async (ruleId: string) => {
+        if (!confirm('Delete this rule? Upcoming days it filled in will be cleared.')) return;
+
+        setDeletingId(ruleId);
+        try {
+            await deleteAvailabilityRuleClient(ruleId);
+            setRules((prev) => prev.filter((r) => r.id !== ruleId));
+            toast.success('Recurring availability deleted');
+            router.refresh();
+        } catch (error) {
+            console.error('PA: Failed to delete availability rule:', error);
+            toast.error(`Failed to delete rule: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setDeletingId(null);
+        }
+    }, [router]);
+
+    const isValidDraft = !!draft
+        && draft.weekdays.length > 0
+        && !!draft.startDate
+        && (!draft.endDate || draft.endDate >= draft.startDate);
+
+    return (
+        <div className="space-y-4 p-4 md:p-6 bg-card border rounded-lg">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div>
+                    <h3 className="text-lg font-semibold">Recurring Availability</h3>
+                    <p className="text-sm text-muted-foreground">
+                        Standing rules fill in your calendar automatically. Days you set by hand always win.
+                    </p>
+                </div>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openEditor(null)}
+                    className="min-h-[44px] md:min-h-0 w-full md:w-auto"
+                >
+                    Add Rule
+                </Button>
+            </div>
+
+            {rules.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                    No recurring rules yet. For example: unavailable every Tuesday, or preferred on weekends through December.
+                </p>
+            ) : (
+                <div className="space-y-2">
+                    {rules.map((rule) => {
+                        const status = STATUS_OPTIONS.find((option) => option.value === rule.status);
+
+                        return (
+                            <div
+                                key={rule.id}
+                                className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 border rounded-md"
+                            >
+                                <div className="space-y-1 text-sm">
+                                    <div className="flex items-center gap-2">
+                                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${status?.className ?? ''}`}>
+                                            {status?.label ?? rule.status}
+                                        </span>
+                                        <span className="font-medium">{describeWeekdays(rule.weekdays)}</span>
+                                    </div>
+                                    <div className="text-muted-foreground">
+                                        {rule.end_date
+                                            ? `${formatDate(rule.start_date)} – ${formatDate(rule.end_date)}`
+                                            : `From ${formatDate(rule.start_date)}, no end date`}
+                                        {rule.exceptions.length > 0 &&
+                                            ` • ${rule.exceptions.length} ${rule.exceptions.length === 1 ? 'exception' : 'exceptions'}`}
+                                    </div>
+                                </div>
+                                <div className="flex gap-2">
+                                    <Button variant="outline" size="sm" onClick={() => openEditor(rule)}>
+                                        Edit
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => deleteRule(rule.id)}
+                                        disabled={deletingId === rule.id}
+                                    >
+                                        {deletingId === rule.id ? 'Deleting...' : 'Delete'}
+                                    </Button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeEditor()}>
+                <DialogContent className="sm:max-w-[500px]">
+                    <DialogHeader>
+                        <DialogTitle>{editingRuleId ? 'Edit Recurring Availability' : 'Add Recurring Availability'}</DialogTitle>
+                        <DialogDescription>
+                            Applies to the chosen days of the week between the start and end dates, except the dates you skip.
+                        </DialogDescription>
+                    </DialogHeader>
+                    {draft && (
+                        <div className="space-y-4 py-2">
+                            <div className="space-y-2">
+                                <Label>Status</Label>
+                                <Select
+                                    value={draft.status}
+                                    onValueChange={(value) => setDraft({ ...draft, status: value as RuleStatus })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {STATUS_OPTIONS.map((option) => (
+                                            <SelectItem key={option.value} value={option.value}>
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label>Days of the week</Label>
+                                <div className="grid grid-cols-7 gap-1">
+                                    {WEEKDAYS.map((label, day) => (
+                                        <Button
+                                            key={label}
+                                            type="button"
+                                            size="sm"
+                                            variant={draft.weekdays.includes(day) ? 'default' : 'outline'}
+                                            onClick={() => toggleWeekday(day)}
+                                            aria-pressed={draft.weekdays.includes(day)}
+                                        >
+                                            {label}
+                                        </Button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="space-y-2">
+                                    <Label htmlFor="rule-start-date">From</Label>
+                                    <Input
+                                        id="rule-start-date"
+                                        type="date"
+                                        value={draft.startDate}
+                                        onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label htmlFor="rule-end-date">Until (optional)</Label>
+                                    <Input
+                                        id="rule-end-date"
+                                        type="date"
+                                        value={draft.endDate ?? ''}
+                                        min={draft.startDate}
+                                        onChange={(e) => setDraft({ ...draft, endDate: e.target.value || null })}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="rule-exception">Skip dates</Label>
+                                <div className="flex gap-2">
+                                    <Input
+                                        id="rule-exception"
+                                        type="date"
+                                        value={newException}
+                                        min={draft.startDate}
+                                        max={draft.endDate ?? undefined}
+                                        onChange={(e) => setNewException(e.target.value)}
+                                    />
+                                    <Button type="button" variant="outline" onClick={addException} disabled={!newException}>
+                                        Skip
+                                    </Button>
+                                </div>
+                                {(draft.exceptions || []).length > 0 && (
+                                    <div className="flex flex-wrap gap-2">
+                                        {(draft.exceptions || []).map((date) => (
+                                            <button
+                                                key={date}
+                                                type="button"
+                                                onClick={() => setDraft({
+                                                    ...draft,
+                                                    exceptions: (draft.exceptions || []).filter((d) => d !== date),
+                                                })}
+                                                className="px-2 py-1 rounded bg-muted text-xs hover:bg-muted/70"
+                                                title="Remove exception"
+                                            >
+                                                {formatDate(date)} ✕
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    <DialogFooter>
+                        <Button variant="outline" onClick={closeEditor}>
+                            Cancel
+                        </Button>
+                        <Button onClick={saveRule} disabled={!isValidDraft || isSaving}>
+                            {isSaving ? 'Saving...' : 'Save Rule'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
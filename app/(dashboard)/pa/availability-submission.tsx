@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import type { Database } from '@/lib/supabase/types';
+import { toast } from 'sonner';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { requestAvailabilityUnlockClient, submitAvailabilityWeekClient } from '@/lib/shifts/api';
+import {
+    formatDeadline,
+    formatTimeUntil,
+    getDeadlineForWeek,
+    getSubmissionWeek,
+} from '@/lib/shifts/availability-deadline';
+import type { AvailabilityDeadline } from '@/lib/shifts/availability-deadline';
+import { formatISODate } from '@/lib/utils/dates';
+
+type AvailabilitySubmission = Database['public']['Tables']['availability_submissions']['Row'];
+
+interface PAAvailabilitySubmissionProps {
+    productionId: string;
+    deadline: AvailabilityDeadline;
+    submissions: AvailabilitySubmission[]; // The PA's submissions on this production, from this week on
+    timezone: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function formatWeek(weekStart: string): string {
+    return formatISODate(weekStart, { month: 'short', day: 'numeric' });
+}
+
+export function PAAvailabilitySubmission({
+    productionId,
+    deadline,
+    submissions: initialSubmissions,
+    timezone,
+}: PAAvailabilitySubmissionProps) {
+    const router = useRouter();
+    const [submissions, setSubmissions] = useState<AvailabilitySubmission[]>(initialSubmissions);
+    const [now, setNow] = useState(() => new Date());
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [unlockTarget, setUnlockTarget] = useState<AvailabilitySubmission | null>(null);
+    const [unlockReason, setUnlockReason] = useState('');
+
+    useEffect(() => {
+        setSubmissions(initialSubmissions);
+    }, [initialSubmissions]);
+
+    // Keeps the countdown current and moves on to the next week once the deadline passes
+    useEffect(() => {
+        const interval = setInterval(() => setNow(new Date()), MINUTE_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    const weekStart = useMemo(() => getSubmissionWeek(deadline, timezone, now), [deadline, timezone, now]);
+    const due = useMemo(() => getDeadlineForWeek(deadline, weekStart, timezone), [deadline, weekStart, timezone]);
+    const submission = submissions.find((s) => s.week_start === weekStart) ?? null;
+    // Submitted weeks that are still coming up, besides the one being collected
+    const otherLocked = submissions.filter((s) => s.week_start !== weekStart);
+
+    const submitWeek = useCallback(async () => {
+        if (!confirm(`Submit your availability for the week of ${formatWeek(weekStart)}? You'll need to ask your coordinator to change it afterwards.`)) {
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const created = await submitAvailabilityWeekClient(productionId, weekStart);
+            setSubmissions((prev) => [...prev, created]);
+            toast.success('Availability submitted');
+            router.refresh();
+        } catch (error) {
+            console.error('PA: Failed to submit availability:', error);
+            toast.error(`Failed to submit: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [productionId, weekStart, router]);
+
+    const requestUnlock = useCallback(async () => {
+        if (!unlockTarget) return;
+
+        setIsSubmitting(true);
+        try {
+            const updated = await requestAvailabilityUnlockClient(unlockTarget.id, unlockReason);
+            setSubmissions((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+            toast.success('Change request sent to your coordinator');
+            setUnlockTarget(null);
+            setUnlockReason('');
+        } catch (error) {
+            console.error('PA: Failed to request availability unlock:', error);
+            toast.error(`Failed to send request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    }, [unlockTarget, unlockReason]);
+
+    return (
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 md:p-4 bg-card border rounded-lg">
+            <div className="space-y-1">
+                <div className="font-semibold">Availability for the week of {formatWeek(weekStart)}</div>
+                {submission ? (
+                    <p className="text-sm text-muted-foreground">
+                        🔒 Submitted {formatISODate(submission.submitted_at.slice(0, 10), { month: 'short', day: 'numeric' })}.
+                        {submission.unlock_requested_at
+                            ? ' You asked to make changes; waiting for your coordinator.'
+                            : ' The week is locked.'}
+                    </p>
+                ) : (
+                    <p className="text-sm text-muted-foreground">
+                        Due {formatDeadline(due, timezone)} •{' '}
+                        <span className="font-medium text-foreground">{formatTimeUntil(due, now)} left</span>
+                    </p>
+                )}
+                {otherLocked.map((s) => (
+                    <p key={s.id} className="text-xs text-muted-foreground">
+                        🔒 Week of {formatWeek(s.week_start)} submitted
+                        {s.unlock_requested_at ? ' • changes requested' : (
+                            <>
+                                {' • '}
+                                <button onClick={() => setUnlockTarget(s)} className="text-primary hover:underline">
+                                    Request changes
+                                </button>
+                            </>
+                        )}
+                    </p>
+                ))}
+            </div>
+            {submission ? (
+                !submission.unlock_requested_at && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setUnlockTarget(submission)}
+                        className="min-h-[44px] md:min-h-0 w-full md:w-auto"
+                    >
+                        Request Changes
+                    </Button>
+                )
+            ) : (
+                <Button
+                    size="sm"
+                    onClick={submitWeek}
+                    disabled={isSubmitting}
+                    className="min-h-[44px] md:min-h-0 w-full md:w-auto"
+                >
+                    {isSubmitting ? 'Submitting...' : 'Submit Week'}
+                </Button>
+            )}
+
+            <Dialog open={!!unlockTarget} onOpenChange={(open) => !open && setUnlockTarget(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Request Changes</DialogTitle>
+                        <DialogDescription>
+                            Your coordinator will reopen the week of {unlockTarget && formatWeek(unlockTarget.week_start)} so you
+                            can update it and submit again.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2 py-4">
+                        <Label htmlFor="unlock-reason">What do you need to change?</Label>
+                        <textarea
+                            id="unlock-reason"
+                            className="flex min-h-[80px] w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                            value={unlockReason}
+                            onChange={(e) => setUnlockReason(e.target.value)}
+                            placeholder="e.g., I can work Wednesday after all"
+                            maxLength={500}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setUnlockTarget(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={requestUnlock} disabled={isSubmitting || !unlockReason.trim()}>
+                            {isSubmitting ? 'Sending...' : 'Send Request'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import type { Database } from '@/lib/supabase/types';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { claimOpenShiftClient } from '@/lib/shifts/api';
+import { wrapsNextDay } from '@/lib/shifts/time';
+import { formatISODate } from '@/lib/utils/dates';
+
+type OpenShift = Database['public']['Tables']['open_shifts']['Row'];
+
+interface PAOpenShiftsProps {
+    productionId: string;
+    openShifts: OpenShift[];
+    availableDates: string[]; // Dates the PA marked available/preferred and isn't booked on
+}
+
+function formatDate(dateStr: string): string {
+    return formatISODate(dateStr, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+    });
+}
+
+function formatTime(timeStr: string | null): string {
+    if (!timeStr) return 'Not set';
+    const parts = timeStr.split(':');
+    if (parts.length >= 2) {
+        return `${parts[0]}:${parts[1]}`;
+    }
+    return timeStr;
+}
+
+export function PAOpenShifts({ productionId, openShifts: initialOpenShifts, availableDates }: PAOpenShiftsProps) {
+    const [openShifts, setOpenShifts] = useState<OpenShift[]>(initialOpenShifts);
+    const [claimingId, setClaimingId] = useState<string | null>(null);
+
+    // Real-time subscription so slot counts update and filled shifts disappear
+    useEffect(() => {
+        const supabase = createClient();
+        const channel = supabase
+            .channel(`pa-open-shifts-${productionId}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'open_shifts',
+                    filter: `production_id=eq.${productionId}`,
+                },
+                (payload) => {
+                    if (payload.eventType === 'DELETE') {
+                        setOpenShifts((prev) => prev.filter((o) => o.id !== payload.old.id));
+                        return;
+                    }
+
+                    const changed = payload.new as OpenShift;
+                    setOpenShifts((prev) => {
+                        const others = prev.filter((o) => o.id !== changed.id);
+                        if (changed.status !== 'open' || !availableDates.includes(changed.date)) {
+                            return others;
+                        }
+                        return [...others, changed].sort((a, b) => a.date.localeCompare(b.date));
+                    });
+                }
+            )
+            .subscribe((status) => {
+                if (status === 'CHANNEL_ERROR') {
+                    console.error('PA: Error subscribing to open shift changes');
+                }
+            });
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [productionId, availableDates]);
+
+    const claimShift = useCallback(async (openShiftId: string) => {
+        setClaimingId(openShiftId);
+        try {
+            await claimOpenShiftClient(openShiftId);
+            // The new shift shows up under My Shifts through its own subscription
+            setOpenShifts((prev) => prev.filter((o) => o.id !== openShiftId));
+            toast.success('Shift claimed! It has been added to your shifts.');
+        } catch (error) {
+            console.error('PA: Failed to claim open shift:', error);
+            toast.error(
+                `Failed to claim shift: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        } finally {
+            setClaimingId(null);
+        }
+    }, []);
+
+    if (openShifts.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-4 md:space-y-3">
+            <h2 className="text-2xl md:text-2xl font-semibold">Open Shifts</h2>
+            {openShifts.map((openShift) => {
+                const slotsLeft = openShift.slots_total - openShift.slots_filled;
+
+                return (
+                    <div
+                        key={openShift.id}
+                        className="p-5 md:p-4 border rounded-lg bg-card flex flex-col md:flex-row md:items-center md:justify-between gap-4"
+                    >
+                        <div className="space-y-1 text-base md:text-sm">
+                            <div className="font-semibold text-lg md:text-base">
+                                {formatDate(openShift.date)}
+                            </div>
+                            <div>
+                                <span className="font-medium">Call / Wrap:</span>{' '}
+                                <span className="text-muted-foreground">
+                                    {formatTime(openShift.call_time)} – {formatTime(openShift.wrap_time)}
+                                    {wrapsNextDay(openShift) && ' (next day)'}
+                                </span>
+                            </div>
+                            {openShift.location && (
+                                <div>
+                                    <span className="font-medium">Location:</span>{' '}
+                                    <span className="text-muted-foreground">{openShift.location}</span>
+                                </div>
+                            )}
+                            <div className="text-muted-foreground">
+                                {slotsLeft} of {openShift.slots_total} {openShift.slots_total === 1 ? 'slot' : 'slots'} left
+                            </div>
+                        </div>
+                        <Button
+                            size="sm"
+                            onClick={() => claimShift(openShift.id)}
+                            disabled={claimingId === openShift.id}
+                            className="w-full md:w-auto min-h-[44px] md:min-h-0 text-base md:text-sm"
+                        >
+                            {claimingId === openShift.id ? 'Claiming...' : 'Claim Shift'}
+                        </Button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
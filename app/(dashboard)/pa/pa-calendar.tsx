@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { Fragment, useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import type { Database } from '@/lib/supabase/types';
 import { toast } from 'sonner';
@@ -23,6 +23,20 @@ import {
     SelectValue,
 } from '@/components/ui/select';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+    clearAvailabilityClient,
+    saveAvailabilityClient,
+    skipAvailabilityRuleDatesClient,
+} from '@/lib/shifts/api';
+import type { AvailabilityDayInput } from '@/lib/shifts/availability';
+import { formatAvailabilityWindow, toAvailabilityWindowInputs } from '@/lib/shifts/time';
+import {
+    addDaysToISO,
+    formatISODate,
+    getMondayOfWeekISO,
+    getMonthBoundsISO,
+    getTodayInTimezone,
+} from '@/lib/utils/dates';
 
 type Availability = Database['public']['Tables']['availability']['Row'];
 
@@ -40,14 +54,53 @@ interface PACalendarProps {
     dates?: DateInfo[]; // Optional, will be generated internally
     startDate?: string; // Optional, will be calculated internally
     endDate?: string; // Optional, will be calculated internally
+    timezone?: string; // Production timezone "today" and month bounds are computed in
+    lockedWeeks?: string[]; // Mondays of weeks the PA has submitted, which can't be edited
+    productionStartDate?: string | null; // The months shown span the production's dates
+    productionEndDate?: string | null;
 }
 
 type AvailabilityStatus = 'unavailable' | 'available' | 'preferred' | null;
 
+// What a bulk change replaced, so it can be undone
+interface BulkChange {
+    label: string;
+    previous: Array<{ date: string; row: Availability | null }>;
+    skippedRuleDates: string[]; // Rule days the change cleared, which became rule exceptions
+}
+
+interface DragSelection {
+    anchor: string;
+    base: Set<string>; // Selection when the drag started
+    removing: boolean; // Dragging from a selected day deselects
+}
+
+const LOCKED_WEEK_MESSAGE = 'You submitted this week. Request changes to edit it.';
+
 function getAvailabilityForDate(date: string, availability: Availability[]): Availability | null {
     return availability.find((a) => a.date === date) || null;
 }
 
+// Time inputs give HH:MM; blank ends leave the window open
+function toWindowColumns(window: { from: string; until: string }): Pick<Availability, 'available_from' | 'available_until'> {
+    return {
+        available_from: window.from ? `${window.from}:00` : null,
+        available_until: window.until ? `${window.until}:00` : null,
+    };
+}
+
+// The availability route replaces whole days, so changes start from what the day has now
+function toDayInput(date: string, row: Availability | null): AvailabilityDayInput {
+    return {
+        date,
+        status: row?.status ?? 'available',
+        note: row?.pa_note ?? null,
+        availableFrom: row?.available_from ?? null,
+        availableUntil: row?.available_until ?? null,
+        ruleId: row?.rule_id ?? null,
+    };
+}
+
 function getStatusColor(status: AvailabilityStatus): string {
     switch (status) {
         case 'preferred':
@@ -74,6 +127,16 @@ function getStatusLabel(status: AvailabilityStatus): string {
     }
 }
 
+// Dates from a to b inclusive, in either order
+function getDateRange(a: string, b: string): string[] {
+    const [start, end] = a <= b ? [a, b] : [b, a];
+    const range: string[] = [];
+    for (let date = start; date <= end; date = addDaysToISO(date, 1)) {
+        range.push(date);
+    }
+    return range;
+}
+
 function cycleStatus(current: AvailabilityStatus): AvailabilityStatus {
     if (current === null) return 'unavailable';
     if (current === 'unavailable') return 'available';
@@ -81,25 +144,27 @@ function cycleStatus(current: AvailabilityStatus): AvailabilityStatus {
     return null; // preferred -> null (not set)
 }
 
+// Year and 0-based month of "today" in a timezone
+function getCurrentMonth(timezone: string | undefined): { year: number; month: number } {
+    const [year, month] = getTodayInTimezone(timezone).split('-').map(Number);
+    return { year, month: month - 1 };
+}
+
 // Generate dates for a full calendar month view
 function generateMonthDates(year: number, month: number): DateInfo[] {
-    const firstDay = new Date(year, month, 1);
-    const lastDay = new Date(year, month + 1, 0);
+    const { start: firstDay } = getMonthBoundsISO(year, month);
     
     // Start from the first day of the week that contains the first day of the month
-    const startDate = new Date(firstDay);
-    const dayOfWeek = firstDay.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    startDate.setDate(startDate.getDate() - dayOfWeek);
+    const dayOfWeek = new Date(Date.UTC(year, month, 1)).getUTCDay(); // 0 = Sunday, 1 = Monday, etc.
+    const startDate = addDaysToISO(firstDay, -dayOfWeek);
     
     // Generate 42 dates (6 weeks * 7 days) to fill the grid
     const dates: DateInfo[] = [];
-    const currentDate = new Date(startDate);
     
     for (let i = 0; i < 42; i++) {
-        const dateStr = currentDate.toISOString().split('T')[0];
-        const dayName = currentDate.toLocaleDateString('en-US', { weekday: 'short' });
-        const day = currentDate.getDate();
-        const dateMonth = currentDate.getMonth() + 1;
+        const dateStr = addDaysToISO(startDate, i);
+        const dayName = formatISODate(dateStr, { weekday: 'short' });
+        const [, dateMonth, day] = dateStr.split('-').map(Number);
         
         dates.push({
             date: dateStr,
@@ -108,32 +173,50 @@ function generateMonthDates(year: number, month: number): DateInfo[] {
             day,
             month: dateMonth,
         });
-        
-        currentDate.setDate(currentDate.getDate() + 1);
     }
     
     return dates;
 }
 
-// Get month options (current month + up to 3 months ahead)
-function getAvailableMonths(): Array<{ value: string; label: string; year: number; month: number }> {
-    const today = new Date();
-    const currentYear = today.getFullYear();
-    const currentMonth = today.getMonth();
+// Months ahead shown when the production has no end date
+const DEFAULT_MONTHS_AHEAD = 3;
+
+// Month index counted from year 0, so month ranges can be compared and stepped through
+function toMonthNumber(year: number, month: number): number {
+    return year * 12 + month;
+}
+
+function getMonthNumberOfISO(date: string): number {
+    const [year, month] = date.split('-').map(Number);
+    return toMonthNumber(year, month - 1);
+}
+
+// Get month options: every month of the production, always including the current one.
+// Without production dates, the current month and up to 3 months ahead.
+function getAvailableMonths(
+    timezone: string | undefined,
+    productionStartDate?: string | null,
+    productionEndDate?: string | null
+): Array<{ value: string; label: string; year: number; month: number }> {
+    const { year: currentYear, month: currentMonth } = getCurrentMonth(timezone);
+    const current = toMonthNumber(currentYear, currentMonth);
+    const first = productionStartDate ? Math.min(getMonthNumberOfISO(productionStartDate), current) : current;
+    const last = productionEndDate
+        ? Math.max(getMonthNumberOfISO(productionEndDate), current)
+        : Math.max(first, current) + DEFAULT_MONTHS_AHEAD;
     
     const months: Array<{ value: string; label: string; year: number; month: number }> = [];
     
-    for (let i = 0; i <= 3; i++) {
-        const monthDate = new Date(currentYear, currentMonth + i, 1);
-        const year = monthDate.getFullYear();
-        const month = monthDate.getMonth();
-        const monthName = monthDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    for (let i = first; i <= last; i++) {
+        const { start } = getMonthBoundsISO(currentYear, currentMonth + i - current);
+        const [year, month] = start.split('-').map(Number);
+        const monthName = formatISODate(start, { month: 'long', year: 'numeric' });
         
         months.push({
-            value: `${year}-${month}`,
+            value: `${year}-${month - 1}`,
             label: monthName,
             year,
-            month,
+            month: month - 1,
         });
     }
     
@@ -148,11 +231,16 @@ function formatMonthKey(year: number, month: number): string {
 export function PACalendar({
     userId,
     availability: initialAvailability,
+    timezone,
+    lockedWeeks = [],
+    productionStartDate,
+    productionEndDate,
 }: PACalendarProps) {
-    // Month state - initialize to current month
-    const today = new Date();
-    const [selectedYear, setSelectedYear] = useState(today.getFullYear());
-    const [selectedMonth, setSelectedMonth] = useState(today.getMonth());
+    // Month state - initialize to current month in the production's timezone
+    const todayISO = getTodayInTimezone(timezone);
+    const { year: todayYear, month: todayMonth } = getCurrentMonth(timezone);
+    const [selectedYear, setSelectedYear] = useState(todayYear);
+    const [selectedMonth, setSelectedMonth] = useState(todayMonth);
     
     // Generate dates for the selected month
     const dates = useMemo(() => {
@@ -160,12 +248,8 @@ export function PACalendar({
     }, [selectedYear, selectedMonth]);
     
     // Get start and end dates for the selected month
-    const monthStartDate = useMemo(() => {
-        return new Date(selectedYear, selectedMonth, 1).toISOString().split('T')[0];
-    }, [selectedYear, selectedMonth]);
-    
-    const monthEndDate = useMemo(() => {
-        return new Date(selectedYear, selectedMonth + 1, 0).toISOString().split('T')[0];
+    const { start: monthStartDate, end: monthEndDate } = useMemo(() => {
+        return getMonthBoundsISO(selectedYear, selectedMonth);
     }, [selectedYear, selectedMonth]);
     
     // Initialize availability state - will be populated by useEffect
@@ -173,11 +257,25 @@ export function PACalendar({
     const [selectedDate, setSelectedDate] = useState<string | null>(null);
     const [noteDialogOpen, setNoteDialogOpen] = useState(false);
     const [currentNote, setCurrentNote] = useState('');
+    const [currentWindow, setCurrentWindow] = useState({ from: '', until: '' });
     const [isLoading, setIsLoading] = useState(false);
     const [isLoadingAvailability, setIsLoadingAvailability] = useState(false);
+
+    // Bulk editing: select days by dragging, by week or by weekday, then apply one change to all of them
+    const [isBulkMode, setIsBulkMode] = useState(false);
+    const [selectedDates, setSelectedDates] = useState<Set<string>>(new Set());
+    const [lastBulkChange, setLastBulkChange] = useState<BulkChange | null>(null);
+    const [isBulkNote, setIsBulkNote] = useState(false);
+    const dragRef = useRef<DragSelection | null>(null);
     
     // Get available months for dropdown
-    const availableMonths = useMemo(() => getAvailableMonths(), []);
+    const availableMonths = useMemo(
+        () => getAvailableMonths(timezone, productionStartDate, productionEndDate),
+        [timezone, productionStartDate, productionEndDate]
+    );
+    const selectedMonthIndex = availableMonths.findIndex(
+        (month) => month.year === selectedYear && month.month === selectedMonth
+    );
     
     // Fetch availability when month changes
     useEffect(() => {
@@ -208,46 +306,226 @@ export function PACalendar({
         fetchAvailability();
     }, [userId, monthStartDate, monthEndDate]);
 
-    // Navigation functions
-    const goToPreviousMonth = useCallback(() => {
-        setSelectedMonth((prev) => {
-            if (prev === 0) {
-                setSelectedYear((prevYear) => prevYear - 1);
-                return 11;
+    // Selections and undo only apply to the month they were made in
+    useEffect(() => {
+        setSelectedDates(new Set());
+        setLastBulkChange(null);
+    }, [monthStartDate]);
+
+    const reloadAvailability = useCallback(async () => {
+        const supabase = createClient();
+        const { data, error } = await supabase
+            .from('availability')
+            .select('*')
+            .eq('user_id', userId)
+            .gte('date', monthStartDate)
+            .lte('date', monthEndDate)
+            .order('date');
+
+        if (error) throw error;
+        setAvailability(data || []);
+    }, [userId, monthStartDate, monthEndDate]);
+
+    const isInMonth = useCallback(
+        (date: string) => date >= monthStartDate && date <= monthEndDate,
+        [monthStartDate, monthEndDate]
+    );
+
+    const isLockedDate = useCallback(
+        (date: string) => lockedWeeks.includes(getMondayOfWeekISO(date)),
+        [lockedWeeks]
+    );
+
+    const selectDragRange = useCallback((date: string) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        const next = new Set(drag.base);
+        for (const day of getDateRange(drag.anchor, date).filter(isInMonth)) {
+            if (drag.removing) {
+                next.delete(day);
+            } else {
+                next.add(day);
             }
-            return prev - 1;
+        }
+        setSelectedDates(next);
+    }, [isInMonth]);
+
+    const handleSelectPointerDown = useCallback((event: React.PointerEvent, date: string) => {
+        if (!isInMonth(date)) return;
+        // Touch pointers are captured by the pressed element; release so moves reach other days
+        (event.target as Element).releasePointerCapture?.(event.pointerId);
+        dragRef.current = { anchor: date, base: new Set(selectedDates), removing: selectedDates.has(date) };
+        selectDragRange(date);
+    }, [isInMonth, selectedDates, selectDragRange]);
+
+    const handleSelectPointerMove = useCallback((event: React.PointerEvent) => {
+        if (!dragRef.current) return;
+        const cell = document.elementFromPoint(event.clientX, event.clientY)?.closest('[data-date]');
+        const date = cell?.getAttribute('data-date');
+        if (date) selectDragRange(date);
+    }, [selectDragRange]);
+
+    useEffect(() => {
+        const endDrag = () => {
+            dragRef.current = null;
+        };
+        window.addEventListener('pointerup', endDrag);
+        window.addEventListener('pointercancel', endDrag);
+        return () => {
+            window.removeEventListener('pointerup', endDrag);
+            window.removeEventListener('pointercancel', endDrag);
+        };
+    }, []);
+
+    // Adds the days to the selection, or removes them if they're all selected already
+    const toggleDates = useCallback((days: string[]) => {
+        const inMonth = days.filter(isInMonth);
+        setSelectedDates((prev) => {
+            const next = new Set(prev);
+            const allSelected = inMonth.every((day) => prev.has(day));
+            for (const day of inMonth) {
+                if (allSelected) {
+                    next.delete(day);
+                } else {
+                    next.add(day);
+                }
+            }
+            return next;
         });
+    }, [isInMonth]);
+
+    const selectWeekday = useCallback((weekday: number) => {
+        toggleDates(dates.filter((_, index) => index % 7 === weekday).map((d) => d.date));
+    }, [dates, toggleDates]);
+
+    const selectWeek = useCallback((week: number) => {
+        toggleDates(dates.slice(week * 7, week * 7 + 7).map((d) => d.date));
+    }, [dates, toggleDates]);
+
+    const exitBulkMode = useCallback(() => {
+        setIsBulkMode(false);
+        setSelectedDates(new Set());
     }, []);
-    
-    const goToNextMonth = useCallback(() => {
-        const today = new Date();
-        const maxMonth = today.getMonth() + 3; // 3 months ahead
-        const maxYear = today.getFullYear() + Math.floor(maxMonth / 12);
-        const maxMonthIndex = maxMonth % 12;
-        
-        const currentMonthIndex = selectedMonth;
-        const currentYearIndex = selectedYear;
-        
-        // Check if we can go to next month
-        if (
-            currentYearIndex < maxYear ||
-            (currentYearIndex === maxYear && currentMonthIndex < maxMonthIndex)
-        ) {
-            setSelectedMonth((prev) => {
-                if (prev === 11) {
-                    setSelectedYear((prevYear) => prevYear + 1);
-                    return 0;
+
+    /**
+     * Applies a status (null clears the day) or a note to every selected day in
+     * one request. Manual status changes detach days from their recurring rule.
+     */
+    const applyBulkChange = useCallback(
+        async (change: { status: AvailabilityStatus } | { note: string | null }) => {
+            const targetDates = [...selectedDates].filter((date) => isInMonth(date) && !isLockedDate(date)).sort();
+            if (targetDates.length === 0) {
+                toast.error('The selected days are in weeks you already submitted');
+                return;
+            }
+
+            const previous = targetDates.map((date) => ({ date, row: getAvailabilityForDate(date, availability) }));
+            const label = 'status' in change
+                ? `Set ${targetDates.length} ${targetDates.length === 1 ? 'day' : 'days'} to ${getStatusLabel(change.status)}`
+                : `Updated the note on ${targetDates.length} ${targetDates.length === 1 ? 'day' : 'days'}`;
+            const skippedRuleDates: string[] = [];
+
+            setIsLoading(true);
+            try {
+                if ('status' in change && change.status === null) {
+                    const manualDates = previous.filter(({ row }) => row && !row.rule_id).map(({ date }) => date);
+                    if (manualDates.length > 0) {
+                        await clearAvailabilityClient(manualDates);
+                    }
+
+                    // Rule days are skipped on the rule, or it would fill them back in
+                    const datesByRule = new Map<string, string[]>();
+                    for (const { date, row } of previous) {
+                        if (row?.rule_id) {
+                            datesByRule.set(row.rule_id, [...(datesByRule.get(row.rule_id) || []), date]);
+                        }
+                    }
+                    for (const [ruleId, ruleDates] of datesByRule) {
+                        await skipAvailabilityRuleDatesClient(ruleId, ruleDates);
+                        skippedRuleDates.push(...ruleDates);
+                    }
+                } else {
+                    await saveAvailabilityClient(
+                        previous.map(({ date, row }) => ({
+                            ...toDayInput(date, row),
+                            ...('status' in change ? { status: change.status!, ruleId: null } : { note: change.note }),
+                        }))
+                    );
                 }
-                return prev + 1;
-            });
+
+                setLastBulkChange({ label, previous, skippedRuleDates });
+                setSelectedDates(new Set());
+                toast.success(label);
+            } catch (error) {
+                console.error('Failed to apply bulk availability change:', error);
+                toast.error(`Failed to update availability: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            } finally {
+                await reloadAvailability().catch((error) => console.error('Failed to reload availability:', error));
+                setIsLoading(false);
+            }
+        },
+        [selectedDates, isInMonth, isLockedDate, availability, reloadAvailability]
+    );
+
+    /**
+     * Puts back the days the last bulk change touched. Cleared rule days come
+     * back as manual entries, since the rule now skips them.
+     */
+    const undoBulkChange = useCallback(async () => {
+        if (!lastBulkChange) return;
+
+        setIsLoading(true);
+        try {
+            const skipped = new Set(lastBulkChange.skippedRuleDates);
+
+            const addedDates = lastBulkChange.previous.filter(({ row }) => !row).map(({ date }) => date);
+            if (addedDates.length > 0) {
+                await clearAvailabilityClient(addedDates);
+            }
+
+            const restored = lastBulkChange.previous
+                .filter(({ row }) => row)
+                .map(({ date, row }) => ({
+                    ...toDayInput(date, row),
+                    ruleId: skipped.has(date) ? null : row!.rule_id,
+                }));
+            if (restored.length > 0) {
+                await saveAvailabilityClient(restored);
+            }
+
+            toast.success(`Undid: ${lastBulkChange.label}`);
+            setLastBulkChange(null);
+        } catch (error) {
+            console.error('Failed to undo bulk availability change:', error);
+            toast.error(`Failed to undo: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            await reloadAvailability().catch((error) => console.error('Failed to reload availability:', error));
+            setIsLoading(false);
         }
-    }, [selectedYear, selectedMonth]);
+    }, [lastBulkChange, reloadAvailability]);
+
+
+    // Navigation functions
+    const goToMonthAt = useCallback((index: number) => {
+        const month = availableMonths[index];
+        if (!month) return;
+        setSelectedYear(month.year);
+        setSelectedMonth(month.month);
+    }, [availableMonths]);
+
+    const goToPreviousMonth = useCallback(() => {
+        goToMonthAt(selectedMonthIndex - 1);
+    }, [goToMonthAt, selectedMonthIndex]);
+    
+    const goToNextMonth = useCallback(() => {
+        goToMonthAt(selectedMonthIndex + 1);
+    }, [goToMonthAt, selectedMonthIndex]);
     
     const goToCurrentMonth = useCallback(() => {
-        const today = new Date();
-        setSelectedYear(today.getFullYear());
-        setSelectedMonth(today.getMonth());
-    }, []);
+        setSelectedYear(todayYear);
+        setSelectedMonth(todayMonth);
+    }, [todayYear, todayMonth]);
     
     const handleMonthSelect = useCallback((value: string) => {
         const [year, month] = value.split('-').map(Number);
@@ -256,29 +534,12 @@ export function PACalendar({
     }, []);
     
     // Check if we can navigate to previous/next month
-    const canGoPrevious = useMemo(() => {
-        const today = new Date();
-        const todayYear = today.getFullYear();
-        const todayMonth = today.getMonth();
-        
-        return selectedYear > todayYear || 
-               (selectedYear === todayYear && selectedMonth > todayMonth);
-    }, [selectedYear, selectedMonth]);
-    
-    const canGoNext = useMemo(() => {
-        const today = new Date();
-        const maxMonth = today.getMonth() + 3; // 3 months ahead
-        const maxYear = today.getFullYear() + Math.floor(maxMonth / 12);
-        const maxMonthIndex = maxMonth % 12;
-        
-        return selectedYear < maxYear ||
-               (selectedYear === maxYear && selectedMonth < maxMonthIndex);
-    }, [selectedYear, selectedMonth]);
+    const canGoPrevious = selectedMonthIndex > 0;
+    const canGoNext = selectedMonthIndex >= 0 && selectedMonthIndex < availableMonths.length - 1;
     
     const isCurrentMonth = useMemo(() => {
-        const today = new Date();
-        return selectedYear === today.getFullYear() && selectedMonth === today.getMonth();
-    }, [selectedYear, selectedMonth]);
+        return selectedYear === todayYear && selectedMonth === todayMonth;
+    }, [selectedYear, selectedMonth, todayYear, todayMonth]);
     
     // Real-time subscription for availability changes
     useEffect(() => {
@@ -320,6 +581,11 @@ export function PACalendar({
 
     const handleDateClick = useCallback(
         async (date: string) => {
+            if (isLockedDate(date)) {
+                toast.info(LOCKED_WEEK_MESSAGE);
+                return;
+            }
+
             const currentAvail = getAvailabilityForDate(date, availability);
             const currentStatus = currentAvail?.status || null;
             const newStatus = cycleStatus(currentStatus);
@@ -338,7 +604,7 @@ export function PACalendar({
                 setAvailability((prev) =>
                     prev.map((a) =>
                         a.id === currentAvail.id
-                            ? { ...a, status: newStatus, updated_at: new Date().toISOString() }
+                            ? { ...a, status: newStatus, rule_id: null, updated_at: new Date().toISOString() }
                             : a
                     )
                 );
@@ -350,6 +616,9 @@ export function PACalendar({
                     date,
                     status: newStatus,
                     pa_note: null,
+                    rule_id: null,
+                    available_from: null,
+                    available_until: null,
                     created_at: new Date().toISOString(),
                     updated_at: new Date().toISOString(),
                 };
@@ -357,24 +626,19 @@ export function PACalendar({
             }
 
             try {
-                const supabase = createClient();
-
                 if (newStatus === null) {
-                    // Delete
-                    if (currentAvail) {
+                    if (currentAvail?.rule_id) {
+                        // Clearing a day a recurring rule filled in skips that date, or the rule would refill it
+                        await skipAvailabilityRuleDatesClient(currentAvail.rule_id, [date]);
+                    } else if (currentAvail) {
+                        // Delete
                         console.log('[PA Calendar] Deleting availability:', {
                             id: currentAvail.id,
                             user_id: currentAvail.user_id,
                             date: currentAvail.date,
                             status: currentAvail.status,
                         });
-                        const supabaseAny = supabase as any;
-                        const { error } = await supabaseAny
-                            .from('availability')
-                            .delete()
-                            .eq('id', currentAvail.id);
-
-                        if (error) throw error;
+                        await clearAvailabilityClient([date]);
                     }
                 } else if (currentAvail) {
                     // Update
@@ -385,14 +649,8 @@ export function PACalendar({
                         oldStatus: currentAvail.status,
                         newStatus: newStatus,
                     });
-                    const updateData: any = { status: newStatus };
-                    const supabaseAny = supabase as any;
-                    const { error } = await supabaseAny
-                        .from('availability')
-                        .update(updateData)
-                        .eq('id', currentAvail.id);
-
-                    if (error) throw error;
+                    // A day changed by hand no longer follows its recurring rule
+                    await saveAvailabilityClient([{ ...toDayInput(date, currentAvail), status: newStatus, ruleId: null }]);
                 } else {
                     // Insert
                     console.log('[PA Calendar] Inserting availability:', {
@@ -400,20 +658,8 @@ export function PACalendar({
                         date: date,
                         status: newStatus,
                         dateFormat: 'ISO string format (YYYY-MM-DD)',
-                        rawQuery: `INSERT INTO availability (user_id, date, status) VALUES ('${userId}', '${date}', '${newStatus}')`,
                     });
-                    const supabaseAny = supabase as any;
-                    const { data, error } = await supabaseAny
-                        .from('availability')
-                        .insert({
-                            user_id: userId,
-                            date,
-                            status: newStatus,
-                        })
-                        .select()
-                        .single();
-
-                    if (error) throw error;
+                    const [data] = await saveAvailabilityClient([{ ...toDayInput(date, null), status: newStatus }]);
 
                     console.log('[PA Calendar] Availability inserted successfully:', {
                         id: data.id,
@@ -452,29 +698,56 @@ export function PACalendar({
                 setIsLoading(false);
             }
         },
-        [availability, userId, monthStartDate, monthEndDate]
+        [availability, isLockedDate, userId, monthStartDate, monthEndDate]
     );
 
     const handleNoteClick = useCallback((date: string) => {
+        if (isLockedDate(date)) {
+            toast.info(LOCKED_WEEK_MESSAGE);
+            return;
+        }
+
         const currentAvail = getAvailabilityForDate(date, availability);
         setSelectedDate(date);
         setCurrentNote(currentAvail?.pa_note || '');
+        setCurrentWindow(toAvailabilityWindowInputs(currentAvail));
         setNoteDialogOpen(true);
-    }, [availability]);
+    }, [availability, isLockedDate]);
+
+    const openBulkNote = useCallback(() => {
+        setIsBulkNote(true);
+        setCurrentNote('');
+        setCurrentWindow({ from: '', until: '' });
+        setNoteDialogOpen(true);
+    }, []);
+
+    const closeNoteDialog = useCallback(() => {
+        setNoteDialogOpen(false);
+        setIsBulkNote(false);
+        setSelectedDate(null);
+        setCurrentNote('');
+        setCurrentWindow({ from: '', until: '' });
+    }, []);
 
     const saveNote = useCallback(async () => {
+        if (isBulkNote) {
+            await applyBulkChange({ note: currentNote || null });
+            closeNoteDialog();
+            return;
+        }
         if (!selectedDate) return;
 
         setIsLoading(true);
         const currentAvail = getAvailabilityForDate(selectedDate, availability);
         const tempId = `temp-${Date.now()}-${Math.random()}`;
+        const windowColumns = toWindowColumns(currentWindow);
 
         // Optimistic update
         if (currentAvail) {
             setAvailability((prev) =>
                 prev.map((a) =>
                     a.id === currentAvail.id
-                        ? { ...a, pa_note: currentNote || null, updated_at: new Date().toISOString() }
+                        ? { ...a, pa_note: currentNote || null, ...windowColumns, updated_at: new Date().toISOString() }
                         : a
                 )
             );
@@ -486,6 +759,8 @@ export function PACalendar({
                 date: selectedDate,
                 status: 'available', // Default status when adding note
                 pa_note: currentNote || null,
+                rule_id: null,
+                ...windowColumns,
                 created_at: new Date().toISOString(),
                 updated_at: new Date().toISOString(),
             };
@@ -493,7 +768,12 @@ export function PACalendar({
         }
 
         try {
-            const supabase = createClient();
+            const day: AvailabilityDayInput = {
+                ...toDayInput(selectedDate, currentAvail),
+                note: currentNote || null,
+                availableFrom: windowColumns.available_from,
+                availableUntil: windowColumns.available_until,
+            };
 
             if (currentAvail) {
                 // Update note
@@ -503,13 +783,7 @@ export function PACalendar({
                     date: currentAvail.date,
                     note: currentNote || null,
                 });
-                const supabaseAny = supabase as any;
-                const { error } = await supabaseAny
-                    .from('availability')
-                    .update({ pa_note: currentNote || null })
-                    .eq('id', currentAvail.id);
-
-                if (error) throw error;
+                await saveAvailabilityClient([day]);
             } else {
                 // Create with note
                 console.log('[PA Calendar] Inserting availability with note:', {
@@ -518,21 +792,8 @@ export function PACalendar({
                     status: 'available',
                     note: currentNote || null,
                     dateFormat: 'ISO string format (YYYY-MM-DD)',
-                    rawQuery: `INSERT INTO availability (user_id, date, status, pa_note) VALUES ('${userId}', '${selectedDate}', 'available', ${currentNote ? `'${currentNote}'` : 'NULL'})`,
                 });
-                const supabaseAny = supabase as any;
-                const { data, error } = await supabaseAny
-                    .from('availability')
-                    .insert({
-                        user_id: userId,
-                        date: selectedDate,
-                        status: 'available',
-                        pa_note: currentNote || null,
-                    })
-                    .select()
-                    .single();
-
-                if (error) throw error;
+                const [data] = await saveAvailabilityClient([day]);
 
                 console.log('[PA Calendar] Availability with note inserted successfully:', {
                     id: data.id,
@@ -552,6 +813,7 @@ export function PACalendar({
             setNoteDialogOpen(false);
             setSelectedDate(null);
             setCurrentNote('');
+            setCurrentWindow({ from: '', until: '' });
         } catch (error) {
             // Re-fetch availability to sync state on error
             const supabase = createClient();
@@ -572,20 +834,23 @@ export function PACalendar({
         } finally {
             setIsLoading(false);
         }
-    }, [selectedDate, currentNote, availability, userId, monthStartDate, monthEndDate]);
+    }, [isBulkNote, applyBulkChange, closeNoteDialog, selectedDate, currentNote, currentWindow, availability, userId, monthStartDate, monthEndDate]);
+
+    const isWindowInvalid = !!currentWindow.from && !!currentWindow.until && currentWindow.from >= currentWindow.until;
 
     const currentMonthLabel = useMemo(() => {
-        const monthDate = new Date(selectedYear, selectedMonth, 1);
-        return monthDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-    }, [selectedYear, selectedMonth]);
+        return formatISODate(monthStartDate, { month: 'long', year: 'numeric' });
+    }, [monthStartDate]);
     
     const currentMonthValue = formatMonthKey(selectedYear, selectedMonth);
+    // Bulk mode adds a narrow column of week selectors
+    const gridColumns = isBulkMode ? 'grid-cols-[2rem_repeat(7,minmax(0,1fr))]' : 'grid-cols-7';
 
     return (
         <div className="space-y-4 md:space-y-4">
             <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 md:gap-0">
                 <h2 className="text-2xl md:text-2xl font-semibold">My Availability</h2>
-                <p className="text-sm md:text-sm text-muted-foreground">Click dates to cycle availability • Click note icon to add notes</p>
+                <p className="text-sm md:text-sm text-muted-foreground">Click dates to cycle availability • Click note icon to add notes • ↻ marks days set by a recurring rule • 🔒 marks submitted weeks</p>
             </div>
 
             {/* Month Navigation Controls */}
@@ -636,14 +901,104 @@ export function PACalendar({
                 </Button>
             </div>
 
+            {/* Bulk Edit Toolbar */}
+            <div className="flex flex-col gap-3 p-4 bg-card border rounded-lg">
+                <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                        variant={isBulkMode ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => (isBulkMode ? exitBulkMode() : setIsBulkMode(true))}
+                        disabled={isLoadingAvailability}
+                        className="min-h-[44px] md:min-h-0"
+                    >
+                        {isBulkMode ? 'Done Selecting' : 'Select Days'}
+                    </Button>
+                    {isBulkMode && (
+                        <>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => toggleDates(dates.map((d) => d.date))}
+                                className="min-h-[44px] md:min-h-0"
+                            >
+                                Whole Month
+                            </Button>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setSelectedDates(new Set())}
+                                disabled={selectedDates.size === 0}
+                                className="min-h-[44px] md:min-h-0"
+                            >
+                                Clear Selection
+                            </Button>
+                        </>
+                    )}
+                    {lastBulkChange && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={undoBulkChange}
+                            disabled={isLoading}
+                            className="min-h-[44px] md:min-h-0 md:ml-auto"
+                            title={lastBulkChange.label}
+                        >
+                            Undo Last Bulk Change
+                        </Button>
+                    )}
+                </div>
+                {isBulkMode && (
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-muted-foreground mr-1">
+                            {selectedDates.size === 0
+                                ? 'Drag across days, or click a weekday or week to select it'
+                                : `${selectedDates.size} ${selectedDates.size === 1 ? 'day' : 'days'} selected:`}
+                        </span>
+                        {(['unavailable', 'available', 'preferred', null] as AvailabilityStatus[]).map((status) => (
+                            <Button
+                                key={status ?? 'clear'}
+                                size="sm"
+                                variant="outline"
+                                onClick={() => applyBulkChange({ status })}
+                                disabled={selectedDates.size === 0 || isLoading}
+                                className="min-h-[44px] md:min-h-0"
+                            >
+                                {status ? getStatusLabel(status) : 'Clear'}
+                            </Button>
+                        ))}
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={openBulkNote}
+                            disabled={selectedDates.size === 0 || isLoading}
+                            className="min-h-[44px] md:min-h-0"
+                        >
+                            Set Note
+                        </Button>
+                    </div>
+                )}
+            </div>
+
             <div className="border rounded-lg p-3 md:p-6 bg-card">
                 {/* Weekday headers */}
-                <div className="grid grid-cols-7 gap-1 md:gap-2 mb-2">
-                    {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day) => (
-                        <div key={day} className="text-center text-xs md:text-sm font-semibold text-muted-foreground py-2">
-                            {day}
-                        </div>
-                    ))}
+                <div className={`grid ${gridColumns} gap-1 md:gap-2 mb-2`}>
+                    {isBulkMode && <div />}
+                    {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((day, weekday) =>
+                        isBulkMode ? (
+                            <button
+                                key={day}
+                                onClick={() => selectWeekday(weekday)}
+                                className="text-center text-xs md:text-sm font-semibold text-primary py-2 rounded hover:bg-muted"
+                                title={`Select every ${day} this month`}
+                            >
+                                {day}
+                            </button>
+                        ) : (
+                            <div key={day} className="text-center text-xs md:text-sm font-semibold text-muted-foreground py-2">
+                                {day}
+                            </div>
+                        )
+                    )}
                 </div>
                 
                 {isLoadingAvailability ? (
@@ -654,42 +1009,66 @@ export function PACalendar({
                         </div>
                     </div>
                 ) : (
-                    <div className="grid grid-cols-7 gap-1 md:gap-2">
-                        {dates.map((dateInfo) => {
-                        const date = new Date(dateInfo.date);
-                        const isCurrentMonth = date.getMonth() === selectedMonth && date.getFullYear() === selectedYear;
-                        const isToday = date.toISOString().split('T')[0] === new Date().toISOString().split('T')[0];
+                    <div
+                        className={`grid ${gridColumns} gap-1 md:gap-2 ${isBulkMode ? 'touch-none select-none' : ''}`}
+                        onPointerMove={isBulkMode ? handleSelectPointerMove : undefined}
+                    >
+                        {dates.map((dateInfo, index) => {
+                        const isCurrentMonth = dateInfo.date >= monthStartDate && dateInfo.date <= monthEndDate;
+                        const isToday = dateInfo.date === todayISO;
                         
                         const avail = getAvailabilityForDate(dateInfo.date, availability);
                         const status = avail?.status || null;
                         const colorClass = getStatusColor(status);
                         const hasNote = !!avail?.pa_note;
+                        const isRecurring = !!avail?.rule_id;
+                        const windowLabel = avail && status !== 'unavailable' ? formatAvailabilityWindow(avail) : null;
+                        const isSelected = isBulkMode && selectedDates.has(dateInfo.date);
+                        const isLocked = isLockedDate(dateInfo.date);
 
                         return (
+                            <Fragment key={dateInfo.date}>
+                            {isBulkMode && index % 7 === 0 && (
+                                <button
+                                    onClick={() => selectWeek(index / 7)}
+                                    className="text-xs text-primary rounded hover:bg-muted"
+                                    title="Select this week"
+                                >
+                                    Wk
+                                </button>
+                            )}
                             <div
-                                key={dateInfo.date}
+                                data-date={dateInfo.date}
                                 className={`flex flex-col items-center gap-1 md:gap-1 p-1 md:p-2 rounded-lg border transition-colors ${
                                     isCurrentMonth 
                                         ? 'hover:border-primary' 
                                         : 'opacity-40 hover:opacity-60'
-                                } ${isToday && isCurrentMonth ? 'ring-2 ring-primary' : ''}`}
+                                } ${isToday && isCurrentMonth ? 'ring-2 ring-primary' : ''} ${
+                                    isSelected ? 'ring-2 ring-blue-500 bg-blue-50' : ''
+                                }`}
                             >
                                 <button
-                                    onClick={() => handleDateClick(dateInfo.date)}
+                                    onClick={isBulkMode ? undefined : () => handleDateClick(dateInfo.date)}
+                                    onPointerDown={isBulkMode ? (e) => handleSelectPointerDown(e, dateInfo.date) : undefined}
                                     disabled={isLoading || !isCurrentMonth}
                                     className={`w-full min-h-[44px] md:min-h-0 py-2 md:py-2 px-1 md:px-3 rounded-md text-sm md:text-xs font-medium transition-colors ${colorClass} ${
                                         !isCurrentMonth ? 'opacity-50' : ''
                                     } disabled:opacity-50 disabled:cursor-not-allowed`}
-                                    title={`${dateInfo.display}: ${getStatusLabel(status)}`}
+                                    title={`${dateInfo.display}: ${getStatusLabel(status)}${windowLabel ? ` ${windowLabel}` : ''}${isRecurring ? ' (recurring)' : ''}${isLocked ? ' (submitted)' : ''}`}
                                 >
                                     <div className="text-center">
                                         <div className={`font-semibold text-base md:text-sm ${isToday && isCurrentMonth ? 'underline' : ''}`}>
                                             {dateInfo.day}
                                         </div>
-                                        <div className="text-xs md:text-[10px] opacity-80">{dateInfo.dayName}</div>
+                                        <div className="text-xs md:text-[10px] opacity-80">
+                                            {dateInfo.dayName}{isRecurring && ' ↻'}{isLocked && ' 🔒'}
+                                        </div>
+                                        {windowLabel && (
+                                            <div className="text-[10px] leading-tight">{windowLabel}</div>
+                                        )}
                                     </div>
                                 </button>
-                                {isCurrentMonth && (
+                                {isCurrentMonth && !isBulkMode && (
                                     <button
                                         onClick={() => handleNoteClick(dateInfo.date)}
                                         disabled={isLoading}
@@ -702,6 +1081,7 @@ export function PACalendar({
                                     </button>
                                 )}
                             </div>
+                            </Fragment>
                         );
                     })}
                 </div>
@@ -729,14 +1109,16 @@ export function PACalendar({
             </div>
 
             {/* Note Dialog */}
-            <Dialog open={noteDialogOpen} onOpenChange={setNoteDialogOpen}>
+            <Dialog open={noteDialogOpen} onOpenChange={(open) => !open && closeNoteDialog()}>
                 <DialogContent>
                     <DialogHeader>
                         <DialogTitle>Add Note</DialogTitle>
                         <DialogDescription>
                             Add a note for{' '}
-                            {selectedDate
-                                ? new Date(selectedDate).toLocaleDateString('en-US', {
+                            {isBulkNote
+                                ? `${selectedDates.size} selected ${selectedDates.size === 1 ? 'day' : 'days'} (replaces their current notes)`
+                                : selectedDate
+                                ? formatISODate(selectedDate, {
                                     weekday: 'long',
                                     month: 'long',
                                     day: 'numeric',
@@ -744,6 +1126,7 @@ export function PACalendar({
                                 })
                                 : 'this date'}
                             . For example: "Can work late" or "Prefer morning"
+                            {!isBulkNote && '. If you can only work part of the day, set your hours below'}
                         </DialogDescription>
                     </DialogHeader>
                     <div className="space-y-4 py-4">
@@ -757,19 +1140,41 @@ export function PACalendar({
                                 placeholder="e.g., Can work late, Prefer morning shifts"
                             />
                         </div>
+                        {!isBulkNote && (
+                            <div className="space-y-2">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="available-from">Available from</Label>
+                                        <Input
+                                            id="available-from"
+                                            type="time"
+                                            value={currentWindow.from}
+                                            onChange={(e) => setCurrentWindow({ ...currentWindow, from: e.target.value })}
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="available-until">Until</Label>
+                                        <Input
+                                            id="available-until"
+                                            type="time"
+                                            value={currentWindow.until}
+                                            onChange={(e) => setCurrentWindow({ ...currentWindow, until: e.target.value })}
+                                        />
+                                    </div>
+                                </div>
+                                <p className={`text-xs ${isWindowInvalid ? 'text-red-600' : 'text-muted-foreground'}`}>
+                                    {isWindowInvalid
+                                        ? '"Until" must be later than "Available from".'
+                                        : 'Leave both blank if you can work the whole day.'}
+                                </p>
+                            </div>
+                        )}
                     </div>
                     <DialogFooter>
-                        <Button
-                            variant="outline"
-                            onClick={() => {
-                                setNoteDialogOpen(false);
-                                setSelectedDate(null);
-                                setCurrentNote('');
-                            }}
-                        >
+                        <Button variant="outline" onClick={closeNoteDialog}>
                             Cancel
                         </Button>
-                        <Button onClick={saveNote} disabled={isLoading}>
+                        <Button onClick={saveNote} disabled={isLoading || isWindowInvalid}>
                             {isLoading ? 'Saving...' : 'Save Note'}
                         </Button>
                     </DialogFooter>
@@ -1,15 +1,27 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import type { Database } from '@/lib/supabase/types';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { getCalendarFeedPath, regenerateCalendarTokenClient } from '@/lib/shifts/api';
 
 type User = Database['public']['Tables']['users']['Row'];
 
+function toRateInput(value: number | null): string {
+    return value === null ? '' : String(value);
+}
+
+// Empty clears the rate; invalid amounts come back as undefined
+function parseRate(value: string): number | null | undefined {
+    if (value.trim() === '') return null;
+    const rate = Number(value);
+    return Number.isFinite(rate) && rate >= 0 ? rate : undefined;
+}
+
 interface PAProfileProps {
     user: User;
 }
@@ -21,8 +33,28 @@ export function PAProfile({ user: initialUser }: PAProfileProps) {
     
     // Form state
     const [phone, setPhone] = useState(user.phone || '');
+    const [dayRate, setDayRate] = useState(toRateInput(user.day_rate));
+    const [hourlyRate, setHourlyRate] = useState(toRateInput(user.hourly_rate));
+    const [isRegeneratingToken, setIsRegeneratingToken] = useState(false);
+    const [origin, setOrigin] = useState('');
+
+    // The feed URL needs the site origin, which is only known in the browser
+    useEffect(() => {
+        setOrigin(window.location.origin);
+    }, []);
+
+    const calendarFeedUrl = user.calendar_token && origin
+        ? `${origin}${getCalendarFeedPath(user.calendar_token)}`
+        : null;
 
     const handleSave = useCallback(async () => {
+        const parsedDayRate = parseRate(dayRate);
+        const parsedHourlyRate = parseRate(hourlyRate);
+        if (parsedDayRate === undefined || parsedHourlyRate === undefined) {
+            toast.error('Rates must be positive amounts');
+            return;
+        }
+
         setIsLoading(true);
 
         // Optimistic update
@@ -30,6 +62,8 @@ export function PAProfile({ user: initialUser }: PAProfileProps) {
         setUser({
             ...user,
             phone: phone || null,
+            day_rate: parsedDayRate,
+            hourly_rate: parsedHourlyRate,
         });
 
         try {
@@ -39,6 +73,8 @@ export function PAProfile({ user: initialUser }: PAProfileProps) {
                 .from('users')
                 .update({
                     phone: phone || null,
+                    day_rate: parsedDayRate,
+                    hourly_rate: parsedHourlyRate,
                 })
                 .eq('id', user.id);
 
@@ -55,10 +91,43 @@ export function PAProfile({ user: initialUser }: PAProfileProps) {
         } finally {
             setIsLoading(false);
         }
-    }, [user, phone]);
+    }, [user, phone, dayRate, hourlyRate]);
+
+    const handleRegenerateToken = useCallback(async () => {
+        if (user.calendar_token && !confirm('Create a new calendar link? Calendars subscribed to the current link will stop updating.')) {
+            return;
+        }
+
+        setIsRegeneratingToken(true);
+        try {
+            const token = await regenerateCalendarTokenClient();
+            setUser((prev) => ({ ...prev, calendar_token: token }));
+            toast.success('Calendar link created');
+        } catch (error) {
+            console.error('Error regenerating calendar token:', error);
+            toast.error(
+                `Failed to create calendar link: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        } finally {
+            setIsRegeneratingToken(false);
+        }
+    }, [user.calendar_token]);
+
+    const handleCopyFeedUrl = useCallback(async () => {
+        if (!calendarFeedUrl) return;
+        try {
+            await navigator.clipboard.writeText(calendarFeedUrl);
+            toast.success('Calendar link copied to clipboard!');
+        } catch (error) {
+            console.error('Failed to copy:', error);
+            toast.error('Failed to copy calendar link. Please copy manually.');
+        }
+    }, [calendarFeedUrl]);
 
     const handleCancel = useCallback(() => {
         setPhone(user.phone || '');
+        setDayRate(toRateInput(user.day_rate));
+        setHourlyRate(toRateInput(user.hourly_rate));
         setIsEditing(false);
     }, [user]);
 
@@ -101,6 +170,84 @@ export function PAProfile({ user: initialUser }: PAProfileProps) {
                     )}
                 </div>
 
+                {/* Standard rates (Editable) */}
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="day-rate">Day Rate ($)</Label>
+                        {isEditing ? (
+                            <Input
+                                id="day-rate"
+                                type="number"
+                                min={0}
+                                value={dayRate}
+                                onChange={(e) => setDayRate(e.target.value)}
+                                placeholder="e.g., 250"
+                            />
+                        ) : (
+                            <div className="text-sm font-medium">{user.day_rate !== null ? `$${user.day_rate}` : 'Not provided'}</div>
+                        )}
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="hourly-rate">Hourly Rate ($)</Label>
+                        {isEditing ? (
+                            <Input
+                                id="hourly-rate"
+                                type="number"
+                                min={0}
+                                value={hourlyRate}
+                                onChange={(e) => setHourlyRate(e.target.value)}
+                                placeholder="e.g., 25"
+                            />
+                        ) : (
+                            <div className="text-sm font-medium">{user.hourly_rate !== null ? `$${user.hourly_rate}` : 'Not provided'}</div>
+                        )}
+                    </div>
+                </div>
+                {isEditing && (
+                    <p className="text-xs text-muted-foreground -mt-4">
+                        Your standard rates. A production may agree different rates with you.
+                    </p>
+                )}
+
+                {/* Calendar feed */}
+                <div className="space-y-2 pt-4 border-t">
+                    <Label htmlFor="calendar-feed-url">Calendar Feed</Label>
+                    <p className="text-xs text-muted-foreground">
+                        Subscribe to this link in Google Calendar or Apple Calendar to see your shifts there.
+                        Changes to your shifts show up when your calendar app next refreshes. Keep the link
+                        private: anyone with it can see your schedule.
+                    </p>
+                    {calendarFeedUrl ? (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Input
+                                id="calendar-feed-url"
+                                readOnly
+                                value={calendarFeedUrl}
+                                onFocus={(e) => e.target.select()}
+                                className="flex-1 min-w-[200px] font-mono text-xs"
+                            />
+                            <Button variant="outline" size="sm" onClick={handleCopyFeedUrl}>
+                                Copy
+                            </Button>
+                            <a href={calendarFeedUrl.replace(/^https?:/, 'webcal:')}>
+                                <Button variant="outline" size="sm">
+                                    Subscribe
+                                </Button>
+                            </a>
+                        </div>
+                    ) : null}
+                    <Button
+                        variant={calendarFeedUrl ? 'ghost' : 'outline'}
+                        size="sm"
+                        onClick={handleRegenerateToken}
+                        disabled={isRegeneratingToken}
+                    >
+                        {isRegeneratingToken
+                            ? 'Creating...'
+                            : user.calendar_token ? 'Regenerate Link' : 'Create Calendar Link'}
+                    </Button>
+                </div>
+
                 {/* Action Buttons */}
                 {isEditing && (
                     <div className="flex gap-2 pt-4 border-t">
@@ -2,47 +2,85 @@
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { createClient } from '@/lib/supabase/client';
-import type { Database } from '@/lib/supabase/types';
+import type { Database, ShiftBreak } from '@/lib/supabase/types';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
-  sendShiftConfirmationEmail,
-  getUserDetails,
-} from '@/lib/email/notifications';
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { submitShiftHoursClient, transitionShiftClient } from '@/lib/shifts/api';
+import type { ShiftStatus } from '@/lib/shifts/transitions';
+import {
+    formatDuration,
+    formatShiftBreak,
+    formatShiftTimes,
+    getShiftDuration,
+    toBreakInputs,
+    wrapsNextDay,
+} from '@/lib/shifts/time';
+import { formatISODate, getTodayInTimezone } from '@/lib/utils/dates';
+import { ShiftBreaksEditor } from '../pc/shift-breaks-editor';
 
 type Shift = Database['public']['Tables']['shifts']['Row'];
 
 interface PAShiftsProps {
     userId: string;
+    productionId: string | null;
     shifts: Shift[];
     pendingCount: number;
+    teammates: Array<{ id: string; name: string }>; // Other PAs in the production, for swap proposals
+    timezone: string; // Production timezone, decides which shifts have started
 }
 
-function getStatusColor(status: 'pending' | 'confirmed' | 'declined'): string {
+function getStatusColor(status: ShiftStatus): string {
     switch (status) {
         case 'confirmed':
             return 'text-green-600 bg-green-50 border-green-200';
         case 'declined':
             return 'text-red-600 bg-red-50 border-red-200';
+        case 'release_requested':
+            return 'text-orange-600 bg-orange-50 border-orange-200';
+        case 'cancelled':
+        case 'released':
+            return 'text-gray-600 bg-gray-50 border-gray-200';
         default:
             return 'text-yellow-600 bg-yellow-50 border-yellow-200';
     }
 }
 
-function getStatusBadge(status: 'pending' | 'confirmed' | 'declined'): string {
+function getStatusBadge(status: ShiftStatus): string {
     switch (status) {
         case 'confirmed':
             return '✓ Confirmed';
         case 'declined':
             return '✗ Declined';
+        case 'release_requested':
+            return '↩ Release Requested';
+        case 'cancelled':
+            return '✗ Cancelled';
+        case 'released':
+            return '↩ Released';
         default:
             return '⏳ Pending';
     }
 }
 
 function formatDate(dateStr: string): string {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', {
+    return formatISODate(dateStr, {
         weekday: 'short',
         month: 'short',
         day: 'numeric',
@@ -60,9 +98,19 @@ function formatTime(timeStr: string | null): string {
     return timeStr;
 }
 
-export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialPendingCount }: PAShiftsProps) {
+export function PAShifts({ userId, productionId, shifts: initialShifts, pendingCount: initialPendingCount, teammates, timezone }: PAShiftsProps) {
     const [shifts, setShifts] = useState<Shift[]>(initialShifts);
     const [isLoading, setIsLoading] = useState<string | null>(null);
+    const [releaseShiftId, setReleaseShiftId] = useState<string | null>(null);
+    const [releaseReason, setReleaseReason] = useState('');
+    const [declineShiftId, setDeclineShiftId] = useState<string | null>(null);
+    const [declineReason, setDeclineReason] = useState('');
+    const [proposedPaId, setProposedPaId] = useState('none');
+    const [hoursShift, setHoursShift] = useState<Shift | null>(null);
+    const [actualCallTime, setActualCallTime] = useState('');
+    const [actualWrapTime, setActualWrapTime] = useState('');
+    const [actualBreaks, setActualBreaks] = useState<ShiftBreak[]>([]);
+    const today = getTodayInTimezone(timezone);
 
     // Real-time subscription for shifts
     useEffect(() => {
@@ -87,6 +135,16 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
                 },
                 (payload) => {
                     try {
+                        // Only show shifts for the production the PA is currently viewing
+                        const changedShift = payload.new as Shift;
+                        if (
+                            payload.eventType !== 'DELETE' &&
+                            changedShift?.production_id &&
+                            changedShift.production_id !== productionId
+                        ) {
+                            return;
+                        }
+
                         if (payload.eventType === 'INSERT') {
                             if (!payload.new || !payload.new.id) {
                                 console.error('PA: INSERT payload missing new data or id:', payload);
@@ -154,7 +212,7 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
                     console.error('PA: Error removing channel:', error);
                 });
         };
-    }, [userId]);
+    }, [userId, productionId]);
 
     const pendingCount = useMemo(() => {
         return shifts.filter((shift) => shift.confirmation_status === 'pending').length;
@@ -177,46 +235,11 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
             });
 
             try {
-                const supabase = createClient();
-                const supabaseAny = supabase as any;
-                const { data, error } = await supabaseAny
-                    .from('shifts')
-                    .update({ confirmation_status: 'confirmed' })
-                    .eq('id', shiftId)
-                    .select()
-                    .single();
-
-                if (error) {
-                    console.error('PA: Error confirming shift:', error);
-                    throw error;
-                }
-
-                // Send email notification to PC
-                try {
-                    if (data && data.assigned_by_id) {
-                        // Fetch PA details (name)
-                        const paDetails = await getUserDetails(userId, supabaseAny);
-                        
-                        // Fetch PC details (email) from assigned_by_id
-                        const pcDetails = await getUserDetails(data.assigned_by_id, supabaseAny);
-
-                        if (pcDetails?.email && paDetails?.name) {
-                            await sendShiftConfirmationEmail({
-                                pcEmail: pcDetails.email,
-                                paName: paDetails.name,
-                                date: data.date,
-                                confirmationStatus: 'confirmed',
-                                callTime: data.call_time,
-                                wrapTime: data.wrap_time,
-                            });
-                        } else {
-                            console.warn('Could not fetch required details for email notification');
-                        }
-                    }
-                } catch (emailError) {
-                    // Log error but don't fail the shift confirmation
-                    console.error('Failed to send shift confirmation email:', emailError);
-                }
+                // The API checks the shift is still pending and notifies the PC
+                const data = await transitionShiftClient(shiftId, 'confirm');
+                setShifts((prev) =>
+                    prev.map((shift) => (shift.id === shiftId ? data : shift))
+                );
 
                 toast.success('Shift confirmed!');
             } catch (error) {
@@ -236,15 +259,20 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
                 setIsLoading(null);
             }
         },
-        [userId]
+        []
     );
 
+    const closeDeclineDialog = useCallback(() => {
+        setDeclineShiftId(null);
+        setDeclineReason('');
+        setProposedPaId('none');
+    }, []);
+
     const declineShift = useCallback(
-        async (shiftId: string) => {
-            if (!confirm('Are you sure you want to decline this shift?')) {
-                return;
-            }
+        async () => {
+            if (!declineShiftId) return;
 
+            const shiftId = declineShiftId;
             setIsLoading(shiftId);
 
             // Capture previous state for rollback before optimistic update
@@ -260,48 +288,21 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
             });
 
             try {
-                const supabase = createClient();
-                const supabaseAny = supabase as any;
-                const { data, error } = await supabaseAny
-                    .from('shifts')
-                    .update({ confirmation_status: 'declined' })
-                    .eq('id', shiftId)
-                    .select()
-                    .single();
-
-                if (error) {
-                    console.error('PA: Error declining shift:', error);
-                    throw error;
-                }
-
-                // Send email notification to PC
-                try {
-                    if (data && data.assigned_by_id) {
-                        // Fetch PA details (name)
-                        const paDetails = await getUserDetails(userId, supabaseAny);
-                        
-                        // Fetch PC details (email) from assigned_by_id
-                        const pcDetails = await getUserDetails(data.assigned_by_id, supabaseAny);
-
-                        if (pcDetails?.email && paDetails?.name) {
-                            await sendShiftConfirmationEmail({
-                                pcEmail: pcDetails.email,
-                                paName: paDetails.name,
-                                date: data.date,
-                                confirmationStatus: 'declined',
-                                callTime: data.call_time,
-                                wrapTime: data.wrap_time,
-                            });
-                        } else {
-                            console.warn('Could not fetch required details for email notification');
-                        }
-                    }
-                } catch (emailError) {
-                    // Log error but don't fail the shift decline
-                    console.error('Failed to send shift decline email:', emailError);
-                }
+                // The API checks the shift is still pending and notifies the PC
+                const data = await transitionShiftClient(shiftId, 'decline', {
+                    reason: declineReason,
+                    proposedPaId: proposedPaId === 'none' ? null : proposedPaId,
+                });
+                setShifts((prev) =>
+                    prev.map((shift) => (shift.id === shiftId ? data : shift))
+                );
 
-                toast.success('Shift declined.');
+                toast.success(
+                    data.proposed_pa_id
+                        ? 'Shift declined. Your coordinator will review the swap.'
+                        : 'Shift declined.'
+                );
+                closeDeclineDialog();
             } catch (error) {
                 console.error('PA: Failed to decline shift:', error);
                 // Rollback to previous state if we have it
@@ -319,9 +320,78 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
                 setIsLoading(null);
             }
         },
-        [userId]
+        [declineShiftId, declineReason, proposedPaId, closeDeclineDialog]
     );
 
+    const requestRelease = useCallback(async () => {
+        if (!releaseShiftId) return;
+
+        if (!releaseReason.trim()) {
+            toast.error('Please let your coordinator know why you need to be released');
+            return;
+        }
+
+        setIsLoading(releaseShiftId);
+        try {
+            const data = await transitionShiftClient(releaseShiftId, 'request_release', {
+                reason: releaseReason,
+            });
+            setShifts((prev) =>
+                prev.map((shift) => (shift.id === releaseShiftId ? data : shift))
+            );
+
+            toast.success('Release requested. Your coordinator will review it.');
+            setReleaseShiftId(null);
+            setReleaseReason('');
+        } catch (error) {
+            console.error('PA: Failed to request release:', error);
+            toast.error(
+                `Failed to request release: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        } finally {
+            setIsLoading(null);
+        }
+    }, [releaseShiftId, releaseReason]);
+
+    // Prefill with what was logged before, or the scheduled times
+    const openHoursDialog = useCallback((shift: Shift) => {
+        setHoursShift(shift);
+        setActualCallTime((shift.actual_call_time ?? shift.call_time ?? '').slice(0, 5));
+        setActualWrapTime((shift.actual_wrap_time ?? shift.wrap_time ?? '').slice(0, 5));
+        setActualBreaks(toBreakInputs(shift.hours_status ? shift.actual_breaks : shift.breaks));
+    }, []);
+
+    const submitHours = useCallback(async () => {
+        if (!hoursShift) return;
+
+        if (!actualCallTime || !actualWrapTime) {
+            toast.error('Enter the time you were called and the time you wrapped');
+            return;
+        }
+
+        setIsLoading(hoursShift.id);
+        try {
+            const data = await submitShiftHoursClient(hoursShift.id, {
+                actualCallTime,
+                actualWrapTime,
+                actualBreaks,
+            });
+            setShifts((prev) =>
+                prev.map((shift) => (shift.id === data.id ? data : shift))
+            );
+
+            toast.success('Hours submitted for approval');
+            setHoursShift(null);
+        } catch (error) {
+            console.error('PA: Failed to submit hours:', error);
+            toast.error(
+                `Failed to submit hours: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        } finally {
+            setIsLoading(null);
+        }
+    }, [hoursShift, actualCallTime, actualWrapTime, actualBreaks]);
+
     // Sort shifts: pending first, then by date
     const sortedShifts = useMemo(() => {
         return [...shifts].sort((a, b) => {
@@ -378,8 +448,82 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
                                                 <span className="font-medium">Wrap Time:</span>{' '}
                                                 <span className="text-muted-foreground">
                                                     {formatTime(shift.wrap_time)}
+                                                    {wrapsNextDay(shift) && ' (next day)'}
                                                 </span>
                                             </div>
+                                            {shift.breaks && shift.breaks.length > 0 && (
+                                                <div>
+                                                    <span className="font-medium">Breaks:</span>{' '}
+                                                    <span className="text-muted-foreground">
+                                                        {shift.breaks.map(formatShiftBreak).join(', ')}
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {getShiftDuration(shift) && (
+                                                <div>
+                                                    <span className="font-medium">Hours:</span>{' '}
+                                                    <span className="text-muted-foreground">
+                                                        {formatDuration(getShiftDuration(shift)?.workedMinutes ?? 0)}
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {shift.location && (
+                                                <div>
+                                                    <span className="font-medium">Location:</span>{' '}
+                                                    <span className="text-muted-foreground">
+                                                        {shift.location}
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {shift.unit_base && (
+                                                <div>
+                                                    <span className="font-medium">Unit Base:</span>{' '}
+                                                    <span className="text-muted-foreground">
+                                                        {shift.unit_base}
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {shift.parking_notes && (
+                                                <div>
+                                                    <span className="font-medium">Parking:</span>{' '}
+                                                    <span className="text-muted-foreground">
+                                                        {shift.parking_notes}
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {shift.hours_status && (
+                                                <div>
+                                                    <span className="font-medium">Worked:</span>{' '}
+                                                    <span className="text-muted-foreground">
+                                                        {formatShiftTimes({
+                                                            call_time: shift.actual_call_time,
+                                                            wrap_time: shift.actual_wrap_time,
+                                                        })}
+                                                        {' '}
+                                                        ({shift.hours_status === 'approved' ? 'approved' : 'awaiting approval'})
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {shift.confirmation_status === 'declined' && shift.decline_reason && (
+                                                <div>
+                                                    <span className="font-medium">Your reason:</span>{' '}
+                                                    <span className="text-muted-foreground">
+                                                        {shift.decline_reason}
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {shift.map_url && (
+                                                <div>
+                                                    <a
+                                                        href={shift.map_url}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="text-primary underline"
+                                                    >
+                                                        Open map
+                                                    </a>
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                     {shift.confirmation_status === 'pending' && (
@@ -387,7 +531,7 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
                                             <Button
                                                 size="sm"
                                                 variant="outline"
-                                                onClick={() => declineShift(shift.id)}
+                                                onClick={() => setDeclineShiftId(shift.id)}
                                                 disabled={isLoading === shift.id}
                                                 className="flex-1 md:flex-none min-h-[44px] md:min-h-0 text-base md:text-sm"
                                             >
@@ -403,12 +547,191 @@ export function PAShifts({ userId, shifts: initialShifts, pendingCount: initialP
                                             </Button>
                                         </div>
                                     )}
+                                    {shift.confirmation_status === 'confirmed' && (
+                                        <div className="flex gap-3 md:gap-2 w-full md:w-auto">
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                onClick={() => setReleaseShiftId(shift.id)}
+                                                disabled={isLoading === shift.id}
+                                                className="flex-1 md:flex-none min-h-[44px] md:min-h-0 text-base md:text-sm"
+                                            >
+                                                Request Release
+                                            </Button>
+                                            {shift.date <= today && shift.hours_status !== 'approved' && (
+                                                <Button
+                                                    size="sm"
+                                                    onClick={() => openHoursDialog(shift)}
+                                                    disabled={isLoading === shift.id}
+                                                    className="flex-1 md:flex-none min-h-[44px] md:min-h-0 text-base md:text-sm"
+                                                >
+                                                    {shift.hours_status ? 'Edit Hours' : 'Log Hours'}
+                                                </Button>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         );
                     })
                 )}
             </div>
+
+            <Dialog
+                open={declineShiftId !== null}
+                onOpenChange={(open) => {
+                    if (!open) closeDeclineDialog();
+                }}
+            >
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Decline Shift</DialogTitle>
+                        <DialogDescription>
+                            Let your coordinator know why, and suggest a teammate who could cover it
+                            if you know one.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="decline-reason">Reason (optional)</Label>
+                            <Input
+                                id="decline-reason"
+                                value={declineReason}
+                                onChange={(e) => setDeclineReason(e.target.value)}
+                                placeholder="e.g., Already booked on another show"
+                            />
+                        </div>
+                        {teammates.length > 0 && (
+                            <div className="space-y-2">
+                                <Label htmlFor="proposed-pa">Propose a replacement (optional)</Label>
+                                <Select value={proposedPaId} onValueChange={setProposedPaId}>
+                                    <SelectTrigger id="proposed-pa" className="w-full">
+                                        <SelectValue placeholder="No replacement" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="none">No replacement</SelectItem>
+                                        {teammates.map((teammate) => (
+                                            <SelectItem key={teammate.id} value={teammate.id}>
+                                                {teammate.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={closeDeclineDialog}>
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="destructive"
+                            onClick={declineShift}
+                            disabled={isLoading === declineShiftId}
+                        >
+                            {isLoading === declineShiftId ? 'Declining...' : 'Decline Shift'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog
+                open={releaseShiftId !== null}
+                onOpenChange={(open) => {
+                    if (!open) {
+                        setReleaseShiftId(null);
+                        setReleaseReason('');
+                    }
+                }}
+            >
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Request Release</DialogTitle>
+                        <DialogDescription>
+                            You&apos;ll stay booked on this shift until your coordinator approves the
+                            release.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2 py-4">
+                        <Label htmlFor="release-reason">Reason</Label>
+                        <Input
+                            id="release-reason"
+                            value={releaseReason}
+                            onChange={(e) => setReleaseReason(e.target.value)}
+                            placeholder="e.g., Family emergency"
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button
+                            variant="outline"
+                            onClick={() => {
+                                setReleaseShiftId(null);
+                                setReleaseReason('');
+                            }}
+                        >
+                            Cancel
+                        </Button>
+                        <Button onClick={requestRelease} disabled={isLoading === releaseShiftId}>
+                            {isLoading === releaseShiftId ? 'Sending...' : 'Request Release'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog
+                open={hoursShift !== null}
+                onOpenChange={(open) => {
+                    if (!open) setHoursShift(null);
+                }}
+            >
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Log Hours</DialogTitle>
+                        <DialogDescription>
+                            {hoursShift && `${formatDate(hoursShift.date)}. `}
+                            Enter when you actually started and wrapped. Your coordinator approves
+                            these hours for payroll.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="actual-call-time">Actual Call</Label>
+                                <Input
+                                    id="actual-call-time"
+                                    type="time"
+                                    value={actualCallTime}
+                                    onChange={(e) => setActualCallTime(e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="actual-wrap-time">Actual Wrap</Label>
+                                <Input
+                                    id="actual-wrap-time"
+                                    type="time"
+                                    value={actualWrapTime}
+                                    onChange={(e) => setActualWrapTime(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                        <ShiftBreaksEditor
+                            idPrefix="actual"
+                            callTime={actualCallTime}
+                            wrapTime={actualWrapTime}
+                            breaks={actualBreaks}
+                            onChange={setActualBreaks}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setHoursShift(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={submitHours} disabled={isLoading === hoursShift?.id}>
+                            {isLoading === hoursShift?.id ? 'Submitting...' : 'Submit Hours'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     );
 }
@@ -2,22 +2,45 @@ import { createClient } from '@/lib/supabase/server';
 import { Suspense } from 'react';
 import type { Database } from '@/lib/supabase/types';
 import { PACalendar } from './pa-calendar';
+import { PAAvailabilityRules } from './availability-rules';
+import { PAAvailabilitySubmission } from './availability-submission';
 import { PAShifts } from './pa-shifts';
+import { PAOpenShifts } from './open-shifts';
 import { PAProfile } from './pa-profile';
 import { LogoutButton } from '../pc/logout-button';
 import { PARealtimeSubscriptions } from './realtime-subscriptions';
+import { ProductionSwitcher } from '../pc/production-switcher';
+import { getProductionMemberIds, resolveActiveProduction } from '@/lib/productions/membership';
+import { listAvailabilityRules } from '@/lib/shifts/availability-rules';
+import { getAvailabilityDeadline } from '@/lib/shifts/availability-deadline';
+import type { AvailabilityDeadline } from '@/lib/shifts/availability-deadline';
+import { listLockedWeeks } from '@/lib/shifts/availability-submissions';
+import { DEFAULT_TIMEZONE, addDaysToISO, formatISODate, getTodayInTimezone } from '@/lib/utils/dates';
 
 type User = Database['public']['Tables']['users']['Row'];
 type Availability = Database['public']['Tables']['availability']['Row'];
 type Shift = Database['public']['Tables']['shifts']['Row'];
+type Production = Database['public']['Tables']['productions']['Row'];
+type OpenShift = Database['public']['Tables']['open_shifts']['Row'];
+type AvailabilityRule = Database['public']['Tables']['availability_rules']['Row'];
+type AvailabilitySubmission = Database['public']['Tables']['availability_submissions']['Row'];
 
 async function getPADashboardData(): Promise<{
     user: User;
+    production: Production | null;
+    productions: Array<{ id: string; name: string }>;
     availability: Availability[];
+    availabilityRules: AvailabilityRule[];
+    availabilityDeadline: AvailabilityDeadline | null;
+    submissions: AvailabilitySubmission[];
     shifts: Shift[];
+    teammates: Array<{ id: string; name: string }>;
+    openShifts: OpenShift[];
+    claimableDates: string[];
     dates: string[];
     startDate: string;
     endDate: string;
+    timezone: string;
 }> {
     const supabase = await createClient();
 
@@ -40,14 +63,17 @@ async function getPADashboardData(): Promise<{
         throw new Error('User not found or not a PA.');
     }
 
-    // Calculate date range (next 30 days)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const endDate = new Date(today);
-    endDate.setDate(today.getDate() + 29); // 30 days total (today + 29 more)
+    // Resolve the production the PA is currently working in
+    const { production, memberships } = await resolveActiveProduction(
+        supabase,
+        authUser.id,
+        userData.production_id
+    );
 
-    const startDateStr = today.toISOString().split('T')[0];
-    const endDateStr = endDate.toISOString().split('T')[0];
+    // Calculate date range (next 30 days) from "today" in the production's timezone
+    const timezone = production?.timezone ?? DEFAULT_TIMEZONE;
+    const startDateStr = getTodayInTimezone(timezone);
+    const endDateStr = addDaysToISO(startDateStr, 29); // 30 days total (today + 29 more)
 
     // Fetch availability for next 30 days for this PA
     const { data: availability, error: availabilityError } = await supabase
@@ -62,32 +88,95 @@ async function getPADashboardData(): Promise<{
         throw new Error(`Failed to fetch availability: ${availabilityError.message}`);
     }
 
-    // Fetch shifts for this PA (all shifts, not just next 30 days)
-    const { data: shifts, error: shiftsError } = await supabase
-        .from('shifts')
-        .select('*')
-        .eq('assigned_pa_id', authUser.id)
-        .order('date');
+    const availabilityRules = await listAvailabilityRules(supabase, authUser.id);
+    // Submitted weeks on any production lock the PA's availability
+    const submissions = await listLockedWeeks(supabase, authUser.id, startDateStr);
 
-    if (shiftsError) {
-        throw new Error(`Failed to fetch shifts: ${shiftsError.message}`);
+    // Fetch shifts for this PA in the active production (all shifts, not just next 30 days)
+    let shifts: Shift[] = [];
+    if (production) {
+        // Shifts created before production scoping have no production_id
+        const { data, error: shiftsError } = await supabase
+            .from('shifts')
+            .select('*')
+            .eq('assigned_pa_id', authUser.id)
+            .or(`production_id.eq.${production.id},production_id.is.null`)
+            .order('date');
+
+        if (shiftsError) {
+            throw new Error(`Failed to fetch shifts: ${shiftsError.message}`);
+        }
+
+        shifts = data || [];
+    }
+
+    // Open shifts the PA can claim: dates they're available for and not already booked on
+    const bookedDates = new Set(shifts.map((shift) => shift.date));
+    const claimableDates = (availability || [])
+        .filter((record) => record.status === 'available' || record.status === 'preferred')
+        .map((record) => record.date)
+        .filter((date) => !bookedDates.has(date));
+
+    let openShifts: OpenShift[] = [];
+    if (production && claimableDates.length > 0) {
+        const { data, error: openShiftsError } = await supabase
+            .from('open_shifts')
+            .select('*')
+            .eq('production_id', production.id)
+            .eq('status', 'open')
+            .in('date', claimableDates)
+            .order('date');
+
+        if (openShiftsError) {
+            throw new Error(`Failed to fetch open shifts: ${openShiftsError.message}`);
+        }
+
+        openShifts = data || [];
+    }
+
+    // Other PAs in the production, offered as replacements when declining a shift
+    let teammates: Array<{ id: string; name: string }> = [];
+    if (production) {
+        const teammateIds = (await getProductionMemberIds(supabase, production.id, 'PA'))
+            .filter((id) => id !== authUser.id);
+
+        if (teammateIds.length > 0) {
+            const { data: teammateData, error: teammatesError } = await supabase
+                .from('users')
+                .select('id, name')
+                .in('id', teammateIds)
+                .order('name');
+
+            if (teammatesError) {
+                throw new Error(`Failed to fetch teammates: ${teammatesError.message}`);
+            }
+
+            teammates = teammateData || [];
+        }
     }
 
     // Generate date array for the next 30 days
     const dates: string[] = [];
     for (let i = 0; i < 30; i++) {
-        const date = new Date(today);
-        date.setDate(today.getDate() + i);
-        dates.push(date.toISOString().split('T')[0]);
+        dates.push(addDaysToISO(startDateStr, i));
     }
 
     return {
         user: userData,
+        production,
+        productions: memberships.map(({ production }) => ({ id: production.id, name: production.name })),
         availability: availability || [],
-        shifts: shifts || [],
+        availabilityRules,
+        availabilityDeadline: getAvailabilityDeadline(production),
+        submissions,
+        shifts,
+        teammates,
+        openShifts,
+        claimableDates,
         dates,
         startDate: startDateStr,
         endDate: endDateStr,
+        timezone,
     };
 }
 
@@ -133,10 +222,8 @@ export default async function PADashboardPage() {
 
     // Format dates for display
     const formattedDates = data.dates.map((dateStr) => {
-        const date = new Date(dateStr);
-        const dayName = date.toLocaleDateString('en-US', { weekday: 'short' });
-        const month = date.getMonth() + 1;
-        const day = date.getDate();
+        const dayName = formatISODate(dateStr, { weekday: 'short' });
+        const [, month, day] = dateStr.split('-').map(Number);
         return {
             date: dateStr,
             display: `${dayName} ${month}/${day}`,
@@ -160,15 +247,35 @@ export default async function PADashboardPage() {
                     <p className="text-muted-foreground mt-1 text-sm md:text-base">
                         Welcome back, {data.user.name}
                     </p>
+                    <p className="text-muted-foreground text-sm mt-1">
+                        {data.production
+                            ? `Production: ${data.production.name}`
+                            : 'You are not part of a production yet. Join one with an invite code.'}
+                    </p>
                 </div>
-                <div className="self-start md:self-auto">
+                <div className="flex flex-wrap items-center gap-2 self-start md:self-auto">
+                    <ProductionSwitcher
+                        productions={data.productions}
+                        activeProductionId={data.production?.id ?? null}
+                        allowJoin
+                    />
                     <LogoutButton />
                 </div>
             </div>
 
             <div className="grid gap-6 md:gap-8 lg:grid-cols-3">
                 {/* Calendar View - Takes 2 columns on large screens */}
-                <div className="lg:col-span-2">
+                <div className="lg:col-span-2 space-y-6 md:space-y-8">
+                    {data.production && data.availabilityDeadline && (
+                        <PAAvailabilitySubmission
+                            key={data.production.id}
+                            productionId={data.production.id}
+                            deadline={data.availabilityDeadline}
+                            submissions={data.submissions.filter((s) => s.production_id === data.production?.id)}
+                            timezone={data.timezone}
+                        />
+                    )}
+
                     <Suspense fallback={<LoadingState />}>
                         <PACalendar
                             userId={data.user.id}
@@ -176,17 +283,36 @@ export default async function PADashboardPage() {
                             dates={formattedDates}
                             startDate={data.startDate}
                             endDate={data.endDate}
+                            timezone={data.timezone}
+                            lockedWeeks={data.submissions.map((s) => s.week_start)}
+                            productionStartDate={data.production?.start_date}
+                            productionEndDate={data.production?.end_date}
                         />
                     </Suspense>
+
+                    <PAAvailabilityRules rules={data.availabilityRules} timezone={data.timezone} />
                 </div>
 
                 {/* My Shifts and Profile - Takes 1 column on large screens */}
                 <div className="space-y-6 md:space-y-8">
+                    {data.production && (
+                        <PAOpenShifts
+                            key={data.production.id}
+                            productionId={data.production.id}
+                            openShifts={data.openShifts}
+                            availableDates={data.claimableDates}
+                        />
+                    )}
+
                     <Suspense fallback={<LoadingState />}>
                         <PAShifts
+                            key={data.production?.id ?? 'no-production'}
                             userId={data.user.id}
+                            productionId={data.production?.id ?? null}
                             shifts={data.shifts}
                             pendingCount={pendingShiftsCount}
+                            teammates={data.teammates}
+                            timezone={data.timezone}
                         />
                     </Suspense>
 
@@ -1,8 +1,10 @@
 'use client';
 
-import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { createClient } from '@/lib/supabase/client';
-import type { Database } from '@/lib/supabase/types';
+import { addDaysToISO, getMondayOfWeekISO, getTodayInTimezone } from '@/lib/utils/dates';
+import type { Database, ShiftBreak } from '@/lib/supabase/types';
+import type { CrewMember } from '@/lib/productions/membership';
 import { toast } from 'sonner';
 import {
   Dialog,
@@ -23,12 +25,49 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import {
-  getUserDetails,
-} from '@/lib/email/notifications';
-
-type PA = Database['public']['Tables']['users']['Row'];
+  ShiftApiError,
+  acceptShiftSwapClient,
+  closeOpenShiftClient,
+  createShiftClient,
+  deleteShiftClient,
+  getAvailabilitySubmissionsClient,
+  getShiftHistoryClient,
+  transitionShiftClient,
+  updateShiftClient,
+} from '@/lib/shifts/api';
+import type { ShiftHistoryEntry } from '@/lib/shifts/service';
+import {
+  SHIFT_STATUS_LABELS,
+  SHIFT_TRANSITIONS,
+  getAvailableActions,
+} from '@/lib/shifts/transitions';
+import type { ShiftAction, ShiftStatus } from '@/lib/shifts/transitions';
+import { evaluateAvailabilityWindow, evaluateShiftRules } from '@/lib/shifts/rules';
+import {
+  formatAvailabilityWindow,
+  formatDuration,
+  formatShiftBreak,
+  formatShiftTimes,
+  getShiftDuration,
+  toBreakInputs,
+  wrapsNextDay,
+} from '@/lib/shifts/time';
+import type { RuleViolation, SchedulingRules } from '@/lib/shifts/rules';
+import type { AvailabilityDeadline } from '@/lib/shifts/availability-deadline';
+import { BulkAssignDialog } from './bulk-assign-dialog';
+import { ExportGridDialog } from './export-grid-dialog';
+import type { BulkAssignCell } from './bulk-assign-dialog';
+import { OpenShiftDialog } from './open-shift-dialog';
+import { AvailabilitySubmissionsPanel } from './availability-submissions-panel';
+import { RuleWarnings } from './rule-warnings';
+import { ShiftBreaksEditor } from './shift-breaks-editor';
+import { SuggestCrewDialog } from './suggest-crew-dialog';
+
+type PA = CrewMember;
 type Availability = Database['public']['Tables']['availability']['Row'];
 type Shift = Database['public']['Tables']['shifts']['Row'];
+type OpenShift = Database['public']['Tables']['open_shifts']['Row'];
+type AvailabilitySubmission = Database['public']['Tables']['availability_submissions']['Row'];
 
 interface DateInfo {
   date: string;
@@ -39,11 +78,20 @@ interface AvailabilityGridProps {
   pas: PA[];
   availability: Availability[];
   shifts: Shift[];
+  openShifts: OpenShift[];
   initialWeekMonday: string; // ISO date string for Monday of the initial week
+  preloadedWeeks: string[]; // Mondays of the weeks the props already cover; other weeks are fetched when opened
+  productionId: string | null; // Active production new shifts are created in
+  canEdit: boolean; // Read-only coordinators can view shifts but not assign or change them
+  rules: SchedulingRules; // The production's turnaround, overtime and meal penalty limits
+  timezone: string; // Production timezone "today" is computed in
+  availabilityDeadline: AvailabilityDeadline | null; // When set, shows who has submitted each week
 }
 
 type AvailabilityStatus = 'unavailable' | 'available' | 'preferred' | null;
 
+const ACTIVE_STATUSES: Shift['confirmation_status'][] = ['pending', 'confirmed', 'release_requested'];
+
 interface SelectedCell {
   paId: string;
   paName: string;
@@ -52,6 +100,7 @@ interface SelectedCell {
   status: AvailabilityStatus;
   shift: Shift | null;
   paNote: string | null;
+  availabilityWindow: Availability | null; // The PA's hours that day, checked against the shift times
 }
 
 function getAvailabilityStatus(
@@ -65,8 +114,19 @@ function getAvailabilityStatus(
   return avail?.status || null;
 }
 
+// A declined or cancelled shift can sit alongside the PA's new booking for the day; the live one wins
 function getShiftForCell(paId: string, date: string, shifts: Shift[]): Shift | null {
-  return shifts.find((shift) => shift.assigned_pa_id === paId && shift.date === date) || null;
+  const cellShifts = shifts.filter((shift) => shift.assigned_pa_id === paId && shift.date === date);
+  return cellShifts.find((shift) => ACTIVE_STATUSES.includes(shift.confirmation_status)) || cellShifts[0] || null;
+}
+
+function isShiftActive(shift: Shift | null): boolean {
+  return !!shift && ACTIVE_STATUSES.includes(shift.confirmation_status);
+}
+
+// Break times trimmed to HH:MM for time inputs
+function getCellKey(paId: string, date: string): string {
+  return `${paId}:${date}`;
 }
 
 function getStatusColor(status: AvailabilityStatus, hasShift: boolean): string {
@@ -101,38 +161,36 @@ function getStatusLabel(status: AvailabilityStatus, hasShift: boolean): string {
   }
 }
 
-function getConfirmationStatusColor(status: 'pending' | 'confirmed' | 'declined'): string {
+// Helper function to turn an optional text input into a nullable DB value
+function toNullableText(value: string): string | null {
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+}
+
+function getConfirmationStatusColor(status: ShiftStatus): string {
   switch (status) {
     case 'confirmed':
       return 'text-green-600';
     case 'declined':
       return 'text-red-600';
+    case 'release_requested':
+      return 'text-orange-600';
+    case 'cancelled':
+    case 'released':
+      return 'text-gray-600';
     default:
       return 'text-yellow-600';
   }
 }
 
-// Helper function to get Monday of a given week from an ISO date string
-function getMondayOfWeekISO(isoDateStr: string): string {
-  const [year, month, day] = isoDateStr.split('-').map(Number);
-  // Create a UTC date at midnight
-  const date = new Date(Date.UTC(year, month - 1, day));
-  const dayOfWeek = date.getUTCDay(); // 0 = Sunday, 1 = Monday, etc.
-  // Calculate days to subtract to get to Monday
-  const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-  return addDaysToISO(isoDateStr, -daysToMonday);
-}
-
-// Helper function to add days to an ISO date string (YYYY-MM-DD) without timezone conversion
-function addDaysToISO(isoDateStr: string, days: number): string {
-  const [year, month, day] = isoDateStr.split('-').map(Number);
-  // Create a UTC date at midnight to avoid timezone conversion
-  const date = new Date(Date.UTC(year, month - 1, day + days));
-  // Format back to ISO string (YYYY-MM-DD)
-  const resultYear = date.getUTCFullYear();
-  const resultMonth = String(date.getUTCMonth() + 1).padStart(2, '0');
-  const resultDay = String(date.getUTCDate()).padStart(2, '0');
-  return `${resultYear}-${resultMonth}-${resultDay}`;
+// Helper function to format a history timestamp for the shift timeline
+function formatHistoryTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
 }
 
 // Helper function to format an ISO date string for display
@@ -168,6 +226,12 @@ function generateWeekDates(mondayISO: string): DateInfo[] {
   return dates;
 }
 
+// Adds fetched rows to the loaded ones, replacing any with the same id
+function mergeRows<T extends { id: string }>(prev: T[], rows: T[]): T[] {
+  const fetchedIds = new Set(rows.map((row) => row.id));
+  return [...prev.filter((row) => !fetchedIds.has(row.id)), ...rows];
+}
+
 // Helper function to format week display using ISO date strings
 function formatWeekDisplay(mondayISO: string): string {
   const sundayISO = addDaysToISO(mondayISO, 6);
@@ -182,7 +246,14 @@ export function AvailabilityGrid({
   pas,
   availability: initialAvailability,
   shifts: initialShifts,
+  openShifts: initialOpenShifts,
   initialWeekMonday,
+  preloadedWeeks,
+  productionId,
+  canEdit,
+  rules,
+  timezone,
+  availabilityDeadline,
 }: AvailabilityGridProps) {
   // Week state management - store ISO date string directly
   const [selectedWeekMonday, setSelectedWeekMonday] = useState<string>(initialWeekMonday);
@@ -200,6 +271,15 @@ export function AvailabilityGrid({
   const [isEditMode, setIsEditMode] = useState(false);
   const [shifts, setShifts] = useState<Shift[]>(initialShifts);
   const [availability, setAvailability] = useState<Availability[]>(initialAvailability);
+  const [openShifts, setOpenShifts] = useState<OpenShift[]>(initialOpenShifts);
+  const [isOpenShiftDialogOpen, setIsOpenShiftDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [suggestCrewDate, setSuggestCrewDate] = useState<DateInfo | null>(null);
+  // Multi-cell selection for bulk assignment (drag or shift-click)
+  const [bulkSelection, setBulkSelection] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<{ paId: string; date: string } | null>(null);
+  const [isDragSelecting, setIsDragSelecting] = useState(false);
+  const [isBulkAssignOpen, setIsBulkAssignOpen] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -207,6 +287,22 @@ export function AvailabilityGrid({
   const [callTime, setCallTime] = useState('');
   const [wrapTime, setWrapTime] = useState('');
   const [location, setLocation] = useState('');
+  const [unitBase, setUnitBase] = useState('');
+  const [parkingNotes, setParkingNotes] = useState('');
+  const [mapUrl, setMapUrl] = useState('');
+  const [breaks, setBreaks] = useState<ShiftBreak[]>([]);
+
+  // Status history and transition note for the view dialog
+  const [shiftHistory, setShiftHistory] = useState<ShiftHistoryEntry[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [transitionReason, setTransitionReason] = useState('');
+  // Violations the server reported on the last save attempt (e.g. shifts on other productions)
+  const [serverRuleWarnings, setServerRuleWarnings] = useState<RuleViolation[]>([]);
+  // Weeks whose availability, shifts and open shifts are loaded or being fetched
+  const loadedWeeksRef = useRef<Set<string>>(new Set(preloadedWeeks));
+  const [loadingWeek, setLoadingWeek] = useState<string | null>(null);
+  // Availability submissions for the week on screen; null while loading
+  const [weekSubmissions, setWeekSubmissions] = useState<AvailabilitySubmission[] | null>(null);
 
   // Get current user ID
   useEffect(() => {
@@ -218,6 +314,96 @@ export function AvailabilityGrid({
     });
   }, []);
 
+  useEffect(() => {
+    if (!productionId || !availabilityDeadline) return;
+
+    let cancelled = false;
+    setWeekSubmissions(null);
+    getAvailabilitySubmissionsClient(productionId, selectedWeekMonday)
+      .then((submissions) => {
+        if (!cancelled) setWeekSubmissions(submissions);
+      })
+      .catch((error) => {
+        console.error('Failed to fetch availability submissions:', error);
+        if (!cancelled) setWeekSubmissions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productionId, availabilityDeadline, selectedWeekMonday]);
+
+  // Fetch a week the first time it's opened. The weeks either side come along so
+  // turnaround and consecutive-day checks see the neighbouring shifts.
+  useEffect(() => {
+    if (loadedWeeksRef.current.has(selectedWeekMonday) || !productionId || pas.length === 0) return;
+
+    const weeks = [-7, 0, 7]
+      .map((offset) => addDaysToISO(selectedWeekMonday, offset))
+      .filter((week) => !loadedWeeksRef.current.has(week));
+    const from = weeks[0];
+    const to = addDaysToISO(weeks[weeks.length - 1], 6);
+    const paIds = pas.map((pa) => pa.id);
+    weeks.forEach((week) => loadedWeeksRef.current.add(week));
+    setLoadingWeek(selectedWeekMonday);
+
+    const fetchWeeks = async () => {
+      const supabase = createClient();
+      const [availabilityResult, shiftsResult, openShiftsResult] = await Promise.all([
+        supabase.from('availability').select('*').gte('date', from).lte('date', to).in('user_id', paIds),
+        // Shifts created before production scoping have no production_id
+        supabase
+          .from('shifts')
+          .select('*')
+          .gte('date', from)
+          .lte('date', to)
+          .in('assigned_pa_id', paIds)
+          .or(`production_id.eq.${productionId},production_id.is.null`),
+        supabase
+          .from('open_shifts')
+          .select('*')
+          .eq('production_id', productionId)
+          .gte('date', from)
+          .lte('date', to)
+          .order('date'),
+      ]);
+
+      if (availabilityResult.error) {
+        throw new Error(`Failed to fetch availability: ${availabilityResult.error.message}`);
+      }
+      if (shiftsResult.error) {
+        throw new Error(`Failed to fetch shifts: ${shiftsResult.error.message}`);
+      }
+      if (openShiftsResult.error) {
+        throw new Error(`Failed to fetch open shifts: ${openShiftsResult.error.message}`);
+      }
+
+      setAvailability((prev) => mergeRows(prev, availabilityResult.data || []));
+      setShifts((prev) => mergeRows(prev, shiftsResult.data || []));
+      setOpenShifts((prev) => mergeRows(prev, openShiftsResult.data || []));
+    };
+
+    fetchWeeks()
+      .catch((error) => {
+        console.error('Failed to load week:', error);
+        toast.error(`Failed to load week: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // Fetched again the next time one of the weeks is opened
+        weeks.forEach((week) => loadedWeeksRef.current.delete(week));
+      })
+      .finally(() => {
+        setLoadingWeek((current) => (current === selectedWeekMonday ? null : current));
+      });
+  }, [selectedWeekMonday, productionId, pas]);
+
+  const handleUnlockResolved = useCallback(
+    (submissionId: string, submission: AvailabilitySubmission | null) => {
+      setWeekSubmissions((prev) =>
+        (prev || []).flatMap((s) => (s.id !== submissionId ? [s] : submission ? [submission] : []))
+      );
+    },
+    []
+  );
+
   // Real-time subscription for shifts
   useEffect(() => {
     if (!currentUserId) return;
@@ -234,6 +420,16 @@ export function AvailabilityGrid({
         },
         (payload) => {
           try {
+            // Ignore shifts the same PAs were booked for on other productions
+            const changedShift = payload.new as Shift;
+            if (
+              payload.eventType !== 'DELETE' &&
+              changedShift.production_id &&
+              changedShift.production_id !== productionId
+            ) {
+              return;
+            }
+
             if (payload.eventType === 'INSERT') {
               setShifts((prev) => {
                 // Check if shift already exists (avoid duplicates from optimistic updates)
@@ -266,7 +462,7 @@ export function AvailabilityGrid({
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [currentUserId]);
+  }, [currentUserId, productionId]);
 
   // Real-time subscription for availability
   useEffect(() => {
@@ -282,7 +478,8 @@ export function AvailabilityGrid({
         },
         (payload) => {
           if (payload.eventType === 'INSERT') {
-            setAvailability((prev) => [...prev, payload.new as Availability]);
+            // The row may already be in from a week fetch that raced the event
+            setAvailability((prev) => mergeRows(prev, [payload.new as Availability]));
           } else if (payload.eventType === 'UPDATE') {
             setAvailability((prev) =>
               prev.map((avail) =>
@@ -301,6 +498,65 @@ export function AvailabilityGrid({
     };
   }, []);
 
+  // Real-time subscription for open shift slot counts
+  useEffect(() => {
+    if (!productionId) return;
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`open-shifts-changes-${productionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'open_shifts',
+          filter: `production_id=eq.${productionId}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'INSERT') {
+            setOpenShifts((prev) =>
+              prev.some((openShift) => openShift.id === payload.new.id)
+                ? prev
+                : [...prev, payload.new as OpenShift]
+            );
+          } else if (payload.eventType === 'UPDATE') {
+            setOpenShifts((prev) =>
+              prev.map((openShift) =>
+                openShift.id === payload.new.id ? (payload.new as OpenShift) : openShift
+              )
+            );
+          } else if (payload.eventType === 'DELETE') {
+            setOpenShifts((prev) => prev.filter((openShift) => openShift.id !== payload.old.id));
+          }
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Error subscribing to open shift changes');
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [productionId]);
+
+  const handleCloseOpenShift = useCallback(async (openShift: OpenShift) => {
+    if (!confirm(`Stop accepting claims? ${openShift.slots_filled} of ${openShift.slots_total} slots are filled.`)) {
+      return;
+    }
+
+    try {
+      const data = await closeOpenShiftClient(openShift.id);
+      setOpenShifts((prev) => prev.map((o) => (o.id === data.id ? data : o)));
+      toast.success('Open shift closed');
+    } catch (error) {
+      console.error('Failed to close open shift:', error);
+      toast.error(`Failed to close open shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }, []);
+
   const handleCellClick = useCallback(
     (pa: PA, dateInfo: DateInfo) => {
       const status = getAvailabilityStatus(pa.id, dateInfo.date, availability);
@@ -317,9 +573,11 @@ export function AvailabilityGrid({
         status,
         shift,
         paNote: availRecord?.pa_note || null,
+        availabilityWindow: availRecord && availRecord.status !== 'unavailable' ? availRecord : null,
       };
 
       setSelectedCell(cellData);
+      setServerRuleWarnings([]);
 
       if (shift) {
         // Show view/edit dialog for assigned cells
@@ -332,18 +590,28 @@ export function AvailabilityGrid({
           : '';
         setCallTime(callTimeValue);
         setWrapTime(wrapTimeValue);
-        setLocation(''); // Note: location field may need to be added to DB schema
+        setLocation(shift.location || '');
+        setUnitBase(shift.unit_base || '');
+        setParkingNotes(shift.parking_notes || '');
+        setMapUrl(shift.map_url || '');
+        setBreaks(toBreakInputs(shift.breaks));
+        setShiftHistory([]);
+        setTransitionReason('');
         setIsEditMode(false);
         setIsViewDialogOpen(true);
-      } else if (status === 'available' || status === 'preferred') {
+      } else if (canEdit && (status === 'available' || status === 'preferred')) {
         // Show assign dialog for available/preferred cells
         setCallTime('');
         setWrapTime('');
         setLocation('');
+        setUnitBase('');
+        setParkingNotes('');
+        setMapUrl('');
+        setBreaks([]);
         setIsAssignDialogOpen(true);
       }
     },
-    [availability, shifts]
+    [availability, shifts, canEdit]
   );
 
   // Helper function to format time from HH:MM to HH:MM:SS
@@ -362,8 +630,48 @@ export function AvailabilityGrid({
     return null;
   }, []);
 
+  // Rule warnings for the shift being assigned or edited, updated as the times change
+  const dialogRuleWarnings = useMemo(() => {
+    if (!selectedCell || (!isAssignDialogOpen && !isEditMode)) return [];
+
+    const candidate = {
+      id: isEditMode ? selectedCell.shift?.id : undefined,
+      assigned_pa_id: selectedCell.paId,
+      date: selectedCell.date,
+      call_time: callTime || null,
+      wrap_time: wrapTime || null,
+      breaks: breaks.filter((b) => b.start && b.end),
+    };
+    const local = [
+      ...evaluateShiftRules(rules, candidate, shifts),
+      ...evaluateAvailabilityWindow(candidate, selectedCell.availabilityWindow),
+    ];
+    const messages = new Set(local.map((violation) => violation.message));
+    return [...local, ...serverRuleWarnings.filter((violation) => !messages.has(violation.message))];
+  }, [selectedCell, isAssignDialogOpen, isEditMode, rules, callTime, wrapTime, breaks, shifts, serverRuleWarnings]);
+
+  const viewedShiftDuration = useMemo(
+    () => (selectedCell?.shift ? getShiftDuration(selectedCell.shift) : null),
+    [selectedCell]
+  );
+
+  // Flags existing shifts in the grid that break the production's rules or fall
+  // outside the hours the PA is available
+  const shiftRuleViolations = useMemo(() => {
+    const violations = new Map<string, string[]>();
+    for (const shift of shifts) {
+      const record = availability.find((a) => a.user_id === shift.assigned_pa_id && a.date === shift.date);
+      const messages = [
+        ...evaluateShiftRules(rules, shift, shifts),
+        ...evaluateAvailabilityWindow(shift, record && record.status !== 'unavailable' ? record : null),
+      ].map((violation) => violation.message);
+      if (messages.length > 0) violations.set(shift.id, messages);
+    }
+    return violations;
+  }, [shifts, availability, rules]);
+
   const createShift = useCallback(async () => {
-    if (!currentUserId || !selectedCell) {
+    if (!currentUserId || !selectedCell || !productionId) {
       toast.error('Unable to assign shift. Please try again.');
       return;
     }
@@ -380,9 +688,29 @@ export function AvailabilityGrid({
       date: selectedCell.date,
       assigned_pa_id: selectedCell.paId,
       assigned_by_id: currentUserId,
+      production_id: productionId,
       call_time: formattedCallTime,
       wrap_time: formattedWrapTime,
       confirmation_status: 'pending',
+      location: toNullableText(location),
+      unit_base: toNullableText(unitBase),
+      parking_notes: toNullableText(parkingNotes),
+      map_url: toNullableText(mapUrl),
+      breaks: breaks.length > 0 ? breaks : null,
+      decline_reason: null,
+      proposed_pa_id: null,
+      open_shift_id: null,
+      reoffered_open_shift_id: null,
+      offered_at: null,
+      reminder_sent_at: null,
+      escalated_at: null,
+      actual_call_time: null,
+      actual_wrap_time: null,
+      actual_breaks: null,
+      hours_status: null,
+      hours_submitted_at: null,
+      hours_approved_by: null,
+      hours_approved_at: null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
@@ -390,70 +718,23 @@ export function AvailabilityGrid({
     setShifts((prev) => [...prev, optimisticShift]);
 
     try {
-      const supabase = createClient();
-      const shiftInsert: Database['public']['Tables']['shifts']['Insert'] = {
+      // The API validates the assignment and notifies the PA
+      const data = await createShiftClient({
+        productionId,
+        assignedPaId: selectedCell.paId,
         date: selectedCell.date,
-        assigned_pa_id: selectedCell.paId,
-        assigned_by_id: currentUserId,
-        call_time: formattedCallTime,
-        wrap_time: formattedWrapTime,
-        confirmation_status: 'pending',
-      };
-
-      const { data, error } = await (supabase
-        .from('shifts') as any)
-        .insert(shiftInsert)
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error creating shift:', error);
-        throw error;
-      }
+        callTime: formattedCallTime,
+        wrapTime: formattedWrapTime,
+        location,
+        unitBase,
+        parkingNotes,
+        mapUrl,
+        breaks,
+      }, { overrideRules: dialogRuleWarnings.length > 0 });
 
       // Replace optimistic update with real data
       setShifts((prev) => prev.filter((s) => s.id !== optimisticShift.id).concat(data));
 
-      // Send email notification to PA via API route
-      try {
-        // Fetch PA details (name and email)
-        const paDetails = await getUserDetails(selectedCell.paId, supabase);
-
-        // Fetch PC details (name) if needed
-        let pcName: string | undefined;
-        if (currentUserId) {
-          const pcDetails = await getUserDetails(currentUserId, supabase);
-          pcName = pcDetails?.name;
-        }
-
-        if (paDetails?.email) {
-          const response = await fetch('/api/send-email', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              paEmail: paDetails.email,
-              paName: paDetails.name,
-              date: selectedCell.date,
-              callTime: formattedCallTime,
-              wrapTime: formattedWrapTime,
-              pcName: pcName,
-            }),
-          });
-
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(errorData.error || 'Failed to send email');
-          }
-        } else {
-          console.warn('Could not fetch PA email address for notification');
-        }
-      } catch (emailError) {
-        // Log error but don't fail the shift assignment
-        console.error('Failed to send shift assignment email:', emailError);
-      }
-
       toast.success('Shift assigned successfully!');
       // Reset all state after successful assignment
       setIsAssignDialogOpen(false);
@@ -461,15 +742,24 @@ export function AvailabilityGrid({
       setCallTime('');
       setWrapTime('');
       setLocation('');
+      setUnitBase('');
+      setParkingNotes('');
+      setMapUrl('');
+      setBreaks([]);
     } catch (error) {
       console.error('Failed to create shift:', error);
       // Rollback optimistic update
       setShifts((prev) => prev.filter((s) => s.id !== optimisticShift.id));
-      toast.error(`Failed to assign shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof ShiftApiError && error.code === 'rule_violation') {
+        setServerRuleWarnings(error.violations);
+        toast.error('This shift breaks scheduling rules. Review the warnings and assign again to override.');
+      } else {
+        toast.error(`Failed to assign shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [currentUserId, selectedCell, callTime, wrapTime, formatTimeForDB]);
+  }, [currentUserId, productionId, selectedCell, callTime, wrapTime, location, unitBase, parkingNotes, mapUrl, breaks, formatTimeForDB, dialogRuleWarnings]);
 
   const updateShift = useCallback(async () => {
     if (!selectedCell?.shift) {
@@ -489,6 +779,11 @@ export function AvailabilityGrid({
       ...originalShift,
       call_time: formattedCallTime,
       wrap_time: formattedWrapTime,
+      location: toNullableText(location),
+      unit_base: toNullableText(unitBase),
+      parking_notes: toNullableText(parkingNotes),
+      map_url: toNullableText(mapUrl),
+      breaks: breaks.length > 0 ? breaks : null,
       updated_at: new Date().toISOString(),
     };
 
@@ -497,23 +792,15 @@ export function AvailabilityGrid({
     );
 
     try {
-      const supabase = createClient();
-      const shiftUpdate: Database['public']['Tables']['shifts']['Update'] = {
-        call_time: formattedCallTime,
-        wrap_time: formattedWrapTime,
-      };
-
-      const { data, error } = await (supabase
-        .from('shifts') as any)
-        .update(shiftUpdate)
-        .eq('id', originalShift.id)
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error updating shift:', error);
-        throw error;
-      }
+      const data = await updateShiftClient(originalShift.id, {
+        callTime: formattedCallTime,
+        wrapTime: formattedWrapTime,
+        location,
+        unitBase,
+        parkingNotes,
+        mapUrl,
+        breaks,
+      }, { overrideRules: dialogRuleWarnings.length > 0 });
 
       // Replace optimistic update with real data from server
       if (data) {
@@ -530,17 +817,26 @@ export function AvailabilityGrid({
       setCallTime('');
       setWrapTime('');
       setLocation('');
+      setUnitBase('');
+      setParkingNotes('');
+      setMapUrl('');
+      setBreaks([]);
     } catch (error) {
       console.error('Failed to update shift:', error);
       // Rollback optimistic update
       setShifts((prev) =>
         prev.map((shift) => (shift.id === originalShift.id ? originalShift : shift))
       );
-      toast.error(`Failed to update shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof ShiftApiError && error.code === 'rule_violation') {
+        setServerRuleWarnings(error.violations);
+        toast.error('These times break scheduling rules. Review the warnings and save again to override.');
+      } else {
+        toast.error(`Failed to update shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
     } finally {
       setIsLoading(false);
     }
-  }, [selectedCell, callTime, wrapTime, formatTimeForDB]);
+  }, [selectedCell, callTime, wrapTime, location, unitBase, parkingNotes, mapUrl, breaks, formatTimeForDB, dialogRuleWarnings]);
 
   const deleteShift = useCallback(async () => {
     if (!selectedCell?.shift) {
@@ -559,10 +855,7 @@ export function AvailabilityGrid({
     setShifts((prev) => prev.filter((shift) => shift.id !== shiftToDelete.id));
 
     try {
-      const supabase = createClient();
-      const { error } = await (supabase.from('shifts') as any).delete().eq('id', shiftToDelete.id);
-
-      if (error) throw error;
+      await deleteShiftClient(shiftToDelete.id);
 
       toast.success('Assignment removed successfully!');
       // Reset all state after successful deletion
@@ -572,6 +865,10 @@ export function AvailabilityGrid({
       setCallTime('');
       setWrapTime('');
       setLocation('');
+      setUnitBase('');
+      setParkingNotes('');
+      setMapUrl('');
+      setBreaks([]);
     } catch (error) {
       // Rollback optimistic update
       setShifts((prev) => [...prev, shiftToDelete]);
@@ -581,6 +878,93 @@ export function AvailabilityGrid({
     }
   }, [selectedCell]);
 
+  const loadShiftHistory = useCallback(async (shiftId: string) => {
+    setIsHistoryLoading(true);
+    try {
+      setShiftHistory(await getShiftHistoryClient(shiftId));
+    } catch (error) {
+      console.error('Failed to load shift history:', error);
+      setShiftHistory([]);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, []);
+
+  // Load the status timeline whenever a saved shift is opened
+  const viewedShiftId = isViewDialogOpen ? selectedCell?.shift?.id : undefined;
+  useEffect(() => {
+    if (!viewedShiftId || viewedShiftId.startsWith('temp-')) return;
+    loadShiftHistory(viewedShiftId);
+  }, [viewedShiftId, loadShiftHistory]);
+
+  const pcActions = useMemo(
+    () =>
+      selectedCell?.shift
+        ? getAvailableActions(selectedCell.shift.confirmation_status, 'PC')
+        : [],
+    [selectedCell]
+  );
+
+  const runTransition = useCallback(async (action: ShiftAction) => {
+    if (!selectedCell?.shift) return;
+
+    if (action === 'cancel' && !confirm('Are you sure you want to cancel this shift?')) {
+      return;
+    }
+
+    setIsLoading(true);
+    const shiftId = selectedCell.shift.id;
+    try {
+      let data: Shift;
+      try {
+        data = await transitionShiftClient(shiftId, action, { reason: transitionReason });
+      } catch (error) {
+        // A re-offer can break the rules if the PA was booked nearby since; let the coordinator decide
+        if (!(error instanceof ShiftApiError && error.code === 'rule_violation')) throw error;
+        const messages = error.violations.map((violation) => `- ${violation.message}`).join('\n');
+        if (!confirm(`This shift breaks scheduling rules:\n${messages}\n\nRe-offer it anyway?`)) return;
+        data = await transitionShiftClient(shiftId, action, { reason: transitionReason, overrideRules: true });
+      }
+      setShifts((prev) => prev.map((shift) => (shift.id === shiftId ? data : shift)));
+      setSelectedCell((prev) => (prev ? { ...prev, shift: data } : prev));
+      setTransitionReason('');
+      toast.success(`Shift ${SHIFT_STATUS_LABELS[data.confirmation_status].toLowerCase()}`);
+      await loadShiftHistory(shiftId);
+    } catch (error) {
+      console.error(`Failed to ${action} shift:`, error);
+      toast.error(`Failed to update status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedCell, transitionReason, loadShiftHistory]);
+
+  const acceptSwap = useCallback(async () => {
+    const shift = selectedCell?.shift;
+    if (!shift?.proposed_pa_id) return;
+
+    const replacement = pas.find((pa) => pa.id === shift.proposed_pa_id);
+    if (!confirm(`Reassign this shift to ${replacement?.name || 'the proposed PA'}?`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const data = await acceptShiftSwapClient(shift.id);
+      setShifts((prev) => prev.map((s) => (s.id === shift.id ? data : s)));
+      toast.success(`Shift offered to ${replacement?.name || 'the proposed PA'}`);
+      // The shift now belongs to another PA's row, so close the dialog
+      setIsViewDialogOpen(false);
+      setSelectedCell(null);
+      setShiftHistory([]);
+      setTransitionReason('');
+    } catch (error) {
+      console.error('Failed to accept swap:', error);
+      toast.error(`Failed to accept swap: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedCell, pas]);
+
   // Week navigation functions - work with ISO date strings
   const goToPreviousWeek = useCallback(() => {
     setSelectedWeekMonday((prev) => addDaysToISO(prev, -7));
@@ -591,10 +975,8 @@ export function AvailabilityGrid({
   }, []);
 
   const goToCurrentWeek = useCallback(() => {
-    const today = new Date();
-    const todayISO = today.toISOString().split('T')[0];
-    setSelectedWeekMonday(getMondayOfWeekISO(todayISO));
-  }, []);
+    setSelectedWeekMonday(getMondayOfWeekISO(getTodayInTimezone(timezone)));
+  }, [timezone]);
 
   // Filter PAs based on filters
   const filteredPAs = useMemo(() => {
@@ -616,6 +998,70 @@ export function AvailabilityGrid({
     });
   }, [pas, dates, availability, showOnlyAvailable, showOnlyPreferred]);
 
+  // Unassigned available/preferred cells can be part of a bulk selection
+  const isCellAssignable = useCallback(
+    (paId: string, date: string) => {
+      const status = getAvailabilityStatus(paId, date, availability);
+      return (
+        canEdit &&
+        !isShiftActive(getShiftForCell(paId, date, shifts)) &&
+        (status === 'available' || status === 'preferred')
+      );
+    },
+    [availability, shifts, canEdit]
+  );
+
+  // Selects every assignable cell in the rectangle between two cells
+  const selectRange = useCallback(
+    (from: { paId: string; date: string }, to: { paId: string; date: string }) => {
+      const paIndexes = [from.paId, to.paId].map((id) => filteredPAs.findIndex((pa) => pa.id === id));
+      const dateIndexes = [from.date, to.date].map((date) => dates.findIndex((d) => d.date === date));
+      if (paIndexes.includes(-1) || dateIndexes.includes(-1)) return;
+
+      const next = new Set<string>();
+      for (const pa of filteredPAs.slice(Math.min(...paIndexes), Math.max(...paIndexes) + 1)) {
+        for (const dateInfo of dates.slice(Math.min(...dateIndexes), Math.max(...dateIndexes) + 1)) {
+          if (isCellAssignable(pa.id, dateInfo.date)) {
+            next.add(getCellKey(pa.id, dateInfo.date));
+          }
+        }
+      }
+      setBulkSelection(next);
+    },
+    [filteredPAs, dates, isCellAssignable]
+  );
+
+  const clearBulkSelection = useCallback(() => {
+    setBulkSelection(new Set());
+    setSelectionAnchor(null);
+  }, []);
+
+  // End a drag selection wherever the mouse is released
+  useEffect(() => {
+    if (!isDragSelecting) return;
+    const stopDragging = () => setIsDragSelecting(false);
+    window.addEventListener('mouseup', stopDragging);
+    return () => window.removeEventListener('mouseup', stopDragging);
+  }, [isDragSelecting]);
+
+  // Only cells visible in the current week and filters are assigned
+  const bulkAssignCells = useMemo<BulkAssignCell[]>(() => {
+    const cells: BulkAssignCell[] = [];
+    for (const pa of filteredPAs) {
+      for (const dateInfo of dates) {
+        if (bulkSelection.has(getCellKey(pa.id, dateInfo.date)) && isCellAssignable(pa.id, dateInfo.date)) {
+          cells.push({ paId: pa.id, paName: pa.name, date: dateInfo.date, dateDisplay: dateInfo.display });
+        }
+      }
+    }
+    return cells;
+  }, [filteredPAs, dates, bulkSelection, isCellAssignable]);
+
+  const weekOpenShifts = useMemo(() => {
+    const weekDates = new Set(dates.map((dateInfo) => dateInfo.date));
+    return openShifts.filter((openShift) => weekDates.has(openShift.date));
+  }, [openShifts, dates]);
+
   return (
     <div className="space-y-4">
       {/* Week Selector */}
@@ -645,6 +1091,9 @@ export function AvailabilityGrid({
           <h2 className="text-xl font-bold text-foreground md:text-lg md:font-semibold py-2 md:py-0">
             {formatWeekDisplay(selectedWeekMonday)}
           </h2>
+          {loadingWeek === selectedWeekMonday && (
+            <p className="text-xs text-muted-foreground">Loading week...</p>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -698,8 +1147,58 @@ export function AvailabilityGrid({
           />
           <span className="text-sm font-medium">Show only preferred days</span>
         </label>
+        {!canEdit && (
+          <span className="ml-auto text-sm text-muted-foreground">
+            Read-only access: you can view the schedule but not change it.
+          </span>
+        )}
+        {canEdit && productionId && (
+          <div className="ml-auto flex items-center gap-2">
+            {bulkAssignCells.length > 0 ? (
+              <>
+                <span className="text-sm text-muted-foreground">
+                  {bulkAssignCells.length} selected
+                </span>
+                <Button variant="ghost" size="sm" onClick={clearBulkSelection}>
+                  Clear
+                </Button>
+                <Button size="sm" onClick={() => setIsBulkAssignOpen(true)}>
+                  Assign Selected
+                </Button>
+              </>
+            ) : (
+              <span className="hidden md:inline text-xs text-muted-foreground">
+                Drag or shift-click to select several days
+              </span>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsOpenShiftDialogOpen(true)}
+            >
+              Post Open Shift
+            </Button>
+          </div>
+        )}
+        {productionId && (
+          <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)}>
+            Export
+          </Button>
+        )}
       </div>
 
+      {productionId && availabilityDeadline && (
+        <AvailabilitySubmissionsPanel
+          pas={pas}
+          weekStart={selectedWeekMonday}
+          deadline={availabilityDeadline}
+          timezone={timezone}
+          submissions={weekSubmissions}
+          canEdit={canEdit}
+          onResolved={handleUnlockResolved}
+        />
+      )}
+
       {/* Grid */}
       <div className="border rounded-lg overflow-hidden">
         <div className="overflow-x-auto">
@@ -715,10 +1214,57 @@ export function AvailabilityGrid({
                       key={dateInfo.date}
                       className="border-r p-3 text-center font-semibold min-w-[100px] last:border-r-0"
                     >
-                      {dateInfo.display}
+                      <div>{dateInfo.display}</div>
+                      {canEdit && productionId && (
+                        <button
+                          type="button"
+                          onClick={() => setSuggestCrewDate(dateInfo)}
+                          className="mt-1 text-xs font-normal text-primary underline"
+                        >
+                          Suggest crew
+                        </button>
+                      )}
                     </th>
                   ))}
                 </tr>
+                {weekOpenShifts.length > 0 && (
+                  <tr className="bg-muted/50 border-t">
+                    <th className="sticky left-0 z-10 bg-muted border-r p-2 text-left text-sm font-medium">
+                      Open Slots
+                    </th>
+                    {dates.map((dateInfo) => (
+                      <th
+                        key={`open-${dateInfo.date}`}
+                        className="border-r p-2 text-center font-normal last:border-r-0"
+                      >
+                        <div className="flex flex-col gap-1">
+                          {weekOpenShifts
+                            .filter((openShift) => openShift.date === dateInfo.date)
+                            .map((openShift) => (
+                              <button
+                                key={openShift.id}
+                                type="button"
+                                onClick={() => handleCloseOpenShift(openShift)}
+                                disabled={!canEdit || openShift.status !== 'open'}
+                                title={openShift.status === 'open' ? 'Click to stop accepting claims' : undefined}
+                                className={`rounded px-2 py-1 text-xs font-medium ${
+                                  openShift.status === 'open'
+                                    ? 'bg-yellow-100 text-yellow-800'
+                                    : openShift.status === 'filled'
+                                      ? 'bg-green-100 text-green-800'
+                                      : 'bg-gray-100 text-gray-600'
+                                }`}
+                              >
+                                {openShift.slots_filled}/{openShift.slots_total} filled
+                                {openShift.call_time && ` · ${openShift.call_time.slice(0, 5)}`}
+                                {openShift.status === 'closed' && ' · closed'}
+                              </button>
+                            ))}
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                )}
               </thead>
               <tbody>
                 {filteredPAs.length === 0 ? (
@@ -735,6 +1281,15 @@ export function AvailabilityGrid({
                     <tr key={pa.id} className="border-t hover:bg-muted/50">
                       <td className="sticky left-0 z-10 bg-background border-r p-3 font-medium">
                         {pa.name}
+                        {availabilityDeadline && weekSubmissions && (
+                          <span
+                            className={`block text-xs font-normal ${
+                              weekSubmissions.some((s) => s.user_id === pa.id) ? 'text-green-700' : 'text-yellow-700'
+                            }`}
+                          >
+                            {weekSubmissions.some((s) => s.user_id === pa.id) ? '✓ Submitted' : 'Not submitted'}
+                          </span>
+                        )}
                       </td>
                       {dates.map((dateInfo) => {
                         const status = getAvailabilityStatus(
@@ -749,12 +1304,21 @@ export function AvailabilityGrid({
                         );
                         const colorClass = getStatusColor(status, hasShift);
                         const label = getStatusLabel(status, hasShift);
+                        const ruleViolations = shift ? shiftRuleViolations.get(shift.id) : undefined;
+                        const windowLabel =
+                          availabilityRecord && status !== 'unavailable'
+                            ? formatAvailabilityWindow(availabilityRecord)
+                            : null;
                         // Cell is clickable if:
                         // 1. There's an existing shift (to view/edit it), OR
                         // 2. The availability status is 'available' (to assign new shift), OR
                         // 3. The availability status is 'preferred' (to assign new shift)
+                        // Read-only coordinators can only open existing shifts
                         const isClickable =
-                          hasShift || status === 'available' || status === 'preferred';
+                          hasShift || (canEdit && (status === 'available' || status === 'preferred'));
+                        const isAssignable = isCellAssignable(pa.id, dateInfo.date);
+                        const isBulkSelected =
+                          isAssignable && bulkSelection.has(getCellKey(pa.id, dateInfo.date));
 
                         return (
                           <td
@@ -762,18 +1326,48 @@ export function AvailabilityGrid({
                             className="border-r p-2 text-center last:border-r-0"
                           >
                             <div
-                              className={`inline-block px-2 py-1 rounded text-xs font-medium ${colorClass} ${isClickable ? 'cursor-pointer hover:opacity-80 transition-opacity' : ''
-                                }`}
-                              title={`${pa.name} - ${dateInfo.display}: ${label}`}
+                              className={`inline-block px-2 py-1 rounded text-xs font-medium select-none ${colorClass} ${isClickable ? 'cursor-pointer hover:opacity-80 transition-opacity' : ''
+                                } ${isBulkSelected ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+                              title={`${pa.name} - ${dateInfo.display}: ${label}${windowLabel ? ` (${windowLabel})` : ''}${ruleViolations ? `\n⚠ ${ruleViolations.join('\n⚠ ')}` : ''}`}
+                              onMouseDown={(e) => {
+                                if (!isAssignable || e.button !== 0) return;
+                                const cell = { paId: pa.id, date: dateInfo.date };
+                                if (e.shiftKey && selectionAnchor) {
+                                  selectRange(selectionAnchor, cell);
+                                  return;
+                                }
+                                setSelectionAnchor(cell);
+                                setBulkSelection(new Set());
+                                setIsDragSelecting(true);
+                              }}
+                              onMouseEnter={() => {
+                                if (isDragSelecting && selectionAnchor && isAssignable) {
+                                  selectRange(selectionAnchor, { paId: pa.id, date: dateInfo.date });
+                                }
+                              }}
                               onClick={(e) => {
                                 e.preventDefault();
                                 e.stopPropagation();
+                                // Shift-click extends the selection instead of opening a dialog
+                                if (e.shiftKey && isAssignable) {
+                                  if (bulkSelection.size === 0) {
+                                    setBulkSelection(new Set([getCellKey(pa.id, dateInfo.date)]));
+                                  }
+                                  return;
+                                }
                                 if (isClickable) {
                                   handleCellClick(pa, dateInfo);
                                 }
                               }}
                             >
                               {label}
+                              {shift?.call_time && (
+                                <span className="block font-normal opacity-90">{formatShiftTimes(shift)}</span>
+                              )}
+                              {!shift && windowLabel && (
+                                <span className="block font-normal opacity-90">{windowLabel}</span>
+                              )}
+                              {ruleViolations && <span className="ml-1" aria-label="Breaks scheduling rules">⚠</span>}
                             </div>
                           </td>
                         );
@@ -822,6 +1416,10 @@ export function AvailabilityGrid({
             setCallTime('');
             setWrapTime('');
             setLocation('');
+            setUnitBase('');
+            setParkingNotes('');
+            setMapUrl('');
+            setBreaks([]);
           }
         }}
       >
@@ -841,6 +1439,12 @@ export function AvailabilityGrid({
               <Label className="text-sm">Date</Label>
               <div className="text-sm font-medium">{selectedCell?.dateDisplay}</div>
             </div>
+            {selectedCell?.availabilityWindow && formatAvailabilityWindow(selectedCell.availabilityWindow) && (
+              <div className="space-y-2">
+                <Label className="text-sm">PA Hours</Label>
+                <div className="text-sm font-medium">{formatAvailabilityWindow(selectedCell.availabilityWindow)}</div>
+              </div>
+            )}
             {selectedCell?.paNote && (
               <div className="space-y-2">
                 <Label className="text-sm">PA Note</Label>
@@ -871,6 +1475,13 @@ export function AvailabilityGrid({
                 className="h-9 text-sm sm:h-10"
               />
             </div>
+            <ShiftBreaksEditor
+              idPrefix="assign"
+              callTime={callTime}
+              wrapTime={wrapTime}
+              breaks={breaks}
+              onChange={setBreaks}
+            />
             <div className="space-y-2">
               <Label htmlFor="location" className="text-sm">Location</Label>
               <Input
@@ -878,10 +1489,44 @@ export function AvailabilityGrid({
                 type="text"
                 value={location}
                 onChange={(e) => setLocation(e.target.value)}
-                placeholder="Enter location"
+                placeholder="Enter location address"
                 className="h-9 text-sm sm:h-10"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="unit-base" className="text-sm">Unit Base</Label>
+              <Input
+                id="unit-base"
+                type="text"
+                value={unitBase}
+                onChange={(e) => setUnitBase(e.target.value)}
+                placeholder="e.g., Basecamp lot on 5th Ave"
+                className="h-9 text-sm sm:h-10"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="parking-notes" className="text-sm">Parking Notes</Label>
+              <Input
+                id="parking-notes"
+                type="text"
+                value={parkingNotes}
+                onChange={(e) => setParkingNotes(e.target.value)}
+                placeholder="e.g., Crew parking at Lot B, shuttle every 15 min"
+                className="h-9 text-sm sm:h-10"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="map-url" className="text-sm">Map Link</Label>
+              <Input
+                id="map-url"
+                type="url"
+                value={mapUrl}
+                onChange={(e) => setMapUrl(e.target.value)}
+                placeholder="https://maps.google.com/..."
+                className="h-9 text-sm sm:h-10"
+              />
+            </div>
+            <RuleWarnings violations={dialogRuleWarnings} />
           </div>
           <DialogFooter className="flex-col sm:flex-row gap-2">
             <Button
@@ -892,13 +1537,17 @@ export function AvailabilityGrid({
                 setCallTime('');
                 setWrapTime('');
                 setLocation('');
+                setUnitBase('');
+                setParkingNotes('');
+                setMapUrl('');
+                setBreaks([]);
               }}
               className="w-full sm:w-auto"
             >
               Cancel
             </Button>
             <Button onClick={createShift} disabled={isLoading} className="w-full sm:w-auto">
-              {isLoading ? 'Assigning...' : 'Assign Shift'}
+              {isLoading ? 'Assigning...' : dialogRuleWarnings.length > 0 ? 'Assign Anyway' : 'Assign Shift'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -913,9 +1562,15 @@ export function AvailabilityGrid({
             // Reset all state when dialog closes
             setSelectedCell(null);
             setIsEditMode(false);
+            setShiftHistory([]);
+            setTransitionReason('');
             setCallTime('');
             setWrapTime('');
             setLocation('');
+            setUnitBase('');
+            setParkingNotes('');
+            setMapUrl('');
+            setBreaks([]);
           }
         }}
       >
@@ -947,8 +1602,60 @@ export function AvailabilityGrid({
                   <Label className="text-sm">Wrap Time</Label>
                   <div className="text-sm">
                     {selectedCell?.shift?.wrap_time || 'Not set'}
+                    {selectedCell?.shift && wrapsNextDay(selectedCell.shift) && ' (next day)'}
                   </div>
                 </div>
+                {selectedCell?.shift?.breaks && selectedCell.shift.breaks.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm">Breaks</Label>
+                    <ul className="text-sm space-y-0.5">
+                      {selectedCell.shift.breaks.map((shiftBreak, index) => (
+                        <li key={index}>{formatShiftBreak(shiftBreak)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {viewedShiftDuration && (
+                  <div className="space-y-2">
+                    <Label className="text-sm">Hours</Label>
+                    <div className="text-sm">
+                      {formatDuration(viewedShiftDuration.workedMinutes)} worked
+                      {viewedShiftDuration.breakMinutes > 0 &&
+                        ` (${formatDuration(viewedShiftDuration.spanMinutes)} call to wrap)`}
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label className="text-sm">Location</Label>
+                  <div className="text-sm">
+                    {selectedCell?.shift?.location || 'Not set'}
+                  </div>
+                </div>
+                {selectedCell?.shift?.unit_base && (
+                  <div className="space-y-2">
+                    <Label className="text-sm">Unit Base</Label>
+                    <div className="text-sm">{selectedCell.shift.unit_base}</div>
+                  </div>
+                )}
+                {selectedCell?.shift?.parking_notes && (
+                  <div className="space-y-2">
+                    <Label className="text-sm">Parking Notes</Label>
+                    <div className="text-sm">{selectedCell.shift.parking_notes}</div>
+                  </div>
+                )}
+                {selectedCell?.shift?.map_url && (
+                  <div className="space-y-2">
+                    <Label className="text-sm">Map Link</Label>
+                    <a
+                      href={selectedCell.shift.map_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-primary underline break-all"
+                    >
+                      Open map
+                    </a>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label className="text-sm">Confirmation Status</Label>
                   <div
@@ -956,11 +1663,84 @@ export function AvailabilityGrid({
                       selectedCell?.shift?.confirmation_status || 'pending'
                     )}`}
                   >
-                    {selectedCell?.shift?.confirmation_status
-                      ? selectedCell.shift.confirmation_status.charAt(0).toUpperCase() +
-                      selectedCell.shift.confirmation_status.slice(1)
-                      : 'Pending'}
+                    {SHIFT_STATUS_LABELS[selectedCell?.shift?.confirmation_status || 'pending']}
+                  </div>
+                </div>
+                {selectedCell?.shift?.confirmation_status === 'declined' &&
+                  (selectedCell.shift.decline_reason || selectedCell.shift.proposed_pa_id) && (
+                  <div className="space-y-2 rounded-md border border-red-200 bg-red-50 p-3">
+                    {selectedCell.shift.decline_reason && (
+                      <div className="text-sm">
+                        <span className="font-medium">Decline reason:</span>{' '}
+                        {selectedCell.shift.decline_reason}
+                      </div>
+                    )}
+                    {selectedCell.shift.proposed_pa_id && (
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="text-sm">
+                          <span className="font-medium">Proposed replacement:</span>{' '}
+                          {pas.find((pa) => pa.id === selectedCell.shift?.proposed_pa_id)?.name || 'Unknown PA'}
+                        </div>
+                        {canEdit && (
+                          <Button size="sm" onClick={acceptSwap} disabled={isLoading}>
+                            Accept Swap
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {canEdit && pcActions.length > 0 && (
+                  <div className="space-y-2 rounded-md border p-3">
+                    <Label htmlFor="transition-reason" className="text-sm">Update Status</Label>
+                    <Input
+                      id="transition-reason"
+                      type="text"
+                      value={transitionReason}
+                      onChange={(e) => setTransitionReason(e.target.value)}
+                      placeholder="Note for the history (optional)"
+                      className="h-9 text-sm sm:h-10"
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      {pcActions.map((action) => (
+                        <Button
+                          key={action}
+                          size="sm"
+                          variant={action === 'cancel' ? 'destructive' : 'outline'}
+                          onClick={() => runTransition(action)}
+                          disabled={isLoading}
+                        >
+                          {SHIFT_TRANSITIONS[action].label}
+                        </Button>
+                      ))}
+                    </div>
                   </div>
+                )}
+                <div className="space-y-2">
+                  <Label className="text-sm">History</Label>
+                  {isHistoryLoading ? (
+                    <div className="text-sm text-muted-foreground">Loading history...</div>
+                  ) : shiftHistory.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">No status changes recorded.</div>
+                  ) : (
+                    <ol className="space-y-2 border-l pl-4">
+                      {shiftHistory.map((entry) => (
+                        <li key={entry.id} className="text-sm">
+                          <div className="font-medium">
+                            {entry.from_status
+                              ? `${SHIFT_STATUS_LABELS[entry.from_status]} → ${SHIFT_STATUS_LABELS[entry.to_status]}`
+                              : `Assigned (${SHIFT_STATUS_LABELS[entry.to_status]})`}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {entry.actorName} · {formatHistoryTimestamp(entry.created_at)}
+                          </div>
+                          {entry.reason && (
+                            <div className="text-xs italic text-muted-foreground">{entry.reason}</div>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                 </div>
               </>
             ) : (
@@ -985,6 +1765,13 @@ export function AvailabilityGrid({
                     className="h-9 text-sm sm:h-10"
                   />
                 </div>
+                <ShiftBreaksEditor
+                  idPrefix="edit"
+                  callTime={callTime}
+                  wrapTime={wrapTime}
+                  breaks={breaks}
+                  onChange={setBreaks}
+                />
                 <div className="space-y-2">
                   <Label htmlFor="edit-location" className="text-sm">Location</Label>
                   <Input
@@ -992,10 +1779,42 @@ export function AvailabilityGrid({
                     type="text"
                     value={location}
                     onChange={(e) => setLocation(e.target.value)}
-                    placeholder="Enter location"
+                    placeholder="Enter location address"
+                    className="h-9 text-sm sm:h-10"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-unit-base" className="text-sm">Unit Base</Label>
+                  <Input
+                    id="edit-unit-base"
+                    type="text"
+                    value={unitBase}
+                    onChange={(e) => setUnitBase(e.target.value)}
+                    className="h-9 text-sm sm:h-10"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-parking-notes" className="text-sm">Parking Notes</Label>
+                  <Input
+                    id="edit-parking-notes"
+                    type="text"
+                    value={parkingNotes}
+                    onChange={(e) => setParkingNotes(e.target.value)}
                     className="h-9 text-sm sm:h-10"
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-map-url" className="text-sm">Map Link</Label>
+                  <Input
+                    id="edit-map-url"
+                    type="url"
+                    value={mapUrl}
+                    onChange={(e) => setMapUrl(e.target.value)}
+                    placeholder="https://maps.google.com/..."
+                    className="h-9 text-sm sm:h-10"
+                  />
+                </div>
+                <RuleWarnings violations={dialogRuleWarnings} />
                 <div className="space-y-2">
                   <Label className="text-sm">Confirmation Status</Label>
                   <div
@@ -1003,10 +1822,7 @@ export function AvailabilityGrid({
                       selectedCell?.shift?.confirmation_status || 'pending'
                     )}`}
                   >
-                    {selectedCell?.shift?.confirmation_status
-                      ? selectedCell.shift.confirmation_status.charAt(0).toUpperCase() +
-                      selectedCell.shift.confirmation_status.slice(1)
-                      : 'Pending'}
+                    {SHIFT_STATUS_LABELS[selectedCell?.shift?.confirmation_status || 'pending']}
                   </div>
                 </div>
               </>
@@ -1015,31 +1831,41 @@ export function AvailabilityGrid({
           <DialogFooter className="flex-col sm:flex-row gap-2">
             {!isEditMode ? (
               <>
-                <Button
-                  variant="destructive"
-                  onClick={deleteShift}
-                  disabled={isLoading}
-                  className="w-full sm:w-auto"
-                >
-                  {isLoading ? 'Removing...' : 'Remove Assignment'}
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="destructive"
+                    onClick={deleteShift}
+                    disabled={isLoading}
+                    className="w-full sm:w-auto"
+                  >
+                    {isLoading ? 'Removing...' : 'Remove Assignment'}
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   onClick={() => {
                     setIsViewDialogOpen(false);
                     setSelectedCell(null);
                     setIsEditMode(false);
+                    setShiftHistory([]);
+                    setTransitionReason('');
                     setCallTime('');
                     setWrapTime('');
                     setLocation('');
+                    setUnitBase('');
+                    setParkingNotes('');
+                    setMapUrl('');
+                    setBreaks([]);
                   }}
                   className="w-full sm:w-auto"
                 >
                   Close
                 </Button>
-                <Button onClick={() => setIsEditMode(true)} className="w-full sm:w-auto">
-                  Edit Shift
-                </Button>
+                {canEdit && (
+                  <Button onClick={() => setIsEditMode(true)} className="w-full sm:w-auto">
+                    Edit Shift
+                  </Button>
+                )}
               </>
             ) : (
               <>
@@ -1050,6 +1876,11 @@ export function AvailabilityGrid({
                     if (selectedCell?.shift) {
                       setCallTime(selectedCell.shift.call_time || '');
                       setWrapTime(selectedCell.shift.wrap_time || '');
+                      setLocation(selectedCell.shift.location || '');
+                      setUnitBase(selectedCell.shift.unit_base || '');
+                      setParkingNotes(selectedCell.shift.parking_notes || '');
+                      setMapUrl(selectedCell.shift.map_url || '');
+                      setBreaks(toBreakInputs(selectedCell.shift.breaks));
                     }
                   }}
                   className="w-full sm:w-auto"
@@ -1057,13 +1888,72 @@ export function AvailabilityGrid({
                   Cancel
                 </Button>
                 <Button onClick={updateShift} disabled={isLoading} className="w-full sm:w-auto">
-                  {isLoading ? 'Saving...' : 'Save Changes'}
+                  {isLoading ? 'Saving...' : dialogRuleWarnings.length > 0 ? 'Save Anyway' : 'Save Changes'}
                 </Button>
               </>
             )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {productionId && (
+        <BulkAssignDialog
+          open={isBulkAssignOpen}
+          onOpenChange={setIsBulkAssignOpen}
+          productionId={productionId}
+          cells={bulkAssignCells}
+          onAssigned={(created) => {
+            setShifts((prev) => [
+              ...prev.filter((shift) => !created.some((c) => c.id === shift.id)),
+              ...created,
+            ]);
+            clearBulkSelection();
+          }}
+        />
+      )}
+
+      {productionId && (
+        <SuggestCrewDialog
+          open={suggestCrewDate !== null}
+          onOpenChange={(open) => {
+            if (!open) setSuggestCrewDate(null);
+          }}
+          productionId={productionId}
+          date={suggestCrewDate?.date ?? null}
+          dateDisplay={suggestCrewDate?.display ?? ''}
+          onAssigned={(created) =>
+            setShifts((prev) => [
+              ...prev.filter((shift) => !created.some((c) => c.id === shift.id)),
+              ...created,
+            ])
+          }
+        />
+      )}
+
+      {productionId && (
+        // Keyed by week so the default range follows the week on screen
+        <ExportGridDialog
+          key={dates[0]?.date}
+          open={isExportDialogOpen}
+          onOpenChange={setIsExportDialogOpen}
+          productionId={productionId}
+          dates={dates}
+        />
+      )}
+
+      {productionId && (
+        <OpenShiftDialog
+          open={isOpenShiftDialogOpen}
+          onOpenChange={setIsOpenShiftDialogOpen}
+          productionId={productionId}
+          dates={dates}
+          onCreated={(openShift) =>
+            setOpenShifts((prev) =>
+              prev.some((o) => o.id === openShift.id) ? prev : [...prev, openShift]
+            )
+          }
+        />
+      )}
     </div>
   );
 }
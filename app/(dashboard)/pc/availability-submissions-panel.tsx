@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { Database } from '@/lib/supabase/types';
+import { Button } from '@/components/ui/button';
+import { resolveAvailabilityUnlockClient } from '@/lib/shifts/api';
+import { formatDeadline, getDeadlineForWeek } from '@/lib/shifts/availability-deadline';
+import type { AvailabilityDeadline } from '@/lib/shifts/availability-deadline';
+
+type AvailabilitySubmission = Database['public']['Tables']['availability_submissions']['Row'];
+
+interface AvailabilitySubmissionsPanelProps {
+  pas: Array<{ id: string; name: string }>;
+  weekStart: string;
+  deadline: AvailabilityDeadline;
+  timezone: string;
+  submissions: AvailabilitySubmission[] | null; // null while loading
+  canEdit: boolean; // Only schedulers can reopen weeks
+  onResolved: (submissionId: string, submission: AvailabilitySubmission | null) => void;
+}
+
+/**
+ * Who has submitted availability for the week on the grid, and their requests
+ * to reopen a submitted week
+ */
+export function AvailabilitySubmissionsPanel({
+  pas,
+  weekStart,
+  deadline,
+  timezone,
+  submissions,
+  canEdit,
+  onResolved,
+}: AvailabilitySubmissionsPanelProps) {
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const due = getDeadlineForWeek(deadline, weekStart, timezone);
+  const submittedIds = new Set((submissions || []).map((submission) => submission.user_id));
+  const missing = pas.filter((pa) => !submittedIds.has(pa.id));
+  const requests = (submissions || []).filter((submission) => submission.unlock_requested_at);
+  const paName = (paId: string) => pas.find((pa) => pa.id === paId)?.name ?? 'A PA';
+
+  const resolve = async (submission: AvailabilitySubmission, approve: boolean) => {
+    setResolvingId(submission.id);
+    try {
+      const updated = await resolveAvailabilityUnlockClient(submission.id, approve);
+      onResolved(submission.id, updated);
+      toast.success(approve ? `${paName(submission.user_id)} can edit the week again` : 'The week stays locked');
+    } catch (error) {
+      console.error('Failed to resolve unlock request:', error);
+      toast.error(`Failed to update request: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 p-4 bg-card border rounded-lg text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="font-medium">
+          Availability {due.getTime() < Date.now() ? 'was due' : 'due'} {formatDeadline(due, timezone)}
+        </div>
+        {submissions && (
+          <div className="text-muted-foreground">
+            {pas.length - missing.length} of {pas.length} PAs submitted
+          </div>
+        )}
+      </div>
+      {submissions === null ? (
+        <div className="text-muted-foreground">Loading submissions...</div>
+      ) : (
+        missing.length > 0 && (
+          <div className="text-yellow-800">
+            Not submitted: {missing.map((pa) => pa.name).join(', ')}
+          </div>
+        )
+      )}
+      {requests.map((submission) => (
+        <div
+          key={submission.id}
+          className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-2 rounded-md border border-blue-200 bg-blue-50"
+        >
+          <div>
+            <span className="font-medium">{paName(submission.user_id)}</span> wants to change their
+            availability: <span className="italic">{submission.unlock_reason}</span>
+          </div>
+          {canEdit && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => resolve(submission, true)}
+                disabled={resolvingId === submission.id}
+              >
+                Reopen Week
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => resolve(submission, false)}
+                disabled={resolvingId === submission.id}
+              >
+                Keep Locked
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatCurrency } from '@/lib/shifts/costs';
+import type { PayRates, WeeklyLaborCost } from '@/lib/shifts/costs';
+import { formatISODate } from '@/lib/utils/dates';
+
+export interface PARateInfo {
+  memberId: string | null;
+  paId: string;
+  name: string;
+  standardRates: PayRates; // The PA's own rates from their profile
+  productionRates: PayRates; // Overrides for this production
+  effectiveRates: PayRates;
+}
+
+interface BudgetPanelProps {
+  productionId: string;
+  weeklyBudget: number | null;
+  laborWeeks: WeeklyLaborCost[];
+  paRates: PARateInfo[];
+  canEdit: boolean; // Only owners set the budget and rates
+}
+
+function toRateInput(value: number | null): string {
+  return value === null ? '' : String(value);
+}
+
+// Empty means "not set"; anything else must be a non-negative number
+function parseAmount(value: string): number | null | undefined {
+  if (value.trim() === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+function formatRates(rates: PayRates): string {
+  const parts = [
+    rates.dayRate !== null && `${formatCurrency(rates.dayRate)}/day`,
+    rates.hourlyRate !== null && `${formatCurrency(rates.hourlyRate)}/hr`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'No rate';
+}
+
+/**
+ * Planned (scheduled) and spent (approved hours) labor cost per week against
+ * the weekly budget, plus the PA rates the costs are based on
+ */
+export function BudgetPanel({ productionId, weeklyBudget, laborWeeks, paRates, canEdit }: BudgetPanelProps) {
+  const router = useRouter();
+  const [budget, setBudget] = useState(toRateInput(weeklyBudget));
+  const [isSavingBudget, setIsSavingBudget] = useState(false);
+  const [editingRatesFor, setEditingRatesFor] = useState<string | null>(null);
+  const [dayRate, setDayRate] = useState('');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [isSavingRates, setIsSavingRates] = useState(false);
+
+  const overBudgetWeeks = laborWeeks.filter((week) => week.overBudget);
+
+  const handleSaveBudget = async () => {
+    const amount = parseAmount(budget);
+    if (amount === undefined) {
+      toast.error('The weekly budget must be a positive amount');
+      return;
+    }
+
+    setIsSavingBudget(true);
+    try {
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('productions')
+        .update({ weekly_labor_budget: amount })
+        .eq('id', productionId);
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success('Weekly budget saved');
+      router.refresh();
+    } catch (error) {
+      console.error('Error saving weekly budget:', error);
+      toast.error('Failed to save weekly budget');
+    } finally {
+      setIsSavingBudget(false);
+    }
+  };
+
+  const startEditingRates = (rate: PARateInfo) => {
+    setEditingRatesFor(rate.paId);
+    setDayRate(toRateInput(rate.productionRates.dayRate));
+    setHourlyRate(toRateInput(rate.productionRates.hourlyRate));
+  };
+
+  const handleSaveRates = async (rate: PARateInfo) => {
+    const day = parseAmount(dayRate);
+    const hourly = parseAmount(hourlyRate);
+    if (day === undefined || hourly === undefined) {
+      toast.error('Rates must be positive amounts');
+      return;
+    }
+    if (!rate.memberId) {
+      toast.error(`${rate.name} is no longer a member of this production`);
+      return;
+    }
+
+    setIsSavingRates(true);
+    try {
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('production_members')
+        .update({ day_rate: day, hourly_rate: hourly })
+        .eq('id', rate.memberId);
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success(`Rates updated for ${rate.name}`);
+      setEditingRatesFor(null);
+      router.refresh();
+    } catch (error) {
+      console.error('Error saving PA rates:', error);
+      toast.error('Failed to save PA rates');
+    } finally {
+      setIsSavingRates(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {overBudgetWeeks.length > 0 && (
+        <div className="p-3 rounded-md border border-red-300 bg-red-50 text-sm text-red-900">
+          {overBudgetWeeks.map((week) => (
+            <div key={week.weekStart}>
+              {week.spentCost > (week.budget ?? 0) ? 'Approved hours' : 'Planned shifts'} for the week of{' '}
+              {formatISODate(week.weekStart, { month: 'short', day: 'numeric' })} are{' '}
+              {formatCurrency(Math.max(week.plannedCost, week.spentCost) - (week.budget ?? 0))} over budget.
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-1 flex-1">
+          <label htmlFor="weekly-labor-budget" className="text-xs text-muted-foreground">
+            Weekly PA labor budget ($)
+          </label>
+          <Input
+            id="weekly-labor-budget"
+            type="number"
+            min={0}
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            placeholder="No budget set"
+            disabled={!canEdit || isSavingBudget}
+          />
+        </div>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={handleSaveBudget} disabled={isSavingBudget}>
+            {isSavingBudget ? 'Saving...' : 'Save Budget'}
+          </Button>
+        )}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-1 font-medium">Week of</th>
+            <th className="py-1 font-medium text-right" title="Booked shifts at their scheduled times">Planned</th>
+            <th className="py-1 font-medium text-right" title="Approved hours actually worked">Spent</th>
+            <th className="py-1 font-medium text-right">Budget</th>
+            <th className="py-1 font-medium text-right">Remaining</th>
+          </tr>
+        </thead>
+        <tbody>
+          {laborWeeks.map((week) => (
+            <tr key={week.weekStart} className={`border-b last:border-b-0 ${week.overBudget ? 'text-red-700' : ''}`}>
+              <td className="py-1">
+                {formatISODate(week.weekStart, { month: 'short', day: 'numeric' })}
+                {week.unpricedShifts > 0 && (
+                  <span
+                    className="ml-1 text-xs text-muted-foreground"
+                    title="Shifts without call/wrap times or without a rate for the PA aren't counted"
+                  >
+                    ({week.unpricedShifts} unpriced)
+                  </span>
+                )}
+              </td>
+              <td className="py-1 text-right">{formatCurrency(week.plannedCost)}</td>
+              <td className="py-1 text-right">{formatCurrency(week.spentCost)}</td>
+              <td className="py-1 text-right">{week.budget === null ? '—' : formatCurrency(week.budget)}</td>
+              <td className="py-1 text-right font-medium">
+                {week.budget === null ? '—' : formatCurrency(week.budget - week.plannedCost)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">
+          PA rates. Production rates replace a PA&apos;s own rates on this production. Hours past the daily
+          overtime threshold are paid at 1.5x.
+        </div>
+        {paRates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No PAs yet.</p>
+        ) : (
+          <ul className="divide-y text-sm">
+            {paRates.map((rate) => (
+              <li key={rate.paId} className="py-2 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <div className="font-medium">{rate.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatRates(rate.effectiveRates)}
+                      {(rate.productionRates.dayRate !== null || rate.productionRates.hourlyRate !== null) &&
+                        ` (production rate; own rate ${formatRates(rate.standardRates)})`}
+                    </div>
+                  </div>
+                  {canEdit && editingRatesFor !== rate.paId && (
+                    <Button variant="ghost" size="sm" onClick={() => startEditingRates(rate)}>
+                      Set Rate
+                    </Button>
+                  )}
+                </div>
+                {editingRatesFor === rate.paId && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      aria-label="Day rate"
+                      value={dayRate}
+                      onChange={(e) => setDayRate(e.target.value)}
+                      placeholder="Day rate"
+                      className="h-8 w-28"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      aria-label="Hourly rate"
+                      value={hourlyRate}
+                      onChange={(e) => setHourlyRate(e.target.value)}
+                      placeholder="Hourly rate"
+                      className="h-8 w-28"
+                    />
+                    <Button size="sm" onClick={() => handleSaveRates(rate)} disabled={isSavingRates}>
+                      {isSavingRates ? 'Saving...' : 'Save'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingRatesFor(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
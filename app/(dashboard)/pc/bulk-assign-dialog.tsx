@@ -0,0 +1,221 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import type { Database } from '@/lib/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ShiftApiError, createShiftsClient } from '@/lib/shifts/api';
+import type { RuleViolation } from '@/lib/shifts/rules';
+import { RuleWarnings } from './rule-warnings';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+
+export interface BulkAssignCell {
+  paId: string;
+  paName: string;
+  date: string;
+  dateDisplay: string;
+}
+
+interface BulkAssignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productionId: string;
+  cells: BulkAssignCell[];
+  onAssigned: (shifts: Shift[]) => void;
+}
+
+export function BulkAssignDialog({
+  open,
+  onOpenChange,
+  productionId,
+  cells,
+  onAssigned,
+}: BulkAssignDialogProps) {
+  const [callTime, setCallTime] = useState('');
+  const [wrapTime, setWrapTime] = useState('');
+  const [location, setLocation] = useState('');
+  const [unitBase, setUnitBase] = useState('');
+  const [parkingNotes, setParkingNotes] = useState('');
+  const [mapUrl, setMapUrl] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ruleWarnings, setRuleWarnings] = useState<RuleViolation[]>([]);
+
+  // One summary line per PA, e.g. "Jordan: Mon 3/2, Tue 3/3"
+  const cellsByPa = useMemo(() => {
+    const groups = new Map<string, { paName: string; dates: string[] }>();
+    for (const cell of cells) {
+      const group = groups.get(cell.paId) || { paName: cell.paName, dates: [] };
+      group.dates.push(cell.dateDisplay);
+      groups.set(cell.paId, group);
+    }
+    return [...groups.entries()];
+  }, [cells]);
+
+  const paNames = useMemo(
+    () => Object.fromEntries(cells.map((cell) => [cell.paId, cell.paName])),
+    [cells]
+  );
+
+  const resetForm = () => {
+    setCallTime('');
+    setWrapTime('');
+    setLocation('');
+    setUnitBase('');
+    setParkingNotes('');
+    setMapUrl('');
+    setRuleWarnings([]);
+  };
+
+  const handleSubmit = async () => {
+    if (cells.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      const shifts = await createShiftsClient(
+        productionId,
+        cells.map((cell) => ({
+          assignedPaId: cell.paId,
+          date: cell.date,
+          callTime,
+          wrapTime,
+          location,
+          unitBase,
+          parkingNotes,
+          mapUrl,
+        })),
+        { overrideRules: ruleWarnings.length > 0 }
+      );
+
+      toast.success(`Assigned ${shifts.length} ${shifts.length === 1 ? 'shift' : 'shifts'}`);
+      onAssigned(shifts);
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to bulk assign shifts:', error);
+      if (error instanceof ShiftApiError && error.code === 'rule_violation') {
+        setRuleWarnings(error.violations);
+        toast.error('Some shifts break scheduling rules. Review the warnings and assign again to override.');
+      } else {
+        toast.error(`Failed to assign shifts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        onOpenChange(isOpen);
+        if (!isOpen) resetForm();
+      }}
+    >
+      <DialogContent className="w-[95vw] max-w-md max-h-[90vh] overflow-y-auto rounded-lg p-4 sm:max-w-[500px] sm:p-6">
+        <DialogHeader>
+          <DialogTitle>Assign {cells.length} Shifts</DialogTitle>
+          <DialogDescription>
+            Every selected day gets the same details. Each PA receives one email listing all of
+            their new days.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <ul className="space-y-1 text-sm p-2 bg-muted rounded-md">
+            {cellsByPa.map(([paId, group]) => (
+              <li key={paId}>
+                <span className="font-medium">{group.paName}:</span>{' '}
+                <span className="text-muted-foreground">{group.dates.join(', ')}</span>
+              </li>
+            ))}
+          </ul>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-call-time" className="text-sm">Call Time</Label>
+              <Input
+                id="bulk-call-time"
+                type="time"
+                value={callTime}
+                onChange={(e) => setCallTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-wrap-time" className="text-sm">Wrap Time</Label>
+              <Input
+                id="bulk-wrap-time"
+                type="time"
+                value={wrapTime}
+                onChange={(e) => setWrapTime(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-location" className="text-sm">Location</Label>
+            <Input
+              id="bulk-location"
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Enter location address"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-unit-base" className="text-sm">Unit Base</Label>
+            <Input
+              id="bulk-unit-base"
+              type="text"
+              value={unitBase}
+              onChange={(e) => setUnitBase(e.target.value)}
+              placeholder="e.g., Basecamp lot on 5th Ave"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-parking-notes" className="text-sm">Parking Notes</Label>
+            <Input
+              id="bulk-parking-notes"
+              type="text"
+              value={parkingNotes}
+              onChange={(e) => setParkingNotes(e.target.value)}
+              placeholder="e.g., Crew parking at Lot B, shuttle every 15 min"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="bulk-map-url" className="text-sm">Map Link</Label>
+            <Input
+              id="bulk-map-url"
+              type="url"
+              value={mapUrl}
+              onChange={(e) => setMapUrl(e.target.value)}
+              placeholder="https://maps.google.com/..."
+            />
+          </div>
+          <RuleWarnings violations={ruleWarnings} paNames={paNames} />
+        </div>
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="w-full sm:w-auto">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || cells.length === 0}
+            className="w-full sm:w-auto"
+          >
+            {isSubmitting
+              ? 'Assigning...'
+              : `${ruleWarnings.length > 0 ? 'Assign Anyway' : 'Assign'} ${cells.length} Shifts`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
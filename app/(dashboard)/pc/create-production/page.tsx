@@ -8,13 +8,22 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter }
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TIMEZONE_OPTIONS, isValidTimezone } from "@/lib/utils/dates";
 import { toast } from "sonner";
 
+// Falls back to UTC when the browser reports a zone the runtime can't use
+function getBrowserTimezone(): string {
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return browserTimezone && isValidTimezone(browserTimezone) ? browserTimezone : "UTC";
+}
+
 export default function CreateProductionPage() {
   const router = useRouter();
   const [productionName, setProductionName] = useState("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [timezone, setTimezone] = useState(""); // Empty uses the browser's timezone
   const [isLoading, setIsLoading] = useState(false);
   const [createdProduction, setCreatedProduction] = useState<{ id: string; inviteCode: string; name: string } | null>(null);
   const [nameError, setNameError] = useState<string | null>(null);
@@ -54,11 +63,13 @@ export default function CreateProductionPage() {
         start_date?: string;
         end_date?: string;
         is_active: boolean;
+        timezone: string;
       } = {
         name: productionName.trim(),
         invite_code: inviteCode,
         created_by: authUser.id,
         is_active: true,
+        timezone: timezone || getBrowserTimezone(),
       };
 
       // Add optional dates if provided
@@ -83,6 +94,24 @@ export default function CreateProductionPage() {
         return;
       }
 
+      // Add the creator as a coordinator and make the new production active
+      const { error: membershipError } = await supabase
+        .from("production_members")
+        .insert({ production_id: data.id, user_id: authUser.id, role: "PC", permission: "owner" });
+
+      if (membershipError) {
+        console.error("Error adding production membership:", membershipError);
+      }
+
+      const { error: activeError } = await supabase
+        .from("users")
+        .update({ production_id: data.id })
+        .eq("id", authUser.id);
+
+      if (activeError) {
+        console.error("Error setting active production:", activeError);
+      }
+
       // Success - show the created production with invite code
       setCreatedProduction({
         id: data.id,
@@ -206,6 +235,25 @@ export default function CreateProductionPage() {
                 min={startDate || undefined}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Timezone</Label>
+              <Select value={timezone} onValueChange={setTimezone}>
+                <SelectTrigger id="timezone" className="w-full">
+                  <SelectValue placeholder="Use this device's timezone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONE_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option.replace(/_/g, " ")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Call sheets, &quot;today&quot; and email times use this timezone.
+              </p>
+            </div>
           </CardContent>
           <CardFooter className="flex justify-end gap-3">
             <Button
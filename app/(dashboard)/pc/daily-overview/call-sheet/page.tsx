@@ -0,0 +1,137 @@
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/server';
+import { resolveActiveProduction } from '@/lib/productions/membership';
+import { formatCallSheetDate, formatCallSheetTime, getCallSheet } from '@/lib/shifts/call-sheet';
+import { getCallSheetPdfUrl } from '@/lib/shifts/api';
+import { SHIFT_STATUS_LABELS } from '@/lib/shifts/transitions';
+import { DEFAULT_TIMEZONE, getTodayInTimezone } from '@/lib/utils/dates';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft } from 'lucide-react';
+import { PrintButton } from './print-button';
+
+async function getCallSheetData(requestedDate: string | undefined) {
+    const supabase = await createClient();
+
+    // Get current authenticated user
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authUser) {
+        throw new Error('Not authenticated. Please log in.');
+    }
+
+    const { data: userData } = await supabase
+        .from('users')
+        .select('production_id')
+        .eq('id', authUser.id)
+        .single();
+
+    const { production } = await resolveActiveProduction(
+        supabase,
+        authUser.id,
+        userData?.production_id ?? null
+    );
+
+    if (!production) {
+        throw new Error('No production found. Create a production or join one with a coordinator invite code.');
+    }
+
+    const date = requestedDate || getTodayInTimezone(production.timezone ?? DEFAULT_TIMEZONE);
+    return getCallSheet(supabase, authUser.id, { productionId: production.id, date });
+}
+
+function ErrorDisplay({ error }: { error: Error }) {
+    return (
+        <div className="flex items-center justify-center min-h-screen">
+            <div className="text-center p-8 bg-destructive/10 border border-destructive rounded-lg max-w-md">
+                <h2 className="text-xl font-semibold text-destructive mb-2">Error Loading Call Sheet</h2>
+                <p className="text-muted-foreground">{error.message}</p>
+            </div>
+        </div>
+    );
+}
+
+export default async function CallSheetPage({ searchParams }: { searchParams: Promise<{ date?: string }> }) {
+    const { date } = await searchParams;
+    let callSheet;
+
+    try {
+        callSheet = await getCallSheetData(date);
+    } catch (e) {
+        return <ErrorDisplay error={e instanceof Error ? e : new Error('Unknown error occurred')} />;
+    }
+
+    return (
+        <div className="container mx-auto p-6 space-y-6 print:max-w-none print:p-0">
+            <style>{'@page { size: landscape; margin: 12mm; }'}</style>
+
+            <div className="flex items-center justify-between gap-4 print:hidden">
+                <Link href="/pc/daily-overview">
+                    <Button variant="outline" size="sm">
+                        <ChevronLeft className="h-4 w-4" />
+                        Back to Daily Overview
+                    </Button>
+                </Link>
+                <div className="flex items-center gap-2">
+                    <a href={getCallSheetPdfUrl(callSheet.productionId, callSheet.date)} download>
+                        <Button variant="outline">Download PDF</Button>
+                    </a>
+                    <PrintButton />
+                </div>
+            </div>
+
+            <div className="border-b pb-3">
+                <h1 className="text-3xl font-bold print:text-2xl">{callSheet.productionName}</h1>
+                <p className="text-lg mt-1">Call Sheet – {formatCallSheetDate(callSheet)}</p>
+                <p className="text-sm text-muted-foreground">{callSheet.entries.length} crew</p>
+            </div>
+
+            {callSheet.entries.length === 0 ? (
+                <p className="text-muted-foreground">No crew scheduled for this date.</p>
+            ) : (
+                <table className="w-full border-collapse text-sm print:text-xs">
+                    <thead>
+                        <tr className="border-b-2 text-left">
+                            <th className="py-2 pr-3 font-semibold">Call</th>
+                            <th className="py-2 pr-3 font-semibold">Wrap</th>
+                            <th className="py-2 pr-3 font-semibold">Name</th>
+                            <th className="py-2 pr-3 font-semibold">Phone</th>
+                            <th className="py-2 pr-3 font-semibold">Location</th>
+                            <th className="py-2 pr-3 font-semibold">Status</th>
+                            <th className="py-2 font-semibold">Notes</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {callSheet.entries.map((entry) => (
+                            <tr key={entry.shiftId} className="border-b align-top break-inside-avoid">
+                                <td className="py-2 pr-3 font-semibold whitespace-nowrap">
+                                    {formatCallSheetTime(entry.callTime)}
+                                </td>
+                                <td className="py-2 pr-3 whitespace-nowrap">
+                                    {formatCallSheetTime(entry.wrapTime)}
+                                    {entry.wrapsNextDay && ' (+1)'}
+                                </td>
+                                <td className="py-2 pr-3 font-medium">{entry.paName}</td>
+                                <td className="py-2 pr-3 whitespace-nowrap">{entry.phone || '—'}</td>
+                                <td className="py-2 pr-3">
+                                    <div>{entry.location || 'Not set'}</div>
+                                    {entry.unitBase && <div>Unit base: {entry.unitBase}</div>}
+                                    {entry.mapUrl && (
+                                        <a href={entry.mapUrl} className="text-primary underline print:hidden">
+                                            Map
+                                        </a>
+                                    )}
+                                </td>
+                                <td className="py-2 pr-3 whitespace-nowrap">{SHIFT_STATUS_LABELS[entry.status]}</td>
+                                <td className="py-2">
+                                    {entry.notes.map((note) => (
+                                        <div key={note}>{note}</div>
+                                    ))}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
@@ -1,9 +1,14 @@
 'use client';
 
-import { useState, useMemo, useCallback, useEffect } from 'react';
+import { Fragment, useState, useMemo, useCallback, useEffect } from 'react';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import type { Database } from '@/lib/supabase/types';
+import type { CrewMember } from '@/lib/productions/membership';
+import { getCallSheetPdfUrl, reofferShiftClient, updateShiftClient } from '@/lib/shifts/api';
+import type { ShiftStatus } from '@/lib/shifts/transitions';
+import { formatDuration, formatShiftBreak, getShiftDuration, wrapsNextDay } from '@/lib/shifts/time';
+import { addDaysToISO, formatISODate, getTodayInTimezone } from '@/lib/utils/dates';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -16,36 +21,68 @@ import {
     DialogHeader,
     DialogTitle,
 } from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
 import { ChevronLeft } from 'lucide-react';
 import { toast } from 'sonner';
 
-type PA = Database['public']['Tables']['users']['Row'];
+type PA = CrewMember;
 type Shift = Database['public']['Tables']['shifts']['Row'];
 
 interface DailyOverviewClientProps {
     pas: PA[];
     shifts: Shift[];
+    productionId: string | null;
+    canEdit: boolean;
+    timezone: string; // Production timezone "today" is computed in
 }
 
-type FilterType = 'all' | 'confirmed' | 'pending';
+type FilterType = 'all' | 'confirmed' | 'pending' | 'declined';
+
+// How long an offer can stay pending before it needs a nudge
+const PENDING_THRESHOLD_OPTIONS = [12, 24, 48, 72];
+const DEFAULT_PENDING_THRESHOLD_HOURS = 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+interface AttentionItem {
+    shift: Shift;
+    pa: PA;
+    reason: string;
+}
 
-function getStatusColor(status: 'pending' | 'confirmed' | 'declined'): string {
+function getStatusColor(status: ShiftStatus): string {
     switch (status) {
         case 'confirmed':
             return 'text-green-600 bg-green-50 border-green-200';
         case 'declined':
             return 'text-red-600 bg-red-50 border-red-200';
+        case 'release_requested':
+            return 'text-orange-600 bg-orange-50 border-orange-200';
+        case 'cancelled':
+        case 'released':
+            return 'text-gray-600 bg-gray-50 border-gray-200';
         default:
             return 'text-yellow-600 bg-yellow-50 border-yellow-200';
     }
 }
 
-function getStatusBadge(status: 'pending' | 'confirmed' | 'declined'): string {
+function getStatusBadge(status: ShiftStatus): string {
     switch (status) {
         case 'confirmed':
             return '✓ Confirmed';
         case 'declined':
             return '✗ Declined';
+        case 'release_requested':
+            return '↩ Release Requested';
+        case 'cancelled':
+            return '✗ Cancelled';
+        case 'released':
+            return '↩ Released';
         default:
             return '⏳ Pending';
     }
@@ -60,9 +97,12 @@ function formatTime(timeStr: string | null): string {
     return timeStr;
 }
 
+function formatShortDate(dateStr: string): string {
+    return formatISODate(dateStr, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
 function formatDate(dateStr: string): string {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('en-US', {
+    return formatISODate(dateStr, {
         weekday: 'long',
         month: 'long',
         day: 'numeric',
@@ -70,15 +110,22 @@ function formatDate(dateStr: string): string {
     });
 }
 
-export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }: DailyOverviewClientProps) {
-    // Initialize with today's date
-    const today = new Date().toISOString().split('T')[0];
-    const [selectedDate, setSelectedDate] = useState(today);
+export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts, productionId, canEdit, timezone }: DailyOverviewClientProps) {
+    // Initialize with today's date in the production's timezone
+    const [startDate, setStartDate] = useState(() => getTodayInTimezone(timezone));
+    const [endDate, setEndDate] = useState(() => getTodayInTimezone(timezone));
     const [filter, setFilter] = useState<FilterType>('all');
+    const [pendingThresholdHours, setPendingThresholdHours] = useState(DEFAULT_PENDING_THRESHOLD_HOURS);
+    const [now, setNow] = useState(() => Date.now());
+    const [reofferingShiftId, setReofferingShiftId] = useState<string | null>(null);
     const [selectedShift, setSelectedShift] = useState<{ shift: Shift; pa: PA } | null>(null);
     const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
     const [callTime, setCallTime] = useState('');
     const [wrapTime, setWrapTime] = useState('');
+    const [location, setLocation] = useState('');
+    const [unitBase, setUnitBase] = useState('');
+    const [parkingNotes, setParkingNotes] = useState('');
+    const [mapUrl, setMapUrl] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [shifts, setShifts] = useState<Shift[]>(initialShifts);
     const [pas, setPas] = useState<PA[]>(initialPAs);
@@ -98,6 +145,16 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
                 (payload) => {
                     console.log('Daily Overview: Real-time shift update received:', payload);
                     try {
+                        // Ignore shifts from other productions the same PAs work on
+                        const changedShift = payload.new as Shift;
+                        if (
+                            payload.eventType !== 'DELETE' &&
+                            changedShift.production_id &&
+                            changedShift.production_id !== productionId
+                        ) {
+                            return;
+                        }
+
                         if (payload.eventType === 'INSERT') {
                             setShifts((prev) => {
                                 const exists = prev.some(s => s.id === payload.new.id);
@@ -135,12 +192,22 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
             console.log('Daily Overview: Cleaning up shifts subscription');
             supabase.removeChannel(channel);
         };
+    }, [productionId]);
+
+    // Keep pending ages current while the page stays open
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(interval);
     }, []);
 
-    // Get shifts for selected date
+    const isSingleDay = startDate === endDate;
+
+    // Get shifts in the selected range, by date then call time
     const shiftsForDate = useMemo(() => {
-        return shifts.filter((shift) => shift.date === selectedDate);
-    }, [shifts, selectedDate]);
+        return shifts
+            .filter((shift) => shift.date >= startDate && shift.date <= endDate)
+            .sort((a, b) => a.date.localeCompare(b.date) || (a.call_time ?? '99').localeCompare(b.call_time ?? '99'));
+    }, [shifts, startDate, endDate]);
 
     // Get PA info for each shift
     const shiftsWithPAs = useMemo(() => {
@@ -161,9 +228,46 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
         if (filter === 'pending') {
             return shiftsWithPAs.filter((item) => item.shift.confirmation_status === 'pending');
         }
+        if (filter === 'declined') {
+            return shiftsWithPAs.filter((item) => item.shift.confirmation_status === 'declined');
+        }
         return shiftsWithPAs;
     }, [shiftsWithPAs, filter]);
 
+    // Upcoming shifts that need a coordinator: offers left pending too long and
+    // declines nobody has been found to cover
+    const attentionItems = useMemo(() => {
+        const today = getTodayInTimezone(timezone);
+        const items: AttentionItem[] = [];
+
+        for (const shift of shifts) {
+            if (shift.date < today) continue;
+            const pa = pas.find((p) => p.id === shift.assigned_pa_id);
+            if (!pa) continue;
+
+            if (shift.confirmation_status === 'pending') {
+                const offeredAt = Date.parse(shift.offered_at ?? shift.created_at ?? '');
+                const pendingHours = Number.isNaN(offeredAt) ? 0 : (now - offeredAt) / HOUR_MS;
+                if (pendingHours >= pendingThresholdHours) {
+                    items.push({ shift, pa, reason: `Pending for ${Math.floor(pendingHours)}h` });
+                }
+            } else if (shift.confirmation_status === 'declined' && !shift.reoffered_open_shift_id) {
+                const proposed = shift.proposed_pa_id ? pas.find((p) => p.id === shift.proposed_pa_id) : null;
+                items.push({
+                    shift,
+                    pa,
+                    reason: [
+                        'Declined, no replacement',
+                        shift.decline_reason && `"${shift.decline_reason}"`,
+                        proposed && `${proposed.name} proposed`,
+                    ].filter(Boolean).join(' · '),
+                });
+            }
+        }
+
+        return items.sort((a, b) => a.shift.date.localeCompare(b.shift.date));
+    }, [shifts, pas, now, pendingThresholdHours, timezone]);
+
     // Summary statistics
     const summary = useMemo(() => {
         const total = shiftsForDate.length;
@@ -173,6 +277,32 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
         return { total, confirmed, pending, declined };
     }, [shiftsForDate]);
 
+    const handleStartDateChange = useCallback((value: string) => {
+        setStartDate(value);
+        if (value > endDate) setEndDate(value);
+    }, [endDate]);
+
+    const showDate = useCallback((date: string) => {
+        setStartDate(date);
+        setEndDate(date);
+    }, []);
+
+    const handleReoffer = useCallback(async (shift: Shift) => {
+        setReofferingShiftId(shift.id);
+        try {
+            const { shift: updated } = await reofferShiftClient(shift.id);
+            setShifts((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+            toast.success(`Offered ${formatShortDate(shift.date)} to available PAs`);
+        } catch (error) {
+            console.error('Failed to re-offer shift:', error);
+            toast.error(
+                `Failed to re-offer shift: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        } finally {
+            setReofferingShiftId(null);
+        }
+    }, []);
+
     const handleShiftClick = useCallback((shift: Shift, pa: PA) => {
         setSelectedShift({ shift, pa });
         // Convert "HH:MM:SS" to "HH:MM" for time input
@@ -184,6 +314,10 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
             : '';
         setCallTime(callTimeValue);
         setWrapTime(wrapTimeValue);
+        setLocation(shift.location || '');
+        setUnitBase(shift.unit_base || '');
+        setParkingNotes(shift.parking_notes || '');
+        setMapUrl(shift.map_url || '');
         setIsEditDialogOpen(true);
     }, []);
 
@@ -193,31 +327,21 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
         setIsLoading(true);
 
         try {
-            const supabase = createClient();
-            // Ensure time is in "HH:MM:SS" format (add ":00" if only HH:MM is provided)
-            const callTimeFormatted = callTime ? (callTime.includes(':') && callTime.split(':').length === 2 ? `${callTime}:00` : callTime) : null;
-            const wrapTimeFormatted = wrapTime ? (wrapTime.includes(':') && wrapTime.split(':').length === 2 ? `${wrapTime}:00` : wrapTime) : null;
-
             console.log('Updating shift from daily overview:', {
                 shiftId: selectedShift.shift.id,
-                callTimeFormatted,
-                wrapTimeFormatted,
+                callTime,
+                wrapTime,
             });
 
-            const { data, error } = await supabase
-                .from('shifts')
-                .update({
-                    call_time: callTimeFormatted,
-                    wrap_time: wrapTimeFormatted,
-                })
-                .eq('id', selectedShift.shift.id)
-                .select()
-                .single();
-
-            if (error) {
-                console.error('Error updating shift from daily overview:', error);
-                throw error;
-            }
+            // The API normalizes times to HH:MM:SS and validates the range
+            const data = await updateShiftClient(selectedShift.shift.id, {
+                callTime,
+                wrapTime,
+                location,
+                unitBase,
+                parkingNotes,
+                mapUrl,
+            });
 
             console.log('Shift updated successfully from daily overview:', data);
 
@@ -239,7 +363,7 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
         } finally {
             setIsLoading(false);
         }
-    }, [selectedShift, callTime, wrapTime]);
+    }, [selectedShift, callTime, wrapTime, location, unitBase, parkingNotes, mapUrl]);
 
     return (
         <div className="space-y-6">
@@ -256,32 +380,64 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
             {/* Date Picker */}
             <Card>
                 <CardHeader>
-                    <CardTitle>Select Date</CardTitle>
+                    <CardTitle>Select Dates</CardTitle>
                 </CardHeader>
                 <CardContent>
-                    <div className="flex items-center gap-4">
-                        <div className="flex-1">
-                            <Label htmlFor="date-picker">Date</Label>
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div className="flex-1 min-w-[150px]">
+                            <Label htmlFor="date-picker">From</Label>
                             <Input
                                 id="date-picker"
                                 type="date"
-                                value={selectedDate}
-                                onChange={(e) => setSelectedDate(e.target.value)}
+                                value={startDate}
+                                onChange={(e) => e.target.value && handleStartDateChange(e.target.value)}
+                                className="mt-1"
+                            />
+                        </div>
+                        <div className="flex-1 min-w-[150px]">
+                            <Label htmlFor="end-date-picker">To</Label>
+                            <Input
+                                id="end-date-picker"
+                                type="date"
+                                value={endDate}
+                                min={startDate}
+                                onChange={(e) => e.target.value >= startDate && setEndDate(e.target.value)}
                                 className="mt-1"
                             />
                         </div>
-                        <div className="flex items-end">
+                        <div className="flex items-end gap-2">
+                            <Button
+                                variant="outline"
+                                onClick={() => showDate(getTodayInTimezone(timezone))}
+                            >
+                                Today
+                            </Button>
                             <Button
                                 variant="outline"
                                 onClick={() => {
-                                    const today = new Date().toISOString().split('T')[0];
-                                    setSelectedDate(today);
+                                    const today = getTodayInTimezone(timezone);
+                                    setStartDate(today);
+                                    setEndDate(addDaysToISO(today, 6));
                                 }}
                             >
-                                Today
+                                Next 7 Days
                             </Button>
                         </div>
                     </div>
+                    {productionId && isSingleDay && (
+                        <div className="flex flex-wrap items-center gap-2 mt-4">
+                            <Link href={`/pc/daily-overview/call-sheet?date=${startDate}`}>
+                                <Button variant="outline" size="sm">
+                                    Print Call Sheet
+                                </Button>
+                            </Link>
+                            <a href={getCallSheetPdfUrl(productionId, startDate)} download>
+                                <Button variant="outline" size="sm">
+                                    Download Call Sheet PDF
+                                </Button>
+                            </a>
+                        </div>
+                    )}
                 </CardContent>
             </Card>
 
@@ -292,7 +448,9 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
                 </CardHeader>
                 <CardContent>
                     <p className="text-lg">
-                        <span className="font-semibold">{summary.total} PAs scheduled</span>,{' '}
+                        <span className="font-semibold">
+                            {isSingleDay ? `${summary.total} PAs scheduled` : `${summary.total} shifts scheduled`}
+                        </span>,{' '}
                         <span className="text-green-600 font-medium">{summary.confirmed} confirmed</span>,{' '}
                         <span className="text-yellow-600 font-medium">{summary.pending} pending</span>
                         {summary.declined > 0 && (
@@ -301,7 +459,74 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
                             </>
                         )}
                     </p>
-                    <p className="text-muted-foreground mt-1">{formatDate(selectedDate)}</p>
+                    <p className="text-muted-foreground mt-1">
+                        {isSingleDay ? formatDate(startDate) : `${formatDate(startDate)} – ${formatDate(endDate)}`}
+                    </p>
+                </CardContent>
+            </Card>
+
+            {/* Needs Attention */}
+            <Card>
+                <CardHeader>
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <CardTitle>Needs Attention</CardTitle>
+                        <div className="flex items-center gap-2 text-sm">
+                            <Label htmlFor="pending-threshold" className="text-muted-foreground font-normal">
+                                Flag pending after
+                            </Label>
+                            <Select
+                                value={String(pendingThresholdHours)}
+                                onValueChange={(value) => setPendingThresholdHours(Number(value))}
+                            >
+                                <SelectTrigger id="pending-threshold" className="w-[110px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {PENDING_THRESHOLD_OPTIONS.map((hours) => (
+                                        <SelectItem key={hours} value={String(hours)}>
+                                            {hours} hours
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+                </CardHeader>
+                <CardContent>
+                    {attentionItems.length === 0 ? (
+                        <p className="text-muted-foreground">Nothing needs attention right now.</p>
+                    ) : (
+                        <ul className="divide-y">
+                            {attentionItems.map(({ shift, pa, reason }) => (
+                                <li key={shift.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                                    <div>
+                                        <div className="font-medium">
+                                            {formatShortDate(shift.date)} · {pa.name}
+                                        </div>
+                                        <div
+                                            className={`text-sm ${shift.confirmation_status === 'declined' ? 'text-red-600' : 'text-yellow-600'}`}
+                                        >
+                                            {reason}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Button variant="ghost" size="sm" onClick={() => showDate(shift.date)}>
+                                            View Day
+                                        </Button>
+                                        {canEdit && shift.confirmation_status === 'declined' && shift.production_id && (
+                                            <Button
+                                                size="sm"
+                                                onClick={() => handleReoffer(shift)}
+                                                disabled={reofferingShiftId === shift.id}
+                                            >
+                                                {reofferingShiftId === shift.id ? 'Offering...' : 'Re-offer to Available PAs'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </CardContent>
             </Card>
 
@@ -328,6 +553,13 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
                 >
                     Show Pending
                 </Button>
+                <Button
+                    variant={filter === 'declined' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setFilter('declined')}
+                >
+                    Show Declined
+                </Button>
             </div>
 
             {/* PA List */}
@@ -337,54 +569,102 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
                         <CardContent className="p-6 text-center text-muted-foreground">
                             <p>
                                 {shiftsForDate.length === 0
-                                    ? 'No PAs scheduled for this date.'
+                                    ? `No PAs scheduled for ${isSingleDay ? 'this date' : 'these dates'}.`
                                     : `No ${filter === 'all' ? '' : filter} shifts found.`}
                             </p>
                         </CardContent>
                     </Card>
                 ) : (
-                    filteredShifts.map(({ shift, pa }) => {
+                    filteredShifts.map(({ shift, pa }, index) => {
                         const statusColor = getStatusColor(shift.confirmation_status);
                         const statusBadge = getStatusBadge(shift.confirmation_status);
+                        const showDateHeading =
+                            !isSingleDay && (index === 0 || filteredShifts[index - 1].shift.date !== shift.date);
 
                         return (
-                            <Card
-                                key={shift.id}
-                                className={`cursor-pointer hover:shadow-md transition-shadow ${statusColor}`}
-                                onClick={() => handleShiftClick(shift, pa)}
-                            >
-                                <CardContent className="p-4">
-                                    <div className="flex items-start justify-between gap-4">
-                                        <div className="flex-1 space-y-2">
-                                            <div className="flex items-center gap-3">
-                                                <h3 className="text-lg font-semibold">{pa.name}</h3>
-                                                <span
-                                                    className={`text-xs px-2 py-0.5 rounded-full border ${statusColor}`}
-                                                >
-                                                    {statusBadge}
-                                                </span>
-                                            </div>
-                                            <div className="space-y-1 text-sm">
-                                                <div>
-                                                    <span className="font-medium">Call Time:</span>{' '}
-                                                    <span className="text-muted-foreground">
-                                                        {formatTime(shift.call_time)}
+                            <Fragment key={shift.id}>
+                                {showDateHeading && (
+                                    <h3 className="pt-2 text-sm font-semibold text-muted-foreground">
+                                        {formatDate(shift.date)}
+                                    </h3>
+                                )}
+                                <Card
+                                    className={`${canEdit ? 'cursor-pointer hover:shadow-md transition-shadow' : ''} ${statusColor}`}
+                                    onClick={() => canEdit && handleShiftClick(shift, pa)}
+                                >
+                                    <CardContent className="p-4">
+                                        <div className="flex items-start justify-between gap-4">
+                                            <div className="flex-1 space-y-2">
+                                                <div className="flex items-center gap-3">
+                                                    <h3 className="text-lg font-semibold">{pa.name}</h3>
+                                                    <span
+                                                        className={`text-xs px-2 py-0.5 rounded-full border ${statusColor}`}
+                                                    >
+                                                        {statusBadge}
                                                     </span>
                                                 </div>
-                                                <div>
-                                                    <span className="font-medium">Wrap Time:</span>{' '}
-                                                    <span className="text-muted-foreground">
-                                                        {formatTime(shift.wrap_time)}
-                                                    </span>
+                                                <div className="space-y-1 text-sm">
+                                                    <div>
+                                                        <span className="font-medium">Call Time:</span>{' '}
+                                                        <span className="text-muted-foreground">
+                                                            {formatTime(shift.call_time)}
+                                                        </span>
+                                                    </div>
+                                                    <div>
+                                                        <span className="font-medium">Wrap Time:</span>{' '}
+                                                        <span className="text-muted-foreground">
+                                                            {formatTime(shift.wrap_time)}
+                                                            {wrapsNextDay(shift) && ' (next day)'}
+                                                        </span>
+                                                    </div>
+                                                    {shift.breaks && shift.breaks.length > 0 && (
+                                                        <div>
+                                                            <span className="font-medium">Breaks:</span>{' '}
+                                                            <span className="text-muted-foreground">
+                                                                {shift.breaks.map(formatShiftBreak).join(', ')}
+                                                            </span>
+                                                        </div>
+                                                    )}
+                                                    {getShiftDuration(shift) && (
+                                                        <div>
+                                                            <span className="font-medium">Hours:</span>{' '}
+                                                            <span className="text-muted-foreground">
+                                                                {formatDuration(getShiftDuration(shift)?.workedMinutes ?? 0)}
+                                                            </span>
+                                                        </div>
+                                                    )}
+                                                    <div>
+                                                        <span className="font-medium">Location:</span>{' '}
+                                                        <span className="text-muted-foreground">
+                                                            {shift.location || 'Not set'}
+                                                        </span>
+                                                    </div>
+                                                    {shift.unit_base && (
+                                                        <div>
+                                                            <span className="font-medium">Unit Base:</span>{' '}
+                                                            <span className="text-muted-foreground">{shift.unit_base}</span>
+                                                        </div>
+                                                    )}
+                                                    {shift.parking_notes && (
+                                                        <div>
+                                                            <span className="font-medium">Parking:</span>{' '}
+                                                            <span className="text-muted-foreground">{shift.parking_notes}</span>
+                                                        </div>
+                                                    )}
+                                                    {shift.confirmation_status === 'declined' && shift.reoffered_open_shift_id && (
+                                                        <div className="text-muted-foreground">Re-offered to available PAs</div>
+                                                    )}
                                                 </div>
                                             </div>
+                                            {canEdit && (
+                                                <Button variant="ghost" size="sm">
+                                                    Edit
+                                                </Button>
+                                            )}
                                         </div>
-                                        <Button variant="ghost" size="sm">
-                                            Edit
-                                        </Button>
-                                    </div>
-                                </CardContent>
-                            </Card>
+                                    </CardContent>
+                                </Card>
+                            </Fragment>
                         );
                     })
                 )}
@@ -421,6 +701,48 @@ export function DailyOverviewClient({ pas: initialPAs, shifts: initialShifts }:
                                     className="mt-1"
                                 />
                             </div>
+                            <div>
+                                <Label htmlFor="edit-location">Location</Label>
+                                <Input
+                                    id="edit-location"
+                                    type="text"
+                                    value={location}
+                                    onChange={(e) => setLocation(e.target.value)}
+                                    placeholder="Enter location address"
+                                    className="mt-1"
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="edit-unit-base">Unit Base</Label>
+                                <Input
+                                    id="edit-unit-base"
+                                    type="text"
+                                    value={unitBase}
+                                    onChange={(e) => setUnitBase(e.target.value)}
+                                    className="mt-1"
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="edit-parking-notes">Parking Notes</Label>
+                                <Input
+                                    id="edit-parking-notes"
+                                    type="text"
+                                    value={parkingNotes}
+                                    onChange={(e) => setParkingNotes(e.target.value)}
+                                    className="mt-1"
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="edit-map-url">Map Link</Label>
+                                <Input
+                                    id="edit-map-url"
+                                    type="url"
+                                    value={mapUrl}
+                                    onChange={(e) => setMapUrl(e.target.value)}
+                                    placeholder="https://maps.google.com/..."
+                                    className="mt-1"
+                                />
+                            </div>
                             <div className="text-sm text-muted-foreground">
                                 <p>
                                     <span className="font-medium">Date:</span> {formatDate(selectedShift.shift.date)}
@@ -2,8 +2,16 @@ import { createClient } from '@/lib/supabase/server';
 import { Suspense } from 'react';
 import type { Database } from '@/lib/supabase/types';
 import { DailyOverviewClient } from './daily-overview-client';
-
-type PA = Database['public']['Tables']['users']['Row'];
+import {
+    resolveActiveProduction,
+    getProductionMemberIds,
+    canSchedule,
+    CREW_MEMBER_COLUMNS,
+    type CrewMember,
+} from '@/lib/productions/membership';
+import { DEFAULT_TIMEZONE } from '@/lib/utils/dates';
+
+type PA = CrewMember;
 type Shift = Database['public']['Tables']['shifts']['Row'];
 
 async function getDailyOverviewData() {
@@ -16,50 +24,50 @@ async function getDailyOverviewData() {
         throw new Error('Not authenticated. Please log in.');
     }
 
-    // Fetch production data for current user (needed to filter PAs)
-    const { data: production, error: productionError } = await supabase
-        .from('productions')
-        .select('*')
-        .eq('created_by', authUser.id)
-        .maybeSingle();
+    const { data: userData } = await supabase
+        .from('users')
+        .select('production_id')
+        .eq('id', authUser.id)
+        .single();
+
+    // Resolve the PC's active production from their memberships (needed to filter PAs)
+    const { production, permission } = await resolveActiveProduction(
+        supabase,
+        authUser.id,
+        userData?.production_id ?? null
+    );
 
-    // If there's an error and it's not a "not found" error, log it but continue
-    if (productionError && productionError.code !== 'PGRST116') {
-        console.warn('Error fetching production:', productionError.message);
-    }
+    // PAs are the members of the active production
+    const paIds = production ? await getProductionMemberIds(supabase, production.id, 'PA') : [];
 
-    // Build query for PAs - filter by production_id if production exists
-    let pasQuery = supabase
-        .from('users')
-        .select('*')
-        .eq('role', 'PA');
-    
-    // Only filter by production_id if the PC has a production
-    if (production?.id) {
-        pasQuery = pasQuery.eq('production_id', production.id);
-    }
+    let pas: PA[] = [];
+    if (paIds.length > 0) {
+        const { data, error: pasError } = await supabase
+            .from('users')
+            .select(CREW_MEMBER_COLUMNS)
+            .in('id', paIds)
+            .order('name');
 
-    // Fetch PAs with production_id filter
-    const { data: pas, error: pasError } = await pasQuery.order('name');
+        if (pasError) {
+            throw new Error(`Failed to fetch PAs: ${pasError.message}`);
+        }
 
-    if (pasError) {
-        throw new Error(`Failed to fetch PAs: ${pasError.message}`);
+        pas = data || [];
     }
 
-    // Extract PA IDs to filter shifts by production
-    const paIds = (pas || []).map(pa => pa.id);
-
     // Fetch shifts for PAs in this production (we'll filter by date on the client side)
-    let shifts;
+    let shifts: Shift[];
     
     // When there are no PAs
-    if (paIds.length === 0) {
+    if (paIds.length === 0 || !production) {
         shifts = [];
     } else {
+        // Shifts created before production scoping have no production_id
         const { data, error: shiftsError } = await supabase
             .from('shifts')
             .select('*')
             .in('assigned_pa_id', paIds)
+            .or(`production_id.eq.${production.id},production_id.is.null`)
             .order('date');
 
         if (shiftsError) {
@@ -70,8 +78,11 @@ async function getDailyOverviewData() {
     }
 
     return {
-        pas: pas || [],
+        pas,
         shifts: shifts || [],
+        productionId: production?.id ?? null,
+        canEdit: canSchedule(permission),
+        timezone: production?.timezone ?? DEFAULT_TIMEZONE,
     };
 }
 
@@ -127,7 +138,14 @@ export default async function DailyOverviewPage() {
             </div>
 
             <Suspense fallback={<LoadingState />}>
-                <DailyOverviewClient pas={data.pas} shifts={data.shifts} />
+                <DailyOverviewClient
+                    key={data.productionId ?? 'no-production'}
+                    pas={data.pas}
+                    shifts={data.shifts}
+                    productionId={data.productionId}
+                    canEdit={data.canEdit}
+                    timezone={data.timezone}
+                />
             </Suspense>
         </div>
     );
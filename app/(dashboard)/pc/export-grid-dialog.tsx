@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getGridExportUrl } from '@/lib/shifts/api';
+import type { GridExportFormat } from '@/lib/shifts/grid-export';
+
+interface ExportGridDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productionId: string;
+  dates: Array<{ date: string; display: string }>; // Dates of the week shown in the grid
+}
+
+export function ExportGridDialog({ open, onOpenChange, productionId, dates }: ExportGridDialogProps) {
+  const weekStart = dates[0]?.date ?? '';
+  const weekEnd = dates[dates.length - 1]?.date ?? '';
+  const [startDate, setStartDate] = useState(weekStart);
+  const [endDate, setEndDate] = useState(weekEnd);
+
+  const isValidRange = Boolean(startDate && endDate) && startDate <= endDate;
+
+  const downloadButton = (format: GridExportFormat, label: string) =>
+    isValidRange ? (
+      <a href={getGridExportUrl(productionId, startDate, endDate, format)} download>
+        <Button variant={format === 'xlsx' ? 'default' : 'outline'} className="w-full sm:w-auto">
+          {label}
+        </Button>
+      </a>
+    ) : (
+      <Button variant={format === 'xlsx' ? 'default' : 'outline'} disabled className="w-full sm:w-auto">
+        {label}
+      </Button>
+    );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        onOpenChange(isOpen);
+        if (!isOpen) {
+          setStartDate(weekStart);
+          setEndDate(weekEnd);
+        }
+      }}
+    >
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Export Grid</DialogTitle>
+          <DialogDescription>
+            Download each PA&apos;s availability and assigned shifts for a date range, one column per day.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-start-date" className="text-sm">From</Label>
+            <Input
+              id="export-start-date"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-end-date" className="text-sm">To</Label>
+            <Input
+              id="export-end-date"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          {!isValidRange && (
+            <p className="col-span-2 text-sm text-red-600">Choose an end date on or after the start date.</p>
+          )}
+        </div>
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          {downloadButton('csv', 'Download CSV')}
+          {downloadButton('xlsx', 'Download Excel')}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { Database, ShiftBreak } from '@/lib/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { createOpenShiftClient } from '@/lib/shifts/api';
+import { ShiftBreaksEditor } from './shift-breaks-editor';
+
+type OpenShift = Database['public']['Tables']['open_shifts']['Row'];
+
+interface OpenShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productionId: string;
+  dates: Array<{ date: string; display: string }>; // Dates of the week shown in the grid
+  onCreated: (openShift: OpenShift) => void;
+}
+
+export function OpenShiftDialog({
+  open,
+  onOpenChange,
+  productionId,
+  dates,
+  onCreated,
+}: OpenShiftDialogProps) {
+  const [date, setDate] = useState('');
+  const [slots, setSlots] = useState('1');
+  const [callTime, setCallTime] = useState('');
+  const [wrapTime, setWrapTime] = useState('');
+  const [location, setLocation] = useState('');
+  const [breaks, setBreaks] = useState<ShiftBreak[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setDate('');
+    setSlots('1');
+    setCallTime('');
+    setWrapTime('');
+    setLocation('');
+    setBreaks([]);
+  };
+
+  const handleSubmit = async () => {
+    if (!date) {
+      toast.error('Please choose a date');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const openShift = await createOpenShiftClient({
+        productionId,
+        date,
+        slots: Number(slots),
+        callTime,
+        wrapTime,
+        location,
+        breaks: breaks.length > 0 ? breaks : null,
+      });
+
+      toast.success(`Posted ${openShift.slots_total} open ${openShift.slots_total === 1 ? 'slot' : 'slots'}`);
+      onCreated(openShift);
+      resetForm();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to post open shift:', error);
+      toast.error(`Failed to post open shift: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        onOpenChange(isOpen);
+        if (!isOpen) resetForm();
+      }}
+    >
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Post Open Shift</DialogTitle>
+          <DialogDescription>
+            Offer slots to every PA who is available or prefers to work that day. The first PAs
+            to claim fill the slots.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="open-shift-date" className="text-sm">Date</Label>
+              <Select value={date} onValueChange={setDate}>
+                <SelectTrigger id="open-shift-date" className="w-full">
+                  <SelectValue placeholder="Select date" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dates.map((dateInfo) => (
+                    <SelectItem key={dateInfo.date} value={dateInfo.date}>
+                      {dateInfo.display}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="open-shift-slots" className="text-sm">PAs Needed</Label>
+              <Input
+                id="open-shift-slots"
+                type="number"
+                min={1}
+                max={50}
+                value={slots}
+                onChange={(e) => setSlots(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="open-shift-call-time" className="text-sm">Call Time</Label>
+              <Input
+                id="open-shift-call-time"
+                type="time"
+                value={callTime}
+                onChange={(e) => setCallTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="open-shift-wrap-time" className="text-sm">Wrap Time</Label>
+              <Input
+                id="open-shift-wrap-time"
+                type="time"
+                value={wrapTime}
+                onChange={(e) => setWrapTime(e.target.value)}
+              />
+            </div>
+          </div>
+          <ShiftBreaksEditor
+            idPrefix="open-shift"
+            callTime={callTime}
+            wrapTime={wrapTime}
+            breaks={breaks}
+            onChange={setBreaks}
+          />
+          <div className="space-y-2">
+            <Label htmlFor="open-shift-location" className="text-sm">Location</Label>
+            <Input
+              id="open-shift-location"
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Enter location address"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Posting...' : 'Post Open Shift'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,48 +6,37 @@ import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { LogoutButton } from './logout-button';
 import { PCRealtimeSubscriptions } from './realtime-subscriptions';
+import { ProductionSwitcher } from './production-switcher';
+import {
+    resolveActiveProduction,
+    getProductionMemberIds,
+    getProductionCoordinators,
+    getProductionMembers,
+    canSchedule,
+    CREW_MEMBER_COLUMNS,
+    type CrewMember,
+} from '@/lib/productions/membership';
+import { getSchedulingRules } from '@/lib/shifts/rules';
+import { getAvailabilityDeadline } from '@/lib/shifts/availability-deadline';
+import { getEffectiveRates, summarizeLaborByWeek } from '@/lib/shifts/costs';
+import type { PARateInfo } from './budget-panel';
+import { DEFAULT_TIMEZONE, addDaysToISO, getMondayOfWeekISO, getTodayInTimezone } from '@/lib/utils/dates';
 import type { Database } from '@/lib/supabase/types';
 
-type PA = Database['public']['Tables']['users']['Row'];
+type PA = CrewMember;
 type Availability = Database['public']['Tables']['availability']['Row'];
 type Shift = Database['public']['Tables']['shifts']['Row'];
+type OpenShift = Database['public']['Tables']['open_shifts']['Row'];
 type Production = Database['public']['Tables']['productions']['Row'];
 
-// Helper function to get Monday of a given week
-function getMondayOfWeek(date: Date): Date {
-    const d = new Date(date);
-    d.setHours(0, 0, 0, 0);
-    const day = d.getDay();
-    const diff = d.getDate() - day + (day === 0 ? -6 : 1); // Adjust when day is Sunday
-    return new Date(d.setDate(diff));
-}
-
-// Helper function to get Sunday of a given week
-function getSundayOfWeek(date: Date): Date {
-    const monday = getMondayOfWeek(date);
-    const sunday = new Date(monday);
-    sunday.setDate(monday.getDate() + 6);
-    sunday.setHours(0, 0, 0, 0); // Ensure time is set to midnight to match Monday
-    return sunday;
-}
-
-// Helper function to format date as YYYY-MM-DD using local timezone (avoiding UTC conversion issues)
-function formatDateLocal(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-}
+// Weeks around the current one loaded with the page; the grid fetches any other week it navigates to
+const PRELOADED_WEEK_OFFSETS = [-14, -7, 0, 7, 14];
 
-// Helper function to generate dates for a week (Mon-Sun)
-// Uses ISO format to match what PA calendar uses when saving dates
-function generateWeekDates(monday: Date): string[] {
+// Helper function to generate dates for a week (Mon-Sun) as YYYY-MM-DD strings
+function generateWeekDates(mondayISO: string): string[] {
     const dates: string[] = [];
     for (let i = 0; i < 7; i++) {
-        const date = new Date(monday);
-        date.setDate(monday.getDate() + i);
-        // Use ISO string format to match PA calendar date format
-        dates.push(date.toISOString().split('T')[0]);
+        dates.push(addDaysToISO(mondayISO, i));
     }
     return dates;
 }
@@ -65,7 +54,7 @@ async function getDashboardData() {
     // Get current PC's user record to verify role
     const { data: pcUserData, error: userError } = await supabase
         .from('users')
-        .select('role')
+        .select('role, production_id')
         .eq('id', authUser.id)
         .single();
 
@@ -84,58 +73,43 @@ async function getDashboardData() {
         throw new Error('Access denied. This dashboard is for PC users only.');
     }
 
-    // Fetch production data for current user (needed to filter PAs)
-    const { data: production, error: productionError } = await supabase
-        .from('productions')
-        .select('*')
-        .eq('created_by', authUser.id)
-        .maybeSingle();
+    // Resolve the PC's active production from their memberships (needed to filter PAs)
+    const { production, permission, memberships } = await resolveActiveProduction(
+        supabase,
+        authUser.id,
+        pcUserData?.production_id ?? null
+    );
 
-    // If there's an error and it's not a "not found" error, log it but continue
-    if (productionError && productionError.code !== 'PGRST116') {
-        console.warn('Error fetching production:', productionError.message);
-    }
+    // Calculate current week (Monday-Sunday) from "today" in the production's timezone
+    const timezone = production?.timezone ?? DEFAULT_TIMEZONE;
+    const currentWeekMonday = getMondayOfWeekISO(getTodayInTimezone(timezone));
 
-    // Calculate current week (Monday-Sunday)
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const currentWeekMonday = getMondayOfWeek(today);
-    const currentWeekSunday = getSundayOfWeek(today);
-
-    // Fetch data for a wider range (current week ± 2 weeks) to allow navigation
-    const startDate = new Date(currentWeekMonday);
-    startDate.setDate(currentWeekMonday.getDate() - 14); // 2 weeks before
-    const endDate = new Date(currentWeekSunday);
-    endDate.setDate(currentWeekSunday.getDate() + 14); // 2 weeks after
-
-    // Use ISO string format to match what PA calendar uses when saving dates
-    // This ensures consistency with existing data in the database
-    const startDateStr = startDate.toISOString().split('T')[0];
-    const endDateStr = endDate.toISOString().split('T')[0];
-
-    // Build query for PAs - filter by production_id if production exists
-    let pasQuery = supabase
-        .from('users')
-        .select('*')
-        .eq('role', 'PA');
-    
-    // Only filter by production_id if the PC has a production
-    if (production?.id) {
-        pasQuery = pasQuery.eq('production_id', production.id);
-    }
+    // Fetch data for a wider range (current week ± 2 weeks) so nearby weeks open instantly
+    const preloadedWeeks = PRELOADED_WEEK_OFFSETS.map((offset) => addDaysToISO(currentWeekMonday, offset));
+    const startDateStr = preloadedWeeks[0];
+    const endDateStr = addDaysToISO(preloadedWeeks[preloadedWeeks.length - 1], 6);
 
-    // Fetch PAs with production_id filter
-    const { data: pas, error: pasError } = await pasQuery.order('name');
+    // PAs are the members of the active production (a PA can belong to several)
+    const paIds = production ? await getProductionMemberIds(supabase, production.id, 'PA') : [];
+    const coordinators = production ? await getProductionCoordinators(supabase, production.id) : [];
 
-    if (pasError) {
-        throw new Error(`Failed to fetch PAs: ${pasError.message}`);
-    }
+    let pas: PA[] = [];
+    if (paIds.length > 0) {
+        const { data, error: pasError } = await supabase
+            .from('users')
+            .select(CREW_MEMBER_COLUMNS)
+            .in('id', paIds)
+            .order('name');
 
-    // Extract PA IDs to filter availability and shifts by production
-    const paIds = (pas || []).map(pa => pa.id);
+        if (pasError) {
+            throw new Error(`Failed to fetch PAs: ${pasError.message}`);
+        }
+
+        pas = data || [];
+    }
 
     // Fetch availability for the date range, filtered by PA user_ids in this production
-    let availability;
+    let availability: Availability[];
     
     // If no PAs, return empty array to ensure no availability is shown
     if (paIds.length === 0) {
@@ -155,19 +129,21 @@ async function getDashboardData() {
         availability = data || [];
     }
 
-    // Fetch shifts for the date range, filtered by assigned_pa_ids in this production
-    let shifts;
+    // Fetch shifts for the date range, filtered to this production's PAs and shifts
+    let shifts: Shift[];
     
     // If no PAs, return empty array to ensure no shifts are shown
-    if (paIds.length === 0) {
+    if (paIds.length === 0 || !production) {
         shifts = [];
     } else {
+        // Shifts created before production scoping have no production_id
         const { data, error: shiftsError } = await supabase
             .from('shifts')
             .select('*')
             .gte('date', startDateStr)
             .lte('date', endDateStr)
-            .in('assigned_pa_id', paIds);
+            .in('assigned_pa_id', paIds)
+            .or(`production_id.eq.${production.id},production_id.is.null`);
 
         if (shiftsError) {
             throw new Error(`Failed to fetch shifts: ${shiftsError.message}`);
@@ -176,32 +152,64 @@ async function getDashboardData() {
         shifts = data || [];
     }
 
-    // Generate dates for current week (Mon-Sun) - use ISO format to match PA calendar
-    const currentWeekDates = generateWeekDates(currentWeekMonday);
-    const currentWeekMondayStr = currentWeekMonday.toISOString().split('T')[0];
-
-    // Count PAs in the production (if production exists)
-    let paCount = 0;
+    // Fetch open shift postings for the date range
+    let openShifts: OpenShift[] = [];
     if (production) {
-        const { count, error: countError } = await supabase
-            .from('users')
-            .select('*', { count: 'exact', head: true })
+        const { data, error: openShiftsError } = await supabase
+            .from('open_shifts')
+            .select('*')
             .eq('production_id', production.id)
-            .eq('role', 'PA');
+            .gte('date', startDateStr)
+            .lte('date', endDateStr)
+            .order('date');
 
-        if (!countError && count !== null) {
-            paCount = count;
+        if (openShiftsError) {
+            throw new Error(`Failed to fetch open shifts: ${openShiftsError.message}`);
         }
+
+        openShifts = data || [];
     }
 
+    // Generate dates for current week (Mon-Sun) - use ISO format to match PA calendar
+    const currentWeekDates = generateWeekDates(currentWeekMonday);
+
+    // Labor cost of the loaded weeks against the production's weekly budget
+    const paMembers = production ? await getProductionMembers(supabase, production.id, 'PA') : [];
+    const paRates: PARateInfo[] = pas.map((pa) => {
+        const member = paMembers.find((m) => m.user_id === pa.id) ?? null;
+        return {
+            memberId: member?.id ?? null,
+            paId: pa.id,
+            name: pa.name,
+            standardRates: { dayRate: pa.day_rate, hourlyRate: pa.hourly_rate },
+            productionRates: { dayRate: member?.day_rate ?? null, hourlyRate: member?.hourly_rate ?? null },
+            effectiveRates: getEffectiveRates(pa, member),
+        };
+    });
+    const laborWeeks = summarizeLaborByWeek(
+        shifts,
+        Object.fromEntries(paRates.map((rate) => [rate.paId, rate.effectiveRates])),
+        getSchedulingRules(production),
+        production?.weekly_labor_budget ?? null,
+        preloadedWeeks
+    );
+
     return {
-        pas: pas || [],
+        pas,
         availability: availability || [],
         shifts: shifts || [],
-        currentWeekMonday: currentWeekMondayStr, // Use ISO format to match database
+        openShifts,
+        currentWeekMonday, // Use ISO format to match database
+        preloadedWeeks,
+        timezone,
         currentWeekDates,
-        production: production || null,
-        paCount,
+        production,
+        permission,
+        coordinators,
+        productions: memberships.map(({ production }) => ({ id: production.id, name: production.name })),
+        paCount: paIds.length,
+        paRates,
+        laborWeeks,
     };
 }
 
@@ -254,30 +262,54 @@ export default async function PCDashboardPage() {
                     {data.production ? (
                         <p className="text-muted-foreground text-sm mt-1">
                             Production: {data.production.name}
+                            {data.permission === 'read_only' && ' (read-only access)'}
                         </p>
                     ) : (
                         <p className="text-muted-foreground text-sm mt-1">
-                            No production found. Create a production to manage your PA team.
+                            No production found. Create a production or join one with a coordinator invite code.
                         </p>
                     )}
                 </div>
                 <div className="flex items-center gap-3">
+                    <ProductionSwitcher
+                        productions={data.productions}
+                        activeProductionId={data.production?.id ?? null}
+                        allowJoin
+                    />
                     <Link href="/pc/daily-overview">
                         <Button>Daily Overview</Button>
                     </Link>
+                    <Link href="/pc/timesheets">
+                        <Button variant="outline">Timesheets</Button>
+                    </Link>
                     <LogoutButton />
                 </div>
             </div>
 
             {/* Production Info Card */}
-            <ProductionInfoCard production={data.production} paCount={data.paCount} />
+            <ProductionInfoCard
+                production={data.production}
+                paCount={data.paCount}
+                permission={data.permission}
+                coordinators={data.coordinators}
+                paRates={data.paRates}
+                laborWeeks={data.laborWeeks}
+            />
 
             <Suspense fallback={<LoadingState />}>
                 <AvailabilityGrid
+                    key={data.production?.id ?? 'no-production'}
                     pas={data.pas}
                     availability={data.availability}
                     shifts={data.shifts}
+                    openShifts={data.openShifts}
                     initialWeekMonday={data.currentWeekMonday}
+                    preloadedWeeks={data.preloadedWeeks}
+                    productionId={data.production?.id ?? null}
+                    canEdit={canSchedule(data.permission)}
+                    rules={getSchedulingRules(data.production)}
+                    timezone={data.timezone}
+                    availabilityDeadline={getAvailabilityDeadline(data.production)}
                 />
             </Suspense>
         </div>
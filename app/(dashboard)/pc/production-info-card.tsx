@@ -4,26 +4,126 @@ import { useState, useEffect } from "react";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { createClient } from "@/lib/supabase/client";
 import type { Database } from "@/lib/supabase/types";
+import {
+  PERMISSION_LABELS,
+  canManageProduction,
+  type CoordinatorPermission,
+  type ProductionCoordinator,
+} from "@/lib/productions/membership";
+import {
+  SCHEDULING_RULE_LABELS,
+  getSchedulingRules,
+  type SchedulingRules,
+} from "@/lib/shifts/rules";
+import {
+  REMINDER_SETTING_LABELS,
+  getReminderSettings,
+  type ReminderSettings,
+} from "@/lib/shifts/reminder-settings";
+import {
+  DEADLINE_WEEKDAYS,
+  DEFAULT_DEADLINE_REMINDER_HOURS,
+  DEFAULT_DEADLINE_TIME,
+  getAvailabilityDeadline,
+} from "@/lib/shifts/availability-deadline";
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS, formatISODate } from "@/lib/utils/dates";
+import type { WeeklyLaborCost } from "@/lib/shifts/costs";
+import { BudgetPanel, type PARateInfo } from "./budget-panel";
 
 type Production = Database['public']['Tables']['productions']['Row'];
+type Permission = Database['public']['Tables']['production_members']['Row']['permission'];
 
 interface ProductionInfoCardProps {
   production: Production | null;
   paCount: number;
+  permission: Permission;
+  coordinators: ProductionCoordinator[];
+  paRates: PARateInfo[];
+  laborWeeks: WeeklyLaborCost[]; // Planned and spent labor cost for the weeks loaded on the dashboard
 }
 
-export function ProductionInfoCard({ production, paCount }: ProductionInfoCardProps) {
+function toRuleInputs(rules: SchedulingRules): Record<keyof SchedulingRules, string> {
+  return {
+    minTurnaroundHours: String(rules.minTurnaroundHours),
+    maxConsecutiveDays: String(rules.maxConsecutiveDays),
+    maxWeeklyHours: String(rules.maxWeeklyHours),
+    mealPenaltyHours: String(rules.mealPenaltyHours),
+    dailyOvertimeHours: String(rules.dailyOvertimeHours),
+    weeklyOvertimeHours: String(rules.weeklyOvertimeHours),
+  };
+}
+
+function toReminderInputs(settings: ReminderSettings): Record<keyof ReminderSettings, string> {
+  return {
+    reminderAfterHours: String(settings.reminderAfterHours),
+    escalateAfterHours: String(settings.escalateAfterHours),
+    autoReleaseAfterHours: String(settings.autoReleaseAfterHours),
+  };
+}
+
+interface DeadlineInputs {
+  weekday: string; // "none" or 0-6
+  time: string; // HH:MM
+  reminderHours: string;
+}
+
+function toDeadlineInputs(production: Production | null): DeadlineInputs {
+  const deadline = getAvailabilityDeadline(production);
+  return {
+    weekday: deadline ? String(deadline.weekday) : "none",
+    time: (deadline?.time ?? DEFAULT_DEADLINE_TIME).slice(0, 5),
+    reminderHours: String(deadline?.reminderHours ?? DEFAULT_DEADLINE_REMINDER_HOURS),
+  };
+}
+
+export function ProductionInfoCard({
+  production,
+  paCount,
+  permission,
+  coordinators,
+  paRates,
+  laborWeeks,
+}: ProductionInfoCardProps) {
+  const router = useRouter();
   const [isActive, setIsActive] = useState(production?.is_active ?? false);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [invitePermission, setInvitePermission] = useState<CoordinatorPermission>("scheduler");
+  const [coordinatorInviteCode, setCoordinatorInviteCode] = useState<string | null>(null);
+  const [isTeamUpdating, setIsTeamUpdating] = useState(false);
+  const [rules, setRules] = useState<Record<keyof SchedulingRules, string>>(() =>
+    toRuleInputs(getSchedulingRules(production))
+  );
+  const [isSavingRules, setIsSavingRules] = useState(false);
+  const [reminders, setReminders] = useState<Record<keyof ReminderSettings, string>>(() =>
+    toReminderInputs(getReminderSettings(production))
+  );
+  const [isSavingReminders, setIsSavingReminders] = useState(false);
+  const [deadline, setDeadline] = useState<DeadlineInputs>(() => toDeadlineInputs(production));
+  const [isSavingDeadline, setIsSavingDeadline] = useState(false);
+  const [timezone, setTimezone] = useState(production?.timezone ?? DEFAULT_TIMEZONE);
+  const isOwner = canManageProduction(permission);
 
   // Sync state when production prop changes
   useEffect(() => {
     if (production) {
       setIsActive(production.is_active);
+      setRules(toRuleInputs(getSchedulingRules(production)));
+      setReminders(toReminderInputs(getReminderSettings(production)));
+      setDeadline(toDeadlineInputs(production));
+      setTimezone(production.timezone ?? DEFAULT_TIMEZONE);
     }
   }, [production]);
 
@@ -34,7 +134,8 @@ export function ProductionInfoCard({ production, paCount }: ProductionInfoCardPr
         <CardHeader>
           <CardTitle>No Production Found</CardTitle>
           <CardDescription>
-            Create your first production to get started managing your PA team.
+            Create your first production to get started managing your PA team, or use
+            Join Production with a coordinator invite code to join an existing team.
           </CardDescription>
         </CardHeader>
         <CardFooter>
@@ -87,20 +188,237 @@ export function ProductionInfoCard({ production, paCount }: ProductionInfoCardPr
     }
   };
 
-  const formatDate = (dateString: string | null) => {
-    if (!dateString) return null;
+  const handleCreateCoordinatorInvite = async () => {
+    setIsTeamUpdating(true);
+    try {
+      const response = await fetch("/api/productions/coordinators", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ productionId: production.id, permission: invitePermission }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create coordinator invite");
+      }
+
+      setCoordinatorInviteCode(result.code);
+      toast.success("Coordinator invite code created");
+    } catch (error) {
+      console.error("Error creating coordinator invite:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create coordinator invite");
+    } finally {
+      setIsTeamUpdating(false);
+    }
+  };
+
+  const handleChangePermission = async (memberId: string, newPermission: CoordinatorPermission) => {
+    setIsTeamUpdating(true);
     try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString("en-US", {
-        year: "numeric",
-        month: "short",
-        day: "numeric",
+      const response = await fetch("/api/productions/coordinators", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ memberId, permission: newPermission }),
       });
-    } catch {
-      return dateString;
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update permission");
+      }
+
+      toast.success(`Permission changed to ${PERMISSION_LABELS[newPermission]}`);
+      router.refresh();
+    } catch (error) {
+      console.error("Error updating coordinator permission:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update permission");
+    } finally {
+      setIsTeamUpdating(false);
+    }
+  };
+
+  const handleRemoveCoordinator = async (coordinator: ProductionCoordinator) => {
+    if (!confirm(`Remove ${coordinator.name} from the coordinator team?`)) {
+      return;
+    }
+
+    setIsTeamUpdating(true);
+    try {
+      const response = await fetch("/api/productions/coordinators", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ memberId: coordinator.memberId }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to remove coordinator");
+      }
+
+      toast.success(`${coordinator.name} removed from the team`);
+      router.refresh();
+    } catch (error) {
+      console.error("Error removing coordinator:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove coordinator");
+    } finally {
+      setIsTeamUpdating(false);
+    }
+  };
+
+  const handleSaveRules = async () => {
+    const values = Object.fromEntries(
+      Object.entries(rules).map(([key, value]) => [key, Number(value)])
+    ) as unknown as SchedulingRules;
+
+    const hasInvalidValue = Object.entries(values).some(
+      ([key, value]) =>
+        rules[key as keyof SchedulingRules].trim() === "" || !Number.isFinite(value) || value < 0
+    );
+    if (hasInvalidValue) {
+      toast.error("Rule limits must be zero or positive numbers");
+      return;
+    }
+
+    setIsSavingRules(true);
+    try {
+      const supabase = createClient();
+      const { error } = await supabase
+        .from("productions")
+        .update({
+          min_turnaround_hours: values.minTurnaroundHours,
+          max_consecutive_days: Math.round(values.maxConsecutiveDays),
+          max_weekly_hours: values.maxWeeklyHours,
+          meal_penalty_hours: values.mealPenaltyHours,
+          daily_overtime_hours: values.dailyOvertimeHours,
+          weekly_overtime_hours: values.weeklyOvertimeHours,
+        })
+        .eq("id", production.id);
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success("Scheduling rules saved");
+      router.refresh();
+    } catch (error) {
+      console.error("Error saving scheduling rules:", error);
+      toast.error("Failed to save scheduling rules");
+    } finally {
+      setIsSavingRules(false);
+    }
+  };
+
+  const handleSaveReminders = async () => {
+    const values = Object.fromEntries(
+      Object.entries(reminders).map(([key, value]) => [key, Number(value)])
+    ) as unknown as ReminderSettings;
+
+    const hasInvalidValue = Object.entries(values).some(
+      ([key, value]) =>
+        reminders[key as keyof ReminderSettings].trim() === "" || !Number.isFinite(value) || value < 0
+    );
+    if (hasInvalidValue) {
+      toast.error("Reminder timings must be zero or positive numbers of hours");
+      return;
+    }
+
+    setIsSavingReminders(true);
+    try {
+      const supabase = createClient();
+      const { error } = await supabase
+        .from("productions")
+        .update({
+          reminder_after_hours: values.reminderAfterHours,
+          escalate_after_hours: values.escalateAfterHours,
+          auto_release_after_hours: values.autoReleaseAfterHours,
+        })
+        .eq("id", production.id);
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success("Reminder settings saved");
+      router.refresh();
+    } catch (error) {
+      console.error("Error saving reminder settings:", error);
+      toast.error("Failed to save reminder settings");
+    } finally {
+      setIsSavingReminders(false);
+    }
+  };
+
+  const handleSaveDeadline = async () => {
+    const reminderHours = Number(deadline.reminderHours);
+    if (deadline.reminderHours.trim() === "" || !Number.isFinite(reminderHours) || reminderHours < 0) {
+      toast.error("The reminder must be zero or a positive number of hours");
+      return;
+    }
+    if (deadline.weekday !== "none" && !deadline.time) {
+      toast.error("Choose a time for the deadline");
+      return;
+    }
+
+    setIsSavingDeadline(true);
+    try {
+      const supabase = createClient();
+      const { error } = await supabase
+        .from("productions")
+        .update({
+          availability_deadline_weekday: deadline.weekday === "none" ? null : Number(deadline.weekday),
+          availability_deadline_time: deadline.weekday === "none" ? null : `${deadline.time}:00`,
+          availability_reminder_hours: reminderHours,
+        })
+        .eq("id", production.id);
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success("Availability deadline saved");
+      router.refresh();
+    } catch (error) {
+      console.error("Error saving availability deadline:", error);
+      toast.error("Failed to save availability deadline");
+    } finally {
+      setIsSavingDeadline(false);
+    }
+  };
+
+  const handleChangeTimezone = async (value: string) => {
+    const previous = timezone;
+    setTimezone(value);
+    setIsUpdating(true);
+    try {
+      const supabase = createClient();
+      const { error } = await supabase
+        .from("productions")
+        .update({ timezone: value })
+        .eq("id", production.id);
+
+      if (error) {
+        throw error;
+      }
+
+      toast.success("Production timezone updated");
+      router.refresh();
+    } catch (error) {
+      console.error("Error updating production timezone:", error);
+      toast.error("Failed to update production timezone");
+      setTimezone(previous);
+    } finally {
+      setIsUpdating(false);
     }
   };
 
+  // Keep a zone set outside the picker's list selectable
+  const timezoneOptions = TIMEZONE_OPTIONS.includes(timezone) ? TIMEZONE_OPTIONS : [timezone, ...TIMEZONE_OPTIONS];
+
+  // Production dates are calendar days, so format them without shifting into the viewer's timezone
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return null;
+    return formatISODate(dateString.slice(0, 10), { year: "numeric", month: "short", day: "numeric" });
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -109,11 +427,13 @@ export function ProductionInfoCard({ production, paCount }: ProductionInfoCardPr
             <CardTitle>{production.name}</CardTitle>
             <CardDescription>Production Information</CardDescription>
           </div>
-          <Link href="/pc/create-production">
-            <Button variant="outline" size="sm">
-              Edit Production
-            </Button>
-          </Link>
+          {isOwner && (
+            <Link href="/pc/create-production">
+              <Button variant="outline" size="sm">
+                Edit Production
+              </Button>
+            </Link>
+          )}
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -163,13 +483,265 @@ export function ProductionInfoCard({ production, paCount }: ProductionInfoCardPr
           </div>
         </div>
 
+        {/* Coordinator Team */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Coordinator Team</label>
+          <div className="space-y-2">
+            {coordinators.map((coordinator) => (
+              <div
+                key={coordinator.memberId}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{coordinator.name}</div>
+                  <div className="text-muted-foreground truncate">{coordinator.email}</div>
+                </div>
+                {isOwner ? (
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={coordinator.permission ?? undefined}
+                      onValueChange={(value) =>
+                        handleChangePermission(coordinator.memberId, value as CoordinatorPermission)
+                      }
+                      disabled={isTeamUpdating}
+                    >
+                      <SelectTrigger size="sm" className="w-[130px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(PERMISSION_LABELS) as CoordinatorPermission[]).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {PERMISSION_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveCoordinator(coordinator)}
+                      disabled={isTeamUpdating}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-muted-foreground">
+                    {coordinator.permission ? PERMISSION_LABELS[coordinator.permission] : "—"}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {isOwner && (
+            <div className="space-y-2 pt-2">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={invitePermission}
+                  onValueChange={(value) => {
+                    setInvitePermission(value as CoordinatorPermission);
+                    setCoordinatorInviteCode(null);
+                  }}
+                >
+                  <SelectTrigger size="sm" className="w-[130px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PERMISSION_LABELS) as CoordinatorPermission[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {PERMISSION_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCreateCoordinatorInvite}
+                  disabled={isTeamUpdating}
+                >
+                  Invite Coordinator
+                </Button>
+              </div>
+              {coordinatorInviteCode && (
+                <div className="px-3 py-2 bg-muted rounded-md border font-mono text-center font-semibold">
+                  {coordinatorInviteCode}
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                Coordinator invite codes work once. Share it with the coordinator, who enters it
+                under Join Production.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Timezone */}
+        <div className="space-y-2">
+          <label htmlFor="production-timezone" className="text-sm font-medium">Timezone</label>
+          <Select value={timezone} onValueChange={handleChangeTimezone} disabled={!isOwner || isUpdating}>
+            <SelectTrigger id="production-timezone" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timezoneOptions.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option.replace(/_/g, " ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground">
+            The schedule&apos;s &quot;today&quot;, week boundaries and email times follow this timezone.
+          </p>
+        </div>
+
+        {/* Scheduling Rules */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Scheduling Rules</label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(SCHEDULING_RULE_LABELS) as (keyof SchedulingRules)[]).map((key) => (
+              <div key={key} className="space-y-1">
+                <label htmlFor={`rule-${key}`} className="text-xs text-muted-foreground">
+                  {SCHEDULING_RULE_LABELS[key]}
+                </label>
+                <Input
+                  id={`rule-${key}`}
+                  type="number"
+                  min={0}
+                  value={rules[key]}
+                  onChange={(e) => setRules((prev) => ({ ...prev, [key]: e.target.value }))}
+                  disabled={!isOwner || isSavingRules}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Assignments that break these limits show a warning and need an override. Overtime
+            thresholds split logged hours into regular and overtime on timesheets. Set a limit to 0
+            to turn that rule off.
+          </p>
+          {isOwner && (
+            <Button variant="outline" size="sm" onClick={handleSaveRules} disabled={isSavingRules}>
+              {isSavingRules ? "Saving..." : "Save Rules"}
+            </Button>
+          )}
+        </div>
+
+        {/* Confirmation Reminders */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Confirmation Reminders</label>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(REMINDER_SETTING_LABELS) as (keyof ReminderSettings)[]).map((key) => (
+              <div key={key} className="space-y-1">
+                <label htmlFor={`reminder-${key}`} className="text-xs text-muted-foreground">
+                  {REMINDER_SETTING_LABELS[key]}
+                </label>
+                <Input
+                  id={`reminder-${key}`}
+                  type="number"
+                  min={0}
+                  value={reminders[key]}
+                  onChange={(e) => setReminders((prev) => ({ ...prev, [key]: e.target.value }))}
+                  disabled={!isOwner || isSavingReminders}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Hours after a shift is offered without a response. The PA gets a reminder, then the
+            coordinator who assigned it is told, then the offer is withdrawn so the day can be
+            re-staffed. Set a timing to 0 to skip that step.
+          </p>
+          {isOwner && (
+            <Button variant="outline" size="sm" onClick={handleSaveReminders} disabled={isSavingReminders}>
+              {isSavingReminders ? "Saving..." : "Save Reminders"}
+            </Button>
+          )}
+        </div>
+
+        {/* Availability Deadline */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Availability Deadline</label>
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Due every</label>
+              <Select
+                value={deadline.weekday}
+                onValueChange={(value) => setDeadline((prev) => ({ ...prev, weekday: value }))}
+                disabled={!isOwner || isSavingDeadline}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No deadline</SelectItem>
+                  {DEADLINE_WEEKDAYS.map((label, day) => (
+                    <SelectItem key={label} value={String(day)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="deadline-time" className="text-xs text-muted-foreground">
+                At
+              </label>
+              <Input
+                id="deadline-time"
+                type="time"
+                value={deadline.time}
+                onChange={(e) => setDeadline((prev) => ({ ...prev, time: e.target.value }))}
+                disabled={!isOwner || isSavingDeadline || deadline.weekday === "none"}
+              />
+            </div>
+            <div className="space-y-1">
+              <label htmlFor="deadline-reminder" className="text-xs text-muted-foreground">
+                Remind before (hours)
+              </label>
+              <Input
+                id="deadline-reminder"
+                type="number"
+                min={0}
+                value={deadline.reminderHours}
+                onChange={(e) => setDeadline((prev) => ({ ...prev, reminderHours: e.target.value }))}
+                disabled={!isOwner || isSavingDeadline || deadline.weekday === "none"}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            PAs submit each week&apos;s availability by this day and time in the week before. A
+            submitted week is locked until you approve the PA&apos;s request to change it. PAs who
+            haven&apos;t submitted are emailed before the deadline; set the reminder to 0 to skip it.
+          </p>
+          {isOwner && (
+            <Button variant="outline" size="sm" onClick={handleSaveDeadline} disabled={isSavingDeadline}>
+              {isSavingDeadline ? "Saving..." : "Save Deadline"}
+            </Button>
+          )}
+        </div>
+
+        {/* Labor Budget */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Labor Budget</label>
+          <BudgetPanel
+            productionId={production.id}
+            weeklyBudget={production.weekly_labor_budget}
+            laborWeeks={laborWeeks}
+            paRates={paRates}
+            canEdit={isOwner}
+          />
+        </div>
+
         {/* Status Toggle */}
         <div className="flex items-center space-x-2 pt-2">
           <Checkbox
             id="production-status"
             checked={isActive}
             onCheckedChange={handleToggleActive}
-            disabled={isUpdating}
+            disabled={isUpdating || !isOwner}
           />
           <label
             htmlFor="production-status"
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+interface ProductionOption {
+    id: string;
+    name: string;
+}
+
+interface ProductionSwitcherProps {
+    productions: ProductionOption[];
+    activeProductionId: string | null;
+    allowJoin?: boolean; // Show the invite code dialog for joining another production
+}
+
+export function ProductionSwitcher({
+    productions,
+    activeProductionId,
+    allowJoin = false,
+}: ProductionSwitcherProps) {
+    const router = useRouter();
+    const [isSwitching, setIsSwitching] = useState(false);
+    const [isJoinDialogOpen, setIsJoinDialogOpen] = useState(false);
+    const [inviteCode, setInviteCode] = useState('');
+    const [isJoining, setIsJoining] = useState(false);
+
+    const handleSwitch = async (productionId: string) => {
+        if (productionId === activeProductionId) return;
+
+        setIsSwitching(true);
+        try {
+            const response = await fetch('/api/productions/active', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ productionId }),
+            });
+
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || 'Failed to switch production');
+            }
+
+            router.refresh();
+        } catch (error) {
+            console.error('Error switching production:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to switch production');
+        } finally {
+            setIsSwitching(false);
+        }
+    };
+
+    const handleJoin = async () => {
+        if (!inviteCode.trim()) {
+            toast.error('Please enter an invite code');
+            return;
+        }
+
+        setIsJoining(true);
+        try {
+            const response = await fetch('/api/productions/join', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ code: inviteCode.trim() }),
+            });
+            const result = await response.json();
+
+            if (!response.ok) {
+                throw new Error(result.error || 'Failed to join production');
+            }
+
+            toast.success(
+                result.alreadyMember
+                    ? `Switched to ${result.name}`
+                    : `Joined ${result.name}!`
+            );
+            setIsJoinDialogOpen(false);
+            setInviteCode('');
+            router.refresh();
+        } catch (error) {
+            console.error('Error joining production:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to join production');
+        } finally {
+            setIsJoining(false);
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            {productions.length > 0 && (
+                <Select
+                    value={activeProductionId ?? undefined}
+                    onValueChange={handleSwitch}
+                    disabled={isSwitching}
+                >
+                    <SelectTrigger className="w-[200px]" size="sm">
+                        <SelectValue placeholder="Select production" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {productions.map((production) => (
+                            <SelectItem key={production.id} value={production.id}>
+                                {production.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+
+            {allowJoin && (
+                <Button variant="outline" size="sm" onClick={() => setIsJoinDialogOpen(true)}>
+                    Join Production
+                </Button>
+            )}
+
+            <Dialog
+                open={isJoinDialogOpen}
+                onOpenChange={(open) => {
+                    setIsJoinDialogOpen(open);
+                    if (!open) setInviteCode('');
+                }}
+            >
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Join a Production</DialogTitle>
+                        <DialogDescription>
+                            Enter the invite code you were given to add this production to
+                            your account.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2 py-4">
+                        <Label htmlFor="join-invite-code">Invite Code</Label>
+                        <Input
+                            id="join-invite-code"
+                            value={inviteCode}
+                            onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                            placeholder="e.g., K7P-M3R"
+                            className="font-mono"
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setIsJoinDialogOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleJoin} disabled={isJoining}>
+                            {isJoining ? 'Joining...' : 'Join'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
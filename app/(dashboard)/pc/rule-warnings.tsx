@@ -0,0 +1,31 @@
+'use client';
+
+import type { RuleViolation } from '@/lib/shifts/rules';
+
+interface RuleWarningsProps {
+  violations: RuleViolation[];
+  paNames?: Record<string, string>; // Prefixes each warning with the PA and date in bulk dialogs
+}
+
+/**
+ * Lists the scheduling rules an assignment would break. Saving while warnings
+ * are shown overrides them.
+ */
+export function RuleWarnings({ violations, paNames }: RuleWarningsProps) {
+  if (violations.length === 0) return null;
+
+  return (
+    <div className="space-y-1 p-3 rounded-md border border-yellow-300 bg-yellow-50 text-sm text-yellow-900">
+      <div className="font-medium">Scheduling rule warnings</div>
+      <ul className="list-disc pl-5 space-y-0.5">
+        {violations.map((violation, index) => (
+          <li key={`${violation.paId}-${violation.date}-${violation.rule}-${index}`}>
+            {paNames && `${paNames[violation.paId] ?? 'PA'} on ${violation.date}: `}
+            {violation.message}
+          </li>
+        ))}
+      </ul>
+      <div className="text-xs">Saving anyway overrides these rules and is noted in the shift history.</div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import type { ShiftBreak } from '@/lib/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SHIFT_BREAK_LABELS, formatDuration, getShiftDuration, wrapsNextDay } from '@/lib/shifts/time';
+
+interface ShiftBreaksEditorProps {
+  idPrefix: string; // Keeps input IDs unique when several editors are mounted
+  callTime: string;
+  wrapTime: string;
+  breaks: ShiftBreak[];
+  onChange: (breaks: ShiftBreak[]) => void;
+}
+
+/**
+ * Edits meal breaks and split-shift gaps, and shows the worked hours they leave
+ */
+export function ShiftBreaksEditor({ idPrefix, callTime, wrapTime, breaks, onChange }: ShiftBreaksEditorProps) {
+  const duration = getShiftDuration({
+    call_time: callTime || null,
+    wrap_time: wrapTime || null,
+    breaks: breaks.filter((b) => b.start && b.end),
+  });
+
+  const updateBreak = (index: number, changes: Partial<ShiftBreak>) => {
+    onChange(breaks.map((b, i) => (i === index ? { ...b, ...changes } : b)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm">Breaks</Label>
+      {wrapTime && callTime && wrapsNextDay({ call_time: callTime, wrap_time: wrapTime }) && (
+        <p className="text-xs text-muted-foreground">Wraps the following day.</p>
+      )}
+      {breaks.map((shiftBreak, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Select
+            value={shiftBreak.type}
+            onValueChange={(value) => updateBreak(index, { type: value as ShiftBreak['type'] })}
+          >
+            <SelectTrigger size="sm" className="w-[120px]" aria-label="Break type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SHIFT_BREAK_LABELS) as ShiftBreak['type'][]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {SHIFT_BREAK_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            id={`${idPrefix}-break-${index}-start`}
+            type="time"
+            aria-label="Break start"
+            value={shiftBreak.start}
+            onChange={(e) => updateBreak(index, { start: e.target.value })}
+            className="h-9 text-sm"
+          />
+          <Input
+            id={`${idPrefix}-break-${index}-end`}
+            type="time"
+            aria-label="Break end"
+            value={shiftBreak.end}
+            onChange={(e) => updateBreak(index, { end: e.target.value })}
+            className="h-9 text-sm"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(breaks.filter((_, i) => i !== index))}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...breaks, { type: 'meal', start: '', end: '' }])}
+        >
+          Add Meal Break
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...breaks, { type: 'split', start: '', end: '' }])}
+        >
+          Add Split
+        </Button>
+        {duration && (
+          <span className="text-xs text-muted-foreground">
+            {formatDuration(duration.workedMinutes)} worked
+            {duration.breakMinutes > 0 && ` · ${formatDuration(duration.breakMinutes)} of breaks`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
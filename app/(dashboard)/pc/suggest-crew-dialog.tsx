@@ -0,0 +1,265 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { Database } from '@/lib/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ShiftApiError, createShiftsClient, getCrewSuggestionsClient } from '@/lib/shifts/api';
+import type { RuleViolation } from '@/lib/shifts/rules';
+import type { CrewSuggestion } from '@/lib/shifts/suggestions';
+import { RuleWarnings } from './rule-warnings';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+
+interface SuggestCrewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productionId: string;
+  date: string | null;
+  dateDisplay: string;
+  onAssigned: (shifts: Shift[]) => void;
+}
+
+export function SuggestCrewDialog({
+  open,
+  onOpenChange,
+  productionId,
+  date,
+  dateDisplay,
+  onAssigned,
+}: SuggestCrewDialogProps) {
+  const [crewSize, setCrewSize] = useState('4');
+  const [callTime, setCallTime] = useState('');
+  const [wrapTime, setWrapTime] = useState('');
+  const [location, setLocation] = useState('');
+  const [suggestions, setSuggestions] = useState<CrewSuggestion[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [ruleWarnings, setRuleWarnings] = useState<RuleViolation[]>([]);
+
+  const resetState = () => {
+    setCrewSize('4');
+    setCallTime('');
+    setWrapTime('');
+    setLocation('');
+    setSuggestions(null);
+    setSelectedIds(new Set());
+    setRuleWarnings([]);
+  };
+
+  const findCrew = async () => {
+    if (!date) return;
+
+    setIsLoading(true);
+    try {
+      const results = await getCrewSuggestionsClient({ productionId, date, callTime, wrapTime });
+      setSuggestions(results);
+      setRuleWarnings([]);
+
+      // Pre-select the top eligible PAs up to the requested crew size
+      const size = Math.max(1, Number(crewSize) || 1);
+      setSelectedIds(
+        new Set(
+          results
+            .filter((suggestion) => suggestion.excludedReasons.length === 0)
+            .slice(0, size)
+            .map((suggestion) => suggestion.paId)
+        )
+      );
+    } catch (error) {
+      console.error('Failed to load crew suggestions:', error);
+      toast.error(`Failed to suggest crew: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleSelected = (paId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(paId)) {
+        next.delete(paId);
+      } else {
+        next.add(paId);
+      }
+      return next;
+    });
+  };
+
+  const assignCrew = async () => {
+    if (!date || selectedIds.size === 0) return;
+
+    setIsLoading(true);
+    try {
+      const shifts = await createShiftsClient(
+        productionId,
+        [...selectedIds].map((paId) => ({
+          assignedPaId: paId,
+          date,
+          callTime,
+          wrapTime,
+          location,
+        })),
+        // Picking a PA the suggestions excluded is a deliberate override
+        {
+          overrideRules:
+            ruleWarnings.length > 0 ||
+            (suggestions || []).some(
+              (suggestion) => selectedIds.has(suggestion.paId) && suggestion.excludedReasons.length > 0
+            ),
+        }
+      );
+
+      toast.success(`Assigned ${shifts.length} ${shifts.length === 1 ? 'PA' : 'PAs'} for ${dateDisplay}`);
+      onAssigned(shifts);
+      resetState();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to assign suggested crew:', error);
+      if (error instanceof ShiftApiError && error.code === 'rule_violation') {
+        setRuleWarnings(error.violations);
+        toast.error('This crew breaks scheduling rules. Review the warnings and assign again to override.');
+      } else {
+        toast.error(`Failed to assign crew: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        onOpenChange(isOpen);
+        if (!isOpen) resetState();
+      }}
+    >
+      <DialogContent className="sm:max-w-[560px] max-h-[calc(100%-2rem)] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Suggest Crew</DialogTitle>
+          <DialogDescription>
+            {dateDisplay} — PAs are ranked by preference and how much they&apos;ve already worked.
+            PAs who would break the production&apos;s scheduling rules are listed last.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="crew-size" className="text-sm">PAs Needed</Label>
+              <Input
+                id="crew-size"
+                type="number"
+                min={1}
+                value={crewSize}
+                onChange={(e) => setCrewSize(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="crew-call-time" className="text-sm">Call Time</Label>
+              <Input
+                id="crew-call-time"
+                type="time"
+                value={callTime}
+                onChange={(e) => setCallTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="crew-wrap-time" className="text-sm">Wrap Time</Label>
+              <Input
+                id="crew-wrap-time"
+                type="time"
+                value={wrapTime}
+                onChange={(e) => setWrapTime(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="crew-location" className="text-sm">Location</Label>
+            <Input
+              id="crew-location"
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Enter location address"
+            />
+          </div>
+          <Button variant="outline" onClick={findCrew} disabled={isLoading} className="w-full">
+            {isLoading && !suggestions ? 'Finding crew...' : suggestions ? 'Refresh Suggestions' : 'Find Crew'}
+          </Button>
+
+          {suggestions && (
+            suggestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center">
+                No unbooked PAs are available on this date.
+              </p>
+            ) : (
+              <ul className="divide-y border rounded-md">
+                {suggestions.map((suggestion) => {
+                  const isExcluded = suggestion.excludedReasons.length > 0;
+                  return (
+                    <li key={suggestion.paId} className="p-3">
+                      <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(suggestion.paId)}
+                          onChange={() => toggleSelected(suggestion.paId)}
+                          className="mt-1 w-4 h-4 rounded border-gray-300"
+                        />
+                        <div className="flex-1 text-sm">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className={`font-medium ${isExcluded ? 'text-muted-foreground' : ''}`}>
+                              {suggestion.name}
+                            </span>
+                            <span
+                              className={`text-xs rounded px-2 py-0.5 ${
+                                suggestion.availability === 'preferred'
+                                  ? 'bg-green-500 text-white'
+                                  : 'bg-green-200 text-green-900'
+                              }`}
+                            >
+                              {suggestion.availability === 'preferred' ? 'Preferred' : 'Available'}
+                            </span>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {suggestion.daysThisWeek} days this week · {suggestion.daysInProduction} on
+                            this production · {suggestion.consecutiveDays} in a row
+                          </div>
+                          {suggestion.excludedReasons.map((reason) => (
+                            <div key={reason} className="text-xs text-red-600">{reason}</div>
+                          ))}
+                        </div>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            )
+          )}
+          <RuleWarnings
+            violations={ruleWarnings}
+            paNames={Object.fromEntries((suggestions || []).map((suggestion) => [suggestion.paId, suggestion.name]))}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={assignCrew} disabled={isLoading || selectedIds.size === 0}>
+            {isLoading && suggestions ? 'Assigning...' : `Assign ${selectedIds.size} ${selectedIds.size === 1 ? 'PA' : 'PAs'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
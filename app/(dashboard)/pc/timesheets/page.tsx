@@ -0,0 +1,130 @@
+import { createClient } from '@/lib/supabase/server';
+import { Suspense } from 'react';
+import { TimesheetsClient } from './timesheets-client';
+import { resolveActiveProduction, getProductionMemberIds, canSchedule } from '@/lib/productions/membership';
+import { getTimesheet } from '@/lib/shifts/timesheets';
+import { DEFAULT_TIMEZONE, getMondayOfWeekISO, getTodayInTimezone } from '@/lib/utils/dates';
+
+async function getTimesheetsData() {
+    const supabase = await createClient();
+
+    // Get current authenticated user
+    const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !authUser) {
+        throw new Error('Not authenticated. Please log in.');
+    }
+
+    const { data: userData } = await supabase
+        .from('users')
+        .select('production_id')
+        .eq('id', authUser.id)
+        .single();
+
+    const { production, permission } = await resolveActiveProduction(
+        supabase,
+        authUser.id,
+        userData?.production_id ?? null
+    );
+
+    if (!production) {
+        return { production: null, pas: [], timesheet: null, canEdit: false };
+    }
+
+    // Open on the current week in the production's timezone
+    const weekStart = getMondayOfWeekISO(getTodayInTimezone(production.timezone ?? DEFAULT_TIMEZONE));
+    const timesheet = await getTimesheet(supabase, authUser.id, { productionId: production.id, weekStart });
+
+    const paIds = await getProductionMemberIds(supabase, production.id, 'PA');
+    let pas: Array<{ id: string; name: string }> = [];
+    if (paIds.length > 0) {
+        const { data, error: pasError } = await supabase
+            .from('users')
+            .select('id, name')
+            .in('id', paIds)
+            .order('name');
+
+        if (pasError) {
+            throw new Error(`Failed to fetch PAs: ${pasError.message}`);
+        }
+
+        pas = data || [];
+    }
+
+    return {
+        production: { id: production.id, name: production.name },
+        pas,
+        timesheet,
+        canEdit: canSchedule(permission),
+    };
+}
+
+function LoadingState() {
+    return (
+        <div className="flex items-center justify-center min-h-screen">
+            <div className="text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                <p className="text-muted-foreground">Loading timesheets...</p>
+            </div>
+        </div>
+    );
+}
+
+function ErrorDisplay({ error }: { error: Error }) {
+    return (
+        <div className="flex items-center justify-center min-h-screen">
+            <div className="text-center p-8 bg-destructive/10 border border-destructive rounded-lg max-w-md">
+                <h2 className="text-xl font-semibold text-destructive mb-2">Error Loading Timesheets</h2>
+                <p className="text-muted-foreground">{error.message}</p>
+            </div>
+        </div>
+    );
+}
+
+export default async function TimesheetsPage() {
+    let data;
+    let error: Error | null = null;
+
+    try {
+        data = await getTimesheetsData();
+    } catch (e) {
+        error = e instanceof Error ? e : new Error('Unknown error occurred');
+    }
+
+    if (error) {
+        return <ErrorDisplay error={error} />;
+    }
+
+    if (!data) {
+        return <LoadingState />;
+    }
+
+    return (
+        <div className="container mx-auto p-6 space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold">Timesheets</h1>
+                    <p className="text-muted-foreground mt-1">
+                        Review logged hours, approve them and export payroll
+                    </p>
+                </div>
+            </div>
+
+            {data.production && data.timesheet ? (
+                <Suspense fallback={<LoadingState />}>
+                    <TimesheetsClient
+                        key={data.production.id}
+                        productionId={data.production.id}
+                        pas={data.pas}
+                        initialTimesheet={data.timesheet}
+                        canEdit={data.canEdit}
+                    />
+                </Suspense>
+            ) : (
+                <p className="text-muted-foreground">
+                    No production found. Create a production or join one with a coordinator invite code.
+                </p>
+            )}
+        </div>
+    );
+}
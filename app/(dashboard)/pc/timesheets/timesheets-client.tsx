@@ -0,0 +1,351 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import Link from 'next/link';
+import type { ShiftBreak } from '@/lib/supabase/types';
+import { approveShiftHoursClient, getTimesheetClient, getTimesheetCsvUrl } from '@/lib/shifts/api';
+import type { Timesheet, TimesheetEntry } from '@/lib/shifts/timesheets';
+import { formatDuration, formatShiftTimes, toBreakInputs } from '@/lib/shifts/time';
+import { addDaysToISO, formatISODate } from '@/lib/utils/dates';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { ShiftBreaksEditor } from '../shift-breaks-editor';
+
+interface TimesheetsClientProps {
+    productionId: string;
+    pas: Array<{ id: string; name: string }>;
+    initialTimesheet: Timesheet;
+    canEdit: boolean; // Read-only coordinators can view and export but not approve
+}
+
+const ALL_PAS = 'all';
+
+function formatHours(minutes: number): string {
+    return minutes > 0 ? formatDuration(minutes) : '—';
+}
+
+function getHoursStatusLabel(entry: TimesheetEntry): { label: string; className: string } {
+    switch (entry.hoursStatus) {
+        case 'approved':
+            return { label: 'Approved', className: 'text-green-600 bg-green-50 border-green-200' };
+        case 'submitted':
+            return { label: 'Submitted', className: 'text-yellow-600 bg-yellow-50 border-yellow-200' };
+        default:
+            return { label: 'Not logged', className: 'text-gray-600 bg-gray-50 border-gray-200' };
+    }
+}
+
+export function TimesheetsClient({ productionId, pas, initialTimesheet, canEdit }: TimesheetsClientProps) {
+    const [timesheet, setTimesheet] = useState<Timesheet>(initialTimesheet);
+    const [paFilter, setPaFilter] = useState(ALL_PAS);
+    const [isLoading, setIsLoading] = useState(false);
+    const [reviewEntry, setReviewEntry] = useState<TimesheetEntry | null>(null);
+    const [actualCallTime, setActualCallTime] = useState('');
+    const [actualWrapTime, setActualWrapTime] = useState('');
+    const [actualBreaks, setActualBreaks] = useState<ShiftBreak[]>([]);
+    const [isApproving, setIsApproving] = useState(false);
+
+    const selectedPaId = paFilter === ALL_PAS ? null : paFilter;
+
+    const loadTimesheet = useCallback(
+        async (weekStart: string, paId: string | null) => {
+            setIsLoading(true);
+            try {
+                setTimesheet(await getTimesheetClient(productionId, weekStart, paId));
+            } catch (error) {
+                console.error('Failed to load timesheet:', error);
+                toast.error(`Failed to load timesheet: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            } finally {
+                setIsLoading(false);
+            }
+        },
+        [productionId]
+    );
+
+    const changeWeek = (days: number) => {
+        loadTimesheet(addDaysToISO(timesheet.weekStart, days), selectedPaId);
+    };
+
+    const changePaFilter = (value: string) => {
+        setPaFilter(value);
+        loadTimesheet(timesheet.weekStart, value === ALL_PAS ? null : value);
+    };
+
+    const openReview = (entry: TimesheetEntry) => {
+        setReviewEntry(entry);
+        setActualCallTime((entry.actualCallTime ?? entry.callTime ?? '').slice(0, 5));
+        setActualWrapTime((entry.actualWrapTime ?? entry.wrapTime ?? '').slice(0, 5));
+        setActualBreaks(toBreakInputs(entry.actualBreaks));
+    };
+
+    const approveHours = async () => {
+        if (!reviewEntry) return;
+
+        if (!actualCallTime || !actualWrapTime) {
+            toast.error('Enter the actual call and wrap times');
+            return;
+        }
+
+        setIsApproving(true);
+        try {
+            await approveShiftHoursClient(reviewEntry.shiftId, {
+                actualCallTime,
+                actualWrapTime,
+                actualBreaks,
+            });
+            toast.success(`Approved hours for ${reviewEntry.paName}`);
+            setReviewEntry(null);
+            // Overtime depends on the rest of the week, so reload rather than patch one row
+            await loadTimesheet(timesheet.weekStart, selectedPaId);
+        } catch (error) {
+            console.error('Failed to approve hours:', error);
+            toast.error(`Failed to approve hours: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsApproving(false);
+        }
+    };
+
+    const weekLabel = `${formatISODate(timesheet.weekStart, { month: 'short', day: 'numeric' })} - ${formatISODate(
+        timesheet.weekEnd,
+        { month: 'short', day: 'numeric', year: 'numeric' }
+    )}`;
+    const selectedPaName = pas.find((pa) => pa.id === selectedPaId)?.name;
+
+    return (
+        <div className="space-y-6">
+            {/* Header with Back Button */}
+            <div className="flex items-center gap-4">
+                <Link href="/pc">
+                    <Button variant="outline" size="sm">
+                        <ChevronLeft className="h-4 w-4" />
+                        Back to Dashboard
+                    </Button>
+                </Link>
+            </div>
+
+            {/* Week and PA filters */}
+            <Card>
+                <CardContent className="pt-6">
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                        <div className="flex items-center gap-2">
+                            <Button variant="outline" size="sm" onClick={() => changeWeek(-7)} disabled={isLoading}>
+                                <ChevronLeft className="h-4 w-4" />
+                            </Button>
+                            <span className="font-medium min-w-[180px] text-center">Week of {weekLabel}</span>
+                            <Button variant="outline" size="sm" onClick={() => changeWeek(7)} disabled={isLoading}>
+                                <ChevronRight className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Select value={paFilter} onValueChange={changePaFilter} disabled={isLoading}>
+                                <SelectTrigger className="w-[200px]" aria-label="Filter by PA">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL_PAS}>All PAs</SelectItem>
+                                    {pas.map((pa) => (
+                                        <SelectItem key={pa.id} value={pa.id}>
+                                            {pa.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <a href={getTimesheetCsvUrl(productionId, timesheet.weekStart, selectedPaId)} download>
+                                <Button variant="outline">
+                                    {selectedPaName ? `Export ${selectedPaName} CSV` : 'Export Production CSV'}
+                                </Button>
+                            </a>
+                        </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-3">
+                        Overtime after {timesheet.rules.dailyOvertimeHours || '—'} hours a day and{' '}
+                        {timesheet.rules.weeklyOvertimeHours || '—'} hours a week. Exports include approved
+                        hours only.
+                    </p>
+                </CardContent>
+            </Card>
+
+            {/* Weekly totals */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Weekly Totals</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {timesheet.totals.length === 0 ? (
+                        <p className="text-muted-foreground">No worked shifts this week.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left">
+                                        <th className="p-2 font-medium">PA</th>
+                                        <th className="p-2 font-medium">Worked</th>
+                                        <th className="p-2 font-medium">Regular</th>
+                                        <th className="p-2 font-medium">Overtime</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {timesheet.totals.map((total) => (
+                                        <tr key={total.paId} className="border-b last:border-b-0">
+                                            <td className="p-2 font-medium">{total.paName}</td>
+                                            <td className="p-2">{formatHours(total.workedMinutes)}</td>
+                                            <td className="p-2">{formatHours(total.regularMinutes)}</td>
+                                            <td className="p-2">{formatHours(total.overtimeMinutes)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Shift by shift */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Shifts</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {timesheet.entries.length === 0 ? (
+                        <p className="text-muted-foreground">No worked shifts this week.</p>
+                    ) : (
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b text-left">
+                                        <th className="p-2 font-medium">PA</th>
+                                        <th className="p-2 font-medium">Date</th>
+                                        <th className="p-2 font-medium">Scheduled</th>
+                                        <th className="p-2 font-medium">Actual</th>
+                                        <th className="p-2 font-medium">Worked</th>
+                                        <th className="p-2 font-medium">Regular</th>
+                                        <th className="p-2 font-medium">Overtime</th>
+                                        <th className="p-2 font-medium">Status</th>
+                                        {canEdit && <th className="p-2" />}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {timesheet.entries.map((entry) => {
+                                        const status = getHoursStatusLabel(entry);
+                                        return (
+                                            <tr key={entry.shiftId} className="border-b last:border-b-0">
+                                                <td className="p-2 font-medium">{entry.paName}</td>
+                                                <td className="p-2">
+                                                    {formatISODate(entry.date, { weekday: 'short', month: 'numeric', day: 'numeric' })}
+                                                </td>
+                                                <td className="p-2 text-muted-foreground">
+                                                    {formatShiftTimes({ call_time: entry.callTime, wrap_time: entry.wrapTime })}
+                                                </td>
+                                                <td className="p-2">
+                                                    {entry.hoursStatus
+                                                        ? formatShiftTimes({
+                                                            call_time: entry.actualCallTime,
+                                                            wrap_time: entry.actualWrapTime,
+                                                        })
+                                                        : '—'}
+                                                </td>
+                                                <td className="p-2">{formatHours(entry.workedMinutes)}</td>
+                                                <td className="p-2">{formatHours(entry.regularMinutes)}</td>
+                                                <td className="p-2">{formatHours(entry.overtimeMinutes)}</td>
+                                                <td className="p-2">
+                                                    <span className={`text-xs px-2 py-0.5 rounded-full border ${status.className}`}>
+                                                        {status.label}
+                                                    </span>
+                                                </td>
+                                                {canEdit && (
+                                                    <td className="p-2 text-right">
+                                                        <Button size="sm" variant="outline" onClick={() => openReview(entry)}>
+                                                            {entry.hoursStatus === 'submitted' ? 'Review' : 'Edit'}
+                                                        </Button>
+                                                    </td>
+                                                )}
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog
+                open={reviewEntry !== null}
+                onOpenChange={(open) => {
+                    if (!open) setReviewEntry(null);
+                }}
+            >
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Approve Hours</DialogTitle>
+                        <DialogDescription>
+                            {reviewEntry &&
+                                `${reviewEntry.paName}, ${formatISODate(reviewEntry.date, {
+                                    weekday: 'long',
+                                    month: 'long',
+                                    day: 'numeric',
+                                })}. `}
+                            Correct the times if needed before approving.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4 py-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="review-call-time">Actual Call</Label>
+                                <Input
+                                    id="review-call-time"
+                                    type="time"
+                                    value={actualCallTime}
+                                    onChange={(e) => setActualCallTime(e.target.value)}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="review-wrap-time">Actual Wrap</Label>
+                                <Input
+                                    id="review-wrap-time"
+                                    type="time"
+                                    value={actualWrapTime}
+                                    onChange={(e) => setActualWrapTime(e.target.value)}
+                                />
+                            </div>
+                        </div>
+                        <ShiftBreaksEditor
+                            idPrefix="review"
+                            callTime={actualCallTime}
+                            wrapTime={actualWrapTime}
+                            breaks={actualBreaks}
+                            onChange={setActualBreaks}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setReviewEntry(null)}>
+                            Cancel
+                        </Button>
+                        <Button onClick={approveHours} disabled={isApproving}>
+                            {isApproving ? 'Approving...' : 'Approve Hours'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
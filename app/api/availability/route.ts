@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { clearAvailabilityDays, saveAvailabilityDays } from '@/lib/shifts/availability';
+import type { AvailabilityDayInput } from '@/lib/shifts/availability';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * PUT /api/availability
+ * Sets the current user's availability on a set of days. Days in submitted weeks are rejected.
+ */
+export async function PUT(request: NextRequest) {
+  const parsed = await readJsonBody<{ days: AvailabilityDayInput[] }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const availability = await saveAvailabilityDays(supabase, userId, body.days);
+
+    return NextResponse.json({ availability }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/availability
+ * Clears the current user's availability on a set of days. Days in submitted weeks are rejected.
+ */
+export async function DELETE(request: NextRequest) {
+  const parsed = await readJsonBody<{ dates: string[] }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    await clearAvailabilityDays(supabase, userId, body.dates);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
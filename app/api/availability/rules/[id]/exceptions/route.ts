@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { addAvailabilityRuleExceptions } from '@/lib/shifts/availability-rules';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/availability/rules/[id]/exceptions
+ * Skips dates of a recurring rule, clearing the days it filled in
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const parsed = await readJsonBody<{ dates: string[] }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const rule = await addAvailabilityRuleExceptions(supabase, userId, id, body.dates);
+
+    return NextResponse.json({ rule }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
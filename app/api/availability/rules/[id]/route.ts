@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { deleteAvailabilityRule, updateAvailabilityRule } from '@/lib/shifts/availability-rules';
+import type { AvailabilityRuleInput } from '@/lib/shifts/availability-rules';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * PUT /api/availability/rules/[id]
+ * Replaces a recurring rule and re-applies the user's rules to upcoming days
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const parsed = await readJsonBody<AvailabilityRuleInput>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const rule = await updateAvailabilityRule(supabase, userId, id, {
+      status: body.status,
+      weekdays: body.weekdays,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      exceptions: body.exceptions,
+    });
+
+    return NextResponse.json({ rule }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/availability/rules/[id]
+ * Removes a recurring rule and the upcoming days it filled in
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    await deleteAvailabilityRule(supabase, userId, id);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
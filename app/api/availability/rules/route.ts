@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createAvailabilityRule, listAvailabilityRules } from '@/lib/shifts/availability-rules';
+import type { AvailabilityRuleInput } from '@/lib/shifts/availability-rules';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * GET /api/availability/rules
+ * Lists the current user's recurring availability rules
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+    const rules = await listAvailabilityRules(supabase, userId);
+
+    return NextResponse.json({ rules }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/availability/rules
+ * Adds a recurring rule and fills in the availability days it covers
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await readJsonBody<AvailabilityRuleInput>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const rule = await createAvailabilityRule(supabase, userId, {
+      status: body.status,
+      weekdays: body.weekdays,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      exceptions: body.exceptions,
+    });
+
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { requestAvailabilityUnlock } from '@/lib/shifts/availability-submissions';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/availability/submissions/[id]/unlock-request
+ * Asks the coordinators to reopen a submitted week so the PA can change it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const parsed = await readJsonBody<{ reason?: string | null }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const submission = await requestAvailabilityUnlock(supabase, userId, id, body.reason);
+
+    return NextResponse.json({ submission }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { resolveAvailabilityUnlock } from '@/lib/shifts/availability-submissions';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/availability/submissions/[id]/unlock
+ * Approves ({ approve: true }) or declines a PA's request to reopen a week.
+ * Returns the submission, or null once the week is unlocked.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const parsed = await readJsonBody<{ approve?: boolean }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const submission = await resolveAvailabilityUnlock(supabase, userId, id, body.approve === true);
+
+    return NextResponse.json({ submission }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listAvailabilitySubmissions, submitAvailabilityWeek } from '@/lib/shifts/availability-submissions';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * GET /api/availability/submissions?productionId=...&weekStart=YYYY-MM-DD
+ * Lists who has submitted availability for a week, for the production's coordinators
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const submissions = await listAvailabilitySubmissions(
+      supabase,
+      userId,
+      searchParams.get('productionId') ?? '',
+      searchParams.get('weekStart') ?? ''
+    );
+
+    return NextResponse.json({ submissions }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/availability/submissions
+ * Submits the current PA's availability for a week, locking it
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await readJsonBody<{ productionId: string; weekStart: string }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const submission = await submitAvailabilityWeek(supabase, userId, body.productionId, body.weekStart);
+
+    return NextResponse.json({ submission }, { status: 201 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getCalendarFeed } from '@/lib/shifts/calendar-feed';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+
+/**
+ * GET /api/calendar/[token].ics
+ * The PA's shifts as an iCalendar feed for Google/Apple Calendar. Calendar apps
+ * fetch it without a session, so the secret token is the only credential.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const feed = await getCalendarFeed(createAdminClient(), token.replace(/\.ics$/, ''));
+
+    return new NextResponse(feed, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="shifts.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { regenerateCalendarToken } from '@/lib/shifts/calendar-feed';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+
+/**
+ * POST /api/calendar/regenerate
+ * Issues the current user a new calendar feed token; the old feed URL stops working
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+    const token = await regenerateCalendarToken(supabase, userId);
+
+    return NextResponse.json({ token }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
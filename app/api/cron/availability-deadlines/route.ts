@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { runAvailabilityDeadlineReminders } from '@/lib/shifts/availability-submissions';
+import { ShiftError, shiftErrorResponse } from '@/lib/shifts/errors';
+import { isAuthorizedCronRequest } from '@/lib/utils/cron';
+
+/**
+ * GET /api/cron/availability-deadlines?dryRun=1
+ * Emails PAs who haven't submitted next week's availability as the deadline
+ * approaches. Run it hourly with `Authorization: Bearer $CRON_SECRET`:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" "http://localhost:3000/api/cron/availability-deadlines?dryRun=1"
+ *
+ * dryRun lists who would be reminded without sending anything.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      throw new ShiftError('unauthenticated', 'Invalid cron secret');
+    }
+
+    const dryRun = ['1', 'true'].includes(request.nextUrl.searchParams.get('dryRun') ?? '');
+    const summary = await runAvailabilityDeadlineReminders(createAdminClient(), { dryRun });
+
+    return NextResponse.json({ ...summary, dryRun }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
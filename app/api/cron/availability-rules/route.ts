@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { refreshAllAvailabilityRules } from '@/lib/shifts/availability-rules';
+import { ShiftError, shiftErrorResponse } from '@/lib/shifts/errors';
+import { isAuthorizedCronRequest } from '@/lib/utils/cron';
+
+/**
+ * GET /api/cron/availability-rules
+ * Re-applies every PA's recurring availability rules so open-ended ones keep
+ * reaching a year ahead. Run it daily with `Authorization: Bearer $CRON_SECRET`:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/availability-rules
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      throw new ShiftError('unauthenticated', 'Invalid cron secret');
+    }
+
+    const summary = await refreshAllAvailabilityRules(createAdminClient());
+
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { ShiftError, shiftErrorResponse } from '@/lib/shifts/errors';
+import { runShiftReminders } from '@/lib/shifts/reminders';
+import { isAuthorizedCronRequest } from '@/lib/utils/cron';
+
+/**
+ * GET /api/cron/shift-reminders?dryRun=1
+ * Sends due reminders, escalations and auto-releases for pending shifts. Run it
+ * hourly from a cron with `Authorization: Bearer $CRON_SECRET` (Vercel Cron sends
+ * this header itself). Locally:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" "http://localhost:3000/api/cron/shift-reminders?dryRun=1"
+ *
+ * dryRun lists what is due without emailing anyone or changing shifts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      throw new ShiftError('unauthenticated', 'Invalid cron secret');
+    }
+
+    const dryRun = ['1', 'true'].includes(request.nextUrl.searchParams.get('dryRun') ?? '');
+    const summary = await runShiftReminders(createAdminClient(), { dryRun });
+
+    return NextResponse.json({ ...summary, dryRun }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { claimOpenShift } from '@/lib/shifts/open-shifts';
+
+/**
+ * POST /api/open-shifts/[id]/claim
+ * Claims one slot for the current PA. Slots go to the first PAs to claim them.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const result = await claimOpenShift(supabase, userId, id);
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { closeOpenShift } from '@/lib/shifts/open-shifts';
+
+/**
+ * DELETE /api/open-shifts/[id]
+ * Closes an open shift to further claims
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const openShift = await closeOpenShift(supabase, userId, id);
+
+    return NextResponse.json({ openShift }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { createOpenShift } from '@/lib/shifts/open-shifts';
+import type { CreateOpenShiftInput } from '@/lib/shifts/open-shifts';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/open-shifts
+ * Posts open slots for a date and offers them to the production's available PAs
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await readJsonBody<CreateOpenShiftInput>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const openShift = await createOpenShift(supabase, userId, {
+      productionId: body.productionId,
+      date: body.date,
+      slots: body.slots,
+      callTime: body.callTime,
+      wrapTime: body.wrapTime,
+      location: body.location,
+      unitBase: body.unitBase,
+      parkingNotes: body.parkingNotes,
+      mapUrl: body.mapUrl,
+      breaks: body.breaks,
+    });
+
+    return NextResponse.json({ openShift }, { status: 201 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/productions/active
+ * Switches the current user's active production. The user must be a member.
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await readJsonBody<{ productionId: unknown }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { productionId } = parsed.body;
+
+  if (!productionId || typeof productionId !== 'string') {
+    return NextResponse.json({ error: 'productionId is required' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !authUser) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data: membership } = await supabase
+    .from('production_members')
+    .select('id')
+    .eq('production_id', productionId)
+    .eq('user_id', authUser.id)
+    .maybeSingle();
+
+  if (!membership) {
+    return NextResponse.json(
+      { error: 'You are not a member of this production' },
+      { status: 403 }
+    );
+  }
+
+  const { error: updateError } = await supabase
+    .from('users')
+    .update({ production_id: productionId })
+    .eq('id', authUser.id);
+
+  if (updateError) {
+    return NextResponse.json(
+      { error: 'Failed to switch production', details: updateError.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ productionId }, { status: 200 });
+}
@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { generateInviteCode } from '@/lib/utils/inviteCode';
+import { readJsonBody } from '@/lib/utils/request';
+import { canManageProduction, getMembership } from '@/lib/productions/membership';
+import type { CoordinatorPermission } from '@/lib/productions/membership';
+
+const PERMISSIONS: CoordinatorPermission[] = ['owner', 'scheduler', 'read_only'];
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Verifies the current user is an owner of the production.
+ * Returns the user ID, or an error response to send back.
+ */
+async function requireOwner(
+  supabase: ServerClient,
+  productionId: string
+): Promise<{ userId: string } | { response: NextResponse }> {
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !authUser) {
+    return { response: NextResponse.json({ error: 'Not authenticated' }, { status: 401 }) };
+  }
+
+  const membership = await getMembership(supabase, productionId, authUser.id);
+  if (!membership || !canManageProduction(membership.permission)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Only production owners can manage the coordinator team' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { userId: authUser.id };
+}
+
+/**
+ * Counts the owners of a production, so the last owner can't be removed or demoted
+ */
+async function countOwners(supabase: ServerClient, productionId: string): Promise<number> {
+  const { count } = await supabase
+    .from('production_members')
+    .select('*', { count: 'exact', head: true })
+    .eq('production_id', productionId)
+    .eq('permission', 'owner');
+
+  return count ?? 0;
+}
+
+/**
+ * Loads a coordinator membership by ID
+ */
+async function getCoordinatorMember(supabase: ServerClient, memberId: string) {
+  const { data } = await supabase
+    .from('production_members')
+    .select('*')
+    .eq('id', memberId)
+    .eq('role', 'PC')
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * POST /api/productions/coordinators
+ * Creates a single-use coordinator invite code with a permission level
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await readJsonBody<{ productionId: string; permission: CoordinatorPermission }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { productionId, permission } = parsed.body;
+
+  if (!productionId || !PERMISSIONS.includes(permission)) {
+    return NextResponse.json(
+      { error: 'productionId and a valid permission are required' },
+      { status: 400 }
+    );
+  }
+
+  const supabase = await createClient();
+  const auth = await requireOwner(supabase, productionId);
+  if ('response' in auth) return auth.response;
+
+  const code = generateInviteCode();
+  const { error } = await supabase.from('coordinator_invites').insert({
+    production_id: productionId,
+    code,
+    permission,
+    created_by: auth.userId,
+  });
+
+  if (error) {
+    return NextResponse.json(
+      { error: 'Failed to create coordinator invite', details: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ code, permission }, { status: 201 });
+}
+
+/**
+ * PATCH /api/productions/coordinators
+ * Changes a coordinator's permission level
+ */
+export async function PATCH(request: NextRequest) {
+  const parsed = await readJsonBody<{ memberId: string; permission: CoordinatorPermission }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { memberId, permission } = parsed.body;
+
+  if (!memberId || !PERMISSIONS.includes(permission)) {
+    return NextResponse.json(
+      { error: 'memberId and a valid permission are required' },
+      { status: 400 }
+    );
+  }
+
+  const supabase = await createClient();
+  const member = await getCoordinatorMember(supabase, memberId);
+  if (!member) {
+    return NextResponse.json({ error: 'Coordinator not found' }, { status: 404 });
+  }
+
+  const auth = await requireOwner(supabase, member.production_id);
+  if ('response' in auth) return auth.response;
+
+  if (
+    member.permission === 'owner' &&
+    permission !== 'owner' &&
+    (await countOwners(supabase, member.production_id)) <= 1
+  ) {
+    return NextResponse.json(
+      { error: 'A production must keep at least one owner' },
+      { status: 409 }
+    );
+  }
+
+  const { data, error } = await supabase
+    .from('production_members')
+    .update({ permission })
+    .eq('id', memberId)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json(
+      { error: 'Failed to update permission', details: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ member: data }, { status: 200 });
+}
+
+/**
+ * DELETE /api/productions/coordinators
+ * Removes a coordinator from the production team
+ */
+export async function DELETE(request: NextRequest) {
+  const parsed = await readJsonBody<{ memberId: string }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { memberId } = parsed.body;
+
+  if (!memberId) {
+    return NextResponse.json({ error: 'memberId is required' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const member = await getCoordinatorMember(supabase, memberId);
+  if (!member) {
+    return NextResponse.json({ error: 'Coordinator not found' }, { status: 404 });
+  }
+
+  const auth = await requireOwner(supabase, member.production_id);
+  if ('response' in auth) return auth.response;
+
+  if (
+    member.permission === 'owner' &&
+    (await countOwners(supabase, member.production_id)) <= 1
+  ) {
+    return NextResponse.json(
+      { error: 'A production must keep at least one owner' },
+      { status: 409 }
+    );
+  }
+
+  const { error } = await supabase.from('production_members').delete().eq('id', memberId);
+
+  if (error) {
+    return NextResponse.json(
+      { error: 'Failed to remove coordinator', details: error.message },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json({ success: true }, { status: 200 });
+}
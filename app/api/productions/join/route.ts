@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { readJsonBody } from '@/lib/utils/request';
+import type { Database } from '@/lib/supabase/types';
+
+/**
+ * POST /api/productions/join
+ * Adds the current user to a production and makes it their active production.
+ * PAs use the production invite code; PCs use a coordinator invite code, which
+ * carries the permission level they join with.
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await readJsonBody<{ code: unknown }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { code } = parsed.body;
+
+  if (!code || typeof code !== 'string') {
+    return NextResponse.json({ error: 'Invite code is required' }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: { user: authUser }, error: authError } = await supabase.auth.getUser();
+
+  if (authError || !authUser) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', authUser.id)
+    .single();
+
+  if (userError || !userData) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  const normalizedCode = code.trim().toUpperCase();
+  let productionId: string;
+  let permission: Database['public']['Tables']['production_members']['Row']['permission'] = null;
+  let inviteId: string | null = null;
+
+  if (userData.role === 'PA') {
+    const { data: production, error: productionError } = await supabase
+      .from('productions')
+      .select('id')
+      .eq('invite_code', normalizedCode)
+      .eq('is_active', true)
+      .single();
+
+    if (productionError || !production) {
+      return NextResponse.json({ error: 'Invalid or expired invite code' }, { status: 404 });
+    }
+
+    productionId = production.id;
+  } else {
+    // Coordinator invites are single-use
+    const { data: invite, error: inviteError } = await supabase
+      .from('coordinator_invites')
+      .select('*')
+      .eq('code', normalizedCode)
+      .is('used_by', null)
+      .maybeSingle();
+
+    if (inviteError || !invite) {
+      return NextResponse.json(
+        { error: 'Invalid or already used coordinator invite code' },
+        { status: 404 }
+      );
+    }
+
+    productionId = invite.production_id;
+    permission = invite.permission;
+    inviteId = invite.id;
+  }
+
+  const { data: production, error: productionError } = await supabase
+    .from('productions')
+    .select('id, name')
+    .eq('id', productionId)
+    .single();
+
+  if (productionError || !production) {
+    return NextResponse.json({ error: 'Production not found' }, { status: 404 });
+  }
+
+  const { data: existing } = await supabase
+    .from('production_members')
+    .select('id')
+    .eq('production_id', production.id)
+    .eq('user_id', authUser.id)
+    .maybeSingle();
+
+  // An invite is only spent on joining, so a member can pass it on to someone else
+  if (existing && inviteId) {
+    return NextResponse.json(
+      { error: 'You are already on this production\'s team' },
+      { status: 409 }
+    );
+  }
+
+  if (inviteId) {
+    // Claimed only if still unused, so two requests can't both redeem the code
+    const { data: claimed, error: claimError } = await supabase
+      .from('coordinator_invites')
+      .update({ used_by: authUser.id, used_at: new Date().toISOString() })
+      .eq('id', inviteId)
+      .is('used_by', null)
+      .select('id');
+
+    if (claimError) {
+      return NextResponse.json(
+        { error: 'Failed to redeem coordinator invite', details: claimError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!claimed || claimed.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid or already used coordinator invite code' },
+        { status: 404 }
+      );
+    }
+  }
+
+  if (!existing) {
+    const { error: insertError } = await supabase
+      .from('production_members')
+      .insert({
+        production_id: production.id,
+        user_id: authUser.id,
+        role: userData.role,
+        permission,
+      });
+
+    if (insertError) {
+      if (inviteId) {
+        // Give the code back so it can be tried again
+        await supabase
+          .from('coordinator_invites')
+          .update({ used_by: null, used_at: null })
+          .eq('id', inviteId);
+      }
+
+      return NextResponse.json(
+        { error: 'Failed to join production', details: insertError.message },
+        { status: 500 }
+      );
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('users')
+    .update({ production_id: production.id })
+    .eq('id', authUser.id);
+
+  if (updateError) {
+    console.warn('Joined production but failed to set it active:', updateError.message);
+  }
+
+  return NextResponse.json(
+    { productionId: production.id, name: production.name, alreadyMember: !!existing },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { getShiftHistory, requireUserId } from '@/lib/shifts/service';
+
+/**
+ * GET /api/shifts/[id]/history
+ * Returns the shift's status changes, oldest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const history = await getShiftHistory(supabase, userId, id);
+
+    return NextResponse.json({ history }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { approveShiftHours } from '@/lib/shifts/timesheets';
+import type { ActualHoursInput } from '@/lib/shifts/timesheets';
+import { readJsonBody } from '@/lib/utils/request';
+
+const HOURS_FIELDS = ['actualCallTime', 'actualWrapTime', 'actualBreaks'] as const;
+
+/**
+ * POST /api/shifts/[id]/hours/approve
+ * Approves a shift's logged hours. Any of actualCallTime, actualWrapTime and
+ * actualBreaks in the body replace what the PA logged; send `{}` to approve as logged.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const parsed = await readJsonBody<ActualHoursInput>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    // Only pass through the corrections that were sent
+    const input: ActualHoursInput = {};
+    for (const field of HOURS_FIELDS) {
+      if (field in body) (input as Record<string, unknown>)[field] = body[field];
+    }
+
+    const shift = await approveShiftHours(supabase, userId, id, input);
+
+    return NextResponse.json({ shift }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { submitShiftHours } from '@/lib/shifts/timesheets';
+import type { ActualHoursInput } from '@/lib/shifts/timesheets';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/shifts/[id]/hours
+ * Logs the assigned PA's actual hours: { actualCallTime, actualWrapTime, actualBreaks }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const parsed = await readJsonBody<ActualHoursInput>(request);
+  if ('response' in parsed) return parsed.response;
+  const { actualCallTime, actualWrapTime, actualBreaks } = parsed.body;
+
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const shift = await submitShiftHours(supabase, userId, id, { actualCallTime, actualWrapTime, actualBreaks });
+
+    return NextResponse.json({ shift }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
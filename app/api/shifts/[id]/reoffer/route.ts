@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { reofferDeclinedShift } from '@/lib/shifts/open-shifts';
+
+/**
+ * POST /api/shifts/[id]/reoffer
+ * Posts a declined shift's day as a one-slot open shift for the other available PAs
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const result = await reofferDeclinedShift(supabase, userId, id);
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { deleteShift, requireUserId, updateShift } from '@/lib/shifts/service';
+import type { RuleOverrideOptions, UpdateShiftInput } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+const UPDATABLE_FIELDS = [
+  'callTime',
+  'wrapTime',
+  'location',
+  'unitBase',
+  'parkingNotes',
+  'mapUrl',
+  'breaks',
+] as const;
+
+/**
+ * PATCH /api/shifts/[id]
+ * Updates a shift's times and location details. Only fields present in the body change.
+ * New times are checked against the production's scheduling rules unless overrideRules is set.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const parsed = await readJsonBody<UpdateShiftInput & RuleOverrideOptions>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const input: UpdateShiftInput = {};
+    for (const field of UPDATABLE_FIELDS) {
+      if (field in body) (input as Record<string, unknown>)[field] = body[field];
+    }
+
+    const shift = await updateShift(supabase, userId, id, input, {
+      overrideRules: body.overrideRules === true,
+    });
+
+    return NextResponse.json({ shift }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
+
+/**
+ * DELETE /api/shifts/[id]
+ * Removes a shift assignment
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    await deleteShift(supabase, userId, id);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { acceptShiftSwap, requireUserId } from '@/lib/shifts/service';
+
+/**
+ * POST /api/shifts/[id]/swap
+ * Accepts the replacement PA proposed when the shift was declined
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const shift = await acceptShiftSwap(supabase, userId, id);
+
+    return NextResponse.json({ shift }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
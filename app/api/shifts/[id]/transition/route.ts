@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId, transitionShift } from '@/lib/shifts/service';
+import type { TransitionOptions } from '@/lib/shifts/service';
+import type { ShiftAction } from '@/lib/shifts/transitions';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/shifts/[id]/transition
+ * Applies a confirmation state change, e.g. { action: 'confirm' } from the PA or
+ * { action: 'cancel', reason } from a coordinator. Declines may include a proposedPaId.
+ * Re-offers are checked against the scheduling rules unless overrideRules is set.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const parsed = await readJsonBody<TransitionOptions & { action: ShiftAction }>(request);
+  if ('response' in parsed) return parsed.response;
+  const { action, reason, proposedPaId, overrideRules } = parsed.body;
+
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const shift = await transitionShift(supabase, userId, id, action, {
+      reason,
+      proposedPaId,
+      overrideRules: overrideRules === true,
+    });
+
+    return NextResponse.json({ shift }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { createShifts, requireUserId } from '@/lib/shifts/service';
+import type { CreateShiftInput, RuleOverrideOptions } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/shifts/batch
+ * Assigns several shifts in one production at once. Nothing is saved if any assignment is invalid.
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await readJsonBody<
+    RuleOverrideOptions & { productionId: string; shifts: Omit<CreateShiftInput, 'productionId'>[] }
+  >(request);
+  if ('response' in parsed) return parsed.response;
+  const { productionId, shifts, overrideRules } = parsed.body;
+
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const created = await createShifts(supabase, userId, productionId, shifts, {
+      overrideRules: overrideRules === true,
+    });
+
+    return NextResponse.json({ shifts: created }, { status: 201 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { callSheetToPdf, getCallSheet } from '@/lib/shifts/call-sheet';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+
+/**
+ * GET /api/shifts/call-sheet?productionId=...&date=YYYY-MM-DD&format=pdf
+ * Returns the day's crew call list as JSON, or with format=pdf as a PDF download
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const callSheet = await getCallSheet(supabase, userId, {
+      productionId: searchParams.get('productionId') ?? '',
+      date: searchParams.get('date') ?? '',
+    });
+
+    if (searchParams.get('format') !== 'pdf') {
+      return NextResponse.json({ callSheet }, { status: 200 });
+    }
+
+    const filename = [callSheet.productionName, 'call-sheet', callSheet.date]
+      .join('-')
+      .replace(/[^A-Za-z0-9._-]+/g, '-');
+
+    return new NextResponse(Buffer.from(await callSheetToPdf(callSheet)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+      },
+    });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { getGridExport, gridExportToCsv, gridExportToXlsx } from '@/lib/shifts/grid-export';
+import { requireUserId } from '@/lib/shifts/service';
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * GET /api/shifts/export?productionId=...&start=YYYY-MM-DD&end=YYYY-MM-DD&format=csv|xlsx
+ * Downloads the availability grid (availability plus assigned shifts per PA and
+ * day) for the range. Defaults to CSV.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+    const asXlsx = searchParams.get('format') === 'xlsx';
+
+    const grid = await getGridExport(supabase, userId, {
+      productionId: searchParams.get('productionId') ?? '',
+      startDate: searchParams.get('start') ?? '',
+      endDate: searchParams.get('end') ?? '',
+    });
+
+    const filename = [grid.productionName, 'availability', grid.dates[0], 'to', grid.dates[grid.dates.length - 1]]
+      .join('-')
+      .replace(/[^A-Za-z0-9._-]+/g, '-');
+
+    if (asXlsx) {
+      const body = await gridExportToXlsx(grid);
+      return new NextResponse(new Uint8Array(body), {
+        status: 200,
+        headers: {
+          'Content-Type': XLSX_CONTENT_TYPE,
+          'Content-Disposition': `attachment; filename="${filename}.xlsx"`,
+        },
+      });
+    }
+
+    return new NextResponse(gridExportToCsv(grid), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+      },
+    });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { createShift, requireUserId } from '@/lib/shifts/service';
+import type { CreateShiftInput, RuleOverrideOptions } from '@/lib/shifts/service';
+import { readJsonBody } from '@/lib/utils/request';
+
+/**
+ * POST /api/shifts
+ * Assigns a shift to a PA in the coordinator's production and notifies the PA
+ */
+export async function POST(request: NextRequest) {
+  const parsed = await readJsonBody<CreateShiftInput & RuleOverrideOptions>(request);
+  if ('response' in parsed) return parsed.response;
+  const { body } = parsed;
+
+  try {
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const shift = await createShift(supabase, userId, {
+      productionId: body.productionId,
+      assignedPaId: body.assignedPaId,
+      date: body.date,
+      callTime: body.callTime,
+      wrapTime: body.wrapTime,
+      location: body.location,
+      unitBase: body.unitBase,
+      parkingNotes: body.parkingNotes,
+      mapUrl: body.mapUrl,
+      breaks: body.breaks,
+    }, { overrideRules: body.overrideRules === true });
+
+    return NextResponse.json({ shift }, { status: 201 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
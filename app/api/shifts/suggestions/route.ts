@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { suggestCrew } from '@/lib/shifts/suggestions';
+
+/**
+ * GET /api/shifts/suggestions?productionId=...&date=YYYY-MM-DD&callTime=HH:MM&wrapTime=HH:MM
+ * Ranks the production's available PAs for a date
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+
+    const suggestions = await suggestCrew(supabase, userId, {
+      productionId: searchParams.get('productionId') ?? '',
+      date: searchParams.get('date') ?? '',
+      callTime: searchParams.get('callTime'),
+      wrapTime: searchParams.get('wrapTime'),
+    });
+
+    return NextResponse.json({ suggestions }, { status: 200 });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { shiftErrorResponse } from '@/lib/shifts/errors';
+import { requireUserId } from '@/lib/shifts/service';
+import { getTimesheet, timesheetToCsv } from '@/lib/shifts/timesheets';
+
+/**
+ * GET /api/shifts/timesheet?productionId=...&weekStart=YYYY-MM-DD&paId=...&format=csv
+ * Returns the week's timesheet as JSON, or with format=csv a download of the
+ * approved hours for payroll. paId limits either to one PA.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const supabase = await createClient();
+    const userId = await requireUserId(supabase);
+    const asCsv = searchParams.get('format') === 'csv';
+
+    const timesheet = await getTimesheet(supabase, userId, {
+      productionId: searchParams.get('productionId') ?? '',
+      weekStart: searchParams.get('weekStart') ?? '',
+      paId: searchParams.get('paId'),
+      approvedOnly: asCsv,
+    });
+
+    if (!asCsv) {
+      return NextResponse.json({ timesheet }, { status: 200 });
+    }
+
+    const paName = searchParams.get('paId') ? timesheet.entries[0]?.paName : null;
+    const filename = [timesheet.productionName, paName, `week-of-${timesheet.weekStart}`]
+      .filter(Boolean)
+      .join('-')
+      .replace(/[^A-Za-z0-9._-]+/g, '-');
+
+    return new NextResponse(timesheetToCsv(timesheet), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+      },
+    });
+  } catch (error) {
+    return shiftErrorResponse(error);
+  }
+}
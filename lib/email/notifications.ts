@@ -1,12 +1,13 @@
 /**
- * Email notification functions for shift assignments and confirmations
- * 
- * TODO: Integrate with an email service like Resend or SendGrid
- * For now, these functions log the email content that would be sent
+ * Email templates for shift notifications. Every email is logged, and sent
+ * through Resend when RESEND_API_KEY is set.
+ *
+ * Server-only, since the API key isn't available in the browser.
  */
 
 import type { Database } from '@/lib/supabase/types';
 import { Resend } from 'resend';
+import { formatISODate, getTimezoneLabel } from '@/lib/utils/dates';
 
 type Shift = Database['public']['Tables']['shifts']['Row'];
 type User = Database['public']['Tables']['users']['Row'];
@@ -17,7 +18,12 @@ export interface ShiftAssignmentEmailData {
   date: string;
   callTime: string | null;
   wrapTime: string | null;
+  location?: string | null;
+  unitBase?: string | null;
+  parkingNotes?: string | null;
+  mapUrl?: string | null;
   pcName?: string;
+  timezone?: string | null; // Production timezone, labels call and wrap times
 }
 
 export interface ShiftConfirmationEmailData {
@@ -27,14 +33,124 @@ export interface ShiftConfirmationEmailData {
   confirmationStatus: 'confirmed' | 'declined';
   callTime: string | null;
   wrapTime: string | null;
+  declineReason?: string | null;
+  proposedReplacementName?: string | null;
+  timezone?: string | null;
+}
+
+export interface OpenShiftOfferEmailData {
+  paEmail: string;
+  paName: string;
+  date: string;
+  callTime: string | null;
+  wrapTime: string | null;
+  location?: string | null;
+  slotsTotal: number;
+  timezone?: string | null;
+}
+
+export interface ShiftScheduleEmailData {
+  paEmail: string;
+  paName: string;
+  pcName?: string;
+  shifts: Array<{
+    date: string;
+    callTime: string | null;
+    wrapTime: string | null;
+    location?: string | null;
+  }>;
+  timezone?: string | null;
+}
+
+export interface ShiftUpdatedEmailData {
+  paEmail: string;
+  paName: string;
+  date: string;
+  changes: string[]; // One line per changed detail, e.g. "Call time: 07:00 → 08:00"
+  callTime: string | null;
+  wrapTime: string | null;
+  location?: string | null;
+  timezone?: string | null;
+}
+
+export interface ShiftCancelledEmailData {
+  paEmail: string;
+  paName: string;
+  date: string;
+  callTime: string | null;
+  wrapTime: string | null;
+  reason?: string | null;
+  pcName?: string;
+  timezone?: string | null;
+}
+
+export interface ShiftReleaseRequestEmailData {
+  pcEmail: string;
+  paName: string;
+  date: string;
+  callTime: string | null;
+  wrapTime: string | null;
+  reason?: string | null;
+  timezone?: string | null;
+}
+
+export interface ShiftReleaseDecisionEmailData {
+  paEmail: string;
+  paName: string;
+  date: string;
+  approved: boolean;
+  callTime: string | null;
+  wrapTime: string | null;
+  note?: string | null;
+  pcName?: string;
+  timezone?: string | null;
+}
+
+export interface PendingShiftEmailData {
+  paName: string;
+  date: string;
+  callTime: string | null;
+  wrapTime: string | null;
+  location?: string | null;
+  hoursPending: number;
+  timezone?: string | null;
+}
+
+export interface ShiftReminderEmailData extends PendingShiftEmailData {
+  paEmail: string;
+}
+
+export interface ShiftEscalationEmailData extends PendingShiftEmailData {
+  pcEmail: string;
+  autoReleaseInHours?: number | null; // When the offer will be withdrawn, if auto-release is on
+}
+
+export interface ShiftAutoReleasedEmailData extends PendingShiftEmailData {
+  recipientEmail: string;
+  recipient: 'PA' | 'PC';
+}
+
+export interface AvailabilityDeadlineEmailData {
+  paEmail: string;
+  paName: string;
+  productionName: string;
+  weekStart: string; // Monday of the week that's due
+  deadline: string; // Already formatted in the production's timezone
+  timeLeft: string; // e.g. "23h 10m"
+}
+
+export interface ShiftSwapEmailData {
+  paEmail: string;
+  paName: string;
+  replacementName: string;
+  date: string;
 }
 
 /**
  * Formats a date string for email display
  */
 function formatDateForEmail(dateStr: string): string {
-  const date = new Date(dateStr);
-  return date.toLocaleDateString('en-US', {
+  return formatISODate(dateStr, {
     weekday: 'long',
     month: 'long',
     day: 'numeric',
@@ -55,15 +171,47 @@ function formatTimeForEmail(timeStr: string | null): string {
 }
 
 /**
- * Gets the app URL for email links
- * TODO: Replace with actual app URL from environment variable
+ * Formats the wrap time, noting when an overnight shift wraps the following day
+ */
+function formatWrapForEmail(callTime: string | null, wrapTime: string | null): string {
+  const nextDay = callTime && wrapTime && wrapTime < callTime;
+  return `${formatTimeForEmail(wrapTime)}${nextDay ? ' (next day)' : ''}`;
+}
+
+/**
+ * Suffix naming the production's timezone on a date, e.g. " PDT"
+ */
+function formatZoneForEmail(timezone: string | null | undefined, dateStr: string): string {
+  return timezone ? ` ${getTimezoneLabel(timezone, dateStr)}` : '';
+}
+
+/**
+ * Base URL for links in emails, from NEXT_PUBLIC_APP_URL. Throws if it isn't
+ * configured rather than sending links that go nowhere.
  */
 function getAppUrl(): string {
-  return process.env.NEXT_PUBLIC_APP_URL || 'https://your-app-url.com';
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+  if (!appUrl) {
+    throw new Error('Missing NEXT_PUBLIC_APP_URL environment variable.');
+  }
+  return appUrl.replace(/\/+$/, '');
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHTML(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
 }
 
 /**
- * Converts plain text email body to HTML format
+ * Converts plain text email body to HTML format. Names, reasons and locations
+ * in the text come from users, so every line is escaped.
  */
 function convertToHTML(text: string): string {
   const lines = text.split('\n');
@@ -79,7 +227,7 @@ function convertToHTML(text: string): string {
         html += '<ul>';
         inList = true;
       }
-      html += `<li>${line.substring(2)}</li>`;
+      html += `<li>${escapeHTML(line.substring(2))}</li>`;
     } else {
       if (inList) {
         html += '</ul>';
@@ -88,7 +236,7 @@ function convertToHTML(text: string): string {
       if (line === '') {
         html += '<br>';
       } else {
-        html += `<p>${line}</p>`;
+        html += `<p>${escapeHTML(line)}</p>`;
       }
     }
   }
@@ -108,6 +256,13 @@ export async function sendShiftAssignmentEmail(
 ): Promise<void> {
   const subject = `New Shift Assignment - ${formatDateForEmail(data.date)}`;
 
+  const locationDetails = [
+    `- Location: ${data.location || 'Not specified'}`,
+    data.unitBase ? `- Unit Base: ${data.unitBase}` : null,
+    data.parkingNotes ? `- Parking: ${data.parkingNotes}` : null,
+    data.mapUrl ? `- Map: ${data.mapUrl}` : null,
+  ].filter(Boolean).join('\n');
+
   const emailBody = `
 Dear ${data.paName},
 
@@ -115,8 +270,9 @@ You have been assigned a new shift on ${formatDateForEmail(data.date)}.
 
 Shift Details:
 - Date: ${formatDateForEmail(data.date)}
-- Call Time: ${formatTimeForEmail(data.callTime)}
-- Wrap Time: ${formatTimeForEmail(data.wrapTime)}
+- Call Time: ${formatTimeForEmail(data.callTime)}${formatZoneForEmail(data.timezone, data.date)}
+- Wrap Time: ${formatWrapForEmail(data.callTime, data.wrapTime)}${formatZoneForEmail(data.timezone, data.date)}
+${locationDetails}
 ${data.pcName ? `- Assigned by: ${data.pcName}` : ''}
 
 Please log in to confirm or decline this shift assignment.
@@ -127,45 +283,7 @@ Best regards,
 Ciphered Team
   `.trim();
 
-  // Log email for development
-  console.log('📧 EMAIL NOTIFICATION: New Shift Assignment');
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-  console.log(`To: ${data.paEmail}`);
-  console.log(`Subject: ${subject}`);
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-  console.log(emailBody);
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
-
-  // Send email via Resend
-  // Check for NEXT_PUBLIC_RESEND_API_KEY first (for client-side access), fall back to RESEND_API_KEY (server-side)
-  const resendApiKey = process.env.NEXT_PUBLIC_RESEND_API_KEY || process.env.RESEND_API_KEY;
-  if (resendApiKey) {
-    // Validate API key format (should start with re_)
-    if (!resendApiKey.trim().startsWith('re_')) {
-      console.warn('⚠️  RESEND_API_KEY detected but format appears invalid (should start with "re_")');
-      console.warn(`   Key starts with: "${resendApiKey.trim().substring(0, 5)}..."`);
-    } else {
-      console.log('✅ Resend API key detected - Email will be sent via Resend');
-    }
-
-    const resend = new Resend(resendApiKey);
-
-    try {
-      await resend.emails.send({
-        from: 'Ciphered <noreply@yourdomain.com>',
-        to: data.paEmail,
-        subject: subject,
-        html: convertToHTML(emailBody),
-      });
-      console.log('✅ Email sent successfully via Resend');
-    } catch (error) {
-      console.error('❌ Failed to send email via Resend:', error);
-    }
-  } else {
-    console.warn('⚠️  RESEND_API_KEY not found - Email will NOT be sent (only logged to console)');
-    console.warn('   Please add NEXT_PUBLIC_RESEND_API_KEY to .env.local to enable email sending (for client-side)');
-    console.warn('   Or add RESEND_API_KEY for server-side usage');
-  }
+  await deliverEmail('New Shift Assignment', data.paEmail, subject, emailBody);
 }
 
 /**
@@ -175,21 +293,213 @@ export async function sendShiftConfirmationEmail(
   data: ShiftConfirmationEmailData
 ): Promise<void> {
   const statusText = data.confirmationStatus === 'confirmed' ? 'confirmed' : 'declined';
-  const subject = `PA ${statusText.charAt(0).toUpperCase() + statusText.slice(1)} Shift - ${formatDateForEmail(data.date)}`;
+  const statusLabel = statusText.charAt(0).toUpperCase() + statusText.slice(1);
+  const subject = `PA ${statusLabel} Shift - ${formatDateForEmail(data.date)}`;
+
+  const shiftDetails = [
+    `- Date: ${formatDateForEmail(data.date)}`,
+    `- PA: ${data.paName}`,
+    `- Status: ${statusLabel}`,
+    `- Call Time: ${formatTimeForEmail(data.callTime)}${formatZoneForEmail(data.timezone, data.date)}`,
+    `- Wrap Time: ${formatWrapForEmail(data.callTime, data.wrapTime)}${formatZoneForEmail(data.timezone, data.date)}`,
+    data.declineReason ? `- Reason: ${data.declineReason}` : null,
+    data.proposedReplacementName ? `- Proposed replacement: ${data.proposedReplacementName}` : null,
+  ].filter(Boolean).join('\n');
+
+  const followUp = data.proposedReplacementName
+    ? 'You can accept the proposed swap from the availability grid.'
+    : 'Please assign this shift to another PA if needed.';
 
   const emailBody = `
 Dear Production Coordinator,
 
 ${data.paName} has ${statusText} the shift assignment for ${formatDateForEmail(data.date)}.
 
+Shift Details:
+${shiftDetails}
+
+${data.confirmationStatus === 'declined' ? `\n${followUp}` : ''}
+
+View schedule: ${getAppUrl()}/pc
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail(`PA ${statusLabel} Shift`, data.pcEmail, subject, emailBody);
+}
+
+/**
+ * Sends an email to a PA when a coordinator accepts the replacement they proposed
+ */
+export async function sendShiftSwapEmail(
+  data: ShiftSwapEmailData
+): Promise<void> {
+  const subject = `Shift Swap Accepted - ${formatDateForEmail(data.date)}`;
+
+  const emailBody = `
+Dear ${data.paName},
+
+Your swap request for ${formatDateForEmail(data.date)} has been accepted.
+
+${data.replacementName} has been offered the shift, and you are no longer assigned to it.
+
+View your shifts: ${getAppUrl()}/pa
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('Shift Swap Accepted', data.paEmail, subject, emailBody);
+}
+
+/**
+ * Sends an email to an available PA when open slots are posted for a date
+ */
+export async function sendOpenShiftOfferEmail(
+  data: OpenShiftOfferEmailData
+): Promise<void> {
+  const subject = `Open Shift Available - ${formatDateForEmail(data.date)}`;
+
+  const emailBody = `
+Dear ${data.paName},
+
+${data.slotsTotal} open ${data.slotsTotal === 1 ? 'slot has' : 'slots have'} been posted for ${formatDateForEmail(data.date)}, a day you marked yourself available.
+
 Shift Details:
 - Date: ${formatDateForEmail(data.date)}
-- PA: ${data.paName}
-- Status: ${data.confirmationStatus.charAt(0).toUpperCase() + data.confirmationStatus.slice(1)}
-- Call Time: ${formatTimeForEmail(data.callTime)}
-- Wrap Time: ${formatTimeForEmail(data.wrapTime)}
+- Call Time: ${formatTimeForEmail(data.callTime)}${formatZoneForEmail(data.timezone, data.date)}
+- Wrap Time: ${formatWrapForEmail(data.callTime, data.wrapTime)}${formatZoneForEmail(data.timezone, data.date)}
+- Location: ${data.location || 'Not specified'}
 
-${data.confirmationStatus === 'declined' ? '\nPlease assign this shift to another PA if needed.' : ''}
+Slots are filled first come, first served. Log in to claim one.
+
+View open shifts: ${getAppUrl()}/pa
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('Open Shift Available', data.paEmail, subject, emailBody);
+}
+
+/**
+ * Sends a single email to a PA listing every shift assigned to them in one batch
+ */
+export async function sendShiftScheduleEmail(
+  data: ShiftScheduleEmailData
+): Promise<void> {
+  const shifts = [...data.shifts].sort((a, b) => a.date.localeCompare(b.date));
+  const subject = `${shifts.length} New Shift Assignments - ${formatDateForEmail(shifts[0].date)} to ${formatDateForEmail(shifts[shifts.length - 1].date)}`;
+
+  const shiftLines = shifts
+    .map(
+      (shift) =>
+        `- ${formatDateForEmail(shift.date)}: ${formatTimeForEmail(shift.callTime)} - ${formatWrapForEmail(shift.callTime, shift.wrapTime)}${formatZoneForEmail(data.timezone, shift.date)}, ${shift.location || 'Location not specified'}`
+    )
+    .join('\n');
+
+  const emailBody = `
+Dear ${data.paName},
+
+You have been assigned ${shifts.length} new shifts${data.pcName ? ` by ${data.pcName}` : ''}:
+
+${shiftLines}
+
+Please log in to confirm or decline each shift.
+
+View your shifts: ${getAppUrl()}/pa
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('New Shift Assignments', data.paEmail, subject, emailBody);
+}
+
+/**
+ * Tells a PA that the details of a shift they hold have changed
+ */
+export async function sendShiftUpdatedEmail(data: ShiftUpdatedEmailData): Promise<void> {
+  const subject = `Shift Updated - ${formatDateForEmail(data.date)}`;
+
+  const emailBody = `
+Dear ${data.paName},
+
+Your shift on ${formatDateForEmail(data.date)} has been updated.
+
+What changed:
+${data.changes.map((change) => `- ${change}`).join('\n')}
+
+Shift Details:
+- Date: ${formatDateForEmail(data.date)}
+- Call Time: ${formatTimeForEmail(data.callTime)}${formatZoneForEmail(data.timezone, data.date)}
+- Wrap Time: ${formatWrapForEmail(data.callTime, data.wrapTime)}${formatZoneForEmail(data.timezone, data.date)}
+- Location: ${data.location || 'Not specified'}
+
+View your shifts: ${getAppUrl()}/pa
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('Shift Updated', data.paEmail, subject, emailBody);
+}
+
+/**
+ * Tells a PA that a coordinator cancelled or removed their shift
+ */
+export async function sendShiftCancelledEmail(data: ShiftCancelledEmailData): Promise<void> {
+  const subject = `Shift Cancelled - ${formatDateForEmail(data.date)}`;
+
+  const shiftDetails = [
+    `- Date: ${formatDateForEmail(data.date)}`,
+    `- Call Time: ${formatTimeForEmail(data.callTime)}${formatZoneForEmail(data.timezone, data.date)}`,
+    `- Wrap Time: ${formatWrapForEmail(data.callTime, data.wrapTime)}${formatZoneForEmail(data.timezone, data.date)}`,
+    data.reason ? `- Reason: ${data.reason}` : null,
+    data.pcName ? `- Cancelled by: ${data.pcName}` : null,
+  ].filter(Boolean).join('\n');
+
+  const emailBody = `
+Dear ${data.paName},
+
+Your shift on ${formatDateForEmail(data.date)} has been cancelled. You are no longer needed that day.
+
+Shift Details:
+${shiftDetails}
+
+View your shifts: ${getAppUrl()}/pa
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('Shift Cancelled', data.paEmail, subject, emailBody);
+}
+
+/**
+ * Tells the coordinator who offered a shift that the PA asked to be released from it
+ */
+export async function sendShiftReleaseRequestEmail(data: ShiftReleaseRequestEmailData): Promise<void> {
+  const subject = `Release Requested - ${formatDateForEmail(data.date)}`;
+
+  const shiftDetails = [
+    `- Date: ${formatDateForEmail(data.date)}`,
+    `- PA: ${data.paName}`,
+    `- Call Time: ${formatTimeForEmail(data.callTime)}${formatZoneForEmail(data.timezone, data.date)}`,
+    `- Wrap Time: ${formatWrapForEmail(data.callTime, data.wrapTime)}${formatZoneForEmail(data.timezone, data.date)}`,
+    data.reason ? `- Reason: ${data.reason}` : null,
+  ].filter(Boolean).join('\n');
+
+  const emailBody = `
+Dear Production Coordinator,
+
+${data.paName} has asked to be released from their confirmed shift on ${formatDateForEmail(data.date)}.
+
+Shift Details:
+${shiftDetails}
+
+You can approve or deny the request from the availability grid.
 
 View schedule: ${getAppUrl()}/pc
 
@@ -197,47 +507,185 @@ Best regards,
 Ciphered Team
   `.trim();
 
+  await deliverEmail('Release Requested', data.pcEmail, subject, emailBody);
+}
+
+/**
+ * Tells a PA whether a coordinator approved or denied their release request
+ */
+export async function sendShiftReleaseDecisionEmail(data: ShiftReleaseDecisionEmailData): Promise<void> {
+  const decision = data.approved ? 'Approved' : 'Denied';
+  const subject = `Release ${decision} - ${formatDateForEmail(data.date)}`;
+
+  const shiftDetails = [
+    `- Date: ${formatDateForEmail(data.date)}`,
+    `- Call Time: ${formatTimeForEmail(data.callTime)}${formatZoneForEmail(data.timezone, data.date)}`,
+    `- Wrap Time: ${formatWrapForEmail(data.callTime, data.wrapTime)}${formatZoneForEmail(data.timezone, data.date)}`,
+    data.note ? `- Note: ${data.note}` : null,
+    data.pcName ? `- Decided by: ${data.pcName}` : null,
+  ].filter(Boolean).join('\n');
+
+  const outcome = data.approved
+    ? 'You have been released and are no longer needed that day.'
+    : 'You are still booked for this shift.';
+
+  const emailBody = `
+Dear ${data.paName},
+
+Your request to be released from your shift on ${formatDateForEmail(data.date)} was ${decision.toLowerCase()}. ${outcome}
+
+Shift Details:
+${shiftDetails}
+
+View your shifts: ${getAppUrl()}/pa
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail(`Release ${decision}`, data.paEmail, subject, emailBody);
+}
+
+/**
+ * Logs an email and sends it through Resend when an API key is configured
+ */
+async function deliverEmail(kind: string, to: string, subject: string, emailBody: string): Promise<void> {
   // Log email for development
-  console.log(`📧 EMAIL NOTIFICATION: PA ${statusText.charAt(0).toUpperCase() + statusText.slice(1)} Shift`);
+  console.log(`📧 EMAIL NOTIFICATION: ${kind}`);
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-  console.log(`To: ${data.pcEmail}`);
+  console.log(`To: ${to}`);
   console.log(`Subject: ${subject}`);
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   console.log(emailBody);
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
 
-  // Send email via Resend
-  // Check for NEXT_PUBLIC_RESEND_API_KEY first (for client-side access), fall back to RESEND_API_KEY (server-side)
-  const resendApiKey = process.env.NEXT_PUBLIC_RESEND_API_KEY || process.env.RESEND_API_KEY;
-  if (resendApiKey) {
-    // Validate API key format (should start with re_)
-    if (!resendApiKey.trim().startsWith('re_')) {
-      console.warn('⚠️  RESEND_API_KEY detected but format appears invalid (should start with "re_")');
-      console.warn(`   Key starts with: "${resendApiKey.trim().substring(0, 5)}..."`);
-    } else {
-      console.log('✅ Resend API key detected - Email will be sent via Resend');
-    }
-
-    const resend = new Resend(resendApiKey);
-
-    try {
-      await resend.emails.send({
-        from: 'Ciphered <onboarding@resend.dev>', // Resend's test domain
-        to: data.pcEmail,
-        subject: subject,
-        html: convertToHTML(emailBody),
-      });
-      console.log('✅ Email sent successfully via Resend');
-    } catch (error) {
-      console.error('❌ Failed to send email via Resend:', error);
-    }
-  } else {
+  const resendApiKey = process.env.RESEND_API_KEY;
+  if (!resendApiKey) {
     console.warn('⚠️  RESEND_API_KEY not found - Email will NOT be sent (only logged to console)');
-    console.warn('   Please add NEXT_PUBLIC_RESEND_API_KEY to .env.local to enable email sending (for client-side)');
-    console.warn('   Or add RESEND_API_KEY for server-side usage');
+    return;
+  }
+  if (!resendApiKey.trim().startsWith('re_')) {
+    console.warn('⚠️  RESEND_API_KEY format appears invalid (should start with "re_")');
+  }
+
+  try {
+    await new Resend(resendApiKey).emails.send({
+      from: 'Ciphered <noreply@yourdomain.com>',
+      to,
+      subject,
+      html: convertToHTML(emailBody),
+    });
+    console.log('✅ Email sent successfully via Resend');
+  } catch (error) {
+    console.error('❌ Failed to send email via Resend:', error);
   }
 }
 
+function formatPendingShiftDetails(data: PendingShiftEmailData): string {
+  return `
+Shift Details:
+- Date: ${formatDateForEmail(data.date)}
+- Call Time: ${formatTimeForEmail(data.callTime)}${formatZoneForEmail(data.timezone, data.date)}
+- Wrap Time: ${formatWrapForEmail(data.callTime, data.wrapTime)}${formatZoneForEmail(data.timezone, data.date)}
+- Location: ${data.location || 'Not specified'}
+  `.trim();
+}
+
+/**
+ * Reminds a PA that a shift offer is still waiting for their answer
+ */
+export async function sendShiftReminderEmail(data: ShiftReminderEmailData): Promise<void> {
+  const subject = `Reminder: Please Confirm Your Shift - ${formatDateForEmail(data.date)}`;
+
+  const emailBody = `
+Dear ${data.paName},
+
+You were offered a shift on ${formatDateForEmail(data.date)} ${data.hoursPending} hours ago and haven't responded yet.
+
+${formatPendingShiftDetails(data)}
+
+Please log in to confirm or decline so your coordinator can plan the day.
+
+View your shifts: ${getAppUrl()}/pa
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('Shift Confirmation Reminder', data.paEmail, subject, emailBody);
+}
+
+/**
+ * Tells the coordinator who assigned a shift that the PA still hasn't responded
+ */
+export async function sendShiftEscalationEmail(data: ShiftEscalationEmailData): Promise<void> {
+  const subject = `No Response From ${data.paName} - ${formatDateForEmail(data.date)}`;
+
+  const emailBody = `
+Hello,
+
+${data.paName} hasn't confirmed or declined their shift on ${formatDateForEmail(data.date)}. It has been pending for ${data.hoursPending} hours.
+
+${formatPendingShiftDetails(data)}
+
+${data.autoReleaseInHours ? `The offer will be withdrawn automatically in ${data.autoReleaseInHours} hours if ${data.paName} doesn't respond.` : 'You may want to contact them or offer the day to someone else.'}
+
+View the daily overview: ${getAppUrl()}/pc/daily-overview
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('Pending Shift Escalation', data.pcEmail, subject, emailBody);
+}
+
+/**
+ * Tells the PA or the coordinator that an unanswered offer was withdrawn
+ */
+export async function sendShiftAutoReleasedEmail(data: ShiftAutoReleasedEmailData): Promise<void> {
+  const subject = `Shift Offer Withdrawn - ${formatDateForEmail(data.date)}`;
+
+  const message = data.recipient === 'PA'
+    ? `Dear ${data.paName},\n\nYour shift offer for ${formatDateForEmail(data.date)} was withdrawn because it wasn't confirmed within ${data.hoursPending} hours. Contact your coordinator if you still want to work that day.`
+    : `Hello,\n\n${data.paName}'s shift on ${formatDateForEmail(data.date)} was released automatically after ${data.hoursPending} hours without a response. The day needs to be re-staffed.`;
+
+  const emailBody = `
+${message}
+
+${formatPendingShiftDetails(data)}
+
+${data.recipient === 'PA' ? `View your shifts: ${getAppUrl()}/pa` : `View the daily overview: ${getAppUrl()}/pc/daily-overview`}
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('Shift Offer Withdrawn', data.recipientEmail, subject, emailBody);
+}
+
+/**
+ * Reminds a PA who hasn't submitted next week's availability that the deadline is coming up
+ */
+export async function sendAvailabilityDeadlineEmail(data: AvailabilityDeadlineEmailData): Promise<void> {
+  const week = formatISODate(data.weekStart, { month: 'long', day: 'numeric' });
+  const subject = `Availability Due ${data.deadline} - Week of ${week}`;
+
+  const emailBody = `
+Dear ${data.paName},
+
+${data.productionName} needs your availability for the week of ${formatDateForEmail(data.weekStart)}.
+
+It's due ${data.deadline} (${data.timeLeft} from now) and you haven't submitted it yet. Mark the days you can work, then press "Submit Week".
+
+Update your availability: ${getAppUrl()}/pa
+
+Best regards,
+Ciphered Team
+  `.trim();
+
+  await deliverEmail('Availability Deadline Reminder', data.paEmail, subject, emailBody);
+}
+
 /**
  * Helper function to fetch user email by ID from Supabase
  * This can be used when we have shift data but need email addresses
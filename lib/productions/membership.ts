@@ -0,0 +1,324 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+
+type Production = Database['public']['Tables']['productions']['Row'];
+type ProductionMember = Database['public']['Tables']['production_members']['Row'];
+type User = Database['public']['Tables']['users']['Row'];
+
+export type CoordinatorPermission = NonNullable<ProductionMember['permission']>;
+
+export interface ProductionMembership {
+  production: Production;
+  role: ProductionMember['role'];
+  permission: ProductionMember['permission'];
+}
+
+export interface ActiveProduction {
+  production: Production | null;
+  permission: ProductionMember['permission'];
+  memberships: ProductionMembership[];
+}
+
+// What coordinators load about their crew. Leaves out the PA's calendar token,
+// which is the only credential on their calendar feed.
+export type CrewMember = Omit<User, 'calendar_token'>;
+
+export const CREW_MEMBER_COLUMNS =
+  'id, email, name, role, phone, notes, project_code, production_id, day_rate, hourly_rate, created_at, updated_at';
+
+export const PERMISSION_LABELS: Record<CoordinatorPermission, string> = {
+  owner: 'Owner',
+  scheduler: 'Scheduler',
+  read_only: 'Read-only',
+};
+
+/**
+ * Whether a coordinator permission allows creating and editing shifts
+ */
+export function canSchedule(permission: ProductionMember['permission']): boolean {
+  return permission === 'owner' || permission === 'scheduler';
+}
+
+/**
+ * Whether a coordinator permission allows managing the production and its team
+ */
+export function canManageProduction(permission: ProductionMember['permission']): boolean {
+  return permission === 'owner';
+}
+
+async function fetchUserMemberRows(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<ProductionMember[]> {
+  const { data, error } = await supabase
+    .from('production_members')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch production memberships: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Creates membership rows for a user from before productions had members: the
+ * productions they created (as owner) and their `users.production_id`. For
+ * productions they created, teammates who only have `users.production_id` are
+ * added too, so the coordinator's PAs show up before each PA signs in.
+ * Returns whether anything was written.
+ */
+async function backfillLegacyMemberships(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<boolean> {
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('role, production_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (userError) {
+    throw new Error(`Failed to fetch user: ${userError.message}`);
+  }
+
+  const { data: created, error: createdError } = await supabase
+    .from('productions')
+    .select('id')
+    .eq('created_by', userId);
+
+  if (createdError) {
+    throw new Error(`Failed to fetch productions: ${createdError.message}`);
+  }
+
+  const createdIds = (created || []).map((production) => production.id);
+  const rows: Database['public']['Tables']['production_members']['Insert'][] = createdIds.map((productionId) => ({
+    production_id: productionId,
+    user_id: userId,
+    role: 'PC',
+    permission: 'owner',
+  }));
+
+  if (user?.production_id && !createdIds.includes(user.production_id)) {
+    rows.push({
+      production_id: user.production_id,
+      user_id: userId,
+      role: user.role,
+      permission: user.role === 'PC' ? 'scheduler' : null,
+    });
+  }
+
+  if (createdIds.length > 0) {
+    const [{ data: teammates, error: teammatesError }, { data: existing, error: existingError }] = await Promise.all([
+      supabase.from('users').select('id, role, production_id').in('production_id', createdIds).neq('id', userId),
+      supabase.from('production_members').select('production_id, user_id').in('production_id', createdIds),
+    ]);
+
+    if (teammatesError || existingError) {
+      throw new Error(`Failed to fetch production team: ${(teammatesError || existingError)!.message}`);
+    }
+
+    const existingKeys = new Set((existing || []).map((member) => `${member.production_id}|${member.user_id}`));
+    for (const teammate of teammates || []) {
+      if (!teammate.production_id || existingKeys.has(`${teammate.production_id}|${teammate.id}`)) continue;
+      rows.push({
+        production_id: teammate.production_id,
+        user_id: teammate.id,
+        role: teammate.role,
+        permission: teammate.role === 'PC' ? 'scheduler' : null,
+      });
+    }
+  }
+
+  if (rows.length === 0) {
+    return false;
+  }
+
+  const { error: insertError } = await supabase.from('production_members').insert(rows);
+
+  if (insertError) {
+    throw new Error(`Failed to backfill production memberships: ${insertError.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * Fetches every production a user belongs to, ordered by production name
+ */
+export async function getUserMemberships(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<ProductionMembership[]> {
+  let members = await fetchUserMemberRows(supabase, userId);
+
+  // Accounts from before memberships existed get theirs on first use
+  if (members.length === 0 && (await backfillLegacyMemberships(supabase, userId))) {
+    members = await fetchUserMemberRows(supabase, userId);
+  }
+
+  if (members.length === 0) {
+    return [];
+  }
+
+  const { data: productions, error: productionsError } = await supabase
+    .from('productions')
+    .select('*')
+    .in('id', members.map((member) => member.production_id))
+    .order('name');
+
+  if (productionsError) {
+    throw new Error(`Failed to fetch productions: ${productionsError.message}`);
+  }
+
+  return (productions || []).map((production) => {
+    const member = members.find((m) => m.production_id === production.id)!;
+    return {
+      production,
+      role: member.role,
+      permission: member.permission,
+    };
+  });
+}
+
+/**
+ * Resolves the production a user is currently working in.
+ *
+ * `users.production_id` stores the active production; if it is unset or the
+ * user is no longer a member, the first membership is used instead.
+ */
+export async function resolveActiveProduction(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  activeProductionId: string | null
+): Promise<ActiveProduction> {
+  const memberships = await getUserMemberships(supabase, userId);
+  const active =
+    memberships.find((membership) => membership.production.id === activeProductionId) ||
+    memberships[0] ||
+    null;
+
+  return {
+    production: active?.production || null,
+    permission: active?.permission ?? null,
+    memberships,
+  };
+}
+
+/**
+ * Returns the user IDs of all members of a production with the given role
+ */
+export async function getProductionMemberIds(
+  supabase: SupabaseClient<Database>,
+  productionId: string,
+  role: ProductionMember['role']
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('production_members')
+    .select('user_id')
+    .eq('production_id', productionId)
+    .eq('role', role);
+
+  if (error) {
+    throw new Error(`Failed to fetch production members: ${error.message}`);
+  }
+
+  return (data || []).map((member) => member.user_id);
+}
+
+/**
+ * Returns the membership rows of a production with the given role, including
+ * any per-production rate overrides
+ */
+export async function getProductionMembers(
+  supabase: SupabaseClient<Database>,
+  productionId: string,
+  role: ProductionMember['role']
+): Promise<ProductionMember[]> {
+  const { data, error } = await supabase
+    .from('production_members')
+    .select('*')
+    .eq('production_id', productionId)
+    .eq('role', role);
+
+  if (error) {
+    throw new Error(`Failed to fetch production members: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Looks up a user's membership in a specific production, or null if they are not a member
+ */
+export async function getMembership(
+  supabase: SupabaseClient<Database>,
+  productionId: string,
+  userId: string
+): Promise<ProductionMember | null> {
+  const { data, error } = await supabase
+    .from('production_members')
+    .select('*')
+    .eq('production_id', productionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch production membership: ${error.message}`);
+  }
+
+  return data;
+}
+
+export interface ProductionCoordinator {
+  memberId: string;
+  userId: string;
+  name: string;
+  email: string;
+  permission: ProductionMember['permission'];
+}
+
+/**
+ * Lists the coordinator team (PC members) of a production with their permission levels
+ */
+export async function getProductionCoordinators(
+  supabase: SupabaseClient<Database>,
+  productionId: string
+): Promise<ProductionCoordinator[]> {
+  const { data: members, error: membersError } = await supabase
+    .from('production_members')
+    .select('*')
+    .eq('production_id', productionId)
+    .eq('role', 'PC');
+
+  if (membersError) {
+    throw new Error(`Failed to fetch coordinators: ${membersError.message}`);
+  }
+
+  if (!members || members.length === 0) {
+    return [];
+  }
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, name, email')
+    .in('id', members.map((member) => member.user_id));
+
+  if (usersError) {
+    throw new Error(`Failed to fetch coordinator details: ${usersError.message}`);
+  }
+
+  return members
+    .map((member) => {
+      const user = (users || []).find((u) => u.id === member.user_id);
+      return {
+        memberId: member.id,
+        userId: member.user_id,
+        name: user?.name || 'Unknown',
+        email: user?.email || '',
+        permission: member.permission,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
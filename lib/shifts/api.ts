@@ -0,0 +1,391 @@
+import type { Database } from '@/lib/supabase/types';
+import type {
+  CreateShiftInput,
+  RuleOverrideOptions,
+  ShiftHistoryEntry,
+  TransitionOptions,
+  UpdateShiftInput,
+} from './service';
+import type { ShiftAction } from './transitions';
+import type { CreateOpenShiftInput } from './open-shifts';
+import type { CrewSuggestion, SuggestCrewInput } from './suggestions';
+import type { ActualHoursInput, Timesheet } from './timesheets';
+import type { GridExportFormat } from './grid-export';
+import type { AvailabilityRuleInput } from './availability-rules';
+import type { AvailabilityDayInput } from './availability';
+import type { ShiftErrorCode } from './errors';
+import type { RuleViolation } from './rules';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type OpenShift = Database['public']['Tables']['open_shifts']['Row'];
+type Availability = Database['public']['Tables']['availability']['Row'];
+type AvailabilityRule = Database['public']['Tables']['availability_rules']['Row'];
+type AvailabilitySubmission = Database['public']['Tables']['availability_submissions']['Row'];
+
+/**
+ * Error thrown by the client helpers when the shifts API rejects a request
+ */
+export class ShiftApiError extends Error {
+  readonly code: ShiftErrorCode | null;
+  readonly violations: RuleViolation[]; // Set when code is 'rule_violation'
+
+  constructor(message: string, code: ShiftErrorCode | null, violations: RuleViolation[] = []) {
+    super(message);
+    this.name = 'ShiftApiError';
+    this.code = code;
+    this.violations = violations;
+  }
+}
+
+async function requestShiftApi<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ShiftApiError(result.error || 'Shift request failed', result.code ?? null, result.violations);
+  }
+
+  return result as T;
+}
+
+/**
+ * Creates a shift through the API route. The PA is notified server-side.
+ */
+export async function createShiftClient(
+  input: CreateShiftInput,
+  options: RuleOverrideOptions = {}
+): Promise<Shift> {
+  const { shift } = await requestShiftApi<{ shift: Shift }>('/api/shifts', 'POST', { ...input, ...options });
+  return shift;
+}
+
+/**
+ * Creates several shifts in one request. Each PA is notified server-side.
+ */
+export async function createShiftsClient(
+  productionId: string,
+  shifts: Omit<CreateShiftInput, 'productionId'>[],
+  options: RuleOverrideOptions = {}
+): Promise<Shift[]> {
+  const { shifts: created } = await requestShiftApi<{ shifts: Shift[] }>('/api/shifts/batch', 'POST', {
+    productionId,
+    shifts,
+    ...options,
+  });
+  return created;
+}
+
+/**
+ * Fetches ranked crew suggestions for a date
+ */
+export async function getCrewSuggestionsClient(input: SuggestCrewInput): Promise<CrewSuggestion[]> {
+  const params = new URLSearchParams({ productionId: input.productionId, date: input.date });
+  if (input.callTime) params.set('callTime', input.callTime);
+  if (input.wrapTime) params.set('wrapTime', input.wrapTime);
+
+  const { suggestions } = await requestShiftApi<{ suggestions: CrewSuggestion[] }>(
+    `/api/shifts/suggestions?${params.toString()}`,
+    'GET'
+  );
+  return suggestions;
+}
+
+/**
+ * Updates a shift's times or location details through the API route
+ */
+export async function updateShiftClient(
+  shiftId: string,
+  input: UpdateShiftInput,
+  options: RuleOverrideOptions = {}
+): Promise<Shift> {
+  const { shift } = await requestShiftApi<{ shift: Shift }>(`/api/shifts/${shiftId}`, 'PATCH', {
+    ...input,
+    ...options,
+  });
+  return shift;
+}
+
+/**
+ * Deletes a shift through the API route
+ */
+export async function deleteShiftClient(shiftId: string): Promise<void> {
+  await requestShiftApi<{ success: boolean }>(`/api/shifts/${shiftId}`, 'DELETE');
+}
+
+/**
+ * Applies a confirmation state change (confirm, cancel, re-offer, ...) to a shift
+ */
+export async function transitionShiftClient(
+  shiftId: string,
+  action: ShiftAction,
+  options: TransitionOptions = {}
+): Promise<Shift> {
+  const { shift } = await requestShiftApi<{ shift: Shift }>(
+    `/api/shifts/${shiftId}/transition`,
+    'POST',
+    { action, ...options }
+  );
+  return shift;
+}
+
+/**
+ * Accepts a declined shift's proposed replacement PA
+ */
+export async function acceptShiftSwapClient(shiftId: string): Promise<Shift> {
+  const { shift } = await requestShiftApi<{ shift: Shift }>(`/api/shifts/${shiftId}/swap`, 'POST');
+  return shift;
+}
+
+/**
+ * Loads a shift's status history for display
+ */
+export async function getShiftHistoryClient(shiftId: string): Promise<ShiftHistoryEntry[]> {
+  const { history } = await requestShiftApi<{ history: ShiftHistoryEntry[] }>(
+    `/api/shifts/${shiftId}/history`,
+    'GET'
+  );
+  return history;
+}
+
+/**
+ * Logs the current PA's actual hours for a shift they worked
+ */
+export async function submitShiftHoursClient(shiftId: string, input: ActualHoursInput): Promise<Shift> {
+  const { shift } = await requestShiftApi<{ shift: Shift }>(`/api/shifts/${shiftId}/hours`, 'POST', input);
+  return shift;
+}
+
+/**
+ * Approves a shift's logged hours, applying any corrections passed in
+ */
+export async function approveShiftHoursClient(shiftId: string, input: ActualHoursInput = {}): Promise<Shift> {
+  const { shift } = await requestShiftApi<{ shift: Shift }>(
+    `/api/shifts/${shiftId}/hours/approve`,
+    'POST',
+    input
+  );
+  return shift;
+}
+
+/**
+ * Loads a production's timesheet for the week containing weekStart
+ */
+export async function getTimesheetClient(
+  productionId: string,
+  weekStart: string,
+  paId?: string | null
+): Promise<Timesheet> {
+  const { timesheet } = await requestShiftApi<{ timesheet: Timesheet }>(
+    `/api/shifts/timesheet?${getTimesheetParams(productionId, weekStart, paId).toString()}`,
+    'GET'
+  );
+  return timesheet;
+}
+
+/**
+ * Download link for the approved hours as payroll CSV
+ */
+export function getTimesheetCsvUrl(productionId: string, weekStart: string, paId?: string | null): string {
+  const params = getTimesheetParams(productionId, weekStart, paId);
+  params.set('format', 'csv');
+  return `/api/shifts/timesheet?${params.toString()}`;
+}
+
+function getTimesheetParams(productionId: string, weekStart: string, paId?: string | null): URLSearchParams {
+  const params = new URLSearchParams({ productionId, weekStart });
+  if (paId) params.set('paId', paId);
+  return params;
+}
+
+/**
+ * Download URL for the availability grid over a date range
+ */
+export function getGridExportUrl(
+  productionId: string,
+  start: string,
+  end: string,
+  format: GridExportFormat
+): string {
+  const params = new URLSearchParams({ productionId, start, end, format });
+  return `/api/shifts/export?${params.toString()}`;
+}
+
+/**
+ * Download URL for a day's call sheet as a PDF
+ */
+export function getCallSheetPdfUrl(productionId: string, date: string): string {
+  const params = new URLSearchParams({ productionId, date, format: 'pdf' });
+  return `/api/shifts/call-sheet?${params.toString()}`;
+}
+
+/**
+ * Path of a user's ICS feed; prefix it with the site origin to subscribe
+ */
+export function getCalendarFeedPath(token: string): string {
+  return `/api/calendar/${token}.ics`;
+}
+
+/**
+ * Issues the current user a new calendar feed token, retiring the old feed URL
+ */
+export async function regenerateCalendarTokenClient(): Promise<string> {
+  const { token } = await requestShiftApi<{ token: string }>('/api/calendar/regenerate', 'POST');
+  return token;
+}
+
+/**
+ * Posts open slots for a date
+ */
+export async function createOpenShiftClient(input: CreateOpenShiftInput): Promise<OpenShift> {
+  const { openShift } = await requestShiftApi<{ openShift: OpenShift }>('/api/open-shifts', 'POST', input);
+  return openShift;
+}
+
+/**
+ * Closes an open shift to further claims
+ */
+export async function closeOpenShiftClient(openShiftId: string): Promise<OpenShift> {
+  const { openShift } = await requestShiftApi<{ openShift: OpenShift }>(
+    `/api/open-shifts/${openShiftId}`,
+    'DELETE'
+  );
+  return openShift;
+}
+
+/**
+ * Claims a slot on an open shift for the current PA
+ */
+export async function claimOpenShiftClient(
+  openShiftId: string
+): Promise<{ openShift: OpenShift; shift: Shift }> {
+  return requestShiftApi<{ openShift: OpenShift; shift: Shift }>(
+    `/api/open-shifts/${openShiftId}/claim`,
+    'POST'
+  );
+}
+
+/**
+ * Re-offers a declined shift's day to other available PAs as an open shift
+ */
+export async function reofferShiftClient(shiftId: string): Promise<{ openShift: OpenShift; shift: Shift }> {
+  return requestShiftApi<{ openShift: OpenShift; shift: Shift }>(`/api/shifts/${shiftId}/reoffer`, 'POST');
+}
+
+/**
+ * Sets the current user's availability on a set of days
+ */
+export async function saveAvailabilityClient(days: AvailabilityDayInput[]): Promise<Availability[]> {
+  const { availability } = await requestShiftApi<{ availability: Availability[] }>('/api/availability', 'PUT', {
+    days,
+  });
+  return availability;
+}
+
+/**
+ * Clears the current user's availability on a set of days
+ */
+export async function clearAvailabilityClient(dates: string[]): Promise<void> {
+  await requestShiftApi<{ success: boolean }>('/api/availability', 'DELETE', { dates });
+}
+
+/**
+ * Adds a recurring availability rule for the current user
+ */
+export async function createAvailabilityRuleClient(input: AvailabilityRuleInput): Promise<AvailabilityRule> {
+  const { rule } = await requestShiftApi<{ rule: AvailabilityRule }>('/api/availability/rules', 'POST', input);
+  return rule;
+}
+
+/**
+ * Replaces a recurring availability rule
+ */
+export async function updateAvailabilityRuleClient(
+  ruleId: string,
+  input: AvailabilityRuleInput
+): Promise<AvailabilityRule> {
+  const { rule } = await requestShiftApi<{ rule: AvailabilityRule }>(`/api/availability/rules/${ruleId}`, 'PUT', input);
+  return rule;
+}
+
+/**
+ * Deletes a recurring availability rule and the upcoming days it filled in
+ */
+export async function deleteAvailabilityRuleClient(ruleId: string): Promise<void> {
+  await requestShiftApi<{ success: boolean }>(`/api/availability/rules/${ruleId}`, 'DELETE');
+}
+
+/**
+ * Skips dates of a recurring availability rule
+ */
+export async function skipAvailabilityRuleDatesClient(ruleId: string, dates: string[]): Promise<AvailabilityRule> {
+  const { rule } = await requestShiftApi<{ rule: AvailabilityRule }>(
+    `/api/availability/rules/${ruleId}/exceptions`,
+    'POST',
+    { dates }
+  );
+  return rule;
+}
+
+/**
+ * Who has submitted availability for a week of a production
+ */
+export async function getAvailabilitySubmissionsClient(
+  productionId: string,
+  weekStart: string
+): Promise<AvailabilitySubmission[]> {
+  const params = new URLSearchParams({ productionId, weekStart });
+  const { submissions } = await requestShiftApi<{ submissions: AvailabilitySubmission[] }>(
+    `/api/availability/submissions?${params}`,
+    'GET'
+  );
+  return submissions;
+}
+
+/**
+ * Submits the current PA's availability for a week, locking it
+ */
+export async function submitAvailabilityWeekClient(
+  productionId: string,
+  weekStart: string
+): Promise<AvailabilitySubmission> {
+  const { submission } = await requestShiftApi<{ submission: AvailabilitySubmission }>(
+    '/api/availability/submissions',
+    'POST',
+    { productionId, weekStart }
+  );
+  return submission;
+}
+
+/**
+ * Asks the coordinators to reopen a submitted week
+ */
+export async function requestAvailabilityUnlockClient(
+  submissionId: string,
+  reason: string
+): Promise<AvailabilitySubmission> {
+  const { submission } = await requestShiftApi<{ submission: AvailabilitySubmission }>(
+    `/api/availability/submissions/${submissionId}/unlock-request`,
+    'POST',
+    { reason }
+  );
+  return submission;
+}
+
+/**
+ * Approves or declines a PA's request to reopen a week; null once it's unlocked
+ */
+export async function resolveAvailabilityUnlockClient(
+  submissionId: string,
+  approve: boolean
+): Promise<AvailabilitySubmission | null> {
+  const { submission } = await requestShiftApi<{ submission: AvailabilitySubmission | null }>(
+    `/api/availability/submissions/${submissionId}/unlock`,
+    'POST',
+    { approve }
+  );
+  return submission;
+}
@@ -0,0 +1,98 @@
+import type { Database } from '@/lib/supabase/types';
+import {
+  DEFAULT_TIMEZONE,
+  addDaysToISO,
+  getInstantInTimezone,
+  getMondayOfWeekISO,
+  isValidTimezone,
+} from '@/lib/utils/dates';
+
+type Production = Database['public']['Tables']['productions']['Row'];
+
+/** When PAs have to submit each Mon-Sun week of availability by */
+export interface AvailabilityDeadline {
+  weekday: number; // 0 = Sunday … 6 = Saturday, in the week before
+  time: string; // HH:MM:SS in the production's timezone
+  reminderHours: number; // Email non-submitters this long before the deadline; 0 turns it off
+}
+
+export const DEADLINE_WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/** Applied to the parts of a deadline a production leaves unset */
+export const DEFAULT_DEADLINE_TIME = '17:00:00';
+export const DEFAULT_DEADLINE_REMINDER_HOURS = 24;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Reads a production's deadline columns, or null when it doesn't collect
+ * availability by a deadline
+ */
+export function getAvailabilityDeadline(production: Production | null): AvailabilityDeadline | null {
+  if (production?.availability_deadline_weekday === null || production?.availability_deadline_weekday === undefined) {
+    return null;
+  }
+
+  return {
+    weekday: production.availability_deadline_weekday,
+    time: production.availability_deadline_time ?? DEFAULT_DEADLINE_TIME,
+    reminderHours: production.availability_reminder_hours ?? DEFAULT_DEADLINE_REMINDER_HOURS,
+  };
+}
+
+/**
+ * When the week starting on a Monday is due: the deadline's weekday in the
+ * week before, e.g. Thursday 17:00 for the following Monday
+ */
+export function getDeadlineForWeek(
+  deadline: AvailabilityDeadline,
+  weekStart: string,
+  timezone: string | null | undefined
+): Date {
+  const dueDate = addDaysToISO(weekStart, -7 + ((deadline.weekday + 6) % 7));
+  return getInstantInTimezone(dueDate, deadline.time, timezone);
+}
+
+/**
+ * Monday of the next week PAs are submitting, i.e. the first whose deadline
+ * hasn't passed
+ */
+export function getSubmissionWeek(
+  deadline: AvailabilityDeadline,
+  timezone: string | null | undefined,
+  now: Date = new Date()
+): string {
+  // Start a day behind UTC so no timezone's current week is skipped
+  let week = getMondayOfWeekISO(addDaysToISO(now.toISOString().slice(0, 10), -1));
+  while (getDeadlineForWeek(deadline, week, timezone) <= now) {
+    week = addDaysToISO(week, 7);
+  }
+  return week;
+}
+
+/**
+ * Formats a deadline as e.g. "Thursday, Oct 22, 5:00 PM PDT" in the production's timezone
+ */
+export function formatDeadline(deadline: Date, timezone: string | null | undefined): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE,
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(deadline);
+}
+
+/**
+ * Formats the time left before a deadline as e.g. "2d 4h", "3h 20m" or "12m"
+ */
+export function formatTimeUntil(deadline: Date, now: Date = new Date()): string {
+  const minutes = Math.max(Math.floor((deadline.getTime() - now.getTime()) / MINUTE_MS), 0);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
@@ -0,0 +1,339 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { selectAll } from '@/lib/supabase/paging';
+import { addDaysToISO, getMondayOfWeekISO } from '@/lib/utils/dates';
+import { listLockedWeeks } from './availability-submissions';
+import { ShiftError } from './errors';
+import { validateDate } from './validation';
+
+type AvailabilityRule = Database['public']['Tables']['availability_rules']['Row'];
+type AvailabilityStatus = AvailabilityRule['status'];
+type ServerClient = SupabaseClient<Database>;
+
+export interface AvailabilityRuleInput {
+  status: AvailabilityStatus;
+  weekdays: number[]; // 0 = Sunday … 6 = Saturday
+  startDate: string;
+  endDate?: string | null;
+  exceptions?: string[];
+}
+
+export interface MaterializeSummary {
+  inserted: number;
+  updated: number;
+  removed: number;
+}
+
+const STATUSES: AvailabilityStatus[] = ['unavailable', 'available', 'preferred'];
+const MAX_RULES = 20;
+const MAX_EXCEPTIONS = 100;
+// Open-ended rules are written out this far ahead; the daily cron keeps extending them
+const HORIZON_DAYS = 365;
+
+function getWeekday(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Validates a rule from the client, returning the columns to save
+ */
+function normalizeRuleInput(input: AvailabilityRuleInput): Omit<Database['public']['Tables']['availability_rules']['Insert'], 'user_id'> {
+  if (!STATUSES.includes(input.status)) {
+    throw new ShiftError('invalid_input', 'Status must be unavailable, available or preferred');
+  }
+
+  if (
+    !Array.isArray(input.weekdays) ||
+    input.weekdays.length === 0 ||
+    input.weekdays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)
+  ) {
+    throw new ShiftError('invalid_input', 'Choose at least one day of the week');
+  }
+
+  const startDate = validateDate(input.startDate);
+  const endDate = input.endDate ? validateDate(input.endDate) : null;
+  if (endDate && endDate < startDate) {
+    throw new ShiftError('invalid_input', 'End date must be on or after the start date');
+  }
+
+  const exceptions = input.exceptions ?? [];
+  if (!Array.isArray(exceptions) || exceptions.length > MAX_EXCEPTIONS) {
+    throw new ShiftError('invalid_input', `A rule can have at most ${MAX_EXCEPTIONS} exceptions`);
+  }
+
+  return {
+    status: input.status,
+    weekdays: [...new Set(input.weekdays)].sort((a, b) => a - b),
+    start_date: startDate,
+    end_date: endDate,
+    exceptions: [...new Set(exceptions.map(validateDate))].sort(),
+  };
+}
+
+/**
+ * The user's recurring availability rules, oldest first
+ */
+export async function listAvailabilityRules(supabase: ServerClient, userId: string): Promise<AvailabilityRule[]> {
+  const { data, error } = await supabase
+    .from('availability_rules')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at');
+
+  if (error) {
+    throw new Error(`Failed to fetch availability rules: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+async function getOwnRuleOrThrow(supabase: ServerClient, userId: string, ruleId: string): Promise<AvailabilityRule> {
+  const { data, error } = await supabase.from('availability_rules').select('*').eq('id', ruleId).maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch availability rule: ${error.message}`);
+  }
+  if (!data || data.user_id !== userId) {
+    throw new ShiftError('not_found', 'Availability rule not found');
+  }
+
+  return data;
+}
+
+export async function createAvailabilityRule(
+  supabase: ServerClient,
+  userId: string,
+  input: AvailabilityRuleInput
+): Promise<AvailabilityRule> {
+  const rules = await listAvailabilityRules(supabase, userId);
+  if (rules.length >= MAX_RULES) {
+    throw new ShiftError('invalid_input', `You can have at most ${MAX_RULES} recurring rules`);
+  }
+
+  const { data, error } = await supabase
+    .from('availability_rules')
+    .insert({ ...normalizeRuleInput(input), user_id: userId })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create availability rule: ${error.message}`);
+  }
+
+  await applyAvailabilityRules(supabase, userId, [...rules, data]);
+  return data;
+}
+
+export async function updateAvailabilityRule(
+  supabase: ServerClient,
+  userId: string,
+  ruleId: string,
+  input: AvailabilityRuleInput
+): Promise<AvailabilityRule> {
+  await getOwnRuleOrThrow(supabase, userId, ruleId);
+
+  const { data, error } = await supabase
+    .from('availability_rules')
+    .update(normalizeRuleInput(input))
+    .eq('id', ruleId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update availability rule: ${error.message}`);
+  }
+
+  await applyAvailabilityRules(supabase, userId, await listAvailabilityRules(supabase, userId));
+  return data;
+}
+
+/**
+ * Skips dates of a rule, e.g. when the PA clears days the rule filled in
+ */
+export async function addAvailabilityRuleExceptions(
+  supabase: ServerClient,
+  userId: string,
+  ruleId: string,
+  dates: string[]
+): Promise<AvailabilityRule> {
+  const rule = await getOwnRuleOrThrow(supabase, userId, ruleId);
+  if (!Array.isArray(dates) || dates.length === 0) {
+    throw new ShiftError('invalid_input', 'Choose at least one date to skip');
+  }
+
+  return updateAvailabilityRule(supabase, userId, ruleId, {
+    status: rule.status,
+    weekdays: rule.weekdays,
+    startDate: rule.start_date,
+    endDate: rule.end_date,
+    exceptions: [...rule.exceptions, ...dates],
+  });
+}
+
+/**
+ * Deletes a rule along with the upcoming days it filled in
+ */
+export async function deleteAvailabilityRule(supabase: ServerClient, userId: string, ruleId: string): Promise<void> {
+  await getOwnRuleOrThrow(supabase, userId, ruleId);
+
+  // Clear the rule's days first so they aren't orphaned by the delete
+  const rules = await listAvailabilityRules(supabase, userId);
+  await applyAvailabilityRules(supabase, userId, rules.filter((rule) => rule.id !== ruleId));
+
+  const { error } = await supabase.from('availability_rules').delete().eq('id', ruleId);
+
+  if (error) {
+    throw new Error(`Failed to delete availability rule: ${error.message}`);
+  }
+}
+
+/**
+ * The status each rule sets on each date in [from, to]. Where rules overlap the
+ * newer one wins.
+ */
+export function expandAvailabilityRules(
+  rules: AvailabilityRule[],
+  from: string,
+  to: string
+): Map<string, { status: AvailabilityStatus; ruleId: string }> {
+  const days = new Map<string, { status: AvailabilityStatus; ruleId: string }>();
+
+  for (const rule of rules) {
+    const exceptions = new Set(rule.exceptions);
+    const end = rule.end_date && rule.end_date < to ? rule.end_date : to;
+
+    for (let date = rule.start_date > from ? rule.start_date : from; date <= end; date = addDaysToISO(date, 1)) {
+      if (rule.weekdays.includes(getWeekday(date)) && !exceptions.has(date)) {
+        days.set(date, { status: rule.status, ruleId: rule.id });
+      }
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Writes the given rules into the user's availability rows from yesterday (UTC,
+ * so no timezone's "today" is missed) through the horizon. Days the PA set by
+ * hand are left alone and earlier days are never touched. A day no rule covers
+ * any more is cleared, unless the PA wrote a note or set hours on it, in which
+ * case it's kept as a manual entry. Weeks the PA has submitted stay as they were.
+ */
+export async function applyAvailabilityRules(
+  supabase: ServerClient,
+  userId: string,
+  rules: AvailabilityRule[],
+  now: Date = new Date()
+): Promise<MaterializeSummary> {
+  const from = addDaysToISO(now.toISOString().slice(0, 10), -1);
+  const to = addDaysToISO(from, HORIZON_DAYS + 1);
+  const desired = expandAvailabilityRules(rules, from, to);
+
+  const lockedWeeks = new Set((await listLockedWeeks(supabase, userId, from)).map((submission) => submission.week_start));
+  const isLocked = (date: string) => lockedWeeks.has(getMondayOfWeekISO(date));
+  for (const date of desired.keys()) {
+    if (isLocked(date)) desired.delete(date);
+  }
+
+  const { data: existing, error } = await supabase
+    .from('availability')
+    .select('id, date, status, rule_id, pa_note, available_from, available_until')
+    .eq('user_id', userId)
+    .gte('date', from)
+    .lte('date', to);
+
+  if (error) {
+    throw new Error(`Failed to fetch availability: ${error.message}`);
+  }
+
+  const summary: MaterializeSummary = { inserted: 0, updated: 0, removed: 0 };
+  const updates = new Map<string, { status: AvailabilityStatus; ruleId: string | null; ids: string[] }>();
+  const removeIds: string[] = [];
+  const queueUpdate = (id: string, status: AvailabilityStatus, ruleId: string | null) => {
+    const key = `${status}|${ruleId}`;
+    updates.set(key, { status, ruleId, ids: [...(updates.get(key)?.ids || []), id] });
+  };
+
+  for (const row of existing || []) {
+    const day = desired.get(row.date);
+    desired.delete(row.date);
+    if (!row.rule_id || isLocked(row.date)) continue; // Set by hand, or submitted
+
+    if (!day) {
+      if (row.pa_note || row.available_from || row.available_until) {
+        queueUpdate(row.id, row.status, null);
+      } else {
+        removeIds.push(row.id);
+      }
+    } else if (day.status !== row.status || day.ruleId !== row.rule_id) {
+      queueUpdate(row.id, day.status, day.ruleId);
+    }
+  }
+
+  for (const { status, ruleId, ids } of updates.values()) {
+    const { error: updateError } = await supabase
+      .from('availability')
+      .update({ status, rule_id: ruleId })
+      .in('id', ids);
+
+    if (updateError) {
+      throw new Error(`Failed to update availability: ${updateError.message}`);
+    }
+    summary.updated += ids.length;
+  }
+
+  if (removeIds.length > 0) {
+    const { error: deleteError } = await supabase.from('availability').delete().in('id', removeIds);
+    if (deleteError) {
+      throw new Error(`Failed to remove availability: ${deleteError.message}`);
+    }
+    summary.removed = removeIds.length;
+  }
+
+  if (desired.size > 0) {
+    const { error: insertError } = await supabase.from('availability').insert(
+      [...desired].map(([date, day]) => ({ user_id: userId, date, status: day.status, rule_id: day.ruleId }))
+    );
+    if (insertError) {
+      throw new Error(`Failed to save availability: ${insertError.message}`);
+    }
+    summary.inserted = desired.size;
+  }
+
+  return summary;
+}
+
+/**
+ * Re-applies every user's rules, extending open-ended ones as the horizon moves.
+ * The client must be able to read and write every user's availability.
+ */
+export async function refreshAllAvailabilityRules(
+  supabase: ServerClient,
+  now: Date = new Date()
+): Promise<{ users: number; failed: number } & MaterializeSummary> {
+  const rules = await selectAll<AvailabilityRule>('availability rules', (from, to) =>
+    supabase.from('availability_rules').select('*').order('created_at').order('id').range(from, to)
+  );
+
+  const rulesByUser = new Map<string, AvailabilityRule[]>();
+  for (const rule of rules) {
+    rulesByUser.set(rule.user_id, [...(rulesByUser.get(rule.user_id) || []), rule]);
+  }
+
+  const total = { users: rulesByUser.size, failed: 0, inserted: 0, updated: 0, removed: 0 };
+  for (const [userId, userRules] of rulesByUser) {
+    try {
+      const summary = await applyAvailabilityRules(supabase, userId, userRules, now);
+      total.inserted += summary.inserted;
+      total.updated += summary.updated;
+      total.removed += summary.removed;
+    } catch (userError) {
+      // One user's failure shouldn't stop the others; they're retried on the next run
+      console.error(`Failed to refresh availability rules for user ${userId}:`, userError);
+      total.failed += 1;
+    }
+  }
+
+  return total;
+}
@@ -0,0 +1,317 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { getMembership, getProductionMemberIds } from '@/lib/productions/membership';
+import { sendAvailabilityDeadlineEmail } from '@/lib/email/notifications';
+import { addDaysToISO, getMondayOfWeekISO, getTodayInTimezone } from '@/lib/utils/dates';
+import {
+  formatDeadline,
+  formatTimeUntil,
+  getAvailabilityDeadline,
+  getDeadlineForWeek,
+  getSubmissionWeek,
+} from './availability-deadline';
+import { ShiftError } from './errors';
+import { assertCanSchedule, getProductionTimezone } from './service';
+import { validateDate } from './validation';
+
+type AvailabilitySubmission = Database['public']['Tables']['availability_submissions']['Row'];
+type ServerClient = SupabaseClient<Database>;
+
+export interface DeadlineReminderRunOptions {
+  now?: Date;
+  dryRun?: boolean; // Report who would be emailed without sending anything
+}
+
+export interface DeadlineReminderRunSummary {
+  checked: number; // Productions with a deadline
+  reminders: Array<{ productionId: string; weekStart: string; paIds: string[] }>;
+}
+
+const MAX_UNLOCK_REASON_LENGTH = 500;
+const HOUR_MS = 60 * 60 * 1000;
+
+function validateWeekStart(weekStart: unknown): string {
+  const date = validateDate(weekStart);
+  if (getMondayOfWeekISO(date) !== date) {
+    throw new ShiftError('invalid_input', 'Weeks start on a Monday');
+  }
+  return date;
+}
+
+async function getSubmissionOrThrow(supabase: ServerClient, submissionId: string): Promise<AvailabilitySubmission> {
+  const { data, error } = await supabase
+    .from('availability_submissions')
+    .select('*')
+    .eq('id', submissionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch availability submission: ${error.message}`);
+  }
+  if (!data) {
+    throw new ShiftError('not_found', 'Availability submission not found');
+  }
+
+  return data;
+}
+
+/**
+ * The submissions for a week of a production, for its coordinators
+ */
+export async function listAvailabilitySubmissions(
+  supabase: ServerClient,
+  userId: string,
+  productionId: string,
+  weekStart: string
+): Promise<AvailabilitySubmission[]> {
+  const membership = await getMembership(supabase, productionId, userId);
+  if (membership?.role !== 'PC') {
+    throw new ShiftError('forbidden', 'Only coordinators can see who has submitted availability');
+  }
+
+  const { data, error } = await supabase
+    .from('availability_submissions')
+    .select('*')
+    .eq('production_id', productionId)
+    .eq('week_start', validateWeekStart(weekStart));
+
+  if (error) {
+    throw new Error(`Failed to fetch availability submissions: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * A PA's submissions on any production from the week containing a date on.
+ * Availability is shared between productions, so each of these weeks is locked.
+ */
+export async function listLockedWeeks(
+  supabase: ServerClient,
+  userId: string,
+  from: string
+): Promise<AvailabilitySubmission[]> {
+  const { data, error } = await supabase
+    .from('availability_submissions')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('week_start', getMondayOfWeekISO(from))
+    .order('week_start');
+
+  if (error) {
+    throw new Error(`Failed to fetch availability submissions: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Submits a PA's availability for a week, locking it. Late submissions are
+ * accepted, but not for weeks that are already over.
+ */
+export async function submitAvailabilityWeek(
+  supabase: ServerClient,
+  userId: string,
+  productionId: string,
+  weekStart: string
+): Promise<AvailabilitySubmission> {
+  if (!productionId) {
+    throw new ShiftError('invalid_input', 'productionId is required');
+  }
+
+  const week = validateWeekStart(weekStart);
+
+  const membership = await getMembership(supabase, productionId, userId);
+  if (membership?.role !== 'PA') {
+    throw new ShiftError('forbidden', 'Only PAs on this production can submit availability');
+  }
+
+  // The week is over once its Sunday has passed where the production is
+  const today = getTodayInTimezone(await getProductionTimezone(supabase, productionId));
+  if (addDaysToISO(week, 6) < today) {
+    throw new ShiftError('invalid_input', 'This week is already over');
+  }
+
+  const { data: existing } = await supabase
+    .from('availability_submissions')
+    .select('id')
+    .eq('production_id', productionId)
+    .eq('user_id', userId)
+    .eq('week_start', week)
+    .maybeSingle();
+
+  if (existing) {
+    throw new ShiftError('conflict', 'You already submitted this week');
+  }
+
+  const { data, error } = await supabase
+    .from('availability_submissions')
+    .insert({ production_id: productionId, user_id: userId, week_start: week, submitted_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to submit availability: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Asks the production's coordinators to reopen a submitted week
+ */
+export async function requestAvailabilityUnlock(
+  supabase: ServerClient,
+  userId: string,
+  submissionId: string,
+  reason: unknown
+): Promise<AvailabilitySubmission> {
+  const submission = await getSubmissionOrThrow(supabase, submissionId);
+  if (submission.user_id !== userId) {
+    throw new ShiftError('forbidden', 'You can only reopen your own availability');
+  }
+
+  const trimmed = typeof reason === 'string' ? reason.trim() : '';
+  if (!trimmed) {
+    throw new ShiftError('invalid_input', 'Say what you need to change');
+  }
+  if (trimmed.length > MAX_UNLOCK_REASON_LENGTH) {
+    throw new ShiftError('invalid_input', `Reason must be at most ${MAX_UNLOCK_REASON_LENGTH} characters`);
+  }
+
+  const { data, error } = await supabase
+    .from('availability_submissions')
+    .update({ unlock_requested_at: new Date().toISOString(), unlock_reason: trimmed })
+    .eq('id', submissionId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to request unlock: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Answers an unlock request. Approving removes the submission so the PA can
+ * edit the week and submit it again; declining keeps it locked.
+ */
+export async function resolveAvailabilityUnlock(
+  supabase: ServerClient,
+  userId: string,
+  submissionId: string,
+  approve: boolean
+): Promise<AvailabilitySubmission | null> {
+  const submission = await getSubmissionOrThrow(supabase, submissionId);
+  await assertCanSchedule(supabase, submission.production_id, userId);
+
+  if (!submission.unlock_requested_at) {
+    throw new ShiftError('invalid_transition', 'The PA has not asked to reopen this week');
+  }
+
+  if (approve) {
+    const { error } = await supabase.from('availability_submissions').delete().eq('id', submissionId);
+    if (error) {
+      throw new Error(`Failed to unlock availability: ${error.message}`);
+    }
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('availability_submissions')
+    .update({ unlock_requested_at: null, unlock_reason: null })
+    .eq('id', submissionId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to decline unlock request: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Emails the PAs who haven't submitted the upcoming week once the production's
+ * reminder window before the deadline opens. Each production's PAs are reminded
+ * once per week. Meant to run hourly from a cron.
+ *
+ * The client must be able to read every production's members and submissions.
+ */
+export async function runAvailabilityDeadlineReminders(
+  supabase: ServerClient,
+  options: DeadlineReminderRunOptions = {}
+): Promise<DeadlineReminderRunSummary> {
+  const now = options.now ?? new Date();
+
+  const { data: productions, error } = await supabase
+    .from('productions')
+    .select('*')
+    .eq('is_active', true)
+    .not('availability_deadline_weekday', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch productions: ${error.message}`);
+  }
+
+  const reminders: DeadlineReminderRunSummary['reminders'] = [];
+
+  for (const production of productions || []) {
+    const deadline = getAvailabilityDeadline(production);
+    if (!deadline || deadline.reminderHours <= 0) continue;
+
+    const weekStart = getSubmissionWeek(deadline, production.timezone, now);
+    const due = getDeadlineForWeek(deadline, weekStart, production.timezone);
+    if (production.availability_reminded_week === weekStart) continue;
+    if (now.getTime() < due.getTime() - deadline.reminderHours * HOUR_MS) continue;
+    // Nothing left to plan once the production has wrapped
+    if (production.end_date && weekStart > production.end_date) continue;
+
+    try {
+      const paIds = await getProductionMemberIds(supabase, production.id, 'PA');
+      const { data: submissions, error: submissionsError } = await supabase
+        .from('availability_submissions')
+        .select('user_id')
+        .eq('production_id', production.id)
+        .eq('week_start', weekStart);
+
+      if (submissionsError) {
+        throw new Error(`Failed to fetch availability submissions: ${submissionsError.message}`);
+      }
+
+      const submittedIds = new Set((submissions || []).map((submission) => submission.user_id));
+      const pendingIds = paIds.filter((id) => !submittedIds.has(id));
+      reminders.push({ productionId: production.id, weekStart, paIds: pendingIds });
+      if (options.dryRun) continue;
+
+      // Marked before sending so a failed email isn't followed by a second round
+      const { error: markError } = await supabase
+        .from('productions')
+        .update({ availability_reminded_week: weekStart })
+        .eq('id', production.id);
+
+      if (markError) {
+        throw new Error(`Failed to update production: ${markError.message}`);
+      }
+      if (pendingIds.length === 0) continue;
+
+      const { data: pas } = await supabase.from('users').select('email, name').in('id', pendingIds);
+      for (const pa of pas || []) {
+        await sendAvailabilityDeadlineEmail({
+          paEmail: pa.email,
+          paName: pa.name,
+          productionName: production.name,
+          weekStart,
+          deadline: formatDeadline(due, production.timezone),
+          timeLeft: formatTimeUntil(due, now),
+        });
+      }
+    } catch (stepError) {
+      // One production's failure shouldn't stop the others; it's retried on the next run
+      console.error(`Failed to send availability reminders for production ${production.id}:`, stepError);
+    }
+  }
+
+  return { checked: productions?.length ?? 0, reminders };
+}
@@ -0,0 +1,138 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { formatISODate, getMondayOfWeekISO } from '@/lib/utils/dates';
+import { listLockedWeeks } from './availability-submissions';
+import { ShiftError } from './errors';
+import { normalizeText, normalizeTime, validateDate } from './validation';
+
+type Availability = Database['public']['Tables']['availability']['Row'];
+type AvailabilityInsert = Database['public']['Tables']['availability']['Insert'];
+type AvailabilityStatus = Availability['status'];
+type ServerClient = SupabaseClient<Database>;
+
+export interface AvailabilityDayInput {
+  date: string;
+  status: AvailabilityStatus;
+  note?: string | null;
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+  ruleId?: string | null; // Set when the day still follows one of the user's recurring rules
+}
+
+const STATUSES: AvailabilityStatus[] = ['unavailable', 'available', 'preferred'];
+const MAX_DAYS = 100;
+
+function validateDates(dates: unknown): string[] {
+  if (!Array.isArray(dates) || dates.length === 0 || dates.length > MAX_DAYS) {
+    throw new ShiftError('invalid_input', `Choose between 1 and ${MAX_DAYS} days`);
+  }
+  return [...new Set(dates.map(validateDate))];
+}
+
+function normalizeDay(userId: string, day: AvailabilityDayInput): AvailabilityInsert {
+  if (!day || !STATUSES.includes(day.status)) {
+    throw new ShiftError('invalid_input', 'Status must be unavailable, available or preferred');
+  }
+
+  const availableFrom = normalizeTime(day.availableFrom, 'Available from');
+  const availableUntil = normalizeTime(day.availableUntil, 'Available until');
+  if (availableFrom && availableUntil && availableFrom >= availableUntil) {
+    throw new ShiftError('invalid_input', '"Until" must be later than "Available from"');
+  }
+
+  return {
+    user_id: userId,
+    date: validateDate(day.date),
+    status: day.status,
+    pa_note: normalizeText(day.note),
+    rule_id: day.ruleId || null,
+    available_from: availableFrom,
+    available_until: availableUntil,
+  };
+}
+
+/**
+ * Rejects changes to days in weeks the user has submitted on any production
+ */
+export async function assertAvailabilityUnlocked(
+  supabase: ServerClient,
+  userId: string,
+  dates: string[]
+): Promise<void> {
+  if (dates.length === 0) return;
+
+  const lockedWeeks = new Set(
+    (await listLockedWeeks(supabase, userId, [...dates].sort()[0])).map((submission) => submission.week_start)
+  );
+  const lockedDate = dates.find((date) => lockedWeeks.has(getMondayOfWeekISO(date)));
+
+  if (lockedDate) {
+    const week = formatISODate(getMondayOfWeekISO(lockedDate), { month: 'short', day: 'numeric' });
+    throw new ShiftError(
+      'forbidden',
+      `You submitted your availability for the week of ${week}. Ask your coordinator to reopen it to make changes`
+    );
+  }
+}
+
+/**
+ * Sets the user's availability on each of the days, replacing what was there
+ */
+export async function saveAvailabilityDays(
+  supabase: ServerClient,
+  userId: string,
+  days: AvailabilityDayInput[]
+): Promise<Availability[]> {
+  if (!Array.isArray(days) || days.length === 0 || days.length > MAX_DAYS) {
+    throw new ShiftError('invalid_input', `Choose between 1 and ${MAX_DAYS} days`);
+  }
+
+  const rows = days.map((day) => normalizeDay(userId, day));
+  const dates = rows.map((row) => row.date);
+  if (new Set(dates).size !== dates.length) {
+    throw new ShiftError('invalid_input', 'Each day can only be set once');
+  }
+
+  await assertAvailabilityUnlocked(supabase, userId, dates);
+
+  const ruleIds = [...new Set(rows.map((row) => row.rule_id).filter((id): id is string => !!id))];
+  if (ruleIds.length > 0) {
+    const { data: rules, error: rulesError } = await supabase
+      .from('availability_rules')
+      .select('id')
+      .eq('user_id', userId)
+      .in('id', ruleIds);
+
+    if (rulesError) {
+      throw new Error(`Failed to fetch availability rules: ${rulesError.message}`);
+    }
+    if ((rules || []).length !== ruleIds.length) {
+      throw new ShiftError('invalid_input', 'Availability rule not found');
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('availability')
+    .upsert(rows, { onConflict: 'user_id,date' })
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to save availability: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Removes the user's availability on the given days
+ */
+export async function clearAvailabilityDays(supabase: ServerClient, userId: string, dates: unknown): Promise<void> {
+  const validDates = validateDates(dates);
+  await assertAvailabilityUnlocked(supabase, userId, validDates);
+
+  const { error } = await supabase.from('availability').delete().eq('user_id', userId).in('date', validDates);
+
+  if (error) {
+    throw new Error(`Failed to clear availability: ${error.message}`);
+  }
+}
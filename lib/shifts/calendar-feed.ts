@@ -0,0 +1,201 @@
+import { randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { addDaysToISO, DEFAULT_TIMEZONE, getInstantInTimezone, getTodayInTimezone } from '@/lib/utils/dates';
+import { ShiftError } from './errors';
+import { formatShiftBreak, formatShiftTimes, wrapsNextDay } from './time';
+import { SHIFT_STATUS_LABELS } from './transitions';
+import type { ShiftStatus } from './transitions';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type ServerClient = SupabaseClient<Database>;
+
+// Past shifts stay in the feed this long so recent history doesn't vanish from calendars
+const FEED_HISTORY_DAYS = 60;
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+const EVENT_STATUS: Record<ShiftStatus, 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'> = {
+  pending: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  release_requested: 'CONFIRMED',
+  declined: 'CANCELLED',
+  cancelled: 'CANCELLED',
+  released: 'CANCELLED',
+};
+
+interface FeedProduction {
+  name: string;
+  timezone: string;
+}
+
+/**
+ * Replaces the user's calendar feed token, so any previously shared feed URL
+ * stops working. Returns the new token.
+ */
+export async function regenerateCalendarToken(supabase: ServerClient, userId: string): Promise<string> {
+  const token = randomBytes(24).toString('base64url');
+
+  const { error } = await supabase.from('users').update({ calendar_token: token }).eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update calendar token: ${error.message}`);
+  }
+
+  return token;
+}
+
+/**
+ * Builds the ICS feed for the user a token belongs to. The client must be able
+ * to read any user's shifts, since feed requests come without a session.
+ */
+export async function getCalendarFeed(supabase: ServerClient, token: string): Promise<string> {
+  if (!TOKEN_PATTERN.test(token)) {
+    throw new ShiftError('not_found', 'Calendar feed not found');
+  }
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('id, name')
+    .eq('calendar_token', token)
+    .maybeSingle();
+
+  if (userError) {
+    throw new Error(`Failed to fetch calendar feed user: ${userError.message}`);
+  }
+  if (!user) {
+    throw new ShiftError('not_found', 'Calendar feed not found');
+  }
+
+  // A day's margin either side of UTC; each production's own "today" is checked below
+  const since = addDaysToISO(new Date().toISOString().slice(0, 10), -FEED_HISTORY_DAYS - 1);
+  const { data: shifts, error: shiftsError } = await supabase
+    .from('shifts')
+    .select('*')
+    .eq('assigned_pa_id', user.id)
+    .gte('date', since)
+    .order('date');
+
+  if (shiftsError) {
+    throw new Error(`Failed to fetch shifts: ${shiftsError.message}`);
+  }
+
+  const productionIds = [...new Set((shifts || []).map((shift) => shift.production_id).filter((id): id is string => !!id))];
+  const productions = new Map<string, FeedProduction>();
+  if (productionIds.length > 0) {
+    const { data, error } = await supabase.from('productions').select('id, name, timezone').in('id', productionIds);
+    if (error) {
+      throw new Error(`Failed to fetch productions: ${error.message}`);
+    }
+    for (const production of data || []) {
+      productions.set(production.id, { name: production.name, timezone: production.timezone || DEFAULT_TIMEZONE });
+    }
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Ciphered//Shifts//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${user.name} – Shifts`)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...(shifts || []).flatMap((shift) => {
+      const production = shift.production_id ? productions.get(shift.production_id) ?? null : null;
+      const cutoff = addDaysToISO(getTodayInTimezone(production?.timezone), -FEED_HISTORY_DAYS);
+      return shift.date < cutoff ? [] : buildEvent(shift, production);
+    }),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function buildEvent(shift: Shift, production: FeedProduction | null): string[] {
+  const status = shift.confirmation_status;
+  const title = production ? `PA Shift – ${production.name}` : 'PA Shift';
+  const timezone = production?.timezone ?? DEFAULT_TIMEZONE;
+
+  const details = [
+    `Status: ${SHIFT_STATUS_LABELS[status]}`,
+    `Call/Wrap: ${formatShiftTimes(shift)}`,
+    ...(shift.breaks || []).map(formatShiftBreak),
+    shift.unit_base && `Unit base: ${shift.unit_base}`,
+    shift.parking_notes && `Parking: ${shift.parking_notes}`,
+    shift.map_url && `Map: ${shift.map_url}`,
+  ].filter(Boolean);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:shift-${shift.id}@ciphered`,
+    `DTSTAMP:${formatTimestamp(shift.updated_at ?? shift.created_at)}`,
+    ...(shift.updated_at ? [`LAST-MODIFIED:${formatTimestamp(shift.updated_at)}`] : []),
+    ...formatEventTimes(shift, timezone),
+    `SUMMARY:${escapeText(status === 'confirmed' ? title : `${title} (${SHIFT_STATUS_LABELS[status]})`)}`,
+    ...(shift.location ? [`LOCATION:${escapeText(shift.location)}`] : []),
+    `DESCRIPTION:${escapeText(details.join('\n'))}`,
+    ...(shift.map_url ? [`URL:${shift.map_url}`] : []),
+    `STATUS:${EVENT_STATUS[status]}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Timed events are the production's wall-clock times written in UTC, so no
+ * VTIMEZONE is needed; shifts without a call time are all-day events, and ones
+ * without a wrap run for the call instant only
+ */
+function formatEventTimes(shift: Shift, timezone: string): string[] {
+  if (!shift.call_time) {
+    return [
+      `DTSTART;VALUE=DATE:${formatDate(shift.date)}`,
+      `DTEND;VALUE=DATE:${formatDate(addDaysToISO(shift.date, 1))}`,
+    ];
+  }
+
+  const times = [`DTSTART:${formatTimestamp(getInstantInTimezone(shift.date, shift.call_time, timezone))}`];
+  if (shift.wrap_time) {
+    const wrapDate = wrapsNextDay(shift) ? addDaysToISO(shift.date, 1) : shift.date;
+    times.push(`DTEND:${formatTimestamp(getInstantInTimezone(wrapDate, shift.wrap_time, timezone))}`);
+  }
+  return times;
+}
+
+function formatDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+// UTC date-time, e.g. 20261019T150000Z
+function formatTimestamp(value: string | Date | undefined): string {
+  const date = value ? new Date(value) : new Date();
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Splits lines longer than 75 octets of UTF-8, continuing them on lines that start with a
+ * space. Characters are never split across lines.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines spend one octet on the leading space
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.map((part, index) => (index === 0 ? part : ` ${part}`)).join('\r\n');
+}
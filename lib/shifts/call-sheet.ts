@@ -0,0 +1,324 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import type { Database } from '@/lib/supabase/types';
+import { getMembership, getProductionMemberIds } from '@/lib/productions/membership';
+import { DEFAULT_TIMEZONE, formatISODate, getTimezoneLabel } from '@/lib/utils/dates';
+import { ShiftError } from './errors';
+import { formatShiftBreak, wrapsNextDay } from './time';
+import { SHIFT_STATUS_LABELS } from './transitions';
+import type { ShiftStatus } from './transitions';
+import { validateDate } from './validation';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type ServerClient = SupabaseClient<Database>;
+
+export interface CallSheetQuery {
+  productionId: string;
+  date: string;
+}
+
+export interface CallSheetEntry {
+  shiftId: string;
+  paName: string;
+  phone: string | null;
+  callTime: string | null;
+  wrapTime: string | null;
+  wrapsNextDay: boolean;
+  status: ShiftStatus;
+  location: string | null;
+  unitBase: string | null;
+  mapUrl: string | null;
+  notes: string[]; // Breaks, parking and the PA's own note for the day
+}
+
+export interface CallSheet {
+  productionId: string;
+  productionName: string;
+  date: string;
+  timezone: string;
+  entries: CallSheetEntry[];
+}
+
+// Declined, cancelled and released shifts aren't on the crew list
+const CALL_SHEET_STATUSES: ShiftStatus[] = ['confirmed', 'pending', 'release_requested'];
+
+/**
+ * The crew call list for a day, sorted by call time. Shifts without a call
+ * time come last.
+ */
+export async function getCallSheet(
+  supabase: ServerClient,
+  userId: string,
+  query: CallSheetQuery
+): Promise<CallSheet> {
+  if (!query.productionId) {
+    throw new ShiftError('invalid_input', 'productionId is required');
+  }
+  const date = validateDate(query.date);
+
+  const membership = await getMembership(supabase, query.productionId, userId);
+  if (!membership || membership.role !== 'PC') {
+    throw new ShiftError('forbidden', 'Only coordinators can view call sheets');
+  }
+
+  const { data: production, error: productionError } = await supabase
+    .from('productions')
+    .select('name, timezone')
+    .eq('id', query.productionId)
+    .maybeSingle();
+
+  if (productionError) {
+    throw new Error(`Failed to fetch production: ${productionError.message}`);
+  }
+  if (!production) {
+    throw new ShiftError('not_found', 'Production not found');
+  }
+
+  const sheet: CallSheet = {
+    productionId: query.productionId,
+    productionName: production.name,
+    date,
+    timezone: production.timezone ?? DEFAULT_TIMEZONE,
+    entries: [],
+  };
+
+  const paIds = await getProductionMemberIds(supabase, query.productionId, 'PA');
+  if (paIds.length === 0) return sheet;
+
+  // Shifts created before production scoping have no production_id
+  const { data: shifts, error: shiftsError } = await supabase
+    .from('shifts')
+    .select('*')
+    .in('assigned_pa_id', paIds)
+    .or(`production_id.eq.${query.productionId},production_id.is.null`)
+    .eq('date', date)
+    .in('confirmation_status', CALL_SHEET_STATUSES);
+
+  if (shiftsError) {
+    throw new Error(`Failed to fetch shifts: ${shiftsError.message}`);
+  }
+  if (!shifts || shifts.length === 0) return sheet;
+
+  const crewIds = [...new Set(shifts.map((shift) => shift.assigned_pa_id))];
+  const [{ data: pas, error: pasError }, { data: availability, error: availabilityError }] = await Promise.all([
+    supabase.from('users').select('id, name, phone').in('id', crewIds),
+    supabase.from('availability').select('user_id, pa_note').in('user_id', crewIds).eq('date', date),
+  ]);
+
+  if (pasError) {
+    throw new Error(`Failed to fetch PAs: ${pasError.message}`);
+  }
+  if (availabilityError) {
+    throw new Error(`Failed to fetch availability notes: ${availabilityError.message}`);
+  }
+
+  const pasById = new Map((pas || []).map((pa) => [pa.id, pa]));
+  const notesByPa = new Map((availability || []).map((record) => [record.user_id, record.pa_note]));
+
+  sheet.entries = shifts
+    .map((shift) => toEntry(shift, pasById.get(shift.assigned_pa_id), notesByPa.get(shift.assigned_pa_id) ?? null))
+    .sort(compareEntries);
+
+  return sheet;
+}
+
+function toEntry(
+  shift: Shift,
+  pa: { name: string; phone: string | null } | undefined,
+  paNote: string | null
+): CallSheetEntry {
+  return {
+    shiftId: shift.id,
+    paName: pa?.name ?? 'Unknown PA',
+    phone: pa?.phone ?? null,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    wrapsNextDay: wrapsNextDay(shift),
+    status: shift.confirmation_status,
+    location: shift.location,
+    unitBase: shift.unit_base,
+    mapUrl: shift.map_url,
+    notes: [
+      ...(shift.breaks || []).map(formatShiftBreak),
+      shift.parking_notes && `Parking: ${shift.parking_notes}`,
+      paNote && `PA note: ${paNote}`,
+    ].filter((note): note is string => !!note),
+  };
+}
+
+function compareEntries(a: CallSheetEntry, b: CallSheetEntry): number {
+  if (a.callTime && b.callTime && a.callTime !== b.callTime) {
+    return a.callTime.localeCompare(b.callTime);
+  }
+  if (!a.callTime !== !b.callTime) return a.callTime ? -1 : 1;
+  return a.paName.localeCompare(b.paName);
+}
+
+/**
+ * Formats a call or wrap as HH:MM, or "TBD" when it isn't set yet
+ */
+export function formatCallSheetTime(time: string | null): string {
+  return time ? time.slice(0, 5) : 'TBD';
+}
+
+export function formatCallSheetDate(sheet: Pick<CallSheet, 'date' | 'timezone'>): string {
+  const date = formatISODate(sheet.date, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  return `${date} (${getTimezoneLabel(sheet.timezone, sheet.date)})`;
+}
+
+const PAGE_WIDTH = 792; // US Letter, landscape
+const PAGE_HEIGHT = 612;
+const MARGIN = 36;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 12;
+
+const PDF_COLUMNS: Array<{ header: string; width: number; value: (entry: CallSheetEntry) => string }> = [
+  { header: 'Call', width: 44, value: (entry) => formatCallSheetTime(entry.callTime) },
+  {
+    header: 'Wrap',
+    width: 52,
+    value: (entry) => `${formatCallSheetTime(entry.wrapTime)}${entry.wrapsNextDay ? ' (+1)' : ''}`,
+  },
+  { header: 'Name', width: 120, value: (entry) => entry.paName },
+  { header: 'Phone', width: 96, value: (entry) => entry.phone || '' },
+  {
+    header: 'Location',
+    width: 170,
+    value: (entry) => [entry.location, entry.unitBase && `Unit base: ${entry.unitBase}`].filter(Boolean).join('\n'),
+  },
+  { header: 'Status', width: 70, value: (entry) => SHIFT_STATUS_LABELS[entry.status] },
+  { header: 'Notes', width: 168, value: (entry) => entry.notes.join('\n') },
+];
+
+/**
+ * Renders the call sheet as a one-table PDF, continuing onto new pages as needed
+ */
+export async function callSheetToPdf(sheet: CallSheet): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${sheet.productionName} call sheet ${sheet.date}`);
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  page.drawText(toPdfText(sheet.productionName), { x: MARGIN, y: y - 16, size: 16, font: boldFont });
+  y -= 34;
+  page.drawText(toPdfText(`Call Sheet – ${formatCallSheetDate(sheet)}`), { x: MARGIN, y, size: 11, font });
+  y -= 14;
+  page.drawText(`${sheet.entries.length} crew`, { x: MARGIN, y, size: FONT_SIZE, font, color: rgb(0.4, 0.4, 0.4) });
+  y -= 20;
+
+  let rowsTop = y; // Where the first row on the current page starts
+  const drawHeader = () => {
+    let x = MARGIN;
+    for (const column of PDF_COLUMNS) {
+      page.drawText(column.header, { x, y, size: FONT_SIZE, font: boldFont });
+      x += column.width;
+    }
+    y -= 6;
+    drawRule(page, y);
+    y -= LINE_HEIGHT;
+    rowsTop = y;
+  };
+  const addPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+    drawHeader();
+  };
+
+  drawHeader();
+
+  if (sheet.entries.length === 0) {
+    page.drawText('No crew scheduled for this date.', { x: MARGIN, y, size: FONT_SIZE, font });
+  }
+
+  for (const entry of sheet.entries) {
+    const cells = PDF_COLUMNS.map((column) => wrapText(toPdfText(column.value(entry)), font, column.width - 6));
+    const rowLines = Math.max(...cells.map((lines) => lines.length));
+
+    // Rows that fit on a page start on a fresh one rather than splitting; taller rows continue onto the next
+    if (y - rowLines * LINE_HEIGHT < MARGIN && y < rowsTop) {
+      addPage();
+    }
+
+    for (let lineIndex = 0; lineIndex < rowLines; lineIndex++) {
+      if (lineIndex > 0) {
+        y -= LINE_HEIGHT;
+        if (y < MARGIN + LINE_HEIGHT) addPage();
+      }
+
+      let x = MARGIN;
+      cells.forEach((lines, index) => {
+        if (lines[lineIndex]) page.drawText(lines[lineIndex], { x, y, size: FONT_SIZE, font });
+        x += PDF_COLUMNS[index].width;
+      });
+    }
+
+    y -= 6;
+    drawRule(page, y);
+    y -= LINE_HEIGHT;
+  }
+
+  return pdf.save();
+}
+
+function drawRule(page: PDFPage, y: number) {
+  page.drawLine({
+    start: { x: MARGIN, y },
+    end: { x: PAGE_WIDTH - MARGIN, y },
+    thickness: 0.5,
+    color: rgb(0.8, 0.8, 0.8),
+  });
+}
+
+/**
+ * The standard PDF fonts only cover Latin-1 plus a few typographic marks, so
+ * anything else is replaced rather than failing the whole export
+ */
+function toPdfText(text: string): string {
+  return text.replace(/[^\n\x20-\x7E\xA0-\xFF–—‘’“”•…]/g, '?');
+}
+
+/**
+ * Splits text into lines that fit a column width, keeping explicit line breaks.
+ * Words wider than the column, like long emails or URLs, are broken mid-word.
+ */
+function wrapText(text: string, font: PDFFont, maxWidth: number): string[] {
+  if (!text) return [''];
+
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, FONT_SIZE) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) lines.push(line);
+      const pieces = breakWord(word, font, maxWidth);
+      lines.push(...pieces.slice(0, -1));
+      line = pieces[pieces.length - 1];
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function breakWord(word: string, font: PDFFont, maxWidth: number): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && font.widthOfTextAtSize(piece + char, FONT_SIZE) > maxWidth) {
+      pieces.push(piece);
+      piece = char;
+    } else {
+      piece += char;
+    }
+  }
+  pieces.push(piece);
+  return pieces;
+}
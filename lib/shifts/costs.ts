@@ -0,0 +1,133 @@
+import type { Database } from '@/lib/supabase/types';
+import { getMondayOfWeekISO } from '@/lib/utils/dates';
+import type { SchedulingRules } from './rules';
+import { getShiftDuration } from './time';
+import type { ShiftTimes } from './time';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type User = Database['public']['Tables']['users']['Row'];
+type ProductionMember = Database['public']['Tables']['production_members']['Row'];
+
+export interface PayRates {
+  dayRate: number | null;
+  hourlyRate: number | null;
+}
+
+export interface WeeklyLaborCost {
+  weekStart: string;
+  budget: number | null; // null when the production hasn't set a weekly budget
+  plannedCost: number; // Booked shifts at their scheduled call and wrap
+  spentCost: number; // Approved hours actually worked
+  unpricedShifts: number; // Booked shifts with no call/wrap or no rate for the PA
+  overBudget: boolean; // Planned or spent cost is over the budget
+}
+
+/** Overtime pay as a multiple of the regular hourly rate */
+export const OVERTIME_MULTIPLIER = 1.5;
+
+// Shifts that will be (or were) paid
+const BOOKED_STATUSES: Shift['confirmation_status'][] = ['pending', 'confirmed', 'release_requested'];
+
+/**
+ * A PA's rates on a production: the production's override where set, otherwise
+ * the PA's own standard rates
+ */
+export function getEffectiveRates(
+  user: Pick<User, 'day_rate' | 'hourly_rate'> | null,
+  membership: Pick<ProductionMember, 'day_rate' | 'hourly_rate'> | null
+): PayRates {
+  const hasOverride = membership?.day_rate != null || membership?.hourly_rate != null;
+  const source = hasOverride ? membership : user;
+  return { dayRate: source?.day_rate ?? null, hourlyRate: source?.hourly_rate ?? null };
+}
+
+/**
+ * Labor cost of a shift worked between the given call and wrap: the scheduled
+ * times for planned cost, or approved actual hours for spent cost. A day rate
+ * covers the hours up to the daily overtime threshold; hours past it are paid
+ * at 1.5x the hourly rate, or of the day rate spread over the threshold when
+ * there's no hourly rate. Returns null when there are no times or no rate.
+ */
+export function calculateShiftCost(
+  times: ShiftTimes,
+  rates: PayRates,
+  rules: Pick<SchedulingRules, 'dailyOvertimeHours'>
+): number | null {
+  const duration = getShiftDuration(times);
+  if (!duration || (rates.dayRate == null && rates.hourlyRate == null)) return null;
+
+  const workedHours = duration.workedMinutes / 60;
+  const threshold = rules.dailyOvertimeHours;
+  const overtimeHours = threshold > 0 ? Math.max(0, workedHours - threshold) : 0;
+
+  if (rates.dayRate != null) {
+    const overtimeRate = rates.hourlyRate ?? (threshold > 0 ? rates.dayRate / threshold : 0);
+    return rates.dayRate + overtimeHours * overtimeRate * OVERTIME_MULTIPLIER;
+  }
+
+  const hourlyRate = rates.hourlyRate ?? 0;
+  return (workedHours - overtimeHours) * hourlyRate + overtimeHours * hourlyRate * OVERTIME_MULTIPLIER;
+}
+
+/**
+ * The hours a coordinator approved for a shift, or null until they do
+ */
+export function getApprovedTimes(
+  shift: Pick<Shift, 'actual_call_time' | 'actual_wrap_time' | 'actual_breaks' | 'hours_status'>
+): ShiftTimes | null {
+  if (shift.hours_status !== 'approved') return null;
+  return { call_time: shift.actual_call_time, wrap_time: shift.actual_wrap_time, breaks: shift.actual_breaks };
+}
+
+/**
+ * Totals the planned cost of booked shifts and the spent cost of approved
+ * hours per Mon-Sun week against the weekly budget
+ *
+ * @param weekStarts - Mondays to report on, so weeks without bookings still appear
+ */
+export function summarizeLaborByWeek(
+  shifts: Shift[],
+  ratesByPa: Record<string, PayRates>,
+  rules: Pick<SchedulingRules, 'dailyOvertimeHours'>,
+  weeklyBudget: number | null,
+  weekStarts: string[]
+): WeeklyLaborCost[] {
+  const weeks = new Map<string, WeeklyLaborCost>(
+    weekStarts.map((weekStart) => [
+      weekStart,
+      { weekStart, budget: weeklyBudget, plannedCost: 0, spentCost: 0, unpricedShifts: 0, overBudget: false },
+    ])
+  );
+
+  for (const shift of shifts) {
+    const week = weeks.get(getMondayOfWeekISO(shift.date));
+    if (!week) continue;
+
+    const rates = ratesByPa[shift.assigned_pa_id] ?? { dayRate: null, hourlyRate: null };
+    const approved = getApprovedTimes(shift);
+    if (approved) {
+      week.spentCost += calculateShiftCost(approved, rates, rules) ?? 0;
+    }
+
+    if (!BOOKED_STATUSES.includes(shift.confirmation_status)) continue;
+
+    const planned = calculateShiftCost(shift, rates, rules);
+    if (planned === null) {
+      week.unpricedShifts += 1;
+    } else {
+      week.plannedCost += planned;
+    }
+  }
+
+  return [...weeks.values()].map((week) => ({
+    ...week,
+    overBudget: week.budget !== null && Math.max(week.plannedCost, week.spentCost) > week.budget,
+  }));
+}
+
+/**
+ * Formats an amount as whole dollars, e.g. "$1,250"
+ */
+export function formatCurrency(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+}
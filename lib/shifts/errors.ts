@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import type { RuleViolation } from './rules';
+
+export type ShiftErrorCode =
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'not_found'
+  | 'invalid_input'
+  | 'invalid_transition'
+  | 'conflict'
+  | 'rule_violation';
+
+const STATUS_BY_CODE: Record<ShiftErrorCode, number> = {
+  unauthenticated: 401,
+  forbidden: 403,
+  not_found: 404,
+  invalid_input: 400,
+  invalid_transition: 409,
+  conflict: 409,
+  rule_violation: 422,
+};
+
+/**
+ * Error raised by the shift service. The code is returned to the client so it
+ * can tell validation problems apart from permission problems.
+ */
+export class ShiftError extends Error {
+  readonly code: ShiftErrorCode;
+  readonly status: number;
+
+  constructor(code: ShiftErrorCode, message: string) {
+    super(message);
+    this.name = 'ShiftError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+/**
+ * Raised when an assignment breaks the production's scheduling rules and the
+ * coordinator hasn't chosen to override them
+ */
+export class RuleViolationError extends ShiftError {
+  readonly violations: RuleViolation[];
+
+  constructor(violations: RuleViolation[]) {
+    super('rule_violation', violations.map((violation) => violation.message).join('; '));
+    this.name = 'RuleViolationError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Converts an error thrown while handling a shift request into a JSON response
+ */
+export function shiftErrorResponse(error: unknown): NextResponse {
+  if (error instanceof RuleViolationError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, violations: error.violations },
+      { status: error.status }
+    );
+  }
+  if (error instanceof ShiftError) {
+    return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+  }
+  // Thrown by request.json() for a malformed body
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ error: 'Request body must be valid JSON', code: 'invalid_input' }, { status: 400 });
+  }
+
+  console.error('Unexpected error in shifts API route:', error instanceof Error ? error.message : error);
+  return NextResponse.json(
+    { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,214 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import ExcelJS from 'exceljs';
+import type { Database } from '@/lib/supabase/types';
+import { getMembership, getProductionMemberIds } from '@/lib/productions/membership';
+import { selectAll } from '@/lib/supabase/paging';
+import { toCsv } from '@/lib/utils/csv';
+import { addDaysToISO, formatISODate } from '@/lib/utils/dates';
+import { ShiftError } from './errors';
+import { formatShiftTimes } from './time';
+import { SHIFT_STATUS_LABELS } from './transitions';
+import { validateDate } from './validation';
+
+type Availability = Database['public']['Tables']['availability']['Row'];
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type ServerClient = SupabaseClient<Database>;
+
+export type GridExportFormat = 'csv' | 'xlsx';
+
+export interface GridExportQuery {
+  productionId: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface GridExportCell {
+  availability: Availability['status'] | null;
+  shift: Shift | null;
+}
+
+export interface GridExport {
+  productionName: string;
+  dates: string[];
+  rows: Array<{ paName: string; cells: GridExportCell[] }>;
+}
+
+const ACTIVE_STATUSES: Shift['confirmation_status'][] = ['pending', 'confirmed', 'release_requested'];
+const MAX_EXPORT_DAYS = 366;
+
+const AVAILABILITY_LABELS: Record<Availability['status'], string> = {
+  unavailable: 'Unavailable',
+  available: 'Available',
+  preferred: 'Preferred',
+};
+
+// Cell fills in the XLSX, matching the grid's colours
+const AVAILABILITY_FILLS: Record<Availability['status'], string> = {
+  unavailable: 'FFFECACA',
+  available: 'FFBBF7D0',
+  preferred: 'FF22C55E',
+};
+const ASSIGNED_FILL = 'FFDBEAFE';
+
+/**
+ * Loads the availability grid for a date range: one row per PA, one cell per date
+ */
+export async function getGridExport(
+  supabase: ServerClient,
+  userId: string,
+  query: GridExportQuery
+): Promise<GridExport> {
+  if (!query.productionId) {
+    throw new ShiftError('invalid_input', 'productionId is required');
+  }
+
+  const startDate = validateDate(query.startDate);
+  const endDate = validateDate(query.endDate);
+  if (endDate < startDate) {
+    throw new ShiftError('invalid_input', 'The end date must be on or after the start date');
+  }
+
+  const dates: string[] = [];
+  for (let date = startDate; date <= endDate; date = addDaysToISO(date, 1)) {
+    if (dates.length === MAX_EXPORT_DAYS) {
+      throw new ShiftError('invalid_input', `Export at most ${MAX_EXPORT_DAYS} days at a time`);
+    }
+    dates.push(date);
+  }
+
+  const membership = await getMembership(supabase, query.productionId, userId);
+  if (!membership || membership.role !== 'PC') {
+    throw new ShiftError('forbidden', 'Only coordinators can export the availability grid');
+  }
+
+  const { data: production, error: productionError } = await supabase
+    .from('productions')
+    .select('name')
+    .eq('id', query.productionId)
+    .maybeSingle();
+
+  if (productionError) {
+    throw new Error(`Failed to fetch production: ${productionError.message}`);
+  }
+  if (!production) {
+    throw new ShiftError('not_found', 'Production not found');
+  }
+
+  const paIds = await getProductionMemberIds(supabase, query.productionId, 'PA');
+  if (paIds.length === 0) {
+    return { productionName: production.name, dates, rows: [] };
+  }
+
+  const { data: pas, error: pasError } = await supabase
+    .from('users')
+    .select('id, name')
+    .in('id', paIds)
+    .order('name');
+
+  if (pasError) {
+    throw new Error(`Failed to fetch PAs: ${pasError.message}`);
+  }
+
+  const availability = await selectAll<Availability>('availability', (from, to) =>
+    supabase
+      .from('availability')
+      .select('*')
+      .in('user_id', paIds)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('id')
+      .range(from, to)
+  );
+
+  // Shifts created before production scoping have no production_id
+  const shifts = await selectAll<Shift>('shifts', (from, to) =>
+    supabase
+      .from('shifts')
+      .select('*')
+      .in('assigned_pa_id', paIds)
+      .or(`production_id.eq.${query.productionId},production_id.is.null`)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('id')
+      .range(from, to)
+  );
+
+  const availabilityByCell = new Map(availability.map((record) => [`${record.user_id}:${record.date}`, record.status]));
+  // A declined or cancelled shift can share a cell with the PA's new booking; the live one wins
+  const shiftByCell = new Map<string, Shift>();
+  for (const shift of shifts) {
+    const key = `${shift.assigned_pa_id}:${shift.date}`;
+    const current = shiftByCell.get(key);
+    if (!current || !ACTIVE_STATUSES.includes(current.confirmation_status)) {
+      shiftByCell.set(key, shift);
+    }
+  }
+
+  return {
+    productionName: production.name,
+    dates,
+    rows: (pas || []).map((pa) => ({
+      paName: pa.name,
+      cells: dates.map((date) => ({
+        availability: availabilityByCell.get(`${pa.id}:${date}`) ?? null,
+        shift: shiftByCell.get(`${pa.id}:${date}`) ?? null,
+      })),
+    })),
+  };
+}
+
+/**
+ * Cell text, e.g. "Available" or "Preferred · 07:00 – 19:00 · Confirmed"
+ */
+function formatCell(cell: GridExportCell): string {
+  const parts: string[] = [];
+  if (cell.availability) parts.push(AVAILABILITY_LABELS[cell.availability]);
+  if (cell.shift) {
+    parts.push(formatShiftTimes(cell.shift), SHIFT_STATUS_LABELS[cell.shift.confirmation_status]);
+  }
+  return parts.join(' · ');
+}
+
+function formatDateHeader(date: string): string {
+  return formatISODate(date, { weekday: 'short', month: 'numeric', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * PA names come from users, so they rely on toCsv keeping text that starts
+ * with =, +, -, @ from being read as a formula
+ */
+export function gridExportToCsv(grid: GridExport): string {
+  return toCsv([
+    ['PA', ...grid.dates.map(formatDateHeader)],
+    ...grid.rows.map((row) => [row.paName, ...row.cells.map(formatCell)]),
+  ]);
+}
+
+/**
+ * Builds an XLSX workbook with the grid's colours and the PA column and date row frozen.
+ * ExcelJS stores plain strings as text cells, so names are never evaluated as formulas.
+ */
+export async function gridExportToXlsx(grid: GridExport): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Availability', {
+    views: [{ state: 'frozen', xSplit: 1, ySplit: 1 }],
+  });
+
+  sheet.columns = [
+    { header: 'PA', width: 24 },
+    ...grid.dates.map((date) => ({ header: formatDateHeader(date), width: 22 })),
+  ];
+  sheet.getRow(1).font = { bold: true };
+
+  for (const row of grid.rows) {
+    const sheetRow = sheet.addRow([row.paName, ...row.cells.map(formatCell)]);
+    row.cells.forEach((cell, index) => {
+      const color = cell.shift ? ASSIGNED_FILL : cell.availability && AVAILABILITY_FILLS[cell.availability];
+      if (color) {
+        sheetRow.getCell(index + 2).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: color } };
+      }
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,357 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { getProductionMemberIds } from '@/lib/productions/membership';
+import {
+  getUserDetails,
+  sendOpenShiftOfferEmail,
+  sendShiftAssignmentEmail,
+  sendShiftCancelledEmail,
+  sendShiftConfirmationEmail,
+  sendShiftReleaseDecisionEmail,
+  sendShiftReleaseRequestEmail,
+  sendShiftScheduleEmail,
+  sendShiftSwapEmail,
+  sendShiftUpdatedEmail,
+} from '@/lib/email/notifications';
+import { getProductionTimezone } from './service';
+import { formatShiftBreak, formatShiftTimes } from './time';
+import type { ShiftStatus } from './transitions';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type OpenShift = Database['public']['Tables']['open_shifts']['Row'];
+type ServerClient = SupabaseClient<Database>;
+
+/** Something that happened to a shift that someone should hear about */
+export type ShiftNotificationEvent =
+  | { type: 'assigned'; shifts: Shift[] } // New offers, one email per PA
+  | { type: 'updated'; shift: Shift; previous: Shift }
+  | { type: 'cancelled'; shift: Shift; cancelledById: string; reason?: string | null }
+  | { type: 'confirmed'; shift: Shift }
+  | { type: 'declined'; shift: Shift }
+  | { type: 'reoffered'; shift: Shift } // A declined, cancelled or released shift offered to its PA again
+  | { type: 'release_requested'; shift: Shift; reason: string | null }
+  | { type: 'release_decided'; shift: Shift; approved: boolean; decidedById: string; note: string | null }
+  | { type: 'swap_accepted'; shift: Shift; originalPaId: string }
+  | { type: 'open_shift_posted'; openShift: OpenShift };
+
+// Statuses where the PA still expects to work, so changes are worth telling them about
+const LIVE_STATUSES: ShiftStatus[] = ['pending', 'confirmed', 'release_requested'];
+
+/**
+ * Sends the emails for a shift event. Failures are logged rather than thrown,
+ * so a mail problem never undoes the change that triggered it.
+ */
+export async function notifyShiftEvent(supabase: ServerClient, event: ShiftNotificationEvent): Promise<void> {
+  try {
+    switch (event.type) {
+      case 'assigned':
+        await notifyAssigned(supabase, event.shifts);
+        break;
+      case 'updated':
+        await notifyUpdated(supabase, event.shift, event.previous);
+        break;
+      case 'cancelled':
+        await notifyCancelled(supabase, event.shift, event.cancelledById, event.reason ?? null);
+        break;
+      case 'reoffered':
+        await notifyAssigned(supabase, [event.shift]);
+        break;
+      case 'release_requested':
+        await notifyReleaseRequested(supabase, event.shift, event.reason);
+        break;
+      case 'release_decided':
+        await notifyReleaseDecided(supabase, event.shift, event.approved, event.decidedById, event.note);
+        break;
+      case 'confirmed':
+      case 'declined':
+        await notifyResponse(supabase, event.shift, event.type);
+        break;
+      case 'swap_accepted':
+        await notifySwapAccepted(supabase, event.shift, event.originalPaId);
+        break;
+      case 'open_shift_posted':
+        await notifyAvailablePAs(supabase, event.openShift);
+        break;
+    }
+  } catch (error) {
+    console.error(`Failed to send ${event.type} shift notification:`, error);
+  }
+}
+
+/**
+ * PAs with a single new shift get the regular assignment email; PAs with
+ * several get one email listing them all
+ */
+async function notifyAssigned(supabase: ServerClient, shifts: Shift[]): Promise<void> {
+  const shiftsByPa = new Map<string, Shift[]>();
+  for (const shift of shifts) {
+    shiftsByPa.set(shift.assigned_pa_id, [...(shiftsByPa.get(shift.assigned_pa_id) || []), shift]);
+  }
+
+  for (const paShifts of shiftsByPa.values()) {
+    const [first] = paShifts;
+    const paDetails = await getUserDetails(first.assigned_pa_id, supabase);
+    const pcDetails = await getUserDetails(first.assigned_by_id, supabase);
+
+    if (!paDetails?.email) {
+      console.warn('Could not fetch PA email address for notification');
+      continue;
+    }
+
+    const timezone = await getProductionTimezone(supabase, first.production_id);
+
+    if (paShifts.length === 1) {
+      await sendShiftAssignmentEmail({
+        paEmail: paDetails.email,
+        paName: paDetails.name,
+        date: first.date,
+        callTime: first.call_time,
+        wrapTime: first.wrap_time,
+        location: first.location,
+        unitBase: first.unit_base,
+        parkingNotes: first.parking_notes,
+        mapUrl: first.map_url,
+        pcName: pcDetails?.name,
+        timezone,
+      });
+      continue;
+    }
+
+    await sendShiftScheduleEmail({
+      paEmail: paDetails.email,
+      paName: paDetails.name,
+      pcName: pcDetails?.name,
+      shifts: paShifts.map((shift) => ({
+        date: shift.date,
+        callTime: shift.call_time,
+        wrapTime: shift.wrap_time,
+        location: shift.location,
+      })),
+      timezone,
+    });
+  }
+}
+
+/**
+ * Lists the details that differ between two versions of a shift, e.g.
+ * "Call/Wrap: 07:00 – 17:00 → 08:00 – 18:00"
+ */
+function describeShiftChanges(previous: Shift, shift: Shift): string[] {
+  const describe = (value: string | null) => value || 'None';
+  const changes: string[] = [];
+
+  const previousTimes = formatShiftTimes(previous);
+  const times = formatShiftTimes(shift);
+  if (previousTimes !== times) changes.push(`Call/Wrap: ${previousTimes} → ${times}`);
+
+  const fields: Array<[string, keyof Shift]> = [
+    ['Location', 'location'],
+    ['Unit base', 'unit_base'],
+    ['Parking', 'parking_notes'],
+    ['Map', 'map_url'],
+  ];
+  for (const [label, field] of fields) {
+    if (previous[field] !== shift[field]) {
+      changes.push(`${label}: ${describe(previous[field] as string | null)} → ${describe(shift[field] as string | null)}`);
+    }
+  }
+
+  const previousBreaks = (previous.breaks || []).map(formatShiftBreak).join(', ');
+  const breaks = (shift.breaks || []).map(formatShiftBreak).join(', ');
+  if (previousBreaks !== breaks) changes.push(`Breaks: ${describe(breaks)}`);
+
+  return changes;
+}
+
+async function notifyUpdated(supabase: ServerClient, shift: Shift, previous: Shift): Promise<void> {
+  if (!LIVE_STATUSES.includes(shift.confirmation_status)) return;
+
+  const changes = describeShiftChanges(previous, shift);
+  if (changes.length === 0) return;
+
+  const paDetails = await getUserDetails(shift.assigned_pa_id, supabase);
+  if (!paDetails?.email) {
+    console.warn('Could not fetch PA email address for notification');
+    return;
+  }
+
+  await sendShiftUpdatedEmail({
+    paEmail: paDetails.email,
+    paName: paDetails.name,
+    date: shift.date,
+    changes,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    location: shift.location,
+    timezone: await getProductionTimezone(supabase, shift.production_id),
+  });
+}
+
+async function notifyCancelled(
+  supabase: ServerClient,
+  shift: Shift,
+  cancelledById: string,
+  reason: string | null
+): Promise<void> {
+  const paDetails = await getUserDetails(shift.assigned_pa_id, supabase);
+  const pcDetails = await getUserDetails(cancelledById, supabase);
+
+  if (!paDetails?.email) {
+    console.warn('Could not fetch PA email address for notification');
+    return;
+  }
+
+  await sendShiftCancelledEmail({
+    paEmail: paDetails.email,
+    paName: paDetails.name,
+    date: shift.date,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    reason,
+    pcName: pcDetails?.name,
+    timezone: await getProductionTimezone(supabase, shift.production_id),
+  });
+}
+
+/**
+ * Tells the coordinator who offered the shift how the PA answered
+ */
+async function notifyResponse(supabase: ServerClient, shift: Shift, response: 'confirmed' | 'declined'): Promise<void> {
+  const paDetails = await getUserDetails(shift.assigned_pa_id, supabase);
+  const pcDetails = await getUserDetails(shift.assigned_by_id, supabase);
+  const proposedPa = shift.proposed_pa_id ? await getUserDetails(shift.proposed_pa_id, supabase) : null;
+
+  if (!pcDetails?.email || !paDetails?.name) {
+    console.warn('Could not fetch required details for email notification');
+    return;
+  }
+
+  await sendShiftConfirmationEmail({
+    pcEmail: pcDetails.email,
+    paName: paDetails.name,
+    date: shift.date,
+    confirmationStatus: response,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    declineReason: shift.decline_reason,
+    proposedReplacementName: proposedPa?.name,
+    timezone: await getProductionTimezone(supabase, shift.production_id),
+  });
+}
+
+/**
+ * Tells the coordinator who offered the shift that the PA wants out of it
+ */
+async function notifyReleaseRequested(supabase: ServerClient, shift: Shift, reason: string | null): Promise<void> {
+  const paDetails = await getUserDetails(shift.assigned_pa_id, supabase);
+  const pcDetails = await getUserDetails(shift.assigned_by_id, supabase);
+
+  if (!pcDetails?.email || !paDetails?.name) {
+    console.warn('Could not fetch required details for email notification');
+    return;
+  }
+
+  await sendShiftReleaseRequestEmail({
+    pcEmail: pcDetails.email,
+    paName: paDetails.name,
+    date: shift.date,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    reason,
+    timezone: await getProductionTimezone(supabase, shift.production_id),
+  });
+}
+
+async function notifyReleaseDecided(
+  supabase: ServerClient,
+  shift: Shift,
+  approved: boolean,
+  decidedById: string,
+  note: string | null
+): Promise<void> {
+  const paDetails = await getUserDetails(shift.assigned_pa_id, supabase);
+  const pcDetails = await getUserDetails(decidedById, supabase);
+
+  if (!paDetails?.email) {
+    console.warn('Could not fetch PA email address for notification');
+    return;
+  }
+
+  await sendShiftReleaseDecisionEmail({
+    paEmail: paDetails.email,
+    paName: paDetails.name,
+    date: shift.date,
+    approved,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    note,
+    pcName: pcDetails?.name,
+    timezone: await getProductionTimezone(supabase, shift.production_id),
+  });
+}
+
+/**
+ * The replacement gets a regular offer; the PA who declined hears they're off the shift
+ */
+async function notifySwapAccepted(supabase: ServerClient, shift: Shift, originalPaId: string): Promise<void> {
+  await notifyAssigned(supabase, [shift]);
+
+  const originalPa = await getUserDetails(originalPaId, supabase);
+  const replacementPa = await getUserDetails(shift.assigned_pa_id, supabase);
+  if (!originalPa?.email) {
+    console.warn('Could not fetch original PA email address for swap notification');
+    return;
+  }
+
+  await sendShiftSwapEmail({
+    paEmail: originalPa.email,
+    paName: originalPa.name,
+    replacementName: replacementPa?.name || 'Another PA',
+    date: shift.date,
+  });
+}
+
+/**
+ * Emails every PA who marked themselves available or preferred for the date
+ * and isn't already booked on it
+ */
+async function notifyAvailablePAs(supabase: ServerClient, openShift: OpenShift): Promise<void> {
+  const paIds = await getProductionMemberIds(supabase, openShift.production_id, 'PA');
+  if (paIds.length === 0) return;
+
+  const { data: availability } = await supabase
+    .from('availability')
+    .select('user_id')
+    .eq('date', openShift.date)
+    .in('status', ['available', 'preferred'])
+    .in('user_id', paIds);
+
+  const { data: booked } = await supabase
+    .from('shifts')
+    .select('assigned_pa_id')
+    .eq('production_id', openShift.production_id)
+    .eq('date', openShift.date);
+
+  const bookedIds = new Set((booked || []).map((shift) => shift.assigned_pa_id));
+  const offerIds = (availability || [])
+    .map((record) => record.user_id)
+    .filter((id) => !bookedIds.has(id));
+
+  if (offerIds.length === 0) return;
+
+  const { data: pas } = await supabase.from('users').select('email, name').in('id', offerIds);
+  const timezone = await getProductionTimezone(supabase, openShift.production_id);
+
+  for (const pa of pas || []) {
+    await sendOpenShiftOfferEmail({
+      paEmail: pa.email,
+      paName: pa.name,
+      date: openShift.date,
+      callTime: openShift.call_time,
+      wrapTime: openShift.wrap_time,
+      location: openShift.location,
+      slotsTotal: openShift.slots_total,
+      timezone,
+    });
+  }
+}
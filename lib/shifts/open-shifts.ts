@@ -0,0 +1,331 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { getTodayInTimezone } from '@/lib/utils/dates';
+import { RuleViolationError, ShiftError } from './errors';
+import { notifyShiftEvent } from './notifications';
+import { validateBreaks, validateDate, validateTimeRange } from './validation';
+import {
+  assertCanSchedule,
+  assertPaCanWork,
+  assertCanManageShift,
+  buildDetailsUpdate,
+  checkSchedulingRules,
+  getProductionTimezone,
+  getShiftOrThrow,
+  recordShiftHistory,
+} from './service';
+import type { ShiftDetailsInput } from './service';
+import { getAvailabilityWindowConflict } from './time';
+
+type OpenShift = Database['public']['Tables']['open_shifts']['Row'];
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type ServerClient = SupabaseClient<Database>;
+
+export interface CreateOpenShiftInput extends ShiftDetailsInput {
+  productionId: string;
+  date: string;
+  slots: number;
+}
+
+const MAX_OPEN_SLOTS = 50;
+const CLAIM_ATTEMPTS = 3;
+
+async function getOpenShiftOrThrow(supabase: ServerClient, openShiftId: string): Promise<OpenShift> {
+  const { data, error } = await supabase
+    .from('open_shifts')
+    .select('*')
+    .eq('id', openShiftId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch open shift: ${error.message}`);
+  }
+  if (!data) {
+    throw new ShiftError('not_found', 'Open shift not found');
+  }
+
+  return data;
+}
+
+/**
+ * Posts a number of open slots for a date and offers them to available PAs
+ */
+export async function createOpenShift(
+  supabase: ServerClient,
+  userId: string,
+  input: CreateOpenShiftInput
+): Promise<OpenShift> {
+  if (!input.productionId) {
+    throw new ShiftError('invalid_input', 'productionId is required');
+  }
+
+  const slots = Number(input.slots);
+  if (!Number.isInteger(slots) || slots < 1 || slots > MAX_OPEN_SLOTS) {
+    throw new ShiftError('invalid_input', `Slots must be a whole number between 1 and ${MAX_OPEN_SLOTS}`);
+  }
+
+  const date = validateDate(input.date);
+  const details = buildDetailsUpdate(input);
+  validateTimeRange(details.call_time ?? null, details.wrap_time ?? null);
+  validateBreaks(details.breaks ?? null, details.call_time ?? null, details.wrap_time ?? null);
+
+  await assertCanSchedule(supabase, input.productionId, userId);
+
+  const { data, error } = await supabase
+    .from('open_shifts')
+    .insert({
+      ...details,
+      production_id: input.productionId,
+      date,
+      slots_total: slots,
+      slots_filled: 0,
+      status: 'open',
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create open shift: ${error.message}`);
+  }
+
+  await notifyShiftEvent(supabase, { type: 'open_shift_posted', openShift: data });
+
+  return data;
+}
+
+/**
+ * Offers a declined shift's day to the other available PAs as a one-slot open
+ * shift with the same details. The declined shift keeps a link to the offer so
+ * it isn't re-offered twice.
+ */
+export async function reofferDeclinedShift(
+  supabase: ServerClient,
+  userId: string,
+  shiftId: string
+): Promise<{ openShift: OpenShift; shift: Shift }> {
+  const shift = await getShiftOrThrow(supabase, shiftId);
+  await assertCanManageShift(supabase, shift, userId);
+
+  if (shift.confirmation_status !== 'declined') {
+    throw new ShiftError('invalid_transition', 'Only declined shifts can be re-offered');
+  }
+  if (!shift.production_id) {
+    throw new ShiftError('invalid_input', 'Shifts without a production cannot be re-offered');
+  }
+  if (shift.reoffered_open_shift_id) {
+    throw new ShiftError('conflict', 'This shift has already been re-offered');
+  }
+
+  const openShift = await createOpenShift(supabase, userId, {
+    productionId: shift.production_id,
+    date: shift.date,
+    slots: 1,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    location: shift.location,
+    unitBase: shift.unit_base,
+    parkingNotes: shift.parking_notes,
+    mapUrl: shift.map_url,
+    breaks: shift.breaks,
+  });
+
+  const { data, error } = await supabase
+    .from('shifts')
+    .update({ reoffered_open_shift_id: openShift.id })
+    .eq('id', shiftId)
+    .eq('confirmation_status', 'declined')
+    .is('reoffered_open_shift_id', null)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to link re-offered shift: ${error.message}`);
+  }
+  if (!data) {
+    // Someone else changed the shift meanwhile; withdraw the duplicate offer
+    await supabase.from('open_shifts').update({ status: 'closed' }).eq('id', openShift.id);
+    throw new ShiftError('invalid_transition', 'This shift was changed by someone else. Please refresh.');
+  }
+
+  await recordShiftHistory(supabase, shiftId, userId, 'declined', 'declined', 'Re-offered to available PAs');
+
+  return { openShift, shift: data };
+}
+
+/**
+ * Stops accepting claims on an open shift. Slots already claimed keep their shifts.
+ */
+export async function closeOpenShift(
+  supabase: ServerClient,
+  userId: string,
+  openShiftId: string
+): Promise<OpenShift> {
+  const openShift = await getOpenShiftOrThrow(supabase, openShiftId);
+  await assertCanSchedule(supabase, openShift.production_id, userId);
+
+  if (openShift.status !== 'open') {
+    throw new ShiftError('invalid_transition', `This open shift is already ${openShift.status}`);
+  }
+
+  const { data, error } = await supabase
+    .from('open_shifts')
+    .update({ status: 'closed' })
+    .eq('id', openShiftId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to close open shift: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Reserves one slot using the current fill count as an optimistic lock, so two
+ * PAs claiming at once can't both take the last slot. Closes the offer when full.
+ */
+async function reserveSlot(supabase: ServerClient, openShiftId: string): Promise<OpenShift> {
+  for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+    const openShift = await getOpenShiftOrThrow(supabase, openShiftId);
+
+    if (openShift.status !== 'open' || openShift.slots_filled >= openShift.slots_total) {
+      throw new ShiftError('invalid_transition', 'All slots for this shift have been filled');
+    }
+
+    const slotsFilled = openShift.slots_filled + 1;
+    const { data, error } = await supabase
+      .from('open_shifts')
+      .update({
+        slots_filled: slotsFilled,
+        status: slotsFilled >= openShift.slots_total ? 'filled' : 'open',
+      })
+      .eq('id', openShiftId)
+      .eq('status', 'open')
+      .eq('slots_filled', openShift.slots_filled)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to claim slot: ${error.message}`);
+    }
+    if (data) {
+      return data;
+    }
+  }
+
+  throw new ShiftError('conflict', 'Other PAs are claiming this shift right now. Please try again.');
+}
+
+/**
+ * Gives a reserved slot back when the shift for it couldn't be created
+ */
+async function releaseSlot(supabase: ServerClient, openShift: OpenShift): Promise<void> {
+  const { error } = await supabase
+    .from('open_shifts')
+    .update({ slots_filled: openShift.slots_filled - 1, status: 'open' })
+    .eq('id', openShift.id)
+    .eq('slots_filled', openShift.slots_filled);
+
+  if (error) {
+    console.error(`Failed to release slot on open shift ${openShift.id}:`, error.message);
+  }
+}
+
+/**
+ * Claims a slot on an open shift for the current PA, creating a confirmed shift
+ */
+export async function claimOpenShift(
+  supabase: ServerClient,
+  userId: string,
+  openShiftId: string
+): Promise<{ openShift: OpenShift; shift: Shift }> {
+  const openShift = await getOpenShiftOrThrow(supabase, openShiftId);
+
+  if (openShift.status !== 'open') {
+    throw new ShiftError('invalid_transition', 'This open shift is no longer accepting claims');
+  }
+  if (openShift.date < getTodayInTimezone(await getProductionTimezone(supabase, openShift.production_id))) {
+    throw new ShiftError('invalid_transition', 'This open shift is in the past');
+  }
+
+  // A declined shift's re-offer is for someone else, not the PA who turned it down
+  const { data: declined, error: declinedError } = await supabase
+    .from('shifts')
+    .select('id')
+    .eq('reoffered_open_shift_id', openShift.id)
+    .eq('assigned_pa_id', userId)
+    .limit(1);
+
+  if (declinedError) {
+    throw new Error(`Failed to check declined shifts: ${declinedError.message}`);
+  }
+  if (declined && declined.length > 0) {
+    throw new ShiftError('forbidden', 'You declined this shift, so it has been offered to other PAs');
+  }
+
+  const { data: availability } = await supabase
+    .from('availability')
+    .select('status, available_from, available_until')
+    .eq('user_id', userId)
+    .eq('date', openShift.date)
+    .maybeSingle();
+
+  if (availability?.status !== 'available' && availability?.status !== 'preferred') {
+    throw new ShiftError('forbidden', 'Mark yourself available on this date to claim the shift');
+  }
+
+  const windowConflict = getAvailabilityWindowConflict(openShift, availability);
+  if (windowConflict) {
+    throw new ShiftError('forbidden', `${windowConflict}. Change your hours for the day to claim the shift`);
+  }
+
+  await assertPaCanWork(supabase, openShift.production_id, userId, openShift.date);
+
+  // PAs can't override the rules; a coordinator can still assign the shift directly
+  const violations = await checkSchedulingRules(supabase, openShift.production_id, [
+    {
+      assigned_pa_id: userId,
+      date: openShift.date,
+      call_time: openShift.call_time,
+      wrap_time: openShift.wrap_time,
+      breaks: openShift.breaks,
+    },
+  ]);
+  if (violations.length > 0) {
+    throw new RuleViolationError(violations);
+  }
+
+  const reserved = await reserveSlot(supabase, openShiftId);
+
+  const { data: shift, error } = await supabase
+    .from('shifts')
+    .insert({
+      date: openShift.date,
+      production_id: openShift.production_id,
+      open_shift_id: openShift.id,
+      assigned_pa_id: userId,
+      assigned_by_id: openShift.created_by,
+      confirmation_status: 'confirmed',
+      call_time: openShift.call_time,
+      wrap_time: openShift.wrap_time,
+      location: openShift.location,
+      unit_base: openShift.unit_base,
+      parking_notes: openShift.parking_notes,
+      map_url: openShift.map_url,
+      breaks: openShift.breaks,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await releaseSlot(supabase, reserved);
+    throw new Error(`Failed to create shift: ${error.message}`);
+  }
+
+  await recordShiftHistory(supabase, shift.id, userId, null, 'confirmed', 'Claimed open shift');
+  await notifyShiftEvent(supabase, { type: 'confirmed', shift });
+
+  return { openShift: reserved, shift };
+}
@@ -0,0 +1,34 @@
+import type { Database } from '@/lib/supabase/types';
+
+type Production = Database['public']['Tables']['productions']['Row'];
+
+/** Hours a shift offer can stay pending before each follow-up; 0 turns it off */
+export interface ReminderSettings {
+  reminderAfterHours: number; // Remind the PA
+  escalateAfterHours: number; // Tell the coordinator who assigned it
+  autoReleaseAfterHours: number; // Withdraw the offer so the day can be re-staffed
+}
+
+/** Applied when a production hasn't set its own timings; auto-release is opt-in */
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  reminderAfterHours: 24,
+  escalateAfterHours: 48,
+  autoReleaseAfterHours: 0,
+};
+
+export const REMINDER_SETTING_LABELS: Record<keyof ReminderSettings, string> = {
+  reminderAfterHours: 'Remind PA after (hours)',
+  escalateAfterHours: 'Escalate to PC after (hours)',
+  autoReleaseAfterHours: 'Auto-release after (hours)',
+};
+
+/**
+ * Reads a production's reminder columns, falling back to the defaults for unset ones
+ */
+export function getReminderSettings(production: Production | null): ReminderSettings {
+  return {
+    reminderAfterHours: production?.reminder_after_hours ?? DEFAULT_REMINDER_SETTINGS.reminderAfterHours,
+    escalateAfterHours: production?.escalate_after_hours ?? DEFAULT_REMINDER_SETTINGS.escalateAfterHours,
+    autoReleaseAfterHours: production?.auto_release_after_hours ?? DEFAULT_REMINDER_SETTINGS.autoReleaseAfterHours,
+  };
+}
@@ -0,0 +1,253 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { selectAll } from '@/lib/supabase/paging';
+import {
+  getUserDetails,
+  sendShiftAutoReleasedEmail,
+  sendShiftEscalationEmail,
+  sendShiftReminderEmail,
+} from '@/lib/email/notifications';
+import type { PendingShiftEmailData } from '@/lib/email/notifications';
+import { addDaysToISO, getTodayInTimezone } from '@/lib/utils/dates';
+import { getReminderSettings } from './reminder-settings';
+import type { ReminderSettings } from './reminder-settings';
+import { recordShiftHistory } from './service';
+import { SHIFT_TRANSITIONS } from './transitions';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type Production = Database['public']['Tables']['productions']['Row'];
+type ServerClient = SupabaseClient<Database>;
+
+export interface ReminderRunOptions {
+  now?: Date;
+  dryRun?: boolean; // Report what would happen without emailing or changing shifts
+}
+
+export interface ReminderAction {
+  shiftId: string;
+  productionId: string | null;
+  date: string;
+  action: 'reminded' | 'escalated' | 'released';
+  hoursPending: number;
+}
+
+export interface ReminderRunSummary {
+  checked: number;
+  actions: ReminderAction[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Follows up on pending shift offers: reminds the PA, then escalates to the
+ * coordinator who assigned the shift, then (when the production opts in)
+ * releases the shift. Each step happens once per offer and is skipped for
+ * shifts whose day has passed. Meant to run hourly from a cron.
+ *
+ * The client must be able to read and update every production's shifts.
+ */
+export async function runShiftReminders(
+  supabase: ServerClient,
+  options: ReminderRunOptions = {}
+): Promise<ReminderRunSummary> {
+  const now = options.now ?? new Date();
+
+  // A day's margin either side of UTC; each production's own "today" is checked below.
+  // Every page is read before any shift changes, so releases don't shift the pages.
+  const shifts = await selectAll<Shift>('pending shifts', (from, to) =>
+    supabase
+      .from('shifts')
+      .select('*')
+      .eq('confirmation_status', 'pending')
+      .gte('date', addDaysToISO(now.toISOString().slice(0, 10), -1))
+      .order('date')
+      .order('id')
+      .range(from, to)
+  );
+
+  const productions = await getProductionsById(supabase, shifts);
+  const actions: ReminderAction[] = [];
+
+  for (const shift of shifts) {
+    const production = shift.production_id ? productions.get(shift.production_id) ?? null : null;
+    if (shift.date < getTodayInTimezone(production?.timezone)) continue;
+
+    const settings = getReminderSettings(production);
+    const offeredAt = Date.parse(shift.offered_at ?? shift.created_at ?? '');
+    if (Number.isNaN(offeredAt)) continue;
+
+    const hoursPending = Math.floor((now.getTime() - offeredAt) / HOUR_MS);
+    const action = getDueAction(shift, settings, hoursPending);
+    if (!action) continue;
+
+    const entry: ReminderAction = {
+      shiftId: shift.id,
+      productionId: shift.production_id,
+      date: shift.date,
+      action,
+      hoursPending,
+    };
+    if (options.dryRun) {
+      actions.push(entry);
+      continue;
+    }
+
+    try {
+      if (action === 'released') {
+        await releaseShift(supabase, shift, production, hoursPending);
+      } else if (action === 'escalated') {
+        await escalateShift(supabase, shift, production, settings, hoursPending, now);
+      } else {
+        await remindPa(supabase, shift, production, hoursPending, now);
+      }
+      actions.push(entry);
+    } catch (stepError) {
+      // One bad shift shouldn't stop the others; it's retried on the next run
+      console.error(`Failed to process pending shift ${shift.id} (${action}):`, stepError);
+    }
+  }
+
+  return { checked: shifts.length, actions };
+}
+
+/**
+ * The furthest follow-up the shift is due for that hasn't happened yet
+ */
+function getDueAction(
+  shift: Shift,
+  settings: ReminderSettings,
+  hoursPending: number
+): ReminderAction['action'] | null {
+  if (settings.autoReleaseAfterHours > 0 && hoursPending >= settings.autoReleaseAfterHours) return 'released';
+  if (settings.escalateAfterHours > 0 && hoursPending >= settings.escalateAfterHours && !shift.escalated_at) {
+    return 'escalated';
+  }
+  if (settings.reminderAfterHours > 0 && hoursPending >= settings.reminderAfterHours && !shift.reminder_sent_at) {
+    return 'reminded';
+  }
+  return null;
+}
+
+async function getProductionsById(supabase: ServerClient, shifts: Shift[]): Promise<Map<string, Production>> {
+  const ids = [...new Set(shifts.map((shift) => shift.production_id).filter((id): id is string => !!id))];
+  if (ids.length === 0) return new Map();
+
+  const { data, error } = await supabase.from('productions').select('*').in('id', ids);
+  if (error) {
+    throw new Error(`Failed to fetch productions: ${error.message}`);
+  }
+
+  return new Map((data || []).map((production) => [production.id, production]));
+}
+
+function toEmailData(shift: Shift, paName: string, production: Production | null, hoursPending: number): PendingShiftEmailData {
+  return {
+    paName,
+    date: shift.date,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    location: shift.location,
+    hoursPending,
+    timezone: production?.timezone,
+  };
+}
+
+/**
+ * Marks a follow-up as done, only while the shift is still pending so a PA
+ * answering mid-run isn't overwritten. Returns false if the shift moved on.
+ */
+async function markShift(
+  supabase: ServerClient,
+  shiftId: string,
+  update: Database['public']['Tables']['shifts']['Update']
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('shifts')
+    .update(update)
+    .eq('id', shiftId)
+    .eq('confirmation_status', 'pending')
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update shift: ${error.message}`);
+  }
+  return !!data;
+}
+
+async function remindPa(
+  supabase: ServerClient,
+  shift: Shift,
+  production: Production | null,
+  hoursPending: number,
+  now: Date
+): Promise<void> {
+  if (!(await markShift(supabase, shift.id, { reminder_sent_at: now.toISOString() }))) return;
+
+  const pa = await getUserDetails(shift.assigned_pa_id, supabase);
+  if (!pa?.email) {
+    console.warn('Could not fetch PA email address for reminder');
+    return;
+  }
+
+  await sendShiftReminderEmail({ ...toEmailData(shift, pa.name, production, hoursPending), paEmail: pa.email });
+}
+
+async function escalateShift(
+  supabase: ServerClient,
+  shift: Shift,
+  production: Production | null,
+  settings: ReminderSettings,
+  hoursPending: number,
+  now: Date
+): Promise<void> {
+  // A reminder skipped by a long gap between runs counts as sent
+  const marked = await markShift(supabase, shift.id, {
+    escalated_at: now.toISOString(),
+    reminder_sent_at: shift.reminder_sent_at ?? now.toISOString(),
+  });
+  if (!marked) return;
+
+  const pa = await getUserDetails(shift.assigned_pa_id, supabase);
+  const pc = await getUserDetails(shift.assigned_by_id, supabase);
+  if (!pc?.email) {
+    console.warn('Could not fetch PC email address for escalation');
+    return;
+  }
+
+  await sendShiftEscalationEmail({
+    ...toEmailData(shift, pa?.name || 'The PA', production, hoursPending),
+    pcEmail: pc.email,
+    autoReleaseInHours: settings.autoReleaseAfterHours > 0 ? settings.autoReleaseAfterHours - hoursPending : null,
+  });
+}
+
+async function releaseShift(
+  supabase: ServerClient,
+  shift: Shift,
+  production: Production | null,
+  hoursPending: number
+): Promise<void> {
+  const transition = SHIFT_TRANSITIONS.auto_release;
+  if (!(await markShift(supabase, shift.id, { confirmation_status: transition.to }))) return;
+
+  await recordShiftHistory(
+    supabase,
+    shift.id,
+    shift.assigned_by_id,
+    'pending',
+    transition.to,
+    `No response after ${hoursPending} hours; released automatically`
+  );
+
+  const pa = await getUserDetails(shift.assigned_pa_id, supabase);
+  const pc = await getUserDetails(shift.assigned_by_id, supabase);
+  const emailData = toEmailData(shift, pa?.name || 'The PA', production, hoursPending);
+
+  if (pa?.email) {
+    await sendShiftAutoReleasedEmail({ ...emailData, recipientEmail: pa.email, recipient: 'PA' });
+  }
+  if (pc?.email) {
+    await sendShiftAutoReleasedEmail({ ...emailData, recipientEmail: pc.email, recipient: 'PC' });
+  }
+}
@@ -0,0 +1,200 @@
+import type { Database } from '@/lib/supabase/types';
+import { getAvailabilityWindowConflict, getShiftDuration } from './time';
+import type { AvailabilityWindow, ShiftTimes } from './time';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type Production = Database['public']['Tables']['productions']['Row'];
+
+export type SchedulingRule =
+  | 'turnaround'
+  | 'consecutive_days'
+  | 'weekly_hours'
+  | 'meal_penalty'
+  | 'availability_window';
+
+/** A limit of 0 turns that rule off */
+export interface SchedulingRules {
+  minTurnaroundHours: number;
+  maxConsecutiveDays: number;
+  maxWeeklyHours: number;
+  mealPenaltyHours: number; // Hours worked without a meal break before a penalty is owed
+  dailyOvertimeHours: number; // Hours worked in a day before the rest is paid as overtime
+  weeklyOvertimeHours: number; // Regular hours in a Mon-Sun week before the rest is overtime
+}
+
+export interface RuleViolation {
+  rule: SchedulingRule;
+  paId: string;
+  date: string;
+  message: string;
+}
+
+/** The shift being checked; times are HH:MM or HH:MM:SS */
+export interface RuleCheckShift extends ShiftTimes {
+  id?: string;
+  assigned_pa_id: string;
+  date: string;
+  confirmation_status?: Shift['confirmation_status'];
+}
+
+/** Applied when a production hasn't set its own limits */
+export const DEFAULT_SCHEDULING_RULES: SchedulingRules = {
+  minTurnaroundHours: 10,
+  maxConsecutiveDays: 6,
+  maxWeeklyHours: 60,
+  mealPenaltyHours: 6,
+  dailyOvertimeHours: 8,
+  weeklyOvertimeHours: 40,
+};
+
+export const SCHEDULING_RULE_LABELS: Record<keyof SchedulingRules, string> = {
+  minTurnaroundHours: 'Minimum turnaround (hours)',
+  maxConsecutiveDays: 'Max consecutive days',
+  maxWeeklyHours: 'Max weekly hours',
+  mealPenaltyHours: 'Meal penalty after (hours)',
+  dailyOvertimeHours: 'Daily overtime after (hours)',
+  weeklyOvertimeHours: 'Weekly overtime after (hours)',
+};
+
+// Shifts that still occupy the PA's time
+const ACTIVE_STATUSES: Shift['confirmation_status'][] = ['pending', 'confirmed', 'release_requested'];
+
+/**
+ * Reads a production's rule columns, falling back to the defaults for unset ones
+ */
+export function getSchedulingRules(production: Production | null): SchedulingRules {
+  return {
+    minTurnaroundHours: production?.min_turnaround_hours ?? DEFAULT_SCHEDULING_RULES.minTurnaroundHours,
+    maxConsecutiveDays: production?.max_consecutive_days ?? DEFAULT_SCHEDULING_RULES.maxConsecutiveDays,
+    maxWeeklyHours: production?.max_weekly_hours ?? DEFAULT_SCHEDULING_RULES.maxWeeklyHours,
+    mealPenaltyHours: production?.meal_penalty_hours ?? DEFAULT_SCHEDULING_RULES.mealPenaltyHours,
+    dailyOvertimeHours: production?.daily_overtime_hours ?? DEFAULT_SCHEDULING_RULES.dailyOvertimeHours,
+    weeklyOvertimeHours: production?.weekly_overtime_hours ?? DEFAULT_SCHEDULING_RULES.weeklyOvertimeHours,
+  };
+}
+
+function toDayNumber(dateStr: string): number {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+}
+
+function toHours(timeStr: string): number {
+  const [hours, minutes] = timeStr.split(':').map(Number);
+  return hours + minutes / 60;
+}
+
+/**
+ * Start and end of a shift in hours from a common epoch, so shifts on
+ * different days (including overnight ones) can be compared
+ */
+function getShiftSpan(shift: RuleCheckShift): { start: number; end: number } | null {
+  const duration = getShiftDuration(shift);
+  if (!duration || !shift.call_time) return null;
+  const start = toDayNumber(shift.date) * 24 + toHours(shift.call_time);
+  return { start, end: start + duration.spanMinutes / 60 };
+}
+
+/**
+ * Length of the run of consecutive working days that includes a date
+ */
+export function countConsecutiveDays(workedDates: Set<string>, date: string): number {
+  const day = toDayNumber(date);
+  const worked = new Set([...workedDates].map(toDayNumber));
+  let count = 1;
+  for (let d = day - 1; worked.has(d); d--) count++;
+  for (let d = day + 1; worked.has(d); d++) count++;
+  return count;
+}
+
+function formatHours(hours: number): string {
+  return Number.isInteger(hours) ? `${hours}h` : `${hours.toFixed(1)}h`;
+}
+
+/**
+ * Checks a shift against a production's rules, given the PA's other shifts.
+ * Shifts with the same ID (the shift being edited) and inactive shifts are ignored.
+ */
+export function evaluateShiftRules(
+  rules: SchedulingRules,
+  shift: RuleCheckShift,
+  otherShifts: RuleCheckShift[]
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const violation = (rule: SchedulingRule, message: string) =>
+    violations.push({ rule, paId: shift.assigned_pa_id, date: shift.date, message });
+
+  const paShifts = otherShifts.filter(
+    (other) =>
+      other.assigned_pa_id === shift.assigned_pa_id &&
+      other.id !== shift.id &&
+      (!other.confirmation_status || ACTIVE_STATUSES.includes(other.confirmation_status))
+  );
+
+  if (rules.minTurnaroundHours > 0) {
+    const span = getShiftSpan(shift);
+    if (span) {
+      for (const other of paShifts) {
+        const otherSpan = getShiftSpan(other);
+        if (!otherSpan || Math.abs(toDayNumber(other.date) - toDayNumber(shift.date)) > 1) continue;
+
+        const rest = otherSpan.start < span.start ? span.start - otherSpan.end : otherSpan.start - span.end;
+        if (rest < rules.minTurnaroundHours) {
+          const when = otherSpan.start < span.start ? "after the previous shift's wrap" : "before the next shift's call";
+          violation(
+            'turnaround',
+            `Only ${formatHours(Math.max(rest, 0))} rest ${when} (minimum ${rules.minTurnaroundHours}h)`
+          );
+        }
+      }
+    }
+  }
+
+  if (rules.maxConsecutiveDays > 0) {
+    const consecutiveDays = countConsecutiveDays(new Set(paShifts.map((other) => other.date)), shift.date);
+    if (consecutiveDays > rules.maxConsecutiveDays) {
+      violation(
+        'consecutive_days',
+        `${consecutiveDays} days in a row (max ${rules.maxConsecutiveDays})`
+      );
+    }
+  }
+
+  if (rules.maxWeeklyHours > 0) {
+    const day = toDayNumber(shift.date);
+    // Day 0 of the epoch was a Thursday, so Monday-based weeks start at offset 3
+    const monday = day - ((day + 3) % 7);
+    const weeklyHours = [shift, ...paShifts]
+      .filter((s) => toDayNumber(s.date) >= monday && toDayNumber(s.date) < monday + 7)
+      .reduce((total, s) => total + (getShiftDuration(s)?.workedMinutes ?? 0) / 60, 0);
+
+    if (weeklyHours > rules.maxWeeklyHours) {
+      violation('weekly_hours', `${formatHours(weeklyHours)} this week (max ${rules.maxWeeklyHours}h)`);
+    }
+  }
+
+  if (rules.mealPenaltyHours > 0) {
+    const duration = getShiftDuration(shift);
+    if (duration && duration.longestStretchMinutes / 60 > rules.mealPenaltyHours) {
+      violation(
+        'meal_penalty',
+        `${formatHours(duration.longestStretchMinutes / 60)} worked without a meal break (penalty after ${rules.mealPenaltyHours}h)`
+      );
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Checks a shift against the hours the PA said they can work that day. Unlike
+ * the production's rules this always applies; a null window is a whole day.
+ */
+export function evaluateAvailabilityWindow(
+  shift: RuleCheckShift,
+  window: AvailabilityWindow | null
+): RuleViolation[] {
+  const conflict = window && getAvailabilityWindowConflict(shift, window);
+  return conflict
+    ? [{ rule: 'availability_window', paId: shift.assigned_pa_id, date: shift.date, message: conflict }]
+    : [];
+}
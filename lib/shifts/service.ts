@@ -0,0 +1,756 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, ShiftBreak } from '@/lib/supabase/types';
+import { canSchedule, getMembership } from '@/lib/productions/membership';
+import { getUserDetails } from '@/lib/email/notifications';
+import { addDaysToISO } from '@/lib/utils/dates';
+import { RuleViolationError, ShiftError } from './errors';
+import { notifyShiftEvent } from './notifications';
+import { evaluateAvailabilityWindow, evaluateShiftRules, getSchedulingRules } from './rules';
+import type { RuleCheckShift, RuleViolation, SchedulingRules } from './rules';
+import { SHIFT_STATUS_LABELS, SHIFT_TRANSITIONS } from './transitions';
+import type { ShiftAction, ShiftStatus } from './transitions';
+import {
+  normalizeBreaks,
+  normalizeMapUrl,
+  normalizeText,
+  normalizeTime,
+  validateDate,
+  validateBreaks,
+  validateTimeRange,
+} from './validation';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type ShiftInsert = Database['public']['Tables']['shifts']['Insert'];
+type ShiftUpdate = Database['public']['Tables']['shifts']['Update'];
+type ShiftHistory = Database['public']['Tables']['shift_history']['Row'];
+type ServerClient = SupabaseClient<Database>;
+
+const MAX_BATCH_SIZE = 100;
+// Shifts that still hold the PA for their date
+const ACTIVE_SHIFT_STATUSES: ShiftStatus[] = ['pending', 'confirmed', 'release_requested'];
+
+export interface ShiftDetailsInput {
+  callTime?: string | null;
+  wrapTime?: string | null;
+  location?: string | null;
+  unitBase?: string | null;
+  parkingNotes?: string | null;
+  mapUrl?: string | null;
+  breaks?: ShiftBreak[] | null;
+}
+
+export interface CreateShiftInput extends ShiftDetailsInput {
+  productionId: string;
+  assignedPaId: string;
+  date: string;
+}
+
+export type UpdateShiftInput = ShiftDetailsInput;
+
+export interface RuleOverrideOptions {
+  overrideRules?: boolean; // Save even if the production's scheduling rules are broken
+}
+
+export interface ShiftHistoryEntry extends ShiftHistory {
+  actorName: string;
+}
+
+export interface TransitionOptions extends RuleOverrideOptions {
+  reason?: string | null;
+  proposedPaId?: string | null; // Replacement suggested by a PA when declining
+}
+
+/**
+ * Returns the authenticated user's ID or throws an unauthenticated error
+ */
+export async function requireUserId(supabase: ServerClient): Promise<string> {
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    throw new ShiftError('unauthenticated', 'Not authenticated. Please log in.');
+  }
+
+  return user.id;
+}
+
+export async function getShiftOrThrow(supabase: ServerClient, shiftId: string): Promise<Shift> {
+  const { data, error } = await supabase
+    .from('shifts')
+    .select('*')
+    .eq('id', shiftId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch shift: ${error.message}`);
+  }
+  if (!data) {
+    throw new ShiftError('not_found', 'Shift not found');
+  }
+
+  return data;
+}
+
+/**
+ * Ensures the user is a coordinator with scheduling rights on the production
+ */
+export async function assertCanSchedule(
+  supabase: ServerClient,
+  productionId: string,
+  userId: string
+): Promise<void> {
+  const membership = await getMembership(supabase, productionId, userId);
+
+  if (!membership || membership.role !== 'PC' || !canSchedule(membership.permission)) {
+    throw new ShiftError('forbidden', 'You do not have permission to schedule shifts for this production');
+  }
+}
+
+/**
+ * Ensures the user may edit or remove an existing shift
+ */
+export async function assertCanManageShift(
+  supabase: ServerClient,
+  shift: Shift,
+  userId: string
+): Promise<void> {
+  if (shift.production_id) {
+    await assertCanSchedule(supabase, shift.production_id, userId);
+    return;
+  }
+
+  // Shifts created before production scoping can only be changed by the PC who assigned them
+  if (shift.assigned_by_id !== userId) {
+    throw new ShiftError('forbidden', 'You do not have permission to change this shift');
+  }
+}
+
+/**
+ * Ensures the user is the assigned PA or a coordinator on the shift's production
+ */
+async function assertCanViewShift(
+  supabase: ServerClient,
+  shift: Shift,
+  userId: string
+): Promise<void> {
+  if (shift.assigned_pa_id === userId || shift.assigned_by_id === userId) return;
+
+  if (shift.production_id) {
+    const membership = await getMembership(supabase, shift.production_id, userId);
+    if (membership?.role === 'PC') return;
+  }
+
+  throw new ShiftError('forbidden', 'You do not have access to this shift');
+}
+
+/**
+ * Appends a status change to the shift's audit trail. The status change itself
+ * has already been saved, so a failure here is logged rather than surfaced.
+ */
+export async function recordShiftHistory(
+  supabase: ServerClient,
+  shiftId: string,
+  actorId: string,
+  fromStatus: ShiftStatus | null,
+  toStatus: ShiftStatus,
+  reason: string | null
+): Promise<void> {
+  const { error } = await supabase.from('shift_history').insert({
+    shift_id: shiftId,
+    actor_id: actorId,
+    from_status: fromStatus,
+    to_status: toStatus,
+    reason,
+  });
+
+  if (error) {
+    console.error(`Failed to record history for shift ${shiftId}:`, error.message);
+  }
+}
+
+/**
+ * Ensures a PA belongs to the production and isn't already booked there on the date
+ */
+export async function assertPaCanWork(
+  supabase: ServerClient,
+  productionId: string,
+  paId: string,
+  date: string
+): Promise<void> {
+  const membership = await getMembership(supabase, productionId, paId);
+  if (!membership || membership.role !== 'PA') {
+    throw new ShiftError('invalid_input', 'The selected PA is not a member of this production');
+  }
+
+  const { data: existing, error } = await supabase
+    .from('shifts')
+    .select('id')
+    .eq('production_id', productionId)
+    .eq('assigned_pa_id', paId)
+    .eq('date', date)
+    .in('confirmation_status', ACTIVE_SHIFT_STATUSES)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to check existing shifts: ${error.message}`);
+  }
+
+  if (existing && existing.length > 0) {
+    throw new ShiftError('conflict', 'This PA already has a shift on this date');
+  }
+}
+
+/**
+ * Loads a production's scheduling rules. Shifts without a production use the defaults.
+ */
+export async function getProductionRules(
+  supabase: ServerClient,
+  productionId: string | null
+): Promise<SchedulingRules> {
+  if (!productionId) return getSchedulingRules(null);
+
+  const { data, error } = await supabase
+    .from('productions')
+    .select('*')
+    .eq('id', productionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch production rules: ${error.message}`);
+  }
+
+  return getSchedulingRules(data);
+}
+
+/**
+ * A production's timezone, for labelling times in notifications
+ */
+export async function getProductionTimezone(
+  supabase: ServerClient,
+  productionId: string | null
+): Promise<string | null> {
+  if (!productionId) return null;
+
+  const { data, error } = await supabase
+    .from('productions')
+    .select('timezone')
+    .eq('id', productionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch production timezone: ${error.message}`);
+  }
+
+  return data?.timezone ?? null;
+}
+
+/**
+ * Checks new or edited shifts against the production's rules. Each PA's other
+ * shifts within a week either side count, on any production, along with the
+ * other shifts in the same batch. Shifts outside the hours a PA marked
+ * themselves available are flagged too.
+ */
+export async function checkSchedulingRules(
+  supabase: ServerClient,
+  productionId: string | null,
+  candidates: RuleCheckShift[]
+): Promise<RuleViolation[]> {
+  const rules = await getProductionRules(supabase, productionId);
+  const dates = candidates.map((candidate) => candidate.date).sort();
+  const windowStart = addDaysToISO(dates[0], -7);
+  const windowEnd = addDaysToISO(dates[dates.length - 1], 7);
+
+  const paIds = [...new Set(candidates.map((candidate) => candidate.assigned_pa_id))];
+
+  const { data: existing, error } = await supabase
+    .from('shifts')
+    .select('*')
+    .in('assigned_pa_id', paIds)
+    .gte('date', windowStart)
+    .lte('date', windowEnd);
+
+  if (error) {
+    throw new Error(`Failed to fetch shifts for rule checks: ${error.message}`);
+  }
+
+  const { data: availability, error: availabilityError } = await supabase
+    .from('availability')
+    .select('user_id, date, status, available_from, available_until')
+    .in('user_id', paIds)
+    .gte('date', dates[0])
+    .lte('date', dates[dates.length - 1]);
+
+  if (availabilityError) {
+    throw new Error(`Failed to fetch availability for rule checks: ${availabilityError.message}`);
+  }
+
+  // Windows only narrow days the PA is working; unavailable days are shown on the grid
+  const windows = new Map(
+    (availability || [])
+      .filter((record) => record.status !== 'unavailable')
+      .map((record) => [`${record.user_id}|${record.date}`, record])
+  );
+
+  return candidates.flatMap((candidate) => [
+    ...evaluateShiftRules(rules, candidate, [
+      ...(existing || []),
+      ...candidates.filter((other) => other !== candidate),
+    ]),
+    ...evaluateAvailabilityWindow(candidate, windows.get(`${candidate.assigned_pa_id}|${candidate.date}`) ?? null),
+  ]);
+}
+
+/**
+ * Checks that a declined, cancelled or released shift can go back to its PA.
+ * They may have left the production, been booked again or marked the day
+ * unavailable since. Returns the rule violations the coordinator overrode.
+ */
+async function assertCanReoffer(
+  supabase: ServerClient,
+  shift: Shift,
+  options: RuleOverrideOptions
+): Promise<RuleViolation[]> {
+  if (shift.production_id) {
+    await assertPaCanWork(supabase, shift.production_id, shift.assigned_pa_id, shift.date);
+  }
+
+  const { data: availability, error } = await supabase
+    .from('availability')
+    .select('status')
+    .eq('user_id', shift.assigned_pa_id)
+    .eq('date', shift.date)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch availability: ${error.message}`);
+  }
+  if (availability?.status === 'unavailable') {
+    throw new ShiftError('conflict', 'This PA has marked themselves unavailable on this date');
+  }
+
+  const violations = await checkSchedulingRules(supabase, shift.production_id, [
+    {
+      id: shift.id,
+      assigned_pa_id: shift.assigned_pa_id,
+      date: shift.date,
+      call_time: shift.call_time,
+      wrap_time: shift.wrap_time,
+      breaks: shift.breaks,
+    },
+  ]);
+  if (violations.length > 0 && !options.overrideRules) {
+    throw new RuleViolationError(violations);
+  }
+
+  return violations;
+}
+
+/**
+ * Restarts the pending-confirmation clock when a shift is offered again, so
+ * reminders and escalation count from the new offer
+ */
+function newOfferFields(): ShiftUpdate {
+  return { offered_at: new Date().toISOString(), reminder_sent_at: null, escalated_at: null };
+}
+
+/**
+ * Validates the optional detail fields that were provided, keyed by DB column
+ */
+export function buildDetailsUpdate(input: ShiftDetailsInput): ShiftUpdate {
+  const update: ShiftUpdate = {};
+
+  if ('callTime' in input) update.call_time = normalizeTime(input.callTime, 'Call time');
+  if ('wrapTime' in input) update.wrap_time = normalizeTime(input.wrapTime, 'Wrap time');
+  if ('location' in input) update.location = normalizeText(input.location);
+  if ('unitBase' in input) update.unit_base = normalizeText(input.unitBase);
+  if ('parkingNotes' in input) update.parking_notes = normalizeText(input.parkingNotes);
+  if ('mapUrl' in input) update.map_url = normalizeMapUrl(input.mapUrl);
+  if ('breaks' in input) update.breaks = normalizeBreaks(input.breaks);
+
+  return update;
+}
+
+/**
+ * Creates a pending shift for a PA and notifies them
+ */
+export async function createShift(
+  supabase: ServerClient,
+  userId: string,
+  input: CreateShiftInput,
+  options: RuleOverrideOptions = {}
+): Promise<Shift> {
+  const [shift] = await createShifts(supabase, userId, input.productionId, [input], options);
+  return shift;
+}
+
+/**
+ * Creates several pending shifts in one production at once. Every assignment is
+ * validated before anything is saved and the rows go in as a single insert, so
+ * one bad row rejects the whole batch. Each PA gets one email for their new days.
+ * Rule violations reject the batch too unless the coordinator overrides them.
+ */
+export async function createShifts(
+  supabase: ServerClient,
+  userId: string,
+  productionId: string,
+  inputs: Omit<CreateShiftInput, 'productionId'>[],
+  options: RuleOverrideOptions = {}
+): Promise<Shift[]> {
+  if (!productionId) {
+    throw new ShiftError('invalid_input', 'productionId is required');
+  }
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    throw new ShiftError('invalid_input', 'At least one shift is required');
+  }
+  if (inputs.length > MAX_BATCH_SIZE) {
+    throw new ShiftError('invalid_input', `Assign at most ${MAX_BATCH_SIZE} shifts at a time`);
+  }
+
+  await assertCanSchedule(supabase, productionId, userId);
+
+  const seen = new Set<string>();
+  const rows: ShiftInsert[] = [];
+  for (const input of inputs) {
+    if (!input || typeof input !== 'object' || !input.assignedPaId) {
+      throw new ShiftError('invalid_input', 'assignedPaId is required');
+    }
+
+    const date = validateDate(input.date);
+    const details = buildDetailsUpdate(input);
+    validateTimeRange(details.call_time ?? null, details.wrap_time ?? null);
+    validateBreaks(details.breaks ?? null, details.call_time ?? null, details.wrap_time ?? null);
+
+    const key = `${input.assignedPaId}:${date}`;
+    if (seen.has(key)) {
+      throw new ShiftError('invalid_input', 'The same PA is assigned twice on one date');
+    }
+    seen.add(key);
+
+    await assertPaCanWork(supabase, productionId, input.assignedPaId, date);
+
+    rows.push({
+      ...details,
+      date,
+      production_id: productionId,
+      assigned_pa_id: input.assignedPaId,
+      assigned_by_id: userId,
+      confirmation_status: 'pending',
+    });
+  }
+
+  const violations = await checkSchedulingRules(
+    supabase,
+    productionId,
+    rows.map((row) => ({
+      assigned_pa_id: row.assigned_pa_id,
+      date: row.date,
+      call_time: row.call_time ?? null,
+      wrap_time: row.wrap_time ?? null,
+      breaks: row.breaks ?? null,
+    }))
+  );
+  if (violations.length > 0 && !options.overrideRules) {
+    throw new RuleViolationError(violations);
+  }
+
+  const { data, error } = await supabase.from('shifts').insert(rows).select();
+
+  if (error) {
+    throw new Error(`Failed to create ${rows.length === 1 ? 'shift' : 'shifts'}: ${error.message}`);
+  }
+
+  for (const shift of data) {
+    // Keep a record of which rules the coordinator chose to override
+    const overridden = violations
+      .filter((violation) => violation.paId === shift.assigned_pa_id && violation.date === shift.date)
+      .map((violation) => violation.message);
+    await recordShiftHistory(
+      supabase,
+      shift.id,
+      userId,
+      null,
+      'pending',
+      overridden.length > 0 ? `Assigned despite: ${overridden.join('; ')}` : null
+    );
+  }
+  await notifyShiftEvent(supabase, { type: 'assigned', shifts: data });
+
+  return data;
+}
+
+/**
+ * Updates the call/wrap times and location details of a shift
+ */
+export async function updateShift(
+  supabase: ServerClient,
+  userId: string,
+  shiftId: string,
+  input: UpdateShiftInput,
+  options: RuleOverrideOptions = {}
+): Promise<Shift> {
+  const shift = await getShiftOrThrow(supabase, shiftId);
+  await assertCanManageShift(supabase, shift, userId);
+
+  const update = buildDetailsUpdate(input);
+  const callTime = update.call_time !== undefined ? update.call_time : shift.call_time;
+  const wrapTime = update.wrap_time !== undefined ? update.wrap_time : shift.wrap_time;
+  validateTimeRange(callTime, wrapTime);
+  const breaks = update.breaks !== undefined ? update.breaks : shift.breaks;
+  validateBreaks(breaks, callTime, wrapTime);
+
+  const timesChanged =
+    callTime !== shift.call_time ||
+    wrapTime !== shift.wrap_time ||
+    JSON.stringify(breaks) !== JSON.stringify(shift.breaks);
+  if (timesChanged && !options.overrideRules) {
+    const violations = await checkSchedulingRules(supabase, shift.production_id, [
+      { ...shift, call_time: callTime, wrap_time: wrapTime, breaks },
+    ]);
+    if (violations.length > 0) {
+      throw new RuleViolationError(violations);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from('shifts')
+    .update(update)
+    .eq('id', shiftId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update shift: ${error.message}`);
+  }
+
+  await notifyShiftEvent(supabase, { type: 'updated', shift: data, previous: shift });
+
+  return data;
+}
+
+/**
+ * Removes a shift assignment
+ */
+export async function deleteShift(
+  supabase: ServerClient,
+  userId: string,
+  shiftId: string
+): Promise<void> {
+  const shift = await getShiftOrThrow(supabase, shiftId);
+  await assertCanManageShift(supabase, shift, userId);
+
+  const { error } = await supabase.from('shifts').delete().eq('id', shiftId);
+
+  if (error) {
+    throw new Error(`Failed to delete shift: ${error.message}`);
+  }
+
+  // Deleting a shift the PA still holds is a cancellation as far as they're concerned
+  if (SHIFT_TRANSITIONS.cancel.from.includes(shift.confirmation_status)) {
+    await notifyShiftEvent(supabase, { type: 'cancelled', shift, cancelledById: userId });
+  }
+}
+
+/**
+ * Moves a shift through the confirmation state machine on behalf of the PA or
+ * coordinator, records the change in the shift history and notifies the other side
+ */
+export async function transitionShift(
+  supabase: ServerClient,
+  userId: string,
+  shiftId: string,
+  action: ShiftAction,
+  options: TransitionOptions = {}
+): Promise<Shift> {
+  // action comes straight from the request body, so don't let it reach Object.prototype
+  if (typeof action !== 'string' || !Object.hasOwn(SHIFT_TRANSITIONS, action)) {
+    throw new ShiftError('invalid_input', `Unknown shift action: ${action}`);
+  }
+  const transition = SHIFT_TRANSITIONS[action];
+  if (transition.actor === 'system') {
+    throw new ShiftError('forbidden', `${transition.label} only happens automatically`);
+  }
+
+  const note = normalizeText(options.reason);
+  if (transition.requiresReason && !note) {
+    throw new ShiftError('invalid_input', `A reason is required to ${transition.label.toLowerCase()}`);
+  }
+
+  const shift = await getShiftOrThrow(supabase, shiftId);
+
+  if (transition.actor === 'PA') {
+    if (shift.assigned_pa_id !== userId) {
+      throw new ShiftError('forbidden', 'Only the assigned PA can do this');
+    }
+  } else {
+    await assertCanManageShift(supabase, shift, userId);
+  }
+
+  const fromStatus = shift.confirmation_status;
+  if (!transition.from.includes(fromStatus)) {
+    throw new ShiftError(
+      'invalid_transition',
+      `Cannot ${transition.label.toLowerCase()} a shift that is ${SHIFT_STATUS_LABELS[fromStatus].toLowerCase()}`
+    );
+  }
+
+  const update: ShiftUpdate = { confirmation_status: transition.to };
+  let overridden: RuleViolation[] = [];
+  if (action === 'decline') {
+    update.decline_reason = note;
+    update.proposed_pa_id = null;
+
+    if (options.proposedPaId) {
+      if (!shift.production_id) {
+        throw new ShiftError('invalid_input', 'Swaps can only be proposed for production shifts');
+      }
+      if (options.proposedPaId === userId) {
+        throw new ShiftError('invalid_input', 'You cannot propose yourself as the replacement');
+      }
+      await assertPaCanWork(supabase, shift.production_id, options.proposedPaId, shift.date);
+      update.proposed_pa_id = options.proposedPaId;
+    }
+  } else if (transition.to === 'pending') {
+    overridden = await assertCanReoffer(supabase, shift, options);
+
+    // Re-offering starts a fresh response, so drop the previous decline details
+    update.decline_reason = null;
+    update.proposed_pa_id = null;
+    Object.assign(update, newOfferFields());
+  }
+
+  // Guard against a concurrent change by only updating while the status is unchanged
+  const { data, error } = await supabase
+    .from('shifts')
+    .update(update)
+    .eq('id', shiftId)
+    .eq('confirmation_status', fromStatus)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update shift: ${error.message}`);
+  }
+  if (!data) {
+    throw new ShiftError('invalid_transition', 'This shift was changed by someone else. Please refresh.');
+  }
+
+  const historyNote = overridden.length > 0
+    ? [note, `Re-offered despite: ${overridden.map((violation) => violation.message).join('; ')}`]
+        .filter(Boolean)
+        .join('. ')
+    : note;
+  await recordShiftHistory(supabase, shiftId, userId, fromStatus, transition.to, historyNote);
+
+  if (action === 'confirm' || action === 'decline') {
+    await notifyShiftEvent(supabase, { type: action === 'confirm' ? 'confirmed' : 'declined', shift: data });
+  } else if (action === 'cancel') {
+    await notifyShiftEvent(supabase, { type: 'cancelled', shift: data, cancelledById: userId, reason: note });
+  } else if (action === 'reoffer') {
+    await notifyShiftEvent(supabase, { type: 'reoffered', shift: data });
+  } else if (action === 'request_release') {
+    await notifyShiftEvent(supabase, { type: 'release_requested', shift: data, reason: note });
+  } else if (action === 'approve_release' || action === 'deny_release') {
+    await notifyShiftEvent(supabase, {
+      type: 'release_decided',
+      shift: data,
+      approved: action === 'approve_release',
+      decidedById: userId,
+      note,
+    });
+  }
+
+  return data;
+}
+
+/**
+ * Accepts a declining PA's proposed replacement: the shift is reassigned to the
+ * proposed PA as a new pending offer, and both PAs are notified
+ */
+export async function acceptShiftSwap(
+  supabase: ServerClient,
+  userId: string,
+  shiftId: string
+): Promise<Shift> {
+  const shift = await getShiftOrThrow(supabase, shiftId);
+  await assertCanManageShift(supabase, shift, userId);
+
+  if (shift.confirmation_status !== 'declined' || !shift.proposed_pa_id || !shift.production_id) {
+    throw new ShiftError('invalid_transition', 'This shift has no swap proposal to accept');
+  }
+
+  const originalPaId = shift.assigned_pa_id;
+  const replacementPaId = shift.proposed_pa_id;
+  await assertPaCanWork(supabase, shift.production_id, replacementPaId, shift.date);
+
+  const { data, error } = await supabase
+    .from('shifts')
+    .update({
+      assigned_pa_id: replacementPaId,
+      assigned_by_id: userId,
+      confirmation_status: 'pending',
+      decline_reason: null,
+      proposed_pa_id: null,
+      ...newOfferFields(),
+    })
+    .eq('id', shiftId)
+    .eq('confirmation_status', 'declined')
+    .eq('proposed_pa_id', replacementPaId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to reassign shift: ${error.message}`);
+  }
+  if (!data) {
+    throw new ShiftError('invalid_transition', 'This shift was changed by someone else. Please refresh.');
+  }
+
+  const originalPa = await getUserDetails(originalPaId, supabase);
+  const replacementPa = await getUserDetails(replacementPaId, supabase);
+
+  await recordShiftHistory(
+    supabase,
+    shiftId,
+    userId,
+    'declined',
+    'pending',
+    `Swap accepted: ${replacementPa?.name || 'replacement PA'} replaces ${originalPa?.name || 'original PA'}`
+  );
+
+  await notifyShiftEvent(supabase, { type: 'swap_accepted', shift: data, originalPaId });
+
+  return data;
+}
+
+/**
+ * Returns a shift's status history, oldest first, with the name of whoever made each change
+ */
+export async function getShiftHistory(
+  supabase: ServerClient,
+  userId: string,
+  shiftId: string
+): Promise<ShiftHistoryEntry[]> {
+  const shift = await getShiftOrThrow(supabase, shiftId);
+  await assertCanViewShift(supabase, shift, userId);
+
+  const { data: history, error } = await supabase
+    .from('shift_history')
+    .select('*')
+    .eq('shift_id', shiftId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch shift history: ${error.message}`);
+  }
+
+  if (!history || history.length === 0) {
+    return [];
+  }
+
+  const actorIds = [...new Set(history.map((entry) => entry.actor_id))];
+  const { data: actors } = await supabase.from('users').select('id, name').in('id', actorIds);
+
+  return history.map((entry) => ({
+    ...entry,
+    actorName: (actors || []).find((actor) => actor.id === entry.actor_id)?.name || 'Unknown',
+  }));
+}
@@ -0,0 +1,177 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/types';
+import { getProductionMemberIds } from '@/lib/productions/membership';
+import { addDaysToISO, getMondayOfWeekISO } from '@/lib/utils/dates';
+import { ShiftError } from './errors';
+import { assertCanSchedule, getProductionRules } from './service';
+import { countConsecutiveDays, evaluateAvailabilityWindow, evaluateShiftRules } from './rules';
+import type { SchedulingRules } from './rules';
+import type { AvailabilityWindow } from './time';
+import { normalizeTime, validateDate } from './validation';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type AvailabilityStatus = Database['public']['Tables']['availability']['Row']['status'];
+type ServerClient = SupabaseClient<Database>;
+
+const ACTIVE_STATUSES: Shift['confirmation_status'][] = ['pending', 'confirmed', 'release_requested'];
+
+export interface CrewSuggestion {
+  paId: string;
+  name: string;
+  availability: Exclude<AvailabilityStatus, 'unavailable'>;
+  daysThisWeek: number;
+  daysInProduction: number;
+  consecutiveDays: number; // Length of the working run if this PA takes the day
+  score: number;
+  excludedReasons: string[]; // Non-empty when the PA shouldn't be booked
+}
+
+export interface SuggestCrewInput {
+  productionId: string;
+  date: string;
+  callTime?: string | null;
+  wrapTime?: string | null;
+}
+
+/**
+ * Ranks the PAs available on a date for booking. Preferred days rank above
+ * available ones, then PAs who have worked less this week and on the production
+ * overall come first. PAs who would break the production's scheduling rules
+ * are listed last with the reasons they were excluded.
+ */
+export function rankCrewCandidates(
+  candidates: Array<{
+    paId: string;
+    name: string;
+    availability: Exclude<AvailabilityStatus, 'unavailable'>;
+    window?: AvailabilityWindow | null;
+  }>,
+  shifts: Shift[],
+  productionId: string,
+  date: string,
+  callTime: string | null,
+  wrapTime: string | null,
+  rules: SchedulingRules
+): CrewSuggestion[] {
+  const monday = getMondayOfWeekISO(date);
+  const sunday = addDaysToISO(monday, 6);
+
+  return candidates
+    .map((candidate) => {
+      const paShifts = shifts.filter(
+        (shift) =>
+          shift.assigned_pa_id === candidate.paId && ACTIVE_STATUSES.includes(shift.confirmation_status)
+      );
+      const daysThisWeek = paShifts.filter((shift) => shift.date >= monday && shift.date <= sunday).length;
+      const daysInProduction = paShifts.filter((shift) => shift.production_id === productionId).length;
+      const consecutiveDays = countConsecutiveDays(new Set(paShifts.map((shift) => shift.date)), date);
+
+      // Meal penalties depend on the shift, not the PA, so they don't rule anyone out
+      const shift = { assigned_pa_id: candidate.paId, date, call_time: callTime, wrap_time: wrapTime };
+      const excludedReasons = [
+        ...evaluateShiftRules(rules, shift, paShifts),
+        ...evaluateAvailabilityWindow(shift, candidate.window ?? null),
+      ]
+        .filter((violation) => violation.rule !== 'meal_penalty')
+        .map((violation) => violation.message);
+
+      const score =
+        (candidate.availability === 'preferred' ? 100 : 50) - daysThisWeek * 10 - daysInProduction * 2;
+
+      return {
+        paId: candidate.paId,
+        name: candidate.name,
+        availability: candidate.availability,
+        daysThisWeek,
+        daysInProduction,
+        consecutiveDays,
+        score,
+        excludedReasons,
+      };
+    })
+    .sort((a, b) => {
+      if (a.excludedReasons.length === 0 !== (b.excludedReasons.length === 0)) {
+        return a.excludedReasons.length === 0 ? -1 : 1;
+      }
+      return b.score - a.score || a.name.localeCompare(b.name);
+    });
+}
+
+/**
+ * Loads availability and shift history for a production's PAs and ranks them for a date
+ */
+export async function suggestCrew(
+  supabase: ServerClient,
+  userId: string,
+  input: SuggestCrewInput
+): Promise<CrewSuggestion[]> {
+  if (!input.productionId) {
+    throw new ShiftError('invalid_input', 'productionId is required');
+  }
+
+  const date = validateDate(input.date);
+  const callTime = normalizeTime(input.callTime, 'Call time');
+  const wrapTime = normalizeTime(input.wrapTime, 'Wrap time');
+
+  await assertCanSchedule(supabase, input.productionId, userId);
+  const rules = await getProductionRules(supabase, input.productionId);
+
+  const paIds = await getProductionMemberIds(supabase, input.productionId, 'PA');
+  if (paIds.length === 0) return [];
+
+  const { data: availability, error: availabilityError } = await supabase
+    .from('availability')
+    .select('user_id, status, available_from, available_until')
+    .eq('date', date)
+    .in('status', ['available', 'preferred'])
+    .in('user_id', paIds);
+
+  if (availabilityError) {
+    throw new Error(`Failed to fetch availability: ${availabilityError.message}`);
+  }
+  if (!availability || availability.length === 0) return [];
+
+  const candidateIds = availability.map((record) => record.user_id);
+
+  // Production shifts count toward fairness; shifts on any production near the
+  // date count toward the scheduling rules and double-booking
+  const windowStart = addDaysToISO(date, -Math.max(rules.maxConsecutiveDays, 7));
+  const windowEnd = addDaysToISO(date, Math.max(rules.maxConsecutiveDays, 7));
+  const { data: shifts, error: shiftsError } = await supabase
+    .from('shifts')
+    .select('*')
+    .in('assigned_pa_id', candidateIds)
+    .or(`production_id.eq.${input.productionId},and(date.gte.${windowStart},date.lte.${windowEnd})`);
+
+  if (shiftsError) {
+    throw new Error(`Failed to fetch shifts: ${shiftsError.message}`);
+  }
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, name')
+    .in('id', candidateIds);
+
+  if (usersError) {
+    throw new Error(`Failed to fetch PAs: ${usersError.message}`);
+  }
+
+  // PAs already booked that day aren't candidates at all. Declined and
+  // cancelled shifts don't count, so the PA can be booked again.
+  const bookedIds = new Set(
+    (shifts || [])
+      .filter((shift) => shift.date === date && ACTIVE_STATUSES.includes(shift.confirmation_status))
+      .map((shift) => shift.assigned_pa_id)
+  );
+
+  const candidates = availability
+    .filter((record) => !bookedIds.has(record.user_id))
+    .map((record) => ({
+      paId: record.user_id,
+      name: (users || []).find((user) => user.id === record.user_id)?.name || 'Unknown',
+      availability: record.status as Exclude<AvailabilityStatus, 'unavailable'>,
+      window: record,
+    }));
+
+  return rankCrewCandidates(candidates, shifts || [], input.productionId, date, callTime, wrapTime, rules);
+}
@@ -0,0 +1,166 @@
+import type { ShiftBreak } from '@/lib/supabase/types';
+
+/** The parts of a shift that determine when it's worked */
+export interface ShiftTimes {
+  call_time: string | null;
+  wrap_time: string | null;
+  breaks?: ShiftBreak[] | null;
+}
+
+export interface ShiftDuration {
+  spanMinutes: number; // Call to wrap
+  breakMinutes: number;
+  workedMinutes: number;
+  longestStretchMinutes: number; // Longest run of work without a break
+}
+
+export const SHIFT_BREAK_LABELS: Record<ShiftBreak['type'], string> = {
+  meal: 'Meal break',
+  split: 'Split',
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toMinutes(timeStr: string): number {
+  const [hours, minutes] = timeStr.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes from the call to a time on the shift. Times earlier than the call
+ * fall on the following day, which is how overnight shifts are stored.
+ */
+export function minutesFromCall(callTime: string, timeStr: string): number {
+  const offset = toMinutes(timeStr) - toMinutes(callTime);
+  return offset < 0 ? offset + MINUTES_PER_DAY : offset;
+}
+
+/**
+ * True when the wrap falls on the day after the shift date
+ */
+export function wrapsNextDay(shift: ShiftTimes): boolean {
+  return !!shift.call_time && !!shift.wrap_time && toMinutes(shift.wrap_time) < toMinutes(shift.call_time);
+}
+
+/**
+ * Span, break and worked minutes of a shift, or null until both call and wrap are set
+ */
+export function getShiftDuration(shift: ShiftTimes): ShiftDuration | null {
+  if (!shift.call_time || !shift.wrap_time) return null;
+
+  const callTime = shift.call_time;
+  const spanMinutes = minutesFromCall(callTime, shift.wrap_time);
+  const breaks = (shift.breaks || [])
+    .map((b) => ({ start: minutesFromCall(callTime, b.start), end: minutesFromCall(callTime, b.end) }))
+    .sort((a, b) => a.start - b.start);
+
+  let breakMinutes = 0;
+  let longestStretchMinutes = 0;
+  let stretchStart = 0;
+  for (const b of breaks) {
+    breakMinutes += b.end - b.start;
+    longestStretchMinutes = Math.max(longestStretchMinutes, b.start - stretchStart);
+    stretchStart = b.end;
+  }
+  longestStretchMinutes = Math.max(longestStretchMinutes, spanMinutes - stretchStart);
+
+  return {
+    spanMinutes,
+    breakMinutes,
+    workedMinutes: spanMinutes - breakMinutes,
+    longestStretchMinutes,
+  };
+}
+
+/**
+ * Formats minutes as e.g. "10h 30m"
+ */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+function formatClock(timeStr: string): string {
+  return timeStr.split(':').slice(0, 2).join(':');
+}
+
+/**
+ * Formats call and wrap as "18:00 – 04:00 (+1)", marking a wrap on the next day
+ */
+export function formatShiftTimes(shift: ShiftTimes): string {
+  const call = shift.call_time ? formatClock(shift.call_time) : 'Not set';
+  const wrap = shift.wrap_time ? formatClock(shift.wrap_time) : 'Not set';
+  return `${call} – ${wrap}${wrapsNextDay(shift) ? ' (+1)' : ''}`;
+}
+
+/**
+ * Breaks with times trimmed to HH:MM, ready for time inputs
+ */
+export function toBreakInputs(breaks: ShiftBreak[] | null): ShiftBreak[] {
+  return (breaks || []).map((b) => ({ ...b, start: formatClock(b.start), end: formatClock(b.end) }));
+}
+
+/**
+ * Formats a break as "Meal break 12:00 – 12:30"
+ */
+export function formatShiftBreak(shiftBreak: ShiftBreak): string {
+  return `${SHIFT_BREAK_LABELS[shiftBreak.type]} ${formatClock(shiftBreak.start)} – ${formatClock(shiftBreak.end)}`;
+}
+
+/** The hours of a day a PA can work; an unset end is open */
+export interface AvailabilityWindow {
+  available_from: string | null;
+  available_until: string | null;
+}
+
+/**
+ * Formats a window as "From 14:00", "Until 18:00" or "10:00 – 18:00", or null
+ * when the PA is free all day
+ */
+export function formatAvailabilityWindow(window: AvailabilityWindow): string | null {
+  const from = window.available_from ? formatClock(window.available_from) : null;
+  const until = window.available_until ? formatClock(window.available_until) : null;
+  if (from && until) return `${from} – ${until}`;
+  if (from) return `From ${from}`;
+  if (until) return `Until ${until}`;
+  return null;
+}
+
+/**
+ * Window times trimmed to HH:MM, ready for time inputs
+ */
+export function toAvailabilityWindowInputs(window: AvailabilityWindow | null): { from: string; until: string } {
+  return {
+    from: window?.available_from ? formatClock(window.available_from) : '',
+    until: window?.available_until ? formatClock(window.available_until) : '',
+  };
+}
+
+/**
+ * Why a shift falls outside a PA's availability window, or null when it fits.
+ * A wrap on the next day always runs past an "until" time. Shifts without a
+ * call time can't be checked yet.
+ */
+export function getAvailabilityWindowConflict(shift: ShiftTimes, window: AvailabilityWindow): string | null {
+  if (!shift.call_time) return null;
+
+  const call = toMinutes(shift.call_time);
+  if (window.available_from && call < toMinutes(window.available_from)) {
+    return `Call ${formatClock(shift.call_time)} is before availability starts (from ${formatClock(window.available_from)})`;
+  }
+
+  if (window.available_until) {
+    const until = formatClock(window.available_until);
+    if (call > toMinutes(window.available_until)) {
+      return `Call ${formatClock(shift.call_time)} is after availability ends (until ${until})`;
+    }
+    if (shift.wrap_time && call + minutesFromCall(shift.call_time, shift.wrap_time) > toMinutes(window.available_until)) {
+      const wrap = `${formatClock(shift.wrap_time)}${wrapsNextDay(shift) ? ' (+1)' : ''}`;
+      return `Wrap ${wrap} is after availability ends (until ${until})`;
+    }
+  }
+
+  return null;
+}
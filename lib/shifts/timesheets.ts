@@ -0,0 +1,383 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, ShiftBreak } from '@/lib/supabase/types';
+import { getMembership, getProductionMemberIds } from '@/lib/productions/membership';
+import { toCsv } from '@/lib/utils/csv';
+import { addDaysToISO, getMondayOfWeekISO, getTodayInTimezone } from '@/lib/utils/dates';
+import { ShiftError } from './errors';
+import { getSchedulingRules } from './rules';
+import type { SchedulingRules } from './rules';
+import { getShiftDuration } from './time';
+import { assertCanManageShift, getProductionTimezone, getShiftOrThrow } from './service';
+import { normalizeBreaks, normalizeTime, validateBreaks, validateDate, validateTimeRange } from './validation';
+
+type Shift = Database['public']['Tables']['shifts']['Row'];
+type ShiftUpdate = Database['public']['Tables']['shifts']['Update'];
+type ServerClient = SupabaseClient<Database>;
+
+export interface ActualHoursInput {
+  actualCallTime?: string | null;
+  actualWrapTime?: string | null;
+  actualBreaks?: ShiftBreak[] | null;
+}
+
+export interface TimesheetQuery {
+  productionId: string;
+  weekStart: string; // Any date in the week; the timesheet covers its Mon-Sun
+  paId?: string | null; // Limit to one PA
+  approvedOnly?: boolean; // Payroll exports only include approved hours
+}
+
+export interface TimesheetEntry {
+  shiftId: string;
+  paId: string;
+  paName: string;
+  date: string;
+  callTime: string | null;
+  wrapTime: string | null;
+  actualCallTime: string | null;
+  actualWrapTime: string | null;
+  actualBreaks: ShiftBreak[] | null;
+  hoursStatus: Shift['hours_status'];
+  breakMinutes: number;
+  workedMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+}
+
+export interface TimesheetTotal {
+  paId: string;
+  paName: string;
+  workedMinutes: number;
+  regularMinutes: number;
+  overtimeMinutes: number;
+}
+
+export interface Timesheet {
+  productionId: string;
+  productionName: string;
+  weekStart: string;
+  weekEnd: string;
+  rules: Pick<SchedulingRules, 'dailyOvertimeHours' | 'weeklyOvertimeHours'>;
+  entries: TimesheetEntry[];
+  totals: TimesheetTotal[];
+}
+
+// Shifts the PA actually works, so hours can be logged against them
+const WORKED_STATUSES: Shift['confirmation_status'][] = ['confirmed', 'release_requested'];
+
+/**
+ * Splits each entry's worked minutes into regular and overtime. Minutes past the
+ * daily threshold are overtime; after that, regular minutes past the weekly
+ * threshold are overtime too, counted in date order per PA. A threshold of 0
+ * turns that kind of overtime off.
+ */
+export function calculateOvertime(
+  entries: TimesheetEntry[],
+  rules: Pick<SchedulingRules, 'dailyOvertimeHours' | 'weeklyOvertimeHours'>
+): TimesheetEntry[] {
+  const dailyLimit = rules.dailyOvertimeHours * 60;
+  const weeklyLimit = rules.weeklyOvertimeHours * 60;
+  const regularByPaWeek = new Map<string, number>();
+
+  return [...entries]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((entry) => {
+      let regularMinutes = dailyLimit > 0 ? Math.min(entry.workedMinutes, dailyLimit) : entry.workedMinutes;
+
+      if (weeklyLimit > 0) {
+        const key = `${entry.paId}:${getMondayOfWeekISO(entry.date)}`;
+        const regularSoFar = regularByPaWeek.get(key) ?? 0;
+        regularMinutes = Math.max(0, Math.min(regularMinutes, weeklyLimit - regularSoFar));
+        regularByPaWeek.set(key, regularSoFar + regularMinutes);
+      }
+
+      return { ...entry, regularMinutes, overtimeMinutes: entry.workedMinutes - regularMinutes };
+    });
+}
+
+function toEntry(shift: Shift, paName: string): TimesheetEntry {
+  const duration = getShiftDuration({
+    call_time: shift.actual_call_time,
+    wrap_time: shift.actual_wrap_time,
+    breaks: shift.actual_breaks,
+  });
+
+  return {
+    shiftId: shift.id,
+    paId: shift.assigned_pa_id,
+    paName,
+    date: shift.date,
+    callTime: shift.call_time,
+    wrapTime: shift.wrap_time,
+    actualCallTime: shift.actual_call_time,
+    actualWrapTime: shift.actual_wrap_time,
+    actualBreaks: shift.actual_breaks,
+    hoursStatus: shift.hours_status,
+    breakMinutes: duration?.breakMinutes ?? 0,
+    workedMinutes: duration?.workedMinutes ?? 0,
+    regularMinutes: 0,
+    overtimeMinutes: 0,
+  };
+}
+
+/**
+ * Validates logged hours, falling back to what's already saved for fields that weren't sent
+ */
+function buildActualHoursUpdate(shift: Shift, input: ActualHoursInput): ShiftUpdate {
+  const actualCallTime =
+    'actualCallTime' in input ? normalizeTime(input.actualCallTime, 'Actual call time') : shift.actual_call_time;
+  const actualWrapTime =
+    'actualWrapTime' in input ? normalizeTime(input.actualWrapTime, 'Actual wrap time') : shift.actual_wrap_time;
+  const actualBreaks = 'actualBreaks' in input ? normalizeBreaks(input.actualBreaks) : shift.actual_breaks;
+
+  if (!actualCallTime || !actualWrapTime) {
+    throw new ShiftError('invalid_input', 'Both the actual call and wrap times are required');
+  }
+  validateTimeRange(actualCallTime, actualWrapTime);
+  validateBreaks(actualBreaks, actualCallTime, actualWrapTime);
+
+  return {
+    actual_call_time: actualCallTime,
+    actual_wrap_time: actualWrapTime,
+    actual_breaks: actualBreaks,
+  };
+}
+
+/**
+ * Ensures a shift can have hours logged: it was worked and its day has started
+ * in the production's timezone
+ */
+async function assertShiftWorked(supabase: ServerClient, shift: Shift): Promise<void> {
+  if (!WORKED_STATUSES.includes(shift.confirmation_status)) {
+    throw new ShiftError('invalid_transition', 'Hours can only be logged for confirmed shifts');
+  }
+
+  const timezone = await getProductionTimezone(supabase, shift.production_id);
+  if (shift.date > getTodayInTimezone(timezone)) {
+    throw new ShiftError('invalid_input', 'Hours can only be logged once the shift day has started');
+  }
+}
+
+/**
+ * Records the PA's actual call, wrap and breaks for a shift they worked. PAs can
+ * correct their hours until a coordinator approves them.
+ */
+export async function submitShiftHours(
+  supabase: ServerClient,
+  userId: string,
+  shiftId: string,
+  input: ActualHoursInput
+): Promise<Shift> {
+  const shift = await getShiftOrThrow(supabase, shiftId);
+
+  if (shift.assigned_pa_id !== userId) {
+    throw new ShiftError('forbidden', 'Only the assigned PA can log hours for this shift');
+  }
+  if (shift.hours_status === 'approved') {
+    throw new ShiftError('invalid_transition', 'These hours have already been approved');
+  }
+  await assertShiftWorked(supabase, shift);
+
+  // Guard against approval landing while the PA was editing
+  const { data, error } = await supabase
+    .from('shifts')
+    .update({
+      ...buildActualHoursUpdate(shift, input),
+      hours_status: 'submitted',
+      hours_submitted_at: new Date().toISOString(),
+    })
+    .eq('id', shiftId)
+    .or('hours_status.is.null,hours_status.eq.submitted')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to save hours: ${error.message}`);
+  }
+  if (!data) {
+    throw new ShiftError('invalid_transition', 'These hours were approved by a coordinator. Please refresh.');
+  }
+
+  return data;
+}
+
+/**
+ * Approves a shift's logged hours. Coordinators can correct the times while
+ * approving, or enter them for a PA who never logged any.
+ */
+export async function approveShiftHours(
+  supabase: ServerClient,
+  userId: string,
+  shiftId: string,
+  input: ActualHoursInput = {}
+): Promise<Shift> {
+  const shift = await getShiftOrThrow(supabase, shiftId);
+  await assertCanManageShift(supabase, shift, userId);
+  await assertShiftWorked(supabase, shift);
+
+  const { data, error } = await supabase
+    .from('shifts')
+    .update({
+      ...buildActualHoursUpdate(shift, input),
+      hours_status: 'approved',
+      hours_approved_by: userId,
+      hours_approved_at: new Date().toISOString(),
+    })
+    .eq('id', shiftId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to approve hours: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Builds a production's Mon-Sun timesheet: every worked shift with its logged
+ * hours split into regular and overtime, plus weekly totals per PA
+ */
+export async function getTimesheet(
+  supabase: ServerClient,
+  userId: string,
+  query: TimesheetQuery
+): Promise<Timesheet> {
+  if (!query.productionId) {
+    throw new ShiftError('invalid_input', 'productionId is required');
+  }
+
+  const membership = await getMembership(supabase, query.productionId, userId);
+  if (!membership || membership.role !== 'PC') {
+    throw new ShiftError('forbidden', 'Only coordinators can view timesheets');
+  }
+
+  const weekStart = getMondayOfWeekISO(validateDate(query.weekStart));
+  const weekEnd = addDaysToISO(weekStart, 6);
+
+  const { data: production, error: productionError } = await supabase
+    .from('productions')
+    .select('*')
+    .eq('id', query.productionId)
+    .maybeSingle();
+
+  if (productionError) {
+    throw new Error(`Failed to fetch production: ${productionError.message}`);
+  }
+  if (!production) {
+    throw new ShiftError('not_found', 'Production not found');
+  }
+
+  const paIds = (await getProductionMemberIds(supabase, query.productionId, 'PA')).filter(
+    (id) => !query.paId || id === query.paId
+  );
+  const rules = getSchedulingRules(production);
+  const entries: TimesheetEntry[] = [];
+
+  if (paIds.length > 0) {
+    // Shifts created before production scoping have no production_id
+    const { data: shifts, error: shiftsError } = await supabase
+      .from('shifts')
+      .select('*')
+      .in('assigned_pa_id', paIds)
+      .or(`production_id.eq.${query.productionId},production_id.is.null`)
+      .in('confirmation_status', WORKED_STATUSES)
+      .gte('date', weekStart)
+      .lte('date', weekEnd)
+      .order('date');
+
+    if (shiftsError) {
+      throw new Error(`Failed to fetch shifts: ${shiftsError.message}`);
+    }
+
+    // A PA can work on several productions, so a legacy shift only counts here
+    // when one of this production's coordinators assigned it
+    const coordinatorIds = new Set(await getProductionMemberIds(supabase, query.productionId, 'PC'));
+    const productionShifts = (shifts || []).filter(
+      (shift) => shift.production_id || coordinatorIds.has(shift.assigned_by_id)
+    );
+
+    const { data: pas } = await supabase.from('users').select('id, name').in('id', paIds);
+    const names = new Map((pas || []).map((pa) => [pa.id, pa.name]));
+
+    entries.push(...productionShifts.map((shift) => toEntry(shift, names.get(shift.assigned_pa_id) || 'Unknown')));
+  }
+
+  // Weekly overtime depends on every day worked, so it's worked out before
+  // unapproved days are left out of an export
+  const calculated = calculateOvertime(entries, rules)
+    .filter((entry) => !query.approvedOnly || entry.hoursStatus === 'approved')
+    .sort((a, b) => a.paName.localeCompare(b.paName) || a.date.localeCompare(b.date));
+
+  const totals = new Map<string, TimesheetTotal>();
+  for (const entry of calculated) {
+    const total = totals.get(entry.paId) || {
+      paId: entry.paId,
+      paName: entry.paName,
+      workedMinutes: 0,
+      regularMinutes: 0,
+      overtimeMinutes: 0,
+    };
+    total.workedMinutes += entry.workedMinutes;
+    total.regularMinutes += entry.regularMinutes;
+    total.overtimeMinutes += entry.overtimeMinutes;
+    totals.set(entry.paId, total);
+  }
+
+  return {
+    productionId: production.id,
+    productionName: production.name,
+    weekStart,
+    weekEnd,
+    rules: { dailyOvertimeHours: rules.dailyOvertimeHours, weeklyOvertimeHours: rules.weeklyOvertimeHours },
+    entries: calculated,
+    totals: [...totals.values()],
+  };
+}
+
+function toDecimalHours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+function toClock(timeStr: string | null): string | null {
+  return timeStr ? timeStr.split(':').slice(0, 2).join(':') : null;
+}
+
+/**
+ * One row per shift with hours as decimals, the layout payroll imports expect
+ */
+export function timesheetToCsv(timesheet: Timesheet): string {
+  const header = [
+    'Production',
+    'Employee',
+    'Employee ID',
+    'Date',
+    'Scheduled Call',
+    'Scheduled Wrap',
+    'Actual Call',
+    'Actual Wrap',
+    'Break Hours',
+    'Worked Hours',
+    'Regular Hours',
+    'Overtime Hours',
+    'Status',
+  ];
+
+  const rows = timesheet.entries.map((entry) => [
+    timesheet.productionName,
+    entry.paName,
+    entry.paId,
+    entry.date,
+    toClock(entry.callTime),
+    toClock(entry.wrapTime),
+    toClock(entry.actualCallTime),
+    toClock(entry.actualWrapTime),
+    toDecimalHours(entry.breakMinutes),
+    toDecimalHours(entry.workedMinutes),
+    toDecimalHours(entry.regularMinutes),
+    toDecimalHours(entry.overtimeMinutes),
+    entry.hoursStatus ?? 'not logged',
+  ]);
+
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,82 @@
+import type { Database } from '@/lib/supabase/types';
+
+export type ShiftStatus = Database['public']['Tables']['shifts']['Row']['confirmation_status'];
+
+export type ShiftAction =
+  | 'confirm'
+  | 'decline'
+  | 'cancel'
+  | 'request_release'
+  | 'approve_release'
+  | 'deny_release'
+  | 'reoffer'
+  | 'auto_release';
+
+/** Which side of the production may perform an action. System actions are only taken by background jobs. */
+export type ShiftActor = 'PA' | 'PC' | 'system';
+
+interface ShiftTransition {
+  from: ShiftStatus[];
+  to: ShiftStatus;
+  actor: ShiftActor;
+  label: string;
+  requiresReason?: boolean;
+}
+
+/**
+ * Every allowed status change. Anything not listed here is rejected by the API.
+ *
+ * pending ─confirm─▶ confirmed ─request_release─▶ release_requested ─approve_release─▶ released
+ *    │                   ▲                              │
+ *    └─decline─▶ declined └──────── deny_release ───────┘
+ *
+ * Coordinators can cancel any live shift and re-offer declined, cancelled or
+ * released shifts, which puts them back to pending. Offers nobody answers can be
+ * released automatically by the reminders job.
+ */
+export const SHIFT_TRANSITIONS: Record<ShiftAction, ShiftTransition> = {
+  confirm: { from: ['pending'], to: 'confirmed', actor: 'PA', label: 'Confirm' },
+  decline: { from: ['pending'], to: 'declined', actor: 'PA', label: 'Decline' },
+  request_release: {
+    from: ['confirmed'],
+    to: 'release_requested',
+    actor: 'PA',
+    label: 'Request Release',
+    requiresReason: true,
+  },
+  cancel: {
+    from: ['pending', 'confirmed', 'release_requested'],
+    to: 'cancelled',
+    actor: 'PC',
+    label: 'Cancel Shift',
+  },
+  approve_release: { from: ['release_requested'], to: 'released', actor: 'PC', label: 'Approve Release' },
+  deny_release: { from: ['release_requested'], to: 'confirmed', actor: 'PC', label: 'Deny Release' },
+  reoffer: {
+    from: ['declined', 'cancelled', 'released'],
+    to: 'pending',
+    actor: 'PC',
+    label: 'Re-offer',
+  },
+  auto_release: { from: ['pending'], to: 'released', actor: 'system', label: 'Auto-release' },
+};
+
+export const SHIFT_STATUS_LABELS: Record<ShiftStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  release_requested: 'Release Requested',
+  released: 'Released',
+};
+
+/**
+ * Lists the actions a PA or PC can take on a shift in its current status
+ */
+export function getAvailableActions(status: ShiftStatus, actor: ShiftActor): ShiftAction[] {
+  return (Object.keys(SHIFT_TRANSITIONS) as ShiftAction[]).filter((action) => {
+    const transition = SHIFT_TRANSITIONS[action];
+    return transition.actor === actor && transition.from.includes(status);
+  });
+}
+
@@ -0,0 +1,130 @@
+import type { ShiftBreak } from '@/lib/supabase/types';
+import { ShiftError } from './errors';
+import { minutesFromCall } from './time';
+
+const MAX_BREAKS = 4;
+const BREAK_TYPES: ShiftBreak['type'][] = ['meal', 'split'];
+
+/**
+ * Normalizes a time string from a time input (HH:MM) to the database format (HH:MM:SS).
+ * Empty values become null; anything else that isn't a valid time is rejected.
+ */
+export function normalizeTime(timeStr: string | null | undefined, field: string): string | null {
+  if (!timeStr) return null;
+
+  const match = /^(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(timeStr);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59 || Number(match[3] ?? 0) > 59) {
+    throw new ShiftError('invalid_input', `${field} must be a valid time (HH:MM)`);
+  }
+
+  return `${match[1]}:${match[2]}:${match[3] ?? '00'}`;
+}
+
+/**
+ * Validates a YYYY-MM-DD date string
+ */
+export function validateDate(dateStr: unknown): string {
+  if (typeof dateStr !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+    throw new ShiftError('invalid_input', 'Date must be in YYYY-MM-DD format');
+  }
+
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new ShiftError('invalid_input', `${dateStr} is not a valid date`);
+  }
+
+  return dateStr;
+}
+
+/**
+ * Ensures call and wrap differ when both are set. A wrap earlier than the call
+ * is an overnight shift that wraps the following day.
+ */
+export function validateTimeRange(callTime: string | null, wrapTime: string | null): void {
+  if (callTime && wrapTime && wrapTime === callTime) {
+    throw new ShiftError('invalid_input', 'Wrap time must be different from call time');
+  }
+}
+
+/**
+ * Normalizes a list of breaks from the client. An empty list becomes null.
+ */
+export function normalizeBreaks(value: unknown): ShiftBreak[] | null {
+  if (value === null || value === undefined) return null;
+  if (!Array.isArray(value) || value.length > MAX_BREAKS) {
+    throw new ShiftError('invalid_input', `Breaks must be a list of at most ${MAX_BREAKS} entries`);
+  }
+  if (value.length === 0) return null;
+
+  return value.map((entry) => {
+    if (!entry || !BREAK_TYPES.includes(entry.type)) {
+      throw new ShiftError('invalid_input', 'Each break must be a meal break or a split');
+    }
+    const start = normalizeTime(entry.start, 'Break start');
+    const end = normalizeTime(entry.end, 'Break end');
+    if (!start || !end) {
+      throw new ShiftError('invalid_input', 'Each break needs a start and end time');
+    }
+    return { type: entry.type, start, end };
+  });
+}
+
+/**
+ * Ensures breaks fall between call and wrap without overlapping. Break times
+ * are read relative to the call, so they can run past midnight too.
+ */
+export function validateBreaks(
+  breaks: ShiftBreak[] | null,
+  callTime: string | null,
+  wrapTime: string | null
+): void {
+  if (!breaks || breaks.length === 0) return;
+  if (!callTime || !wrapTime) {
+    throw new ShiftError('invalid_input', 'Set call and wrap times before adding breaks');
+  }
+
+  const span = minutesFromCall(callTime, wrapTime);
+  const offsets = breaks
+    .map((b) => ({ start: minutesFromCall(callTime, b.start), end: minutesFromCall(callTime, b.end) }))
+    .sort((a, b) => a.start - b.start);
+
+  let previousEnd = 0;
+  for (const offset of offsets) {
+    if (offset.start <= 0 || offset.end <= offset.start || offset.end >= span) {
+      throw new ShiftError('invalid_input', 'Breaks must start and end between call and wrap');
+    }
+    if (offset.start < previousEnd) {
+      throw new ShiftError('invalid_input', 'Breaks cannot overlap');
+    }
+    previousEnd = offset.end;
+  }
+}
+
+/**
+ * Trims an optional text field, turning blank values into null
+ */
+export function normalizeText(value: string | null | undefined): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Validates an optional map link, which must be an http(s) URL
+ */
+export function normalizeMapUrl(value: string | null | undefined): string | null {
+  const url = normalizeText(value);
+  if (!url) return null;
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error('Unsupported protocol');
+    }
+  } catch {
+    throw new ShiftError('invalid_input', 'Map link must be a valid http(s) URL');
+  }
+
+  return url;
+}
@@ -0,0 +1,22 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from './types';
+
+/**
+ * Creates a Supabase client with the service role key. It bypasses row level
+ * security, so only use it on the server for requests that have no user session
+ * (calendar feeds, scheduled jobs) and check access yourself.
+ */
+export function createAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      'Missing Supabase environment variables. Please ensure NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set.'
+    );
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,20 @@
+const PAGE_SIZE = 1000; // Supabase caps a single select at 1000 rows
+
+/**
+ * Reads every row of a query page by page, so large results aren't cut off at
+ * the row cap. The query should have a stable order.
+ */
+export async function selectAll<T>(
+  label: string,
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to fetch ${label}: ${error.message}`);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
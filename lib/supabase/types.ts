@@ -6,6 +6,13 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[];
 
+/** An unpaid gap inside a shift. Times earlier than the call fall on the next day. */
+export interface ShiftBreak {
+  type: 'meal' | 'split';
+  start: string;
+  end: string;
+}
+
 export type Database = {
   public: {
     Tables: {
@@ -19,6 +26,9 @@ export type Database = {
           notes: string | null;
           project_code: string | null;
           production_id: string | null;
+          day_rate: number | null; // The PA's standard rates, used unless a production sets its own
+          hourly_rate: number | null;
+          calendar_token: string | null; // Secret in the PA's ICS feed URL; null until they create one
           created_at?: string;
           updated_at?: string;
         };
@@ -31,6 +41,9 @@ export type Database = {
           notes?: string | null;
           project_code?: string | null;
           production_id?: string | null;
+          day_rate?: number | null;
+          hourly_rate?: number | null;
+          calendar_token?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -43,9 +56,13 @@ export type Database = {
           notes?: string | null;
           project_code?: string | null;
           production_id?: string | null;
+          day_rate?: number | null;
+          hourly_rate?: number | null;
+          calendar_token?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       availability: {
         Row: {
@@ -54,6 +71,9 @@ export type Database = {
           date: string;
           status: 'unavailable' | 'available' | 'preferred';
           pa_note: string | null;
+          rule_id: string | null; // Set on rows generated from a recurring rule; manual rows are null
+          available_from: string | null; // HH:MM:SS; null means from the start of the day
+          available_until: string | null; // HH:MM:SS; null means to the end of the day
           created_at?: string;
           updated_at?: string;
         };
@@ -63,6 +83,9 @@ export type Database = {
           date: string;
           status: 'unavailable' | 'available' | 'preferred';
           pa_note?: string | null;
+          rule_id?: string | null;
+          available_from?: string | null;
+          available_until?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -72,9 +95,13 @@ export type Database = {
           date?: string;
           status?: 'unavailable' | 'available' | 'preferred';
           pa_note?: string | null;
+          rule_id?: string | null;
+          available_from?: string | null;
+          available_until?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       shifts: {
         Row: {
@@ -82,9 +109,29 @@ export type Database = {
           date: string;
           assigned_pa_id: string;
           assigned_by_id: string;
+          production_id: string | null;
           call_time: string | null;
           wrap_time: string | null;
-          confirmation_status: 'pending' | 'confirmed' | 'declined';
+          confirmation_status: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released';
+          location: string | null;
+          unit_base: string | null;
+          parking_notes: string | null;
+          map_url: string | null;
+          decline_reason: string | null;
+          proposed_pa_id: string | null;
+          open_shift_id: string | null;
+          reoffered_open_shift_id: string | null; // Open shift posted to replace the PA after they declined
+          offered_at: string | null; // When the current PA was offered the shift, if after creation (e.g. a swap)
+          reminder_sent_at: string | null; // Pending-confirmation reminder sent to the PA
+          escalated_at: string | null; // Coordinator told the PA hasn't responded
+          breaks: ShiftBreak[] | null; // Meal breaks and split-shift gaps between call and wrap
+          actual_call_time: string | null; // Hours actually worked, logged by the PA after the shift
+          actual_wrap_time: string | null;
+          actual_breaks: ShiftBreak[] | null;
+          hours_status: 'submitted' | 'approved' | null; // null until the PA logs their hours
+          hours_submitted_at: string | null;
+          hours_approved_by: string | null;
+          hours_approved_at: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -93,9 +140,29 @@ export type Database = {
           date: string;
           assigned_pa_id: string;
           assigned_by_id: string;
+          production_id?: string | null;
           call_time?: string | null;
           wrap_time?: string | null;
-          confirmation_status?: 'pending' | 'confirmed' | 'declined';
+          confirmation_status?: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released';
+          location?: string | null;
+          unit_base?: string | null;
+          parking_notes?: string | null;
+          map_url?: string | null;
+          decline_reason?: string | null;
+          proposed_pa_id?: string | null;
+          open_shift_id?: string | null;
+          reoffered_open_shift_id?: string | null;
+          offered_at?: string | null;
+          reminder_sent_at?: string | null;
+          escalated_at?: string | null;
+          breaks?: ShiftBreak[] | null;
+          actual_call_time?: string | null;
+          actual_wrap_time?: string | null;
+          actual_breaks?: ShiftBreak[] | null;
+          hours_status?: 'submitted' | 'approved' | null;
+          hours_submitted_at?: string | null;
+          hours_approved_by?: string | null;
+          hours_approved_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -103,13 +170,34 @@ export type Database = {
           id?: string;
           assigned_pa_id?: string;
           assigned_by_id?: string;
+          production_id?: string | null;
           date?: string;
           call_time?: string | null;
           wrap_time?: string | null;
-          confirmation_status?: 'pending' | 'confirmed' | 'declined';
+          confirmation_status?: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released';
+          location?: string | null;
+          unit_base?: string | null;
+          parking_notes?: string | null;
+          map_url?: string | null;
+          decline_reason?: string | null;
+          proposed_pa_id?: string | null;
+          open_shift_id?: string | null;
+          reoffered_open_shift_id?: string | null;
+          offered_at?: string | null;
+          reminder_sent_at?: string | null;
+          escalated_at?: string | null;
+          breaks?: ShiftBreak[] | null;
+          actual_call_time?: string | null;
+          actual_wrap_time?: string | null;
+          actual_breaks?: ShiftBreak[] | null;
+          hours_status?: 'submitted' | 'approved' | null;
+          hours_submitted_at?: string | null;
+          hours_approved_by?: string | null;
+          hours_approved_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       productions: {
         Row: {
@@ -120,6 +208,21 @@ export type Database = {
           start_date: string | null;
           end_date: string | null;
           is_active: boolean;
+          timezone: string | null; // IANA name; dates and "today" are computed in this zone
+          min_turnaround_hours: number | null; // Scheduling rules; null uses the app default, 0 turns the rule off
+          max_consecutive_days: number | null;
+          max_weekly_hours: number | null;
+          meal_penalty_hours: number | null;
+          daily_overtime_hours: number | null;
+          weekly_overtime_hours: number | null;
+          weekly_labor_budget: number | null; // Planned PA labor spend per Mon-Sun week
+          reminder_after_hours: number | null; // Pending-offer follow-ups; null uses the app default, 0 turns it off
+          escalate_after_hours: number | null;
+          auto_release_after_hours: number | null;
+          availability_deadline_weekday: number | null; // Day (0 = Sunday) in the week before that a week's availability is due; null means no deadline
+          availability_deadline_time: string | null; // HH:MM:SS in the production's timezone; null uses the app default
+          availability_reminder_hours: number | null; // Hours before the deadline non-submitters are emailed; 0 turns it off
+          availability_reminded_week: string | null; // Monday of the last week non-submitters were reminded about
           created_at?: string;
           updated_at?: string;
         };
@@ -131,6 +234,21 @@ export type Database = {
           start_date?: string | null;
           end_date?: string | null;
           is_active?: boolean;
+          timezone?: string | null;
+          min_turnaround_hours?: number | null;
+          max_consecutive_days?: number | null;
+          max_weekly_hours?: number | null;
+          meal_penalty_hours?: number | null;
+          daily_overtime_hours?: number | null;
+          weekly_overtime_hours?: number | null;
+          weekly_labor_budget?: number | null;
+          reminder_after_hours?: number | null;
+          escalate_after_hours?: number | null;
+          auto_release_after_hours?: number | null;
+          availability_deadline_weekday?: number | null;
+          availability_deadline_time?: string | null;
+          availability_reminder_hours?: number | null;
+          availability_reminded_week?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -142,10 +260,266 @@ export type Database = {
           start_date?: string | null;
           end_date?: string | null;
           is_active?: boolean;
+          timezone?: string | null;
+          min_turnaround_hours?: number | null;
+          max_consecutive_days?: number | null;
+          max_weekly_hours?: number | null;
+          meal_penalty_hours?: number | null;
+          daily_overtime_hours?: number | null;
+          weekly_overtime_hours?: number | null;
+          weekly_labor_budget?: number | null;
+          reminder_after_hours?: number | null;
+          escalate_after_hours?: number | null;
+          auto_release_after_hours?: number | null;
+          availability_deadline_weekday?: number | null;
+          availability_deadline_time?: string | null;
+          availability_reminder_hours?: number | null;
+          availability_reminded_week?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
+      production_members: {
+        Row: {
+          id: string;
+          production_id: string;
+          user_id: string;
+          role: 'PA' | 'PC';
+          permission: 'owner' | 'scheduler' | 'read_only' | null;
+          day_rate: number | null; // Overrides the PA's own rates on this production
+          hourly_rate: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Insert: {
+          id?: string;
+          production_id: string;
+          user_id: string;
+          role: 'PA' | 'PC';
+          permission?: 'owner' | 'scheduler' | 'read_only' | null;
+          day_rate?: number | null;
+          hourly_rate?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          production_id?: string;
+          user_id?: string;
+          role?: 'PA' | 'PC';
+          permission?: 'owner' | 'scheduler' | 'read_only' | null;
+          day_rate?: number | null;
+          hourly_rate?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      coordinator_invites: {
+        Row: {
+          id: string;
+          production_id: string;
+          code: string;
+          permission: 'owner' | 'scheduler' | 'read_only';
+          created_by: string;
+          used_by: string | null;
+          used_at: string | null;
+          created_at?: string;
+        };
+        Insert: {
+          id?: string;
+          production_id: string;
+          code: string;
+          permission: 'owner' | 'scheduler' | 'read_only';
+          created_by: string;
+          used_by?: string | null;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          production_id?: string;
+          code?: string;
+          permission?: 'owner' | 'scheduler' | 'read_only';
+          created_by?: string;
+          used_by?: string | null;
+          used_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      shift_history: {
+        Row: {
+          id: string;
+          shift_id: string;
+          actor_id: string;
+          from_status: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released' | null;
+          to_status: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released';
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          shift_id: string;
+          actor_id: string;
+          from_status?: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released' | null;
+          to_status: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released';
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          shift_id?: string;
+          actor_id?: string;
+          from_status?: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released' | null;
+          to_status?: 'pending' | 'confirmed' | 'declined' | 'cancelled' | 'release_requested' | 'released';
+          reason?: string | null;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      open_shifts: {
+        Row: {
+          id: string;
+          production_id: string;
+          date: string;
+          call_time: string | null;
+          wrap_time: string | null;
+          location: string | null;
+          unit_base: string | null;
+          parking_notes: string | null;
+          map_url: string | null;
+          breaks: ShiftBreak[] | null; // Copied onto the shift of each PA who claims a slot
+          slots_total: number;
+          slots_filled: number;
+          status: 'open' | 'filled' | 'closed';
+          created_by: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Insert: {
+          id?: string;
+          production_id: string;
+          date: string;
+          call_time?: string | null;
+          wrap_time?: string | null;
+          location?: string | null;
+          unit_base?: string | null;
+          parking_notes?: string | null;
+          map_url?: string | null;
+          breaks?: ShiftBreak[] | null;
+          slots_total: number;
+          slots_filled?: number;
+          status?: 'open' | 'filled' | 'closed';
+          created_by: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          production_id?: string;
+          date?: string;
+          call_time?: string | null;
+          wrap_time?: string | null;
+          location?: string | null;
+          unit_base?: string | null;
+          parking_notes?: string | null;
+          map_url?: string | null;
+          breaks?: ShiftBreak[] | null;
+          slots_total?: number;
+          slots_filled?: number;
+          status?: 'open' | 'filled' | 'closed';
+          created_by?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      availability_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          status: 'unavailable' | 'available' | 'preferred';
+          weekdays: number[]; // 0 = Sunday … 6 = Saturday
+          start_date: string;
+          end_date: string | null; // Open-ended when null
+          exceptions: string[]; // Dates the rule skips
+          created_at?: string;
+          updated_at?: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          status: 'unavailable' | 'available' | 'preferred';
+          weekdays: number[];
+          start_date: string;
+          end_date?: string | null;
+          exceptions?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          status?: 'unavailable' | 'available' | 'preferred';
+          weekdays?: number[];
+          start_date?: string;
+          end_date?: string | null;
+          exceptions?: string[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      availability_submissions: {
+        Row: {
+          id: string;
+          production_id: string;
+          user_id: string;
+          week_start: string; // Monday of the submitted week; the PA's availability that week is locked
+          submitted_at: string;
+          unlock_requested_at: string | null; // The PA asked the coordinators to reopen the week
+          unlock_reason: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Insert: {
+          id?: string;
+          production_id: string;
+          user_id: string;
+          week_start: string;
+          submitted_at?: string;
+          unlock_requested_at?: string | null;
+          unlock_reason?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          production_id?: string;
+          user_id?: string;
+          week_start?: string;
+          submitted_at?: string;
+          unlock_requested_at?: string | null;
+          unlock_reason?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      [_ in never]: never;
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
 };
@@ -0,0 +1,13 @@
+/**
+ * Whether a request carries `Authorization: Bearer $CRON_SECRET`, the header
+ * Vercel Cron sends. Throws if the secret isn't configured, so a missing env
+ * var fails loudly instead of leaving the job open.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    throw new Error('Missing CRON_SECRET environment variable.');
+  }
+
+  return request.headers.get('authorization') === `Bearer ${cronSecret}`;
+}
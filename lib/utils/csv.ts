@@ -0,0 +1,17 @@
+/**
+ * Builds CSV text from rows of cells. Cells containing commas, quotes or line
+ * breaks are quoted, and rows end in CRLF as spreadsheet imports expect.
+ */
+export function toCsv(rows: Array<Array<string | number | null>>): string {
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Spreadsheets read text starting with these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvField(value: string | number | null): string {
+  if (value === null) return '';
+  // Text from users is prefixed with ' so it can't run as a formula; numbers are ours
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,152 @@
+/**
+ * Calendar date helpers. Shift and availability dates are plain YYYY-MM-DD
+ * strings in the production's timezone, so they're never parsed with
+ * `new Date(dateStr)` (which reads them as UTC midnight and can shift the day).
+ */
+
+/** Used for productions created before timezones were configurable */
+export const DEFAULT_TIMEZONE = 'UTC';
+
+export const TIMEZONE_OPTIONS = [
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Chicago',
+  'America/New_York',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'America/Toronto',
+  'America/Vancouver',
+  'America/Mexico_City',
+  'Europe/London',
+  'Europe/Dublin',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Europe/Budapest',
+  'Europe/Prague',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+  'UTC',
+];
+
+/**
+ * Checks that a string is an IANA timezone the runtime understands
+ *
+ * @param timezone - e.g. "America/Los_Angeles"
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Today's date in a timezone, as YYYY-MM-DD
+ *
+ * @param timezone - IANA timezone; falls back to the default when missing or invalid
+ */
+export function getTodayInTimezone(timezone: string | null | undefined): string {
+  const zone = timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: zone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date());
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date string without any timezone conversion
+ */
+export function addDaysToISO(isoDateStr: string, days: number): string {
+  const [year, month, day] = isoDateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Monday of the week (Mon-Sun) containing a YYYY-MM-DD date
+ */
+export function getMondayOfWeekISO(isoDateStr: string): string {
+  const [year, month, day] = isoDateStr.split('-').map(Number);
+  const dayOfWeek = new Date(Date.UTC(year, month - 1, day)).getUTCDay(); // 0 = Sunday
+  return addDaysToISO(isoDateStr, dayOfWeek === 0 ? -6 : 1 - dayOfWeek);
+}
+
+/**
+ * First and last day of a month as YYYY-MM-DD
+ *
+ * @param year - Full year
+ * @param monthIndex - 0-based month, as in Date
+ */
+export function getMonthBoundsISO(year: number, monthIndex: number): { start: string; end: string } {
+  return {
+    start: new Date(Date.UTC(year, monthIndex, 1)).toISOString().split('T')[0],
+    end: new Date(Date.UTC(year, monthIndex + 1, 0)).toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Formats a YYYY-MM-DD date for display. The date is formatted as-is, so it
+ * reads the same for viewers in any timezone.
+ */
+export function formatISODate(isoDateStr: string, options: Intl.DateTimeFormatOptions): string {
+  const [year, month, day] = isoDateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    ...options,
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Short timezone name in effect on a date, e.g. "PDT", for labelling call times
+ */
+export function getTimezoneLabel(timezone: string | null | undefined, isoDateStr: string): string {
+  const zone = timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  const [year, month, day] = isoDateStr.split('-').map(Number);
+  // Midday UTC lands on the same calendar date in nearly every timezone
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+    .formatToParts(new Date(Date.UTC(year, month - 1, day, 12)));
+  return parts.find((part) => part.type === 'timeZoneName')?.value ?? zone;
+}
+
+/**
+ * The instant a wall-clock time on a date occurs in a timezone
+ *
+ * @param timeStr - HH:MM or HH:MM:SS
+ */
+export function getInstantInTimezone(
+  isoDateStr: string,
+  timeStr: string,
+  timezone: string | null | undefined
+): Date {
+  const zone = timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  const [year, month, day] = isoDateStr.split('-').map(Number);
+  const [hours, minutes] = timeStr.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Offset of the zone from UTC at an instant, in milliseconds
+  const getOffset = (instant: number) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    }).formatToParts(new Date(instant));
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute')) - instant;
+  };
+
+  // Re-checking the offset at the first guess settles days when the clocks change
+  const guess = wallClock - getOffset(wallClock);
+  return new Date(wallClock - getOffset(guess));
+}
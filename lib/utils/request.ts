@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Parses a JSON object request body. A malformed body gives back a 400
+ * `invalid_input` response to return instead of throwing. The fields are
+ * unchecked, so callers still validate them.
+ */
+export async function readJsonBody<T extends object>(
+  request: Request
+): Promise<{ body: T } | { response: NextResponse }> {
+  const body = await request.json().catch(() => null);
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Request body must be a JSON object', code: 'invalid_input' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { body: body as T };
+}